@@ -2,10 +2,29 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { Order } from '@/lib/types'
+import { formatCents, toCents } from '@/lib/money'
 import { Clock, ChefHat, CheckCircle, Package, Phone, X } from 'lucide-react'
+import AdminMenuEditor from '@/components/AdminMenuEditor'
+import AdminInventoryEditor from '@/components/AdminInventoryEditor'
+import AdminLoyalty from '@/components/AdminLoyalty'
+import AdminPriceRules from '@/components/AdminPriceRules'
+import AdminPromoCodes from '@/components/AdminPromoCodes'
+import AdminTaxRates from '@/components/AdminTaxRates'
 
 const ADMIN_SESSION_KEY = 'denver-kabob-admin-authenticated'
 
+const adminTabs = {
+  orders: 'Orders',
+  menu: 'Menu',
+  inventory: 'Inventory',
+  specials: 'Specials',
+  promos: 'Promo Codes',
+  taxes: 'Taxes',
+  loyalty: 'Loyalty',
+}
+
+type AdminTab = keyof typeof adminTabs
+
 const statusConfig = {
   pending: { label: 'Pending', color: 'bg-yellow-100 text-yellow-800', icon: Clock },
   preparing: { label: 'Preparing', color: 'bg-blue-100 text-blue-800', icon: ChefHat },
@@ -67,6 +86,7 @@ export default function AdminDashboard() {
   const [showNewOrderAlert, setShowNewOrderAlert] = useState(false)
   const [newOrderNumber, setNewOrderNumber] = useState<number | null>(null)
   const [lastFetchTime, setLastFetchTime] = useState<Date | null>(null)
+  const [activeTab, setActiveTab] = useState<AdminTab>('orders')
   const audioRef = useRef<HTMLAudioElement | null>(null)
   const audioIntervalRef = useRef<NodeJS.Timeout | null>(null)
   const lastOrderCountRef = useRef(0)
@@ -292,6 +312,20 @@ export default function AdminDashboard() {
     }
   }
 
+  const handleLogout = useCallback(() => {
+    setAuthenticated(false)
+    setAdminSession(false)
+    setPassword('')
+    setOrders([])
+    setHasNewOrder(false)
+    setNewOrderIds(new Set())
+    setActiveTab('orders')
+    lastOrderCountRef.current = 0
+    lastOrderIdsRef.current = new Set()
+    // Clear the server session cookie used by the admin API routes
+    fetch('/api/admin/logout', { method: 'POST' }).catch(() => {})
+  }, [])
+
   const callCustomer = (phone: string) => {
     window.location.href = `tel:${phone}`
   }
@@ -443,16 +477,7 @@ export default function AdminDashboard() {
               {loading || isRefreshing ? 'Refreshing...' : 'Refresh'}
             </button>
             <button
-              onClick={() => {
-                setAuthenticated(false)
-                setAdminSession(false)
-                setPassword('')
-                setOrders([])
-                setHasNewOrder(false)
-                setNewOrderIds(new Set())
-                lastOrderCountRef.current = 0
-                lastOrderIdsRef.current = new Set()
-              }}
+              onClick={handleLogout}
               className="text-gray-600 hover:text-black font-semibold"
             >
               Logout
@@ -460,6 +485,37 @@ export default function AdminDashboard() {
           </div>
         </div>
 
+        {/* Tabs */}
+        <div className="flex gap-2 mb-6">
+          {(Object.keys(adminTabs) as AdminTab[]).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-5 py-2 rounded-lg font-semibold transition-colors ${
+                activeTab === tab
+                  ? 'bg-black text-white'
+                  : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-200'
+              }`}
+            >
+              {adminTabs[tab]}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'menu' ? (
+          <AdminMenuEditor onUnauthorized={handleLogout} />
+        ) : activeTab === 'inventory' ? (
+          <AdminInventoryEditor onUnauthorized={handleLogout} />
+        ) : activeTab === 'specials' ? (
+          <AdminPriceRules onUnauthorized={handleLogout} />
+        ) : activeTab === 'promos' ? (
+          <AdminPromoCodes onUnauthorized={handleLogout} />
+        ) : activeTab === 'taxes' ? (
+          <AdminTaxRates onUnauthorized={handleLogout} />
+        ) : activeTab === 'loyalty' ? (
+          <AdminLoyalty onUnauthorized={handleLogout} />
+        ) : (
+        <>
         {/* Error Display */}
         {fetchError && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -597,6 +653,13 @@ export default function AdminDashboard() {
                             <span className="font-semibold">Tip:</span> ${order.tip_amount.toFixed(2)}
                           </p>
                         )}
+                        {typeof order.discount_amount === 'number' && order.discount_amount > 0 && (
+                          <p className="text-gray-700">
+                            <span className="font-semibold">{order.loyalty_reward ? 'Reward:' : 'Promo:'}</span>{' '}
+                            {order.promo_code || order.loyalty_reward || 'Discount'}{' '}
+                            {formatCents(-toCents(order.discount_amount))}
+                          </p>
+                        )}
                         {order.comments && (
                           <p className="text-gray-700">
                             <span className="font-semibold">Comments:</span> {order.comments}
@@ -609,7 +672,19 @@ export default function AdminDashboard() {
                         <ul className="space-y-1 text-gray-700">
                           {order.order_items?.map((item: any, idx: number) => (
                             <li key={idx} className="text-sm">
-                              {item.quantity}x {item.menu_item_name} - ${(item.price * item.quantity).toFixed(2)}
+                              {/* Group orders: name each item's person so bags can be labeled */}
+                              {item.participant_name &&
+                                item.participant_name !== order.order_items[idx - 1]?.participant_name && (
+                                  <span className="block mt-2 font-semibold text-gray-900">
+                                    {item.participant_name}
+                                  </span>
+                                )}
+                              {item.quantity}x {item.menu_item_name} - {formatCents(toCents(item.price) * item.quantity)}
+                              {item.special_instructions && (
+                                <span className="block ml-4 text-xs font-semibold text-red-700">
+                                  Note: {item.special_instructions}
+                                </span>
+                              )}
                             </li>
                           ))}
                         </ul>
@@ -661,6 +736,8 @@ export default function AdminDashboard() {
             })}
           </div>
         )}
+        </>
+        )}
       </div>
     </div>
     </>
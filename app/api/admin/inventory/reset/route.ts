@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { invalidateMenuCache } from '@/lib/menu'
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Start-of-day reset: every item and add-on with a daily count goes back to it (see reset_daily_inventory).
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const supabase = createServerClient()
+    const { error } = await supabase.rpc('reset_daily_inventory')
+
+    if (error) throw error
+
+    invalidateMenuCache()
+
+    return NextResponse.json({ success: true }, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error resetting inventory:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to reset inventory' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { invalidateMenuCache } from '@/lib/menu'
+import { parseStockCount } from '@/lib/menu-validation'
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type StockTable = 'menu_items' | 'modifier_options'
+
+interface StockUpdate {
+  id: string
+  stock_quantity: number | null
+  daily_stock: number | null
+}
+
+const fetchInventory = async () => {
+  const supabase = createServerClient()
+
+  const [itemsResult, optionsResult] = await Promise.all([
+    supabase
+      .from('menu_items')
+      .select('id, name, category, sort_order, is_available, unavailable_until, stock_quantity, daily_stock')
+      .is('archived_at', null)
+      .order('sort_order', { ascending: true }),
+    supabase
+      .from('modifier_options')
+      .select('id, group_id, label, price, sort_order, stock_quantity, daily_stock')
+      .gt('price', 0)
+      .order('sort_order', { ascending: true }),
+  ])
+
+  if (itemsResult.error) throw itemsResult.error
+  if (optionsResult.error) throw optionsResult.error
+
+  return {
+    items: itemsResult.data || [],
+    // Only paid add-ons are stocked; free requests like "No sauce" never run out
+    options: optionsResult.data || [],
+  }
+}
+
+const parseUpdates = (rows: unknown): { value: StockUpdate[] } | { error: string } => {
+  if (rows === undefined) return { value: [] }
+  if (!Array.isArray(rows)) return { error: 'Invalid inventory data' }
+
+  const updates: StockUpdate[] = []
+  for (const row of rows) {
+    if (!row || typeof row.id !== 'string' || !row.id) return { error: 'Invalid inventory data' }
+    const stock = parseStockCount(row.stock_quantity)
+    if ('error' in stock) return stock
+    const daily = parseStockCount(row.daily_stock)
+    if ('error' in daily) return daily
+    updates.push({ id: row.id, stock_quantity: stock.value, daily_stock: daily.value })
+  }
+  return { value: updates }
+}
+
+const applyUpdates = async (table: StockTable, updates: StockUpdate[]) => {
+  if (updates.length === 0) return
+  const supabase = createServerClient()
+
+  const { data: current, error: currentError } = await supabase
+    .from(table)
+    .select('id, stock_quantity')
+    .in('id', updates.map((update) => update.id))
+
+  if (currentError) throw currentError
+
+  for (const update of updates) {
+    const changes: Record<string, unknown> = {
+      stock_quantity: update.stock_quantity,
+      daily_stock: update.daily_stock,
+    }
+
+    // Restocking an item that ran out puts it back on the menu
+    const previous = (current || []).find((row: any) => row.id === update.id)
+    if (table === 'menu_items') {
+      changes.updated_at = new Date().toISOString()
+      if (previous?.stock_quantity === 0 && (update.stock_quantity === null || update.stock_quantity > 0)) {
+        changes.is_available = true
+        changes.unavailable_until = null
+      }
+    }
+
+    const { error } = await supabase.from(table).update(changes).eq('id', update.id)
+    if (error) throw error
+  }
+}
+
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const inventory = await fetchInventory()
+    return NextResponse.json(inventory, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error fetching inventory:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch inventory' },
+      { status: 500 }
+    )
+  }
+}
+
+// Set counts: { items: [{ id, stock_quantity, daily_stock }], options: [...] } (null = not tracked)
+export async function PUT(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const items = parseUpdates(body?.items)
+    if ('error' in items) {
+      return NextResponse.json({ error: items.error }, { status: 400 })
+    }
+    const options = parseUpdates(body?.options)
+    if ('error' in options) {
+      return NextResponse.json({ error: options.error }, { status: 400 })
+    }
+
+    await applyUpdates('menu_items', items.value)
+    await applyUpdates('modifier_options', options.value)
+    invalidateMenuCache()
+
+    const inventory = await fetchInventory()
+    return NextResponse.json(inventory, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error saving inventory:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to save inventory' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server'
+import { clearAdminSessionCookie } from '@/lib/admin-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function POST() {
+  const response = NextResponse.json({ ok: true })
+  clearAdminSessionCookie(response)
+  return response
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { fetchLoyaltyBalance, fetchLoyaltyEntries, parseLoyaltyAdjustment, toLoyaltyEntry } from '@/lib/loyalty'
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const NOT_MIGRATED_ERROR = 'Loyalty points are not set up yet. Run supabase-migration-loyalty.sql first.'
+
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const phoneDigits = (request.nextUrl.searchParams.get('phone') || '').replace(/\D/g, '')
+    if (phoneDigits.length < 10) {
+      return NextResponse.json({ error: 'A valid phone number is required' }, { status: 400 })
+    }
+
+    const [balance, entries] = await Promise.all([fetchLoyaltyBalance(phoneDigits), fetchLoyaltyEntries(phoneDigits)])
+    if (balance === null || entries === null) {
+      return NextResponse.json({ error: NOT_MIGRATED_ERROR }, { status: 503 })
+    }
+
+    return NextResponse.json({ balance, entries }, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error fetching loyalty points:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch loyalty points' },
+      { status: 500 }
+    )
+  }
+}
+
+// Add or take points by hand (a complaint, a missed order, a correction)
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const { value, error: validationError } = parseLoyaltyAdjustment(body)
+    if (!value) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const balance = await fetchLoyaltyBalance(value.customer_phone)
+    if (balance === null) {
+      return NextResponse.json({ error: NOT_MIGRATED_ERROR }, { status: 503 })
+    }
+    if (balance + value.points < 0) {
+      return NextResponse.json(
+        { error: `This customer only has ${balance} points to take away` },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createServerClient()
+    const { data, error } = await supabase
+      .from('loyalty_ledger')
+      .insert({ ...value, kind: 'adjusted' })
+      .select()
+      .single()
+    if (error) throw error
+
+    return NextResponse.json(
+      { entry: toLoyaltyEntry(data), balance: balance + value.points },
+      { status: 201, headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    )
+  } catch (error: any) {
+    console.error('Error adjusting loyalty points:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to adjust loyalty points' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { invalidateMenuCache, toMenuItem } from '@/lib/menu'
+import { parseMenuItemWrite } from '@/lib/menu-validation'
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const updateMenuItem = async (id: string, changes: Record<string, unknown>) => {
+  const supabase = createServerClient()
+
+  const { data, error } = await supabase
+    .from('menu_items')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  if (data) invalidateMenuCache()
+  return data ? toMenuItem(data) : null
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const { value, error: validationError } = parseMenuItemWrite(body, { partial: true })
+    if (!value) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const changes: Record<string, unknown> = { ...value }
+    // `archived: false` restores an archived item
+    if (typeof body?.archived === 'boolean') {
+      changes.archived_at = body.archived ? new Date().toISOString() : null
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json({ error: 'No changes provided' }, { status: 400 })
+    }
+
+    const item = await updateMenuItem(params.id, changes)
+    if (!item) {
+      return NextResponse.json({ error: 'Menu item not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ item }, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error updating menu item:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update menu item' },
+      { status: 500 }
+    )
+  }
+}
+
+// Deleting archives the item: past orders still reference its id, and it can be restored with PATCH.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const item = await updateMenuItem(params.id, { archived_at: new Date().toISOString() })
+    if (!item) {
+      return NextResponse.json({ error: 'Menu item not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ item }, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error archiving menu item:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to archive menu item' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { invalidateMenuCache } from '@/lib/menu'
+import { isMenuCategory } from '@/lib/menu-validation'
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth'
+import { MENU_CATEGORIES } from '@/lib/types'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Save the display order of menu categories: { categories: ['Rice Dishes', 'Appetizers', ...] }
+export async function PUT(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const categories: unknown[] = Array.isArray(body?.categories) ? body.categories : []
+
+    if (categories.length === 0 || !categories.every(isMenuCategory)) {
+      return NextResponse.json(
+        { error: `Invalid categories. Each must be one of: ${MENU_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (new Set(categories).size !== categories.length) {
+      return NextResponse.json({ error: 'Categories must not repeat' }, { status: 400 })
+    }
+
+    const supabase = createServerClient()
+    const rows = categories.map((name, index) => ({ name, sort_order: index }))
+
+    const { error } = await supabase
+      .from('menu_categories')
+      .upsert(rows, { onConflict: 'name' })
+
+    if (error) throw error
+
+    invalidateMenuCache()
+
+    return NextResponse.json(
+      { categories },
+      { headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    )
+  } catch (error: any) {
+    console.error('Error saving category order:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to save category order' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { fetchModifiersFromDatabase, getAdminMenu } from '@/lib/menu'
+import { isMenuTransferFormat, toMenuCsv, toMenuTransferItem } from '@/lib/menu-transfer'
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/menu/export?format=csv|json — every item, including archived ones, as a download
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  const format = request.nextUrl.searchParams.get('format') || 'csv'
+  if (!isMenuTransferFormat(format)) {
+    return NextResponse.json({ error: 'Format must be csv or json' }, { status: 400 })
+  }
+
+  try {
+    const [menu, modifiers] = await Promise.all([getAdminMenu(), fetchModifiersFromDatabase()])
+    const items = menu.items.map((item) => toMenuTransferItem(item, modifiers.assignments))
+    const exportedAt = new Date().toISOString()
+    const filename = `denver-kabob-menu-${exportedAt.slice(0, 10)}.${format}`
+
+    const body =
+      format === 'csv'
+        ? toMenuCsv(items)
+        : JSON.stringify({ exported_at: exportedAt, categories: menu.categories, items }, null, 2)
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store, max-age=0',
+      },
+    })
+  } catch (error: any) {
+    console.error('Error exporting menu:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to export menu' },
+      { status: 500 }
+    )
+  }
+}
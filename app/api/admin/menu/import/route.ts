@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient, isMissingColumnError } from '@/lib/supabase'
+import { fetchModifiersFromDatabase, getAdminMenu, invalidateMenuCache } from '@/lib/menu'
+import {
+  MenuImportPlan,
+  isMenuTransferFormat,
+  parseMenuTransferFile,
+  planMenuImport,
+  toMenuTransferItem,
+} from '@/lib/menu-transfer'
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const MAX_FILE_LENGTH = 1024 * 1024
+
+/**
+ * Save an import plan in one transaction (apply_menu_import in supabase-migration-menu-import.sql), so a
+ * failure leaves the menu as it was.
+ */
+const applyMenuImport = async (plan: MenuImportPlan, archivedAt: Map<string, string | null>) => {
+  const supabase = createServerClient()
+  const now = new Date().toISOString()
+
+  const items = plan.upserts.map(({ archived, modifier_groups, ...item }) => ({
+    ...item,
+    // Keep the original archive time for items that stay archived
+    archived_at: archived ? archivedAt.get(item.id) || now : null,
+  }))
+  const assignments = plan.upserts
+    .filter((item) => plan.modifierUpdates.includes(item.id))
+    .flatMap((item) =>
+      item.modifier_groups.map((group, index) => ({
+        menu_item_id: item.id,
+        group_id: group.group_id,
+        option_ids: group.option_ids,
+        sort_order: index,
+      }))
+    )
+
+  const { error } = await supabase.rpc('apply_menu_import', {
+    p_items: items,
+    p_stock_item_ids: plan.stockUpdates,
+    p_removed_ids: plan.removedIds,
+    p_modifier_item_ids: plan.modifierUpdates,
+    p_assignments: assignments,
+  })
+  if (error) {
+    if (isMissingColumnError(error.message)) {
+      throw new Error('Run supabase-migration-menu-import.sql before applying imports')
+    }
+    throw error
+  }
+
+  invalidateMenuCache()
+}
+
+// POST { format: 'csv' | 'json', content, apply?: boolean }
+// Without `apply` this is a dry run that only returns the diff.
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    if (!isMenuTransferFormat(body?.format)) {
+      return NextResponse.json({ error: 'Format must be csv or json' }, { status: 400 })
+    }
+    if (typeof body.content !== 'string' || !body.content.trim()) {
+      return NextResponse.json({ error: 'The file is empty' }, { status: 400 })
+    }
+    if (body.content.length > MAX_FILE_LENGTH) {
+      return NextResponse.json({ error: 'The file is too large (1 MB max)' }, { status: 400 })
+    }
+
+    const { value: records, error: parseError } = parseMenuTransferFile(body.content, body.format)
+    if (!records) {
+      return NextResponse.json({ error: parseError }, { status: 400 })
+    }
+
+    // Always diff against the live tables so an apply can't act on a stale dry run
+    const [menu, modifiers] = await Promise.all([getAdminMenu(), fetchModifiersFromDatabase()])
+    const currentItems = menu.items.map((item) => toMenuTransferItem(item, modifiers.assignments))
+    const { value: plan, error: planError } = planMenuImport(records, currentItems, modifiers.groups)
+    if (!plan) {
+      return NextResponse.json({ error: planError }, { status: 400 })
+    }
+
+    if (body.apply === true) {
+      await applyMenuImport(plan, new Map(menu.items.map((item) => [item.id, item.archived_at || null])))
+    }
+
+    return NextResponse.json(
+      { diff: plan.diff, applied: body.apply === true },
+      { headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    )
+  } catch (error: any) {
+    console.error('Error importing menu:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to import menu' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { getAdminMenu, invalidateMenuCache, toMenuItem } from '@/lib/menu'
+import { parseMenuItemWrite, slugifyMenuItemId } from '@/lib/menu-validation'
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const menu = await getAdminMenu()
+    return NextResponse.json(menu, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error fetching admin menu:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch menu' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const { value, error: validationError } = parseMenuItemWrite(body, { partial: false })
+    if (!value) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const baseId = slugifyMenuItemId(typeof body?.id === 'string' && body.id.trim() ? body.id : value.name as string)
+    if (!baseId) {
+      return NextResponse.json({ error: 'Could not derive an item id from the name' }, { status: 400 })
+    }
+
+    const supabase = createServerClient()
+
+    // Pick a free id (lamb-kabob, lamb-kabob-2, ...) so a new item never overwrites an existing one.
+    const { data: existingIds, error: idsError } = await supabase
+      .from('menu_items')
+      .select('id')
+      .like('id', `${baseId}%`)
+    if (idsError) throw idsError
+
+    const taken = new Set((existingIds || []).map((row: any) => String(row.id)))
+    let id = baseId
+    for (let suffix = 2; taken.has(id); suffix += 1) {
+      id = `${baseId}-${suffix}`
+    }
+
+    // New items go to the end of the menu unless a position was given.
+    let sortOrder = value.sort_order
+    if (sortOrder === undefined) {
+      const { data: last, error: lastError } = await supabase
+        .from('menu_items')
+        .select('sort_order')
+        .order('sort_order', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+      if (lastError) throw lastError
+      sortOrder = typeof last?.sort_order === 'number' ? last.sort_order + 1 : 0
+    }
+
+    const { data, error } = await supabase
+      .from('menu_items')
+      .insert({ ...value, id, sort_order: sortOrder })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    invalidateMenuCache()
+
+    return NextResponse.json(
+      { item: toMenuItem(data) },
+      { status: 201, headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    )
+  } catch (error: any) {
+    console.error('Error creating menu item:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to create menu item' },
+      { status: 500 }
+    )
+  }
+}
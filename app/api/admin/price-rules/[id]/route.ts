@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { invalidateMenuCache } from '@/lib/menu'
+import { parsePriceRuleWrite, toPriceRule } from '@/lib/price-rules'
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Replace a rule; the editor always sends every field
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const { value, error: validationError } = parsePriceRuleWrite(body)
+    if (!value) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const supabase = createServerClient()
+    const { data, error } = await supabase
+      .from('price_rules')
+      .update({ ...value, updated_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) {
+      return NextResponse.json({ error: 'Price rule not found' }, { status: 404 })
+    }
+
+    invalidateMenuCache()
+    return NextResponse.json({ rule: toPriceRule(data) }, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error updating price rule:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update price rule' },
+      { status: 500 }
+    )
+  }
+}
+
+// Rules aren't referenced by orders (order_items keep the price charged), so they can be deleted outright.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const supabase = createServerClient()
+    const { data, error } = await supabase
+      .from('price_rules')
+      .delete()
+      .eq('id', params.id)
+      .select('id')
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) {
+      return NextResponse.json({ error: 'Price rule not found' }, { status: 404 })
+    }
+
+    invalidateMenuCache()
+    return NextResponse.json({ deleted: true }, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error deleting price rule:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete price rule' },
+      { status: 500 }
+    )
+  }
+}
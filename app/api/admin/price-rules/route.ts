@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { fetchPriceRulesFromDatabase, invalidateMenuCache } from '@/lib/menu'
+import { parsePriceRuleWrite, toPriceRule } from '@/lib/price-rules'
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const rules = await fetchPriceRulesFromDatabase()
+    return NextResponse.json({ rules }, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error fetching price rules:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch price rules' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const { value, error: validationError } = parsePriceRuleWrite(body)
+    if (!value) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const supabase = createServerClient()
+    const { data, error } = await supabase.from('price_rules').insert(value).select().single()
+    if (error) throw error
+
+    invalidateMenuCache()
+    return NextResponse.json(
+      { rule: toPriceRule(data) },
+      { status: 201, headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    )
+  } catch (error: any) {
+    console.error('Error creating price rule:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to create price rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { parsePromoCodeWrite, toPromoCode } from '@/lib/promo-codes'
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Postgres unique_violation (promo_codes.code)
+const DUPLICATE_KEY_ERROR = '23505'
+
+// Replace a code; the editor always sends every field
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const { value, error: validationError } = parsePromoCodeWrite(body)
+    if (!value) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const supabase = createServerClient()
+    const { data, error } = await supabase
+      .from('promo_codes')
+      .update({ ...value, updated_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .select()
+      .maybeSingle()
+
+    if (error?.code === DUPLICATE_KEY_ERROR) {
+      return NextResponse.json({ error: `Promo code ${value.code} already exists` }, { status: 409 })
+    }
+    if (error) throw error
+    if (!data) {
+      return NextResponse.json({ error: 'Promo code not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ code: toPromoCode(data) }, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error updating promo code:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update promo code' },
+      { status: 500 }
+    )
+  }
+}
+
+// Orders keep the code they used (orders.promo_code) and its discount, so codes can be deleted outright.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const supabase = createServerClient()
+    const { data, error } = await supabase
+      .from('promo_codes')
+      .delete()
+      .eq('id', params.id)
+      .select('id')
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) {
+      return NextResponse.json({ error: 'Promo code not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ deleted: true }, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error deleting promo code:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete promo code' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { fetchPromoCodeRedemptions, fetchPromoCodes, parsePromoCodeWrite, toPromoCode } from '@/lib/promo-codes'
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Postgres unique_violation (promo_codes.code)
+const DUPLICATE_KEY_ERROR = '23505'
+
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const [codes, redemptions] = await Promise.all([fetchPromoCodes(), fetchPromoCodeRedemptions()])
+    return NextResponse.json({ codes, redemptions }, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error fetching promo codes:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch promo codes' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const { value, error: validationError } = parsePromoCodeWrite(body)
+    if (!value) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const supabase = createServerClient()
+    const { data, error } = await supabase.from('promo_codes').insert(value).select().single()
+    if (error?.code === DUPLICATE_KEY_ERROR) {
+      return NextResponse.json({ error: `Promo code ${value.code} already exists` }, { status: 409 })
+    }
+    if (error) throw error
+
+    return NextResponse.json(
+      { code: toPromoCode(data) },
+      { status: 201, headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    )
+  } catch (error: any) {
+    console.error('Error creating promo code:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to create promo code' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { invalidateMenuCache } from '@/lib/menu'
+import { parseTaxRateWrite, toTaxRate } from '@/lib/tax'
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Replace a rate; the editor always sends every field
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const { value, error: validationError } = parseTaxRateWrite(body)
+    if (!value) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const supabase = createServerClient()
+    const { data, error } = await supabase
+      .from('tax_rates')
+      .update({ ...value, updated_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) {
+      return NextResponse.json({ error: 'Tax rate not found' }, { status: 404 })
+    }
+
+    invalidateMenuCache()
+    return NextResponse.json({ rate: toTaxRate(data) }, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error updating tax rate:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update tax rate' },
+      { status: 500 }
+    )
+  }
+}
+
+// Orders keep the rates they were charged (orders.tax_breakdown), so rates can be deleted outright.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const supabase = createServerClient()
+    const { data, error } = await supabase
+      .from('tax_rates')
+      .delete()
+      .eq('id', params.id)
+      .select('id')
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) {
+      return NextResponse.json({ error: 'Tax rate not found' }, { status: 404 })
+    }
+
+    invalidateMenuCache()
+    return NextResponse.json({ deleted: true }, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error deleting tax rate:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete tax rate' },
+      { status: 500 }
+    )
+  }
+}
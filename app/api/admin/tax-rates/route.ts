@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { fetchTaxRatesFromDatabase, invalidateMenuCache } from '@/lib/menu'
+import { parseTaxRateWrite, toTaxRate } from '@/lib/tax'
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const rates = await fetchTaxRatesFromDatabase()
+    return NextResponse.json({ rates }, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error fetching tax rates:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch tax rates' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const { value, error: validationError } = parseTaxRateWrite(body)
+    if (!value) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const supabase = createServerClient()
+    const { data, error } = await supabase.from('tax_rates').insert(value).select().single()
+    if (error) throw error
+
+    invalidateMenuCache()
+    return NextResponse.json(
+      { rate: toTaxRate(data) },
+      { status: 201, headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    )
+  } catch (error: any) {
+    console.error('Error creating tax rate:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to create tax rate' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { isCartId, isHostToken, toSharedCart } from '@/lib/cart-validation'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Host only: lock a group order before checkout (participants can no longer change it), or unlock it.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isCartId(params.id)) {
+    return NextResponse.json({ error: 'Cart not found' }, { status: 404 })
+  }
+
+  try {
+    const { host_token: hostToken, locked } = (await request.json().catch(() => null)) || {}
+    if (typeof locked !== 'boolean') {
+      return NextResponse.json({ error: 'locked must be true or false' }, { status: 400 })
+    }
+
+    const supabase = createServerClient()
+    const { data: existing, error: fetchError } = await supabase
+      .from('carts')
+      .select('*')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (fetchError) {
+      throw fetchError
+    }
+    if (!existing || !existing.is_group) {
+      return NextResponse.json({ error: 'Group order not found' }, { status: 404 })
+    }
+    if (!isHostToken(hostToken, existing.host_token)) {
+      return NextResponse.json({ error: 'Only the host can lock this group order' }, { status: 403 })
+    }
+
+    const { data, error } = await supabase
+      .from('carts')
+      .update({ locked_at: locked ? new Date().toISOString() : null, updated_at: new Date().toISOString() })
+      .eq('id', params.id)
+      .select('*')
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json(
+      { cart: toSharedCart(data) },
+      { headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    )
+  } catch (error: any) {
+    console.error('Error locking group order:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to lock group order' },
+      { status: 500 }
+    )
+  }
+}
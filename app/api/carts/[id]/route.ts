@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { isCartId, isHostToken, parseCartItems, toSharedCart } from '@/lib/cart-validation'
+import { mergeParticipantLines, normalizeParticipantName } from '@/lib/group-orders'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Saves that keep losing to other participants' saves give up after this many tries
+const MAX_GROUP_SAVE_ATTEMPTS = 5
+
+const notFoundResponse = () => NextResponse.json({ error: 'Cart not found' }, { status: 404 })
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isCartId(params.id)) {
+    return notFoundResponse()
+  }
+
+  try {
+    const supabase = createServerClient()
+    const { data, error } = await supabase
+      .from('carts')
+      .select('*')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+    if (!data) {
+      return notFoundResponse()
+    }
+
+    return NextResponse.json(
+      { cart: toSharedCart(data) },
+      { headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    )
+  } catch (error: any) {
+    console.error('Error fetching cart:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch cart' },
+      { status: 500 }
+    )
+  }
+}
+
+// Replace the cart's items (last write wins). In an open group order each participant only
+// replaces their own lines; once the host locks the group only the host can change it.
+// Group saves merge into the stored lines, so they only write if nobody saved since the cart was read
+// and otherwise start over from the newer copy.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isCartId(params.id)) {
+    return notFoundResponse()
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const { value: incoming, error: validationError } = parseCartItems(body?.items)
+    if (!incoming) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const supabase = createServerClient()
+    let data: any = null
+    for (let attempt = 0; attempt < MAX_GROUP_SAVE_ATTEMPTS && !data; attempt++) {
+      const { data: existing, error: fetchError } = await supabase
+        .from('carts')
+        .select('*')
+        .eq('id', params.id)
+        .maybeSingle()
+
+      if (fetchError) {
+        throw fetchError
+      }
+      if (!existing) {
+        return notFoundResponse()
+      }
+
+      let items = incoming
+      if (existing.is_group) {
+        const isHost = isHostToken(body?.host_token, existing.host_token)
+        if (existing.locked_at && !isHost) {
+          return NextResponse.json(
+            { error: `${existing.host_name || 'The host'} has locked this group order for checkout.` },
+            { status: 409 }
+          )
+        }
+        if (!existing.locked_at) {
+          const participant = normalizeParticipantName(body?.participant)
+          if (!participant) {
+            return NextResponse.json({ error: 'Please enter your name to join this group order' }, { status: 400 })
+          }
+          items = mergeParticipantLines(Array.isArray(existing.items) ? existing.items : [], incoming, participant)
+        }
+      }
+
+      let update = supabase
+        .from('carts')
+        .update({ items, updated_at: new Date().toISOString() })
+        .eq('id', params.id)
+      if (existing.is_group) {
+        update = existing.updated_at ? update.eq('updated_at', existing.updated_at) : update.is('updated_at', null)
+      }
+      const result = await update.select('*').maybeSingle()
+
+      if (result.error) {
+        throw result.error
+      }
+      if (!result.data && !existing.is_group) {
+        return notFoundResponse()
+      }
+      data = result.data
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Someone else is updating this group order. Please try again.' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { cart: toSharedCart(data) },
+      { headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    )
+  } catch (error: any) {
+    console.error('Error updating cart:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update cart' },
+      { status: 500 }
+    )
+  }
+}
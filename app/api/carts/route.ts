@@ -0,0 +1,64 @@
+import { randomBytes } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient, isMissingColumnError } from '@/lib/supabase'
+import { parseCartItems, toSharedCart } from '@/lib/cart-validation'
+import { normalizeParticipantName } from '@/lib/group-orders'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Create a server-side copy of a cart. The random id is the only key: whoever has it
+// (this browser, or someone given the share link) can read and update the cart.
+// With `group: { host_name }` the cart is a group order and the host gets a token for locking it.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const { value: items, error: validationError } = parseCartItems(body?.items)
+    if (!items) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    let groupFields = {}
+    let hostToken: string | undefined
+    if (body?.group) {
+      const hostName = normalizeParticipantName(body.group.host_name)
+      if (!hostName) {
+        return NextResponse.json({ error: 'Please enter your name to start a group order' }, { status: 400 })
+      }
+      hostToken = randomBytes(24).toString('base64url')
+      groupFields = { is_group: true, host_name: hostName, host_token: hostToken }
+    }
+
+    const supabase = createServerClient()
+    const { data, error } = await supabase
+      .from('carts')
+      .insert({ id: randomBytes(16).toString('base64url'), items, ...groupFields })
+      .select('*')
+      .single()
+
+    if (error) {
+      if (isMissingColumnError(error.message)) {
+        return NextResponse.json(
+          {
+            error: hostToken
+              ? 'Group orders are not set up. Run supabase-migration-group-orders.sql.'
+              : 'Saved carts are not set up. Run supabase-migration-carts.sql.',
+          },
+          { status: 503 }
+        )
+      }
+      throw error
+    }
+
+    return NextResponse.json(
+      { cart: { ...toSharedCart(data), ...(hostToken ? { host_token: hostToken } : {}) } },
+      { status: 201, headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    )
+  } catch (error: any) {
+    console.error('Error creating cart:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to create cart' },
+      { status: 500 }
+    )
+  }
+}
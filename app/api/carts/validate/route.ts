@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMenuItems } from '@/lib/menu'
+import { parseCartItems } from '@/lib/cart-validation'
+import { revalidateCartLines } from '@/lib/pricing'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Check a cart saved in the browser against the current menu before checkout. Returns the corrected
+// lines and a list of what changed (removed items, dropped options, new prices); nothing is stored.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const { value: lines, error: validationError } = parseCartItems(body?.items)
+    if (!lines) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const menuItems = await getMenuItems({ fresh: true })
+    const { items, changes } = revalidateCartLines(lines, menuItems)
+
+    return NextResponse.json(
+      { items, changes },
+      { headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    )
+  } catch (error: any) {
+    console.error('Error validating cart:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to validate cart' },
+      { status: 500 }
+    )
+  }
+}
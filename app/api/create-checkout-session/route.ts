@@ -1,5 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Stripe from 'stripe'
+import { getLiveMenuItems } from '@/lib/menu'
+import { getOffScheduleCartItems, getUnavailableCartItems } from '@/lib/availability'
+import { describeCartModifiers } from '@/lib/modifiers'
+import { getOrderItemName, getPricedOrderLines, getPricedUnitCents, priceCartLines } from '@/lib/pricing'
+import { calculateOrderTotals } from '@/lib/cart-utils'
+import { applyLoyaltyReward, fetchLoyaltyBalance, findLoyaltyReward, toLoyaltyMetadata } from '@/lib/loyalty'
+import { centsToAmount, toCents } from '@/lib/money'
+import { PromoDiscount, applyPromoCode, findPromoCode, getPromoCodeUsageError, normalizePromoCode } from '@/lib/promo-codes'
+import { toTaxMetadata } from '@/lib/tax'
+import { MenuItem } from '@/lib/types'
+import { getInventoryShortages, getInventoryUsage } from '@/lib/inventory'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -70,78 +81,206 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Validate item structure
-    for (const item of items) {
-      if (!item.id || !item.name || typeof item.price !== 'number' || !item.quantity) {
+    if (!Array.isArray(items)) {
+      return NextResponse.json(
+        { error: 'Invalid item data' },
+        { status: 400 }
+      )
+    }
+
+    // Re-price every line from the menu; client-sent prices and names are ignored. Never from a stale or
+    // seed menu: if the database can't be read, nothing is charged.
+    let menuItems: MenuItem[]
+    try {
+      menuItems = await getLiveMenuItems()
+    } catch (menuError) {
+      console.error('Error loading menu for checkout:', menuError)
+      return NextResponse.json(
+        { error: 'Ordering is temporarily unavailable. Please try again in a few minutes.' },
+        { status: 503 }
+      )
+    }
+    const { value: pricedItems, error: pricingError } = priceCartLines(items, menuItems)
+    if (!pricedItems) {
+      return NextResponse.json(
+        { error: pricingError },
+        { status: 400 }
+      )
+    }
+
+    // Reject items that were 86'd since they were added to the cart
+    const pricedLines = pricedItems.map((item) => ({
+      id: item.menu_item_id,
+      base_item_id: item.menu_item_id,
+      name: item.name,
+    }))
+    const unavailableItems = getUnavailableCartItems(pricedLines, menuItems)
+    if (unavailableItems.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Sorry, these items are sold out right now: ${unavailableItems.join(', ')}. Please remove them from your cart and try again.`,
+          unavailableItems,
+        },
+        { status: 409 }
+      )
+    }
+
+    // ...or that are outside their daypart now (e.g. a lunch special in a cart built before the cutoff)
+    const offScheduleItems = getOffScheduleCartItems(pricedLines, menuItems)
+    if (offScheduleItems.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Sorry, these items can't be ordered right now: ${offScheduleItems.join(', ')}. Please remove them from your cart and try again.`,
+          unavailableItems: offScheduleItems,
+        },
+        { status: 409 }
+      )
+    }
+
+    const shortages = getInventoryShortages(
+      getInventoryUsage(
+        pricedItems.map((item) => ({
+          menu_item_id: item.menu_item_id,
+          option_ids: item.modifiers.map((modifier) => modifier.option_id),
+          quantity: item.quantity,
+        }))
+      ),
+      menuItems
+    )
+    if (shortages.length > 0) {
+      return NextResponse.json(
+        { error: `Sorry, we don't have enough left for your order: ${shortages.join(', ')}. Please update your cart.` },
+        { status: 409 }
+      )
+    }
+
+    const rawTipPercent = Number(orderDetails?.tipPercent ?? 0)
+    const normalizedTipPercent = Number.isFinite(rawTipPercent)
+      ? Math.min(Math.max(rawTipPercent, 0), 100)
+      : 0
+
+    const normalizedComments = (orderDetails?.comments || '').toString().trim().slice(0, 400)
+
+    const orderLines = getPricedOrderLines(pricedItems, menuItems)
+
+    // Promo code: checked again here, against the server-priced cart and the customer's past orders
+    const promoCodeInput = normalizePromoCode(orderDetails?.promoCode)
+    const promo = promoCodeInput ? await findPromoCode(promoCodeInput) : null
+    let orderDiscount: PromoDiscount | null = null
+    if (promoCodeInput) {
+      if (!promo) {
         return NextResponse.json(
-          { error: 'Invalid item data' },
+          { error: `Promo code ${promoCodeInput} wasn't found` },
           { status: 400 }
         )
       }
-      if (item.price < 0 || item.quantity < 1) {
+      const { value: discount, error: promoError } = applyPromoCode(promo, orderLines)
+      const usageError = discount ? await getPromoCodeUsageError(promo, customerPhoneDigits) : null
+      if (!discount || usageError) {
         return NextResponse.json(
-          { error: 'Invalid item price or quantity' },
+          { error: promoError || usageError },
           { status: 400 }
         )
       }
+      orderDiscount = discount
     }
 
-    // Calculate totals including addons
-    const subtotal = items.reduce((sum: number, item: any) => {
-      let itemPrice = item.price
-      if (item.selectedAddons && item.selectedAddons.length > 0) {
-        itemPrice += item.selectedAddons.reduce((addonSum: number, addon: any) => addonSum + addon.price, 0)
+    // Loyalty reward: paid for with the customer's points instead of a promo code
+    const reward = orderDetails?.rewardId ? findLoyaltyReward(orderDetails.rewardId) : null
+    if (orderDetails?.rewardId) {
+      if (!reward) {
+        return NextResponse.json(
+          { error: 'That reward is no longer available' },
+          { status: 400 }
+        )
       }
-      return sum + itemPrice * item.quantity
-    }, 0)
-    const TAX_RATE = 0.08 // 8% tax
-    const tax = Number((subtotal * TAX_RATE).toFixed(2))
-
-    const rawTipPercent = Number(orderDetails?.tipPercent ?? 0)
-    const normalizedTipPercent = Number.isFinite(rawTipPercent)
-      ? Math.min(Math.max(rawTipPercent, 0), 100)
-      : 0
-    const tipAmount = Number((subtotal * (normalizedTipPercent / 100)).toFixed(2))
-
-    const normalizedComments = (orderDetails?.comments || '').toString().trim().slice(0, 400)
+      if (promo) {
+        return NextResponse.json(
+          { error: `${reward.name} can't be combined with a promo code` },
+          { status: 400 }
+        )
+      }
+      const balance = await fetchLoyaltyBalance(customerPhoneDigits)
+      if (balance === null || balance < reward.points) {
+        return NextResponse.json(
+          { error: `${reward.name} needs ${reward.points} points; you have ${balance ?? 0}` },
+          { status: 400 }
+        )
+      }
+      const { value: discount, error: rewardError } = applyLoyaltyReward(reward, orderLines)
+      if (!discount) {
+        return NextResponse.json(
+          { error: rewardError },
+          { status: 400 }
+        )
+      }
+      orderDiscount = discount
+    }
 
-    const total = Number((subtotal + tax + tipAmount).toFixed(2))
+    // Cents throughout, so the Stripe line items (less the discount) add up to exactly this total
+    const totals = calculateOrderTotals(orderLines, normalizedTipPercent, orderDiscount)
 
-    if (!Number.isFinite(total) || total <= 0) {
+    if (totals.total <= 0) {
       return NextResponse.json(
         { error: 'Invalid order total. Please review your cart and try again.' },
         { status: 400 }
       )
     }
 
-    // Build line items including addons
+    // Build line items (server prices only) including addons
     const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = []
-    items.forEach((item: any) => {
-      // Add main item
+    pricedItems.forEach((item) => {
+      const isCombo = item.item_type === 'combo'
+      const optionsDescription = isCombo
+        ? describeCartModifiers(item.modifiers)
+        : item.selectedOptions.length > 0
+          ? `Options: ${item.selectedOptions.join(', ')}`
+          : ''
+      // Group orders: show whose item it is on the Stripe receipt too
+      const description = [
+        item.participant_name ? `For ${item.participant_name}` : '',
+        optionsDescription,
+        item.special_instructions ? `Note: ${item.special_instructions}` : '',
+      ]
+        .filter(Boolean)
+        .join(' · ')
+      const participantMetadata: Stripe.MetadataParam = item.participant_name
+        ? { participant_name: item.participant_name }
+        : {}
+
+      // Add main item (combos are one line priced with their component upcharges)
       lineItems.push({
         price_data: {
           currency: 'usd',
           product_data: {
             name: item.name,
-            description: item.selectedOptions?.length > 0 
-              ? `Options: ${item.selectedOptions.join(', ')}` 
-              : undefined,
+            description: description || undefined,
+            // Read back by the webhook for order_items and to decrement inventory
+            metadata: {
+              menu_item_id: item.menu_item_id,
+              modifier_option_ids: item.modifiers.map((modifier) => modifier.option_id).join(','),
+              order_item_name: getOrderItemName(item).slice(0, 500),
+              ...participantMetadata,
+              ...(item.special_instructions ? { special_instructions: item.special_instructions } : {}),
+            },
           },
-          unit_amount: Math.round(item.price * 100),
+          unit_amount: getPricedUnitCents(item),
         },
         quantity: item.quantity,
       })
 
       // Add addons as separate line items
-      if (item.selectedAddons && item.selectedAddons.length > 0) {
-        item.selectedAddons.forEach((addon: any) => {
+      if (!isCombo && item.selectedAddons.length > 0) {
+        item.selectedAddons.forEach((addon) => {
           lineItems.push({
             price_data: {
               currency: 'usd',
               product_data: {
                 name: `+ ${addon.name}`,
+                // Marks the line as part of the item above (order_items keeps it as an add-on row)
+                metadata: { ...participantMetadata, addon_for: item.menu_item_id },
               },
-              unit_amount: Math.round(addon.price * 100),
+              unit_amount: toCents(addon.price),
             },
             quantity: item.quantity,
           })
@@ -149,36 +288,55 @@ export async function POST(request: NextRequest) {
       }
     })
 
-    if (tax > 0) {
+    if (totals.tax > 0) {
       lineItems.push({
         price_data: {
           currency: 'usd',
           product_data: {
             name: 'Sales Tax',
           },
-          unit_amount: Math.round(tax * 100),
+          unit_amount: totals.tax,
         },
         quantity: 1,
       })
     }
 
-    if (tipAmount > 0) {
+    if (totals.tip > 0) {
       lineItems.push({
         price_data: {
           currency: 'usd',
           product_data: {
             name: 'Tip',
           },
-          unit_amount: Math.round(tipAmount * 100),
+          unit_amount: totals.tip,
         },
         quantity: 1,
       })
     }
 
+    // Stripe shows the discount as its own line: a one-off coupon for exactly the amount taken off
+    const discounts: Stripe.Checkout.SessionCreateParams.Discount[] = []
+    const couponDetails: Pick<Stripe.CouponCreateParams, 'name' | 'metadata'> | null = promo
+      ? { name: `Promo ${promo.code}`, metadata: { promo_code_id: promo.id } }
+      : reward
+        ? { name: reward.name, metadata: { loyalty_reward_id: reward.id } }
+        : null
+    if (couponDetails && totals.discount > 0) {
+      const coupon = await stripe.coupons.create({
+        amount_off: totals.discount,
+        currency: 'usd',
+        duration: 'once',
+        max_redemptions: 1,
+        ...couponDetails,
+      })
+      discounts.push({ coupon: coupon.id })
+    }
+
     // Create Stripe checkout session
     const session = await stripe.checkout.sessions.create({
       payment_method_types: ['card'],
       line_items: lineItems,
+      discounts: discounts.length > 0 ? discounts : undefined,
       mode: 'payment',
       success_url: `${request.nextUrl.origin}/order-confirmation?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: `${request.nextUrl.origin}/payment-cancel`,
@@ -190,9 +348,20 @@ export async function POST(request: NextRequest) {
         customer_phone: customerPhoneDigits,
         customer_email: customerEmail,
         tip_percent: normalizedTipPercent.toFixed(2),
-        tip_amount: tipAmount.toFixed(2),
+        tip_amount: centsToAmount(totals.tip),
         comments: normalizedComments,
-        tax: tax.toFixed(2),
+        tax: centsToAmount(totals.tax),
+        // Read back for orders.subtotal_amount instead of subtracting tax and tip from the charged total
+        subtotal: centsToAmount(totals.subtotal),
+        // The rates charged, for orders.tax_breakdown
+        ...toTaxMetadata(totals.taxBreakdown),
+        ...(promo && totals.discount > 0
+          ? { promo_code_id: promo.id, promo_code: promo.code, discount: centsToAmount(totals.discount) }
+          : {}),
+        // Read back by the webhook to record the points redeemed
+        ...(reward && totals.discount > 0
+          ? { ...toLoyaltyMetadata(reward), discount: centsToAmount(totals.discount) }
+          : {}),
         // IMPORTANT:
         // Do NOT store the full cart JSON in Stripe metadata (size limits can prevent order creation).
       },
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { fetchLoyaltyBalance } from '@/lib/loyalty'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// A customer's points balance by phone, for the checkout and order tracking pages. Like order lookup,
+// the phone number is all it takes.
+export async function GET(request: NextRequest) {
+  try {
+    const phoneDigits = (request.nextUrl.searchParams.get('phone') || '').replace(/\D/g, '')
+    if (phoneDigits.length < 10) {
+      return NextResponse.json({ error: 'A valid phone number is required' }, { status: 400 })
+    }
+
+    const balance = await fetchLoyaltyBalance(phoneDigits)
+    if (balance === null) {
+      return NextResponse.json({ error: 'Loyalty points are not set up yet' }, { status: 503 })
+    }
+
+    return NextResponse.json({ balance }, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error fetching loyalty balance:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch loyalty balance' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { getMenu } from '@/lib/menu'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Public menu. Cached briefly at the CDN so a price change in `menu_items` shows up within a minute.
+export async function GET() {
+  try {
+    const { items, categories } = await getMenu()
+
+    return NextResponse.json(
+      { items, categories },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=0, s-maxage=60, stale-while-revalidate=300',
+        },
+      }
+    )
+  } catch (error: any) {
+    console.error('Error fetching menu:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch menu' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { getSeedMenuRows, getSeedModifierRows, invalidateMenuCache } from '@/lib/menu'
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Seed/sync `menu_items` and the modifier tables from lib/menu-data.ts.
+// Pass { "prune": true } to also delete rows that are not in the seed (e.g. the old numbered demo rows).
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const prune = body?.prune === true
+
+    const supabase = createServerClient()
+    const rows = getSeedMenuRows()
+
+    const { error: upsertError } = await supabase
+      .from('menu_items')
+      .upsert(rows, { onConflict: 'id' })
+
+    if (upsertError) {
+      throw upsertError
+    }
+
+    // Groups before options/assignments (foreign keys)
+    const modifiers = getSeedModifierRows()
+    const { error: groupsError } = await supabase
+      .from('modifier_groups')
+      .upsert(modifiers.groups, { onConflict: 'id' })
+    if (groupsError) throw groupsError
+
+    const { error: optionsError } = await supabase
+      .from('modifier_options')
+      .upsert(modifiers.options, { onConflict: 'id' })
+    if (optionsError) throw optionsError
+
+    const { error: assignmentsError } = await supabase
+      .from('menu_item_modifier_groups')
+      .upsert(modifiers.assignments, { onConflict: 'menu_item_id,group_id' })
+    if (assignmentsError) throw assignmentsError
+
+    let removed = 0
+    if (prune) {
+      const seedIds = rows.map((row) => row.id)
+      const { data: deleted, error: deleteError } = await supabase
+        .from('menu_items')
+        .delete()
+        .not('id', 'in', `(${seedIds.map((id) => `"${id}"`).join(',')})`)
+        .select('id')
+
+      if (deleteError) {
+        throw deleteError
+      }
+      removed = deleted?.length || 0
+    }
+
+    invalidateMenuCache()
+
+    return NextResponse.json(
+      { synced: rows.length, removed },
+      { headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    )
+  } catch (error: any) {
+    console.error('Error syncing menu:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to sync menu' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,9 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerClient } from '@/lib/supabase'
+import Stripe from 'stripe'
+import { createServerClient, isMissingColumnError } from '@/lib/supabase'
+import { calculateOrderTotals } from '@/lib/cart-utils'
+import { getLiveMenuItems } from '@/lib/menu'
+import { applyLoyaltyReward, findLoyaltyReward } from '@/lib/loyalty'
+import { fromCents, roundToCents } from '@/lib/money'
+import { getOrderItemName, getPricedOrderLines, getPricedUnitCents, priceCartLines } from '@/lib/pricing'
+import { applyPromoCode, findPromoCode } from '@/lib/promo-codes'
+import { toOrderTaxLines } from '@/lib/tax'
+import { MenuItem } from '@/lib/types'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
+const STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY
+
+const stripe = STRIPE_SECRET_KEY
+  ? new Stripe(STRIPE_SECRET_KEY, { apiVersion: '2023-10-16' })
+  : null
+
+/**
+ * Metadata of the session if Stripe says it's paid, else null. Anyone can call this route with any
+ * session id, so discounts are only recorded from what Stripe charged.
+ */
+const getPaidSessionMetadata = async (sessionId: string): Promise<Stripe.Metadata | null> => {
+  if (!stripe) return null
+  try {
+    const session = await stripe.checkout.sessions.retrieve(sessionId)
+    const isPaid = session.payment_status === 'paid' || session.payment_status === 'no_payment_required'
+    return isPaid ? session.metadata || {} : null
+  } catch (error: any) {
+    console.warn('Could not check Stripe session for direct order:', sessionId, error?.message || error)
+    return null
+  }
+}
+
 // Direct order creation endpoint for testing (bypasses Stripe webhook)
 export async function POST(request: NextRequest) {
   try {
@@ -60,45 +91,57 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Calculate totals
-    const subtotal = items.reduce((sum: number, item: any) => {
-      let itemPrice = item.price || 0
-      if (item.selectedAddons && item.selectedAddons.length > 0) {
-        itemPrice += item.selectedAddons.reduce((addonSum: number, addon: any) => addonSum + (addon.price || 0), 0)
-      }
-      return sum + itemPrice * (item.quantity || 1)
-    }, 0)
-    
-    const TAX_RATE = 0.08
-    const tax = Number((subtotal * TAX_RATE).toFixed(2))
-
     const rawTipPercent = Number(orderDetails?.tipPercent ?? 0)
     const normalizedTipPercent = Number.isFinite(rawTipPercent)
       ? Math.min(Math.max(rawTipPercent, 0), 100)
       : 0
-    const tipAmount = Number((subtotal * (normalizedTipPercent / 100)).toFixed(2))
 
     const normalizedComments = (orderDetails?.comments || '').toString().trim().slice(0, 400)
 
-    const total = Number((subtotal + tax + tipAmount).toFixed(2))
-
-    if (!Number.isFinite(total) || total <= 0) {
+    // Re-price every line from the live menu, as checkout did; client-sent prices are ignored.
+    // Totals are worked out in cents at each item's tax rates, then stored as dollars.
+    let menuItems: MenuItem[]
+    try {
+      menuItems = await getLiveMenuItems()
+    } catch (menuError) {
+      console.error('Error loading menu for direct order:', menuError)
+      return NextResponse.json(
+        { error: 'Ordering is temporarily unavailable. Please try again in a few minutes.' },
+        { status: 503 }
+      )
+    }
+    const { value: pricedItems, error: pricingError } = priceCartLines(items, menuItems)
+    if (!pricedItems) {
+      return NextResponse.json(
+        { error: pricingError },
+        { status: 400 }
+      )
+    }
+    const orderLines = getPricedOrderLines(pricedItems, menuItems)
+
+    // The promo code on the paid Stripe session (usage limits were checked when it was created). Orders
+    // count towards a code's limits, so a session Stripe doesn't confirm gets no code.
+    const sessionMetadata = typeof sessionId === 'string' ? await getPaidSessionMetadata(sessionId) : null
+    const promo = sessionMetadata?.promo_code ? await findPromoCode(sessionMetadata.promo_code) : null
+    const promoDiscount = promo ? applyPromoCode(promo, orderLines).value ?? null : null
+    // Likewise the reward. Points are recorded by the webhook once Stripe confirms the order.
+    const reward = promo ? null : findLoyaltyReward(sessionMetadata?.loyalty_reward_id)
+    const rewardDiscount = reward ? applyLoyaltyReward(reward, orderLines).value ?? null : null
+    const totals = calculateOrderTotals(orderLines, normalizedTipPercent, promoDiscount ?? rewardDiscount)
+
+    if (totals.total <= 0) {
       return NextResponse.json(
         { error: 'Invalid order total. Please review your cart and try again.' },
         { status: 400 }
       )
     }
 
+    const subtotal = fromCents(totals.subtotal)
+    const tax = fromCents(totals.tax)
+    const tipAmount = fromCents(totals.tip)
+    const total = fromCents(totals.total)
+
     const supabase = createServerClient()
-    const isMissingColumnError = (message?: string) => {
-      if (!message) return false
-      const normalized = message.toLowerCase()
-      return (
-        (normalized.includes('column') && normalized.includes('does not exist')) ||
-        normalized.includes('could not find') ||
-        normalized.includes('schema cache')
-      )
-    }
 
     // Check if order already exists
     let existingOrder: { id: string; order_number?: number | null } | null = null
@@ -180,8 +223,14 @@ export async function POST(request: NextRequest) {
       tip_percent: normalizedTipPercent,
       tip_amount: tipAmount,
       comments: normalizedComments || null,
+      subtotal_amount: subtotal,
       total_amount: total,
       tax_amount: tax,
+      tax_breakdown: toOrderTaxLines(totals.taxBreakdown),
+      promo_code_id: promo && promoDiscount ? promo.id : null,
+      promo_code: promo && promoDiscount ? promo.code : null,
+      discount_amount: fromCents(totals.discount),
+      loyalty_reward: reward && rewardDiscount ? reward.name : null,
       status: 'pending',
       stripe_session_id: sessionId,
     }
@@ -205,6 +254,24 @@ export async function POST(request: NextRequest) {
       .select()
       .single()
 
+    if (insertResult.error && isMissingColumnError(insertResult.error.message)) {
+      // Before supabase-migration-order-subtotal.sql / -tax-rates.sql / -promo-codes.sql / -loyalty.sql
+      const {
+        subtotal_amount: _subtotal,
+        tax_breakdown: _taxBreakdown,
+        promo_code_id: _promoCodeId,
+        promo_code: _promoCode,
+        discount_amount: _discount,
+        loyalty_reward: _loyaltyReward,
+        ...withoutAmountDetails
+      } = fullInsertPayload
+      insertResult = await supabase
+        .from('orders')
+        .insert({ ...withoutAmountDetails, ...orderNumberPayload })
+        .select()
+        .single()
+    }
+
     if (insertResult.error && isMissingColumnError(insertResult.error.message)) {
       console.warn('Order insert retrying without new columns:', insertResult.error.message)
       insertResult = await supabase
@@ -236,32 +303,39 @@ export async function POST(request: NextRequest) {
     console.log('Order created successfully:', order.id)
 
     // Create order items
-    const orderItemsData = items.flatMap((item: any) => {
-      let itemName = item.name
-      if (item.selectedOptions && item.selectedOptions.length > 0) {
-        itemName += ` (${item.selectedOptions.join(', ')})`
-      }
-      
+    const orderItemsData = pricedItems.flatMap((item) => {
       const items = []
+      // Group orders: label the item with whose bag it goes in
+      const participantName = item.participant_name ?? null
       
-      // Main item
+      // Main item at the price charged for one (combos include their upcharges), with its selections so
+      // the customer can reorder it later
       items.push({
         order_id: order.id,
-        menu_item_id: item.id,
-        menu_item_name: itemName,
-        quantity: item.quantity || 1,
-        price: item.price || 0,
+        menu_item_id: item.menu_item_id,
+        // Named as checkout names it for the webhook (combos list their components)
+        menu_item_name: getOrderItemName(item),
+        quantity: item.quantity,
+        price: fromCents(getPricedUnitCents(item)),
+        participant_name: participantName,
+        modifier_option_ids: item.modifiers.map((modifier) => modifier.option_id),
+        is_addon: false,
+        special_instructions: item.special_instructions ?? null,
       })
       
-      // Add addons
-      if (item.selectedAddons && item.selectedAddons.length > 0) {
-        item.selectedAddons.forEach((addon: any) => {
+      // Add addons (a combo's are already in its price)
+      if (item.item_type !== 'combo') {
+        item.selectedAddons.forEach((addon) => {
           items.push({
             order_id: order.id,
-            menu_item_id: `${item.id}-addon-${addon.name}`,
+            menu_item_id: `${item.menu_item_id}-addon-${addon.name}`,
             menu_item_name: `+ ${addon.name}`,
-            quantity: item.quantity || 1,
-            price: addon.price || 0,
+            quantity: item.quantity,
+            price: roundToCents(addon.price),
+            participant_name: participantName,
+            modifier_option_ids: null,
+            is_addon: true,
+            special_instructions: null,
           })
         })
       }
@@ -269,10 +343,29 @@ export async function POST(request: NextRequest) {
       return items
     })
 
-    const { error: itemsError } = await supabase
+    let itemsResult = await supabase
       .from('order_items')
       .insert(orderItemsData)
 
+    if (itemsResult.error && isMissingColumnError(itemsResult.error.message)) {
+      console.warn('Order items insert retrying without new columns:', itemsResult.error.message)
+      itemsResult = await supabase
+        .from('order_items')
+        .insert(
+          orderItemsData.map(
+            ({
+              participant_name: _participant,
+              modifier_option_ids: _options,
+              is_addon: _addon,
+              special_instructions: _note,
+              ...item
+            }: any) => item
+          )
+        )
+    }
+
+    const itemsError = itemsResult.error
+
     if (itemsError) {
       console.error('Error creating order items:', itemsError)
       // Try to delete the order if items failed
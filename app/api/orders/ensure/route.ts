@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Stripe from 'stripe'
-import { createServerClient } from '@/lib/supabase'
+import { createServerClient, isMissingColumnError } from '@/lib/supabase'
+import { applyOrderInventory, getInventoryUsage } from '@/lib/inventory'
+import { parseLoyaltyMetadata, recordOrderPoints } from '@/lib/loyalty'
+import { invalidateMenuCache } from '@/lib/menu'
+import { fromCents, parseCents } from '@/lib/money'
+import { parseTaxMetadata } from '@/lib/tax'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -11,16 +16,6 @@ const stripe = STRIPE_SECRET_KEY
   ? new Stripe(STRIPE_SECRET_KEY, { apiVersion: '2023-10-16' })
   : null
 
-const isMissingColumnError = (message?: string) => {
-  if (!message) return false
-  const normalized = message.toLowerCase()
-  return (
-    (normalized.includes('column') && normalized.includes('does not exist')) ||
-    normalized.includes('could not find') ||
-    normalized.includes('schema cache')
-  )
-}
-
 export async function POST(request: NextRequest) {
   try {
     if (!stripe) {
@@ -75,18 +70,24 @@ export async function POST(request: NextRequest) {
     const customerLastName = (meta.customer_last_name || '').toString().trim()
     const comments = (meta.comments || '').toString().trim().slice(0, 400)
 
-    const parsedTaxRaw = meta.tax ? parseFloat(String(meta.tax)) : 0
-    const taxAmount = Number.isFinite(parsedTaxRaw) ? parsedTaxRaw : 0
-
-    const parsedTipRaw = meta.tip_amount ? parseFloat(String(meta.tip_amount)) : 0
-    const tipAmount = Number.isFinite(parsedTipRaw) ? parsedTipRaw : 0
+    // Worked out in cents, stored as dollars
+    const taxCents = Math.max(parseCents(meta.tax) ?? 0, 0)
+    const tipCents = Math.max(parseCents(meta.tip_amount) ?? 0, 0)
+    const discountCents = Math.max(parseCents(meta.discount) ?? 0, 0)
 
     const parsedTipPercentRaw = meta.tip_percent ? parseFloat(String(meta.tip_percent)) : 0
     const tipPercent = Number.isFinite(parsedTipPercentRaw) ? parsedTipPercentRaw : 0
 
-    const stripeTotalRaw = typeof session.amount_total === 'number' ? session.amount_total / 100 : 0
-    const totalAmount = Number.isFinite(stripeTotalRaw) ? Number(stripeTotalRaw.toFixed(2)) : 0
-    const subtotalAmount = Number((totalAmount - taxAmount - tipAmount).toFixed(2))
+    // Checkout records the subtotal; sessions created before it did work it out from the total
+    const totalCents = typeof session.amount_total === 'number' ? session.amount_total : 0
+    const subtotalCents = parseCents(meta.subtotal) ?? totalCents - taxCents - tipCents + discountCents
+
+    const taxAmount = fromCents(taxCents)
+    const tipAmount = fromCents(tipCents)
+    const totalAmount = fromCents(totalCents)
+    const subtotalAmount = fromCents(subtotalCents)
+    const taxBreakdown = parseTaxMetadata(meta)
+    const loyaltyReward = parseLoyaltyMetadata(meta)
 
     // Order number (best-effort; if column missing we skip).
     let orderNumberColumnMissing = false
@@ -120,10 +121,16 @@ export async function POST(request: NextRequest) {
       customer_phone: customerPhoneDigits,
       customer_email: customerEmail || null,
       tip_percent: Number.isFinite(tipPercent) ? tipPercent : null,
-      tip_amount: Number.isFinite(tipAmount) ? tipAmount : null,
+      tip_amount: tipAmount,
       comments: comments || null,
+      subtotal_amount: subtotalAmount,
       total_amount: totalAmount,
       tax_amount: taxAmount,
+      tax_breakdown: taxBreakdown.length > 0 ? taxBreakdown : null,
+      promo_code_id: meta.promo_code_id || null,
+      promo_code: meta.promo_code || null,
+      discount_amount: fromCents(discountCents),
+      loyalty_reward: loyaltyReward?.name ?? null,
       status: 'pending',
       stripe_session_id: sessionId,
       ...orderNumberPayload,
@@ -141,6 +148,19 @@ export async function POST(request: NextRequest) {
     }
 
     let insertResult = await supabase.from('orders').insert(fullInsertPayload).select().single()
+    if (insertResult.error && isMissingColumnError(insertResult.error.message)) {
+      // Before supabase-migration-order-subtotal.sql / -tax-rates.sql / -promo-codes.sql / -loyalty.sql
+      const {
+        subtotal_amount: _subtotal,
+        tax_breakdown: _taxBreakdown,
+        promo_code_id: _promoCodeId,
+        promo_code: _promoCode,
+        discount_amount: _discount,
+        loyalty_reward: _loyaltyReward,
+        ...withoutAmountDetails
+      } = fullInsertPayload
+      insertResult = await supabase.from('orders').insert(withoutAmountDetails).select().single()
+    }
     if (insertResult.error && isMissingColumnError(insertResult.error.message)) {
       insertResult = await supabase.from('orders').insert(minimalInsertPayload).select().single()
     }
@@ -159,7 +179,27 @@ export async function POST(request: NextRequest) {
 
     const order = insertResult.data
 
-    const lineItemsResp = await stripe.checkout.sessions.listLineItems(sessionId, { limit: 100 })
+    // Loyalty points, as the webhook records them (once per order, whichever of the two gets here first).
+    // A failure here must not lose a paid order.
+    try {
+      const redeemed = await recordOrderPoints({
+        orderId: order.id,
+        phoneDigits: customerPhoneDigits,
+        paidCents: subtotalCents - discountCents,
+        redeemedPoints: loyaltyReward?.points ?? 0,
+      })
+      if (!redeemed) {
+        // Another order spent the same points first; the reward was still given
+        console.warn('Not enough points left to redeem the reward on order:', order.id)
+      }
+    } catch (loyaltyError: any) {
+      console.error('Error recording loyalty points for order:', order.id, loyaltyError?.message || loyaltyError)
+    }
+
+    const lineItemsResp = await stripe.checkout.sessions.listLineItems(sessionId, {
+      limit: 100,
+      expand: ['data.price.product'],
+    })
     const lineItems = Array.isArray(lineItemsResp.data) ? lineItemsResp.data : []
 
     const orderItemsData = lineItems
@@ -170,23 +210,63 @@ export async function POST(request: NextRequest) {
       .map((li) => {
         const unitAmount = typeof li.price?.unit_amount === 'number' ? li.price.unit_amount : 0
         const quantity = typeof li.quantity === 'number' ? li.quantity : 1
+        // Checkout puts the menu item, its options and (in group orders) the participant's name in the product metadata
+        const product = li.price?.product
+        const metadata = product && typeof product === 'object' && !product.deleted ? product.metadata : null
         return {
           order_id: order.id,
-          menu_item_id: li.id,
-          menu_item_name: li.description || 'Item',
+          menu_item_id: metadata?.menu_item_id || li.id,
+          // The kitchen-readable name (with options / combo components), as the webhook records it
+          menu_item_name: metadata?.order_item_name || li.description || 'Item',
           quantity,
-          price: unitAmount / 100,
+          price: fromCents(unitAmount),
+          participant_name: metadata?.participant_name || null,
+          modifier_option_ids: metadata?.menu_item_id
+            ? (metadata.modifier_option_ids || '').split(',').filter(Boolean)
+            : null,
+          is_addon: Boolean(metadata?.addon_for),
+          special_instructions: metadata?.special_instructions || null,
         }
       })
 
     if (orderItemsData.length > 0) {
-      const { error: itemsError } = await supabase.from('order_items').insert(orderItemsData)
+      let itemsResult = await supabase.from('order_items').insert(orderItemsData)
+      if (itemsResult.error && isMissingColumnError(itemsResult.error.message)) {
+        itemsResult = await supabase
+          .from('order_items')
+          .insert(
+            orderItemsData.map(
+              ({
+                participant_name: _participant,
+                modifier_option_ids: _options,
+                is_addon: _addon,
+                special_instructions: _note,
+                ...item
+              }) => item
+            )
+          )
+      }
+      const itemsError = itemsResult.error
       if (itemsError) {
         // Best-effort: don't delete the order; just report.
         console.error('Error inserting order_items:', itemsError)
       }
     }
 
+    // Inventory, as the webhook takes it (once per order, whichever route gets there first)
+    try {
+      const inventoryLines = orderItemsData.flatMap((item) =>
+        !item.is_addon && item.modifier_option_ids
+          ? [{ menu_item_id: item.menu_item_id, option_ids: item.modifier_option_ids, quantity: item.quantity }]
+          : []
+      )
+      if (await applyOrderInventory(order.id, getInventoryUsage(inventoryLines), { created: true })) {
+        invalidateMenuCache()
+      }
+    } catch (inventoryError: any) {
+      console.error('Error decrementing inventory for order:', order.id, inventoryError?.message || inventoryError)
+    }
+
     const complete = await supabase
       .from('orders')
       .select(`*, order_items (*)`)
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  findPromoCode,
+  getPromoCodeAvailabilityError,
+  getPromoCodeUsageError,
+  normalizePromoCode,
+  parsePromoLines,
+  toAppliedPromoCode,
+} from '@/lib/promo-codes'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Look up a promo code typed at checkout and work out what it takes off the checkout page's cart lines.
+// Only the code, its description and the discount are sent back; create-checkout-session checks
+// everything again, on the live menu's prices, before charging.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const code = normalizePromoCode(body?.code)
+    if (!code) {
+      return NextResponse.json({ error: 'Promo code is required' }, { status: 400 })
+    }
+
+    const lines = parsePromoLines(body?.lines ?? [])
+    if (!lines) {
+      return NextResponse.json({ error: 'Invalid cart lines' }, { status: 400 })
+    }
+
+    const promo = await findPromoCode(code)
+    if (!promo) {
+      return NextResponse.json({ error: `Promo code ${code} wasn't found` }, { status: 404 })
+    }
+
+    // Per-phone limits can only be checked once the customer has entered their number
+    const phoneDigits = typeof body?.phone === 'string' ? body.phone.replace(/\D/g, '') : ''
+    const error =
+      getPromoCodeAvailabilityError(promo) ||
+      (await getPromoCodeUsageError(promo, phoneDigits.length >= 10 ? phoneDigits : ''))
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    return NextResponse.json({ promo: toAppliedPromoCode(promo, lines) }, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+  } catch (error: any) {
+    console.error('Error checking promo code:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to check promo code' },
+      { status: 500 }
+    )
+  }
+}
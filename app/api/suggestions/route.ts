@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMenuItems } from '@/lib/menu'
+import { getCoPurchaseStats, getSuggestions } from '@/lib/suggestions'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const MAX_CART_ITEMS = 50
+
+// "Goes well with" items for the cart: GET /api/suggestions?items=<menu item id>,<menu item id>
+export async function GET(request: NextRequest) {
+  try {
+    const itemIds = (request.nextUrl.searchParams.get('items') || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter((id) => id && id.length <= 100)
+      .slice(0, MAX_CART_ITEMS)
+
+    if (itemIds.length === 0) {
+      return NextResponse.json({ suggestions: [] }, { headers: { 'Cache-Control': 'no-store, max-age=0' } })
+    }
+
+    const menuItems = await getMenuItems()
+    const stats = await getCoPurchaseStats(menuItems)
+
+    return NextResponse.json(
+      { suggestions: getSuggestions(itemIds, menuItems, stats) },
+      { headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    )
+  } catch (error: any) {
+    console.error('Error fetching suggestions:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch suggestions' },
+      { status: 500 }
+    )
+  }
+}
+
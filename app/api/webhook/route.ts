@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Stripe from 'stripe'
-import { createServerClient } from '@/lib/supabase'
+import { createServerClient, isMissingColumnError } from '@/lib/supabase'
+import { applyOrderInventory, getInventoryUsage, InventoryLine } from '@/lib/inventory'
+import { invalidateMenuCache } from '@/lib/menu'
+import { normalizeSpecialInstructions } from '@/lib/cart-utils'
+import { parseLoyaltyMetadata, recordOrderPoints } from '@/lib/loyalty'
+import { fromCents, parseCents } from '@/lib/money'
+import { parseTaxMetadata } from '@/lib/tax'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -18,6 +24,12 @@ const stripe = STRIPE_SECRET_KEY
     })
   : null
 
+// Product metadata set by create-checkout-session (requires listLineItems with expand: ['data.price.product'])
+const getLineItemMetadata = (li: Stripe.LineItem): Stripe.Metadata | null => {
+  const product = li.price?.product
+  return product && typeof product === 'object' && !product.deleted ? product.metadata : null
+}
+
 export async function POST(request: NextRequest) {
   if (!stripe || !webhookSecret) {
     console.error('Stripe webhook not configured')
@@ -69,6 +81,10 @@ export async function POST(request: NextRequest) {
         tip_amount,
         comments,
         tax,
+        subtotal,
+        promo_code_id,
+        promo_code,
+        discount,
         items,
       } = session.metadata || {}
 
@@ -88,6 +104,7 @@ export async function POST(request: NextRequest) {
 
       // Prefer cart JSON from metadata (older versions). If missing, reconstruct from Stripe line items.
       let orderItems: any[] = []
+      const inventoryLines: InventoryLine[] = []
       if (items) {
         try {
           orderItems = JSON.parse(items)
@@ -96,8 +113,21 @@ export async function POST(request: NextRequest) {
         }
       }
       if (!Array.isArray(orderItems) || orderItems.length === 0) {
-        const lineItemsResp = await stripe.checkout.sessions.listLineItems(session.id, { limit: 100 })
+        const lineItemsResp = await stripe.checkout.sessions.listLineItems(session.id, {
+          limit: 100,
+          expand: ['data.price.product'],
+        })
         const lineItems = Array.isArray(lineItemsResp.data) ? lineItemsResp.data : []
+        lineItems.forEach((li) => {
+          const productMetadata = getLineItemMetadata(li)
+          if (productMetadata?.menu_item_id) {
+            inventoryLines.push({
+              menu_item_id: productMetadata.menu_item_id,
+              option_ids: (productMetadata.modifier_option_ids || '').split(',').filter(Boolean),
+              quantity: typeof li.quantity === 'number' ? li.quantity : 1,
+            })
+          }
+        })
         orderItems = lineItems
           .filter((li) => {
             const name = (li.description || '').toLowerCase()
@@ -106,26 +136,49 @@ export async function POST(request: NextRequest) {
           .map((li) => {
             const unitAmount = typeof li.price?.unit_amount === 'number' ? li.price.unit_amount : 0
             const quantity = typeof li.quantity === 'number' ? li.quantity : 1
+            const productMetadata = getLineItemMetadata(li)
             return {
-              id: li.id,
-              name: li.description || 'Item',
-              price: unitAmount / 100,
+              // Checkout stores the menu item id and a kitchen-readable name (with options / combo components)
+              id: productMetadata?.menu_item_id || li.id,
+              name: productMetadata?.order_item_name || li.description || 'Item',
+              price: fromCents(unitAmount),
               quantity,
               selectedOptions: [],
               selectedAddons: [],
+              participant_name: productMetadata?.participant_name || null,
+              modifier_option_ids: productMetadata?.menu_item_id
+                ? (productMetadata.modifier_option_ids || '').split(',').filter(Boolean)
+                : null,
+              is_addon: Boolean(productMetadata?.addon_for),
+              special_instructions: productMetadata?.special_instructions || null,
             }
           })
       }
 
-      const isMissingColumnError = (message?: string) => {
-        if (!message) return false
-        const normalized = message.toLowerCase()
-        return (
-          (normalized.includes('column') && normalized.includes('does not exist')) ||
-          normalized.includes('could not find') ||
-          normalized.includes('schema cache')
-        )
-      }
+      // Amounts are worked out in cents and stored as dollars.
+      const taxCents = Math.max(parseCents(tax) ?? 0, 0)
+      const tipCents = Math.max(parseCents(tip_amount) ?? 0, 0)
+      const discountCents = Math.max(parseCents(discount) ?? 0, 0)
+
+      const parsedTipPercentRaw =
+        tip_percent !== undefined && tip_percent !== null && tip_percent !== ''
+          ? parseFloat(tip_percent)
+          : 0
+      const tipPercent = Number.isFinite(parsedTipPercentRaw) && parsedTipPercentRaw >= 0
+        ? parsedTipPercentRaw
+        : 0
+
+      // Total comes from Stripe's session amount_total (includes our tax/tip line items, less any promo). Checkout
+      // records the subtotal; sessions created before it did work it out from the total.
+      const totalCents = typeof session.amount_total === 'number' ? session.amount_total : 0
+      const subtotalCents = parseCents(subtotal) ?? totalCents - taxCents - tipCents + discountCents
+
+      const taxAmount = fromCents(taxCents)
+      const normalizedTipAmount = fromCents(tipCents)
+      const totalAmount = fromCents(totalCents)
+      const subtotalAmount = fromCents(subtotalCents)
+      const taxBreakdown = parseTaxMetadata(session.metadata)
+      const loyaltyReward = parseLoyaltyMetadata(session.metadata)
 
       // Check if order with this session ID already exists (prevent duplicates)
       let orderNumberColumnMissing = false
@@ -153,8 +206,42 @@ export async function POST(request: NextRequest) {
         existingOrder = existingOrderResult.data as any
       }
 
+      // Take the order out of inventory once, whichever route created it (retries and the other routes find
+      // it already applied). A failure here must not lose a paid order.
+      const applyInventory = async (orderId: string, created: boolean) => {
+        try {
+          if (await applyOrderInventory(orderId, getInventoryUsage(inventoryLines), { created })) {
+            invalidateMenuCache()
+          }
+        } catch (inventoryError: any) {
+          console.error('Error decrementing inventory for order:', orderId, inventoryError?.message || inventoryError)
+        }
+      }
+
+      // Loyalty points for what the customer paid before tax and tip. Recorded for orders another route created too
+      // (create-direct doesn't record them); the ledger keeps one entry per order.
+      const recordPoints = async (orderId: string) => {
+        try {
+          const redeemed = await recordOrderPoints({
+            orderId,
+            phoneDigits: normalizedCustomerPhone,
+            paidCents: subtotalCents - discountCents,
+            redeemedPoints: loyaltyReward?.points ?? 0,
+          })
+          if (!redeemed) {
+            // Another order spent the same points first; the reward was still given
+            console.warn('Not enough points left to redeem the reward on order:', orderId)
+          }
+        } catch (loyaltyError: any) {
+          console.error('Error recording loyalty points for order:', orderId, loyaltyError?.message || loyaltyError)
+        }
+      }
+
       if (existingOrder) {
+        // Created first by /api/orders/ensure or /api/orders/create-direct
         console.log('Order already exists for session:', session.id)
+        await applyInventory(existingOrder.id, false)
+        await recordPoints(existingOrder.id)
         return NextResponse.json({ received: true, message: 'Order already processed' })
       }
 
@@ -181,34 +268,6 @@ export async function POST(request: NextRequest) {
         }
       }
 
-      // Create order in Supabase
-      const parsedTaxRaw = tax ? parseFloat(tax) : 0
-      const taxAmount = Number.isFinite(parsedTaxRaw) ? parsedTaxRaw : 0
-
-      const parsedTipAmountRaw =
-        tip_amount !== undefined && tip_amount !== null && tip_amount !== ''
-          ? parseFloat(tip_amount)
-          : 0
-      const tipAmount = Number.isFinite(parsedTipAmountRaw) && parsedTipAmountRaw >= 0
-        ? parsedTipAmountRaw
-        : 0
-
-      const parsedTipPercentRaw =
-        tip_percent !== undefined && tip_percent !== null && tip_percent !== ''
-          ? parseFloat(tip_percent)
-          : 0
-      const tipPercent = Number.isFinite(parsedTipPercentRaw) && parsedTipPercentRaw >= 0
-        ? parsedTipPercentRaw
-        : 0
-
-      const normalizedTipAmount =
-        tipAmount > 0 ? tipAmount : 0
-
-      // Total comes from Stripe's session amount_total (includes our tax/tip line items).
-      const stripeTotalRaw = typeof session.amount_total === 'number' ? session.amount_total / 100 : 0
-      const totalAmount = Number.isFinite(stripeTotalRaw) ? Number(stripeTotalRaw.toFixed(2)) : 0
-      const subtotalAmount = Number((totalAmount - taxAmount - normalizedTipAmount).toFixed(2))
-
       const fullInsertPayload = {
         customer_name,
         customer_first_name: derivedFirstName,
@@ -216,10 +275,16 @@ export async function POST(request: NextRequest) {
         customer_phone: normalizedCustomerPhone,
         customer_email: customer_email || null,
         tip_percent: Number.isFinite(tipPercent) ? tipPercent : null,
-        tip_amount: Number.isFinite(normalizedTipAmount) ? normalizedTipAmount : null,
+        tip_amount: normalizedTipAmount,
         comments: comments ? comments.toString().slice(0, 400) : null,
+        subtotal_amount: subtotalAmount,
         total_amount: totalAmount,
         tax_amount: taxAmount,
+        tax_breakdown: taxBreakdown.length > 0 ? taxBreakdown : null,
+        promo_code_id: promo_code_id || null,
+        promo_code: promo_code || null,
+        discount_amount: fromCents(discountCents),
+        loyalty_reward: loyaltyReward?.name ?? null,
         status: 'pending',
         stripe_session_id: session.id,
       }
@@ -246,6 +311,24 @@ export async function POST(request: NextRequest) {
         .select()
         .single()
 
+      if (insertResult.error && isMissingColumnError(insertResult.error.message)) {
+        // Before supabase-migration-order-subtotal.sql / -tax-rates.sql / -promo-codes.sql / -loyalty.sql
+        const {
+          subtotal_amount: _subtotal,
+          tax_breakdown: _taxBreakdown,
+          promo_code_id: _promoCodeId,
+          promo_code: _promoCode,
+          discount_amount: _discount,
+          loyalty_reward: _loyaltyReward,
+          ...withoutAmountDetails
+        } = fullInsertPayload
+        insertResult = await supabase
+          .from('orders')
+          .insert(insertWithNumber ? { ...withoutAmountDetails, ...orderNumberPayload } : withoutAmountDetails)
+          .select()
+          .single()
+      }
+
       if (insertResult.error && isMissingColumnError(insertResult.error.message)) {
         console.warn('Webhook order insert retrying without new columns:', insertResult.error.message)
         insertResult = await supabase
@@ -261,6 +344,10 @@ export async function POST(request: NextRequest) {
         throw orderError
       }
 
+      await applyInventory(order.id, true)
+
+      await recordPoints(order.id)
+
       // Create order items with options and addons
       const orderItemsData = orderItems.flatMap((item: any) => {
         // Build item name with options
@@ -271,13 +358,23 @@ export async function POST(request: NextRequest) {
         
         const items = []
         
-        // Main item
+        // Group orders: label the item with whose bag it goes in
+        const participantName = item.participant_name || null
+
+        // Main item. Cart JSON lines carry their selections; Stripe lines were read back above.
+        // modifier_option_ids lets the customer reorder it later.
         items.push({
           order_id: order.id,
-          menu_item_id: item.id,
+          menu_item_id: item.base_item_id || item.id,
           menu_item_name: itemName,
           quantity: item.quantity,
           price: item.price,
+          participant_name: participantName,
+          modifier_option_ids: Array.isArray(item.modifiers)
+            ? item.modifiers.map((modifier: any) => modifier.option_id)
+            : item.modifier_option_ids ?? null,
+          is_addon: Boolean(item.is_addon),
+          special_instructions: normalizeSpecialInstructions(item.special_instructions),
         })
         
         // Add addons as separate line items
@@ -289,6 +386,10 @@ export async function POST(request: NextRequest) {
               menu_item_name: `+ ${addon.name}`,
               quantity: item.quantity,
               price: addon.price,
+              participant_name: participantName,
+              modifier_option_ids: null,
+              is_addon: true,
+              special_instructions: null,
             })
           })
         }
@@ -296,12 +397,29 @@ export async function POST(request: NextRequest) {
         return items
       })
 
-      const { error: itemsError } = await supabase
+      let itemsResult = await supabase
         .from('order_items')
         .insert(orderItemsData)
 
-      if (itemsError) {
-        throw itemsError
+      if (itemsResult.error && isMissingColumnError(itemsResult.error.message)) {
+        console.warn('Webhook order_items insert retrying without new columns:', itemsResult.error.message)
+        itemsResult = await supabase
+          .from('order_items')
+          .insert(
+            orderItemsData.map(
+              ({
+                participant_name: _participant,
+                modifier_option_ids: _options,
+                is_addon: _addon,
+                special_instructions: _note,
+                ...item
+              }: any) => item
+            )
+          )
+      }
+
+      if (itemsResult.error) {
+        throw itemsResult.error
       }
 
       console.log('Order created successfully:', order.id)
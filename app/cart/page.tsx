@@ -1,23 +1,56 @@
 'use client'
 
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect, useMemo, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
-import { getCart, updateCartItemQuantity, removeFromCart } from '@/lib/cart'
 import {
-  calculateSubtotal,
-  calculateTax,
-  calculateTipAmount,
-  calculateTotal,
+  clearCart,
+  continueSharedCart,
+  copySharedCart,
+  fetchSharedCart,
+  getCart,
+  getCartShareUrl,
+  getGroupOrderRole,
+  getSyncedCartId,
+  joinGroupOrder,
+  lockGroupOrderForCheckout,
+  pullCart,
+  removeFromCart,
+  revalidateCart,
+  setGroupOrderLocked,
+  startGroupOrder,
+  syncCart,
+  updateCartItemQuantity,
+} from '@/lib/cart'
+import {
+  calculateOrderTotals,
+  calculateTipCents,
+  getCartLineTotalCents,
+  getCartOrderLines,
 } from '@/lib/cart-utils'
-import { CartItem, MenuItem } from '@/lib/types'
-import { Minus, Plus, Trash2, ShoppingBag } from 'lucide-react'
+import { centsToAmount, formatCents } from '@/lib/money'
+import { CartChange, CartItem, MenuItem, SharedCart } from '@/lib/types'
+import { Minus, Plus, Trash2, ShoppingBag, Share2 } from 'lucide-react'
 import Image from 'next/image'
 import Link from 'next/link'
-import { menuItems } from '@/lib/menu-data'
+import { useMenu } from '@/lib/use-menu'
+import { groupCartModifiers } from '@/lib/modifiers'
+import { findMenuItemForCartLine } from '@/lib/availability'
+import { groupCartLinesByParticipant } from '@/lib/group-orders'
+import { localizeCartItem } from '@/lib/i18n'
+import { useLocale } from '@/lib/use-locale'
+import { isStorageEventFor, writeStorage } from '@/lib/storage'
 import MenuItemModal from '@/components/MenuItemModal'
+import SharedCartPanel from '@/components/SharedCartPanel'
+import GroupOrderPanel from '@/components/GroupOrderPanel'
+import CartChangesNotice from '@/components/CartChangesNotice'
+import CartSuggestions from '@/components/CartSuggestions'
+
+const GROUP_REFRESH_MS = 10000
 
 export default function CartPage() {
   const router = useRouter()
+  const { items: menuItems } = useMenu()
+  const { locale, t } = useLocale()
   const [cart, setCart] = useState<CartItem[]>([])
   const [editingItem, setEditingItem] = useState<CartItem | null>(null)
   const [editingMenuItem, setEditingMenuItem] = useState<MenuItem | null>(null)
@@ -32,10 +65,27 @@ export default function CartPage() {
   })
   const [isProcessing, setIsProcessing] = useState(false)
   const [checkoutError, setCheckoutError] = useState<string | null>(null)
+  const [sharedCart, setSharedCart] = useState<SharedCart | null>(null)
+  const [sharedCartMissing, setSharedCartMissing] = useState(false)
+  const [shareState, setShareState] = useState<'idle' | 'sharing' | 'copied' | 'failed'>('idle')
+  const [shareUrl, setShareUrl] = useState<string | null>(null)
+  const [groupCart, setGroupCart] = useState<SharedCart | null>(null)
+  const [groupRole, setGroupRole] = useState<ReturnType<typeof getGroupOrderRole>>(null)
+  const [cartChanges, setCartChanges] = useState<CartChange[]>([])
+
+  // Check the saved cart against the current menu; fixes it and lists what changed
+  const checkCart = useCallback(() => {
+    revalidateCart()
+      .then((changes) => {
+        if (changes.length > 0) setCartChanges(changes)
+      })
+      .catch((error) => console.error('Failed to check cart:', error))
+  }, [])
 
   useEffect(() => {
     const updateCart = () => {
       setCart(getCart())
+      setGroupRole(getGroupOrderRole())
     }
     
     // Initial load
@@ -43,7 +93,7 @@ export default function CartPage() {
     
     // Listen for storage changes (when cart is updated from other tabs/pages)
     const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'denver-kabob-cart') {
+      if (isStorageEventFor(e, 'cart')) {
         updateCart()
       }
     }
@@ -63,6 +113,146 @@ export default function CartPage() {
     }
   }, [])
 
+  // Open a share link (/cart?shared=<id>), or pick up edits made to this cart on another device.
+  // Either way the cart is then checked against the current menu.
+  useEffect(() => {
+    const refresh = () =>
+      pullCart()
+        .then((saved) => setGroupCart(saved?.is_group ? saved : null))
+        .catch((error) => console.error('Failed to refresh cart:', error))
+        .then(checkCart)
+
+    const sharedId = new URLSearchParams(window.location.search).get('shared')
+    if (!sharedId) {
+      refresh()
+      return
+    }
+
+    window.history.replaceState(null, '', '/cart')
+    if (sharedId === getSyncedCartId()) {
+      refresh()
+      return
+    }
+    checkCart()
+    fetchSharedCart(sharedId)
+      .then((shared) => {
+        if (shared) {
+          setSharedCart(shared)
+        } else {
+          setSharedCartMissing(true)
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load shared cart:', error)
+        setSharedCartMissing(true)
+      })
+  }, [checkCart])
+
+  // Group orders: show what everyone else adds while the page is open
+  useEffect(() => {
+    if (!groupRole) return
+    const interval = setInterval(() => {
+      pullCart()
+        .then((saved) => setGroupCart(saved?.is_group ? saved : null))
+        .catch((error) => console.error('Failed to refresh group order:', error))
+    }, GROUP_REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [groupRole])
+
+  const handleShare = async () => {
+    setShareState('sharing')
+    try {
+      const id = await syncCart()
+      if (!id) throw new Error('Cart could not be saved')
+      const url = getCartShareUrl(id)
+      setShareUrl(url)
+      await navigator.clipboard.writeText(url).catch(() => undefined)
+      setShareState('copied')
+    } catch (error) {
+      console.error('Failed to share cart:', error)
+      setShareState('failed')
+    }
+  }
+
+  const handleContinueShared = () => {
+    if (!sharedCart) return
+    setCart(continueSharedCart(sharedCart))
+    setSharedCart(null)
+    checkCart()
+  }
+
+  const handleCopyShared = () => {
+    if (!sharedCart) return
+    setCart(copySharedCart(sharedCart))
+    setSharedCart(null)
+    checkCart()
+  }
+
+  const handleJoinGroup = (name: string) => {
+    if (!sharedCart) return
+    setCart(joinGroupOrder(sharedCart, name))
+    setGroupCart(sharedCart)
+    setGroupRole(getGroupOrderRole())
+    setSharedCart(null)
+    checkCart()
+  }
+
+  const handleStartGroup = async (hostName: string) => {
+    setGroupCart(await startGroupOrder(hostName))
+    setGroupRole(getGroupOrderRole())
+  }
+
+  const handleLockGroup = async (locked: boolean) => {
+    setGroupCart(await setGroupOrderLocked(locked))
+  }
+
+  const handleLeaveGroup = () => {
+    clearCart()
+    setCart([])
+    setGroupCart(null)
+    setGroupRole(null)
+  }
+
+  // In a group order people change only their own lines; once locked, only the host changes anything
+  const canEditLine = (line: CartItem) => {
+    if (!groupRole) return true
+    if (groupCart?.locked_at) return groupRole.isHost
+    return line.participant_name === groupRole.participantName
+  }
+  const isGroupParticipant = Boolean(groupRole && !groupRole.isHost)
+  const groupHostName = groupCart?.host_name || t.group.theHost
+
+  const groupOrderPanel = (
+    <GroupOrderPanel
+      groupCart={groupCart}
+      role={groupRole}
+      onStart={handleStartGroup}
+      onLock={handleLockGroup}
+      onLeave={handleLeaveGroup}
+    />
+  )
+
+  const cartNotices = (
+    <>
+      <CartChangesNotice changes={cartChanges} menuItems={menuItems} onDismiss={() => setCartChanges([])} />
+      {sharedCart && (
+        <SharedCartPanel
+          cart={sharedCart}
+          menuItems={menuItems}
+          onContinue={handleContinueShared}
+          onCopy={handleCopyShared}
+          onJoin={handleJoinGroup}
+          onDismiss={() => setSharedCart(null)}
+        />
+      )}
+      {sharedCartMissing && (
+        <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 text-start">
+          {t.cart.sharedNotFound}
+        </div>
+      )}
+    </>
+  )
+
   const handleQuantityChange = (itemId: string, newQuantity: number) => {
     const updatedCart = updateCartItemQuantity(itemId, newQuantity)
     setCart(updatedCart)
@@ -73,17 +263,10 @@ export default function CartPage() {
     setCart(updatedCart)
   }
 
-  const getBaseItemId = (cartItem: CartItem) => {
-    if (cartItem.base_item_id) return cartItem.base_item_id
-    const [baseId] = cartItem.id.split('-')
-    return baseId || cartItem.id
-  }
-
   const handleEditItem = (cartItem: CartItem) => {
-    const baseId = getBaseItemId(cartItem)
-    const menuItem = menuItems.find((item) => item.id === baseId) || null
+    const menuItem = findMenuItemForCartLine(cartItem, menuItems) || null
     const fallbackItem: MenuItem = {
-      id: baseId,
+      id: cartItem.base_item_id || cartItem.id,
       name: cartItem.name,
       description: '',
       price: cartItem.price,
@@ -95,13 +278,9 @@ export default function CartPage() {
     setIsEditModalOpen(true)
   }
 
-  const subtotal = calculateSubtotal(cart)
-  const tax = calculateTax(subtotal)
-  const tipAmount = calculateTipAmount(subtotal, customerInfo.tipPercent)
-  const total = calculateTotal(subtotal, tax, tipAmount)
+  const totals = calculateOrderTotals(getCartOrderLines(cart, menuItems), customerInfo.tipPercent)
 
-  const tipAmountForPercent = (percent: number) =>
-    (subtotal * (percent / 100)).toFixed(2)
+  const tipAmountForPercent = (percent: number) => centsToAmount(calculateTipCents(totals.subtotal, percent))
 
   const validatePhone = (phone: string): boolean => {
     const phoneDigits = phone.replace(/\D/g, '')
@@ -116,34 +295,41 @@ export default function CartPage() {
 
   const handleCheckout = async () => {
     if (cart.length === 0) {
-      setCheckoutError('Your cart is empty')
+      setCheckoutError(t.checkout.errors.emptyCart)
       return
     }
 
     // Validate name
     if (!customerInfo.firstName.trim()) {
-      setCheckoutError('Please enter your first name')
+      setCheckoutError(t.checkout.errors.firstName)
       return
     }
     if (!customerInfo.lastName.trim()) {
-      setCheckoutError('Please enter your last name')
+      setCheckoutError(t.checkout.errors.lastName)
       return
     }
 
     // Validate phone
     if (!customerInfo.phone) {
-      setCheckoutError('Please enter your phone number')
+      setCheckoutError(t.checkout.errors.phone)
       return
     }
 
     if (!validatePhone(customerInfo.phone)) {
-      setCheckoutError('Please enter a valid phone number (at least 10 digits)')
+      setCheckoutError(t.checkout.errors.phoneInvalid)
       return
     }
 
     // Validate email if provided
     if (customerInfo.email && !validateEmail(customerInfo.email)) {
-      setCheckoutError('Please enter a valid email address')
+      setCheckoutError(t.checkout.errors.email)
+      return
+    }
+
+    // Group orders: only the host pays, for everyone
+    const groupRole = getGroupOrderRole()
+    if (groupRole && !groupRole.isHost) {
+      setCheckoutError(t.group.hostChecksOut(groupHostName))
       return
     }
 
@@ -164,36 +350,36 @@ export default function CartPage() {
       comments: customerInfo.comments.trim().slice(0, 400),
     }
 
-    // Save customer info to localStorage for order creation fallback
-    try {
-      localStorage.setItem('denver-kabob-cart', JSON.stringify(cart))
-      localStorage.setItem('denver-kabob-customer-info', JSON.stringify(customerPayload))
-      localStorage.setItem('denver-kabob-order-details', JSON.stringify(orderDetails))
-    } catch (e) {
-      console.error('Failed to save to localStorage:', e)
-    }
+    // Saved with the cart for the order confirmation page's fallback order creation
+    writeStorage('customerInfo', customerPayload)
+    writeStorage('orderDetails', orderDetails)
 
     try {
+      // Lock the group first; if someone changed their items meanwhile, let the host review them
+      if (await lockGroupOrderForCheckout(cart)) {
+        setCheckoutError(t.group.cartChanged)
+        setIsProcessing(false)
+        return
+      }
+
       const response = await fetch('/api/create-checkout-session', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          items: cart.map((item) => {
-            let itemPrice = item.price
-            if (item.selectedAddons && item.selectedAddons.length > 0) {
-              itemPrice += item.selectedAddons.reduce((sum, addon) => sum + addon.price, 0)
-            }
-            return {
-              id: item.id,
-              name: item.name,
-              price: itemPrice,
-              quantity: item.quantity,
-              selectedOptions: item.selectedOptions || [],
-              selectedAddons: item.selectedAddons || [],
-            }
-          }),
+          items: cart.map((item) => ({
+            id: item.id,
+            name: item.name,
+            price: item.price,
+            quantity: item.quantity,
+            selectedOptions: item.selectedOptions || [],
+            selectedAddons: item.selectedAddons || [],
+            base_item_id: item.base_item_id,
+            modifiers: item.modifiers || [],
+            participant_name: item.participant_name,
+            special_instructions: item.special_instructions,
+          })),
           customerInfo: customerPayload,
           orderDetails,
         }),
@@ -227,27 +413,155 @@ export default function CartPage() {
       }
     } catch (error: any) {
       console.error('Checkout error:', error)
-      setCheckoutError(error.message || 'Failed to start checkout. Please try again.')
+      setCheckoutError(error.message || t.checkout.errors.failed)
       setIsProcessing(false)
     }
   }
 
+  const renderCartLine = (cartItem: CartItem) => {
+    // Translated labels for display; quantity changes and edits use the saved line
+    const item = localizeCartItem(cartItem, menuItems, locale)
+    const editable = canEditLine(cartItem)
+    return (
+      <div
+        key={item.id}
+        className={`bg-white border border-gray-200 rounded-lg p-3 sm:p-4 flex flex-col sm:flex-row gap-3 ${
+          editable ? 'cursor-pointer hover:border-black transition-colors' : ''
+        }`}
+        onClick={() => editable && handleEditItem(cartItem)}
+      >
+        {item.image_url && (
+          <div className="relative w-full sm:w-36 h-36 flex-shrink-0 bg-gray-100 rounded-xl overflow-hidden">
+            <Image
+              src={item.image_url}
+              alt={item.name}
+              fill
+              className="object-cover"
+            />
+          </div>
+        )}
+        <div className="flex-1">
+          <h3 className="font-display text-xl font-semibold text-gray-900 mb-2">
+            {item.name}
+          </h3>
+          
+          {/* Combo components */}
+          {item.item_type === 'combo' && item.modifiers && item.modifiers.length > 0 ? (
+            <div className="mb-2 space-y-1">
+              {groupCartModifiers(item.modifiers).map((group) => (
+                <p key={group.name} className="text-xs text-gray-700">
+                  <span className="text-gray-500">{group.name}:</span>{' '}
+                  {group.modifiers
+                    .map((modifier) =>
+                      modifier.price > 0 ? `${modifier.label} (+$${modifier.price.toFixed(2)})` : modifier.label
+                    )
+                    .join(', ')}
+                </p>
+              ))}
+            </div>
+          ) : (
+          <>
+          {/* Selected Options */}
+          {item.selectedOptions && item.selectedOptions.length > 0 && (
+            <div className="mb-2">
+              <p className="text-xs text-gray-500 mb-1">{t.cart.options}</p>
+              <div className="flex flex-wrap gap-1">
+                {item.selectedOptions.map((option, idx) => (
+                  <span key={idx} className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
+                    {option}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Selected Add-ons */}
+          {item.selectedAddons && item.selectedAddons.length > 0 && (
+            <div className="mb-2">
+              <p className="text-xs text-gray-500 mb-1">{t.cart.addOns}</p>
+              <div className="space-y-1">
+                {item.selectedAddons.map((addon, idx) => (
+                  <div key={idx} className="text-xs text-gray-700 flex justify-between">
+                    <span>+ {addon.name}</span>
+                    <span className="font-semibold">+${addon.price.toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          </>
+          )}
+
+          {item.special_instructions && (
+            <p className="mb-2 text-xs text-gray-700">
+              <span className="text-gray-500">{t.cart.note}</span> {item.special_instructions}
+            </p>
+          )}
+
+          {editable ? (
+          <div className="flex items-center justify-between mt-4">
+            <div className="flex items-center gap-3">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleQuantityChange(item.id, item.quantity - 1)
+                }}
+                className="bg-gray-100 hover:bg-gray-200 text-gray-900 rounded-lg p-2 transition-colors"
+              >
+                <Minus size={18} />
+              </button>
+              <span className="font-semibold text-lg w-8 text-center">
+                {item.quantity}
+              </span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleQuantityChange(item.id, item.quantity + 1)
+                }}
+                className="bg-gray-100 hover:bg-gray-200 text-gray-900 rounded-lg p-2 transition-colors"
+              >
+                <Plus size={18} />
+              </button>
+            </div>
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                handleRemove(item.id)
+              }}
+              className="text-gray-600 hover:text-black transition-colors"
+            >
+              <Trash2 size={20} />
+            </button>
+          </div>
+          ) : (
+            <p className="text-sm text-gray-600 mt-4">× {item.quantity}</p>
+          )}
+          <p className="text-gray-900 font-bold text-lg mt-2">
+            {formatCents(getCartLineTotalCents(item))}
+          </p>
+        </div>
+      </div>
+    )
+  }
+
   if (cart.length === 0) {
     return (
       <div className="min-h-screen bg-white pt-24 sm:pt-28 pb-12">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
+          {cartNotices}
+          {groupRole && <div className="mb-8">{groupOrderPanel}</div>}
           <ShoppingBag size={64} className="mx-auto text-gray-400 mb-6" />
           <h1 className="font-display text-4xl font-bold text-gray-900 mb-4">
-            Your Cart is Empty
+            {t.cart.emptyTitle}
           </h1>
           <p className="text-lg text-gray-600 mb-8">
-            Add some delicious items from our menu to get started!
+            {t.cart.emptyText}
           </p>
           <Link
             href="/menu"
-            className="inline-flex items-center space-x-2 bg-black text-white px-8 py-4 rounded-lg text-lg font-semibold hover:bg-gray-800 transition-colors"
+            className="inline-flex items-center gap-2 bg-black text-white px-8 py-4 rounded-lg text-lg font-semibold hover:bg-gray-800 transition-colors"
           >
-            <span>Browse Menu</span>
+            <span>{t.cart.browseMenu}</span>
           </Link>
         </div>
       </div>
@@ -257,109 +571,59 @@ export default function CartPage() {
   return (
     <div className="min-h-screen bg-white py-12">
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
-        <h1 className="font-display text-4xl font-bold text-gray-900 mb-8">
-          Your Cart
-        </h1>
+        {cartNotices}
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-8">
+          <h1 className="font-display text-4xl font-bold text-gray-900">
+            {t.cart.title}
+          </h1>
+          <button
+            onClick={handleShare}
+            disabled={shareState === 'sharing'}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 hover:border-black rounded-lg text-sm font-semibold text-gray-900 transition-colors disabled:opacity-50"
+          >
+            <Share2 size={16} />
+            {shareState === 'sharing' ? t.cart.sharing : t.cart.shareCart}
+          </button>
+        </div>
+        {shareState === 'failed' && (
+          <p className="-mt-6 mb-6 text-sm text-red-700">{t.cart.shareFailed}</p>
+        )}
+        {shareState === 'copied' && shareUrl && (
+          <div className="-mt-6 mb-6">
+            <label className="block text-xs font-semibold text-gray-700 mb-1">{t.cart.shareLink}</label>
+            <input
+              type="text"
+              readOnly
+              value={shareUrl}
+              onFocus={(e) => e.target.select()}
+              className="w-full max-w-md px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 text-sm"
+              dir="ltr"
+            />
+            <p className="text-xs text-gray-500 mt-1">{t.cart.shareLinkCopied}</p>
+          </div>
+        )}
+        <div className="-mt-4 mb-8">{groupOrderPanel}</div>
 
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           {/* Cart Items */}
           <div className="lg:col-span-7 space-y-4 pb-24 lg:pb-0">
-            {cart.map((item) => (
-              <div
-                key={item.id}
-                className="bg-white border border-gray-200 rounded-lg p-3 sm:p-4 flex flex-col sm:flex-row gap-3 cursor-pointer hover:border-black transition-colors"
-                onClick={() => handleEditItem(item)}
-              >
-                {item.image_url && (
-                  <div className="relative w-full sm:w-36 h-36 flex-shrink-0 bg-gray-100 rounded-xl overflow-hidden">
-                    <Image
-                      src={item.image_url}
-                      alt={item.name}
-                      fill
-                      className="object-cover"
-                    />
+            {groupRole ? (
+              groupCartLinesByParticipant(cart, groupRole.participantName).map((person) => (
+                <div key={person.name} className="space-y-3">
+                  <div className="flex justify-between items-baseline border-b border-gray-200 pb-1">
+                    <h2 className="font-semibold text-gray-900">{person.name}</h2>
+                    <span className="text-sm text-gray-600">
+                      {t.checkout.subtotal}: {formatCents(person.subtotal)}
+                    </span>
                   </div>
-                )}
-                <div className="flex-1">
-                  <h3 className="font-display text-xl font-semibold text-gray-900 mb-2">
-                    {item.name}
-                  </h3>
-                  
-                  {/* Selected Options */}
-                  {item.selectedOptions && item.selectedOptions.length > 0 && (
-                    <div className="mb-2">
-                      <p className="text-xs text-gray-500 mb-1">Options:</p>
-                      <div className="flex flex-wrap gap-1">
-                        {item.selectedOptions.map((option, idx) => (
-                          <span key={idx} className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded">
-                            {option}
-                          </span>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Selected Add-ons */}
-                  {item.selectedAddons && item.selectedAddons.length > 0 && (
-                    <div className="mb-2">
-                      <p className="text-xs text-gray-500 mb-1">Add-ons:</p>
-                      <div className="space-y-1">
-                        {item.selectedAddons.map((addon, idx) => (
-                          <div key={idx} className="text-xs text-gray-700 flex justify-between">
-                            <span>+ {addon.name}</span>
-                            <span className="font-semibold">+${addon.price.toFixed(2)}</span>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-
-                  <div className="flex items-center justify-between mt-4">
-                    <div className="flex items-center space-x-3">
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation()
-                          handleQuantityChange(item.id, item.quantity - 1)
-                        }}
-                        className="bg-gray-100 hover:bg-gray-200 text-gray-900 rounded-lg p-2 transition-colors"
-                      >
-                        <Minus size={18} />
-                      </button>
-                      <span className="font-semibold text-lg w-8 text-center">
-                        {item.quantity}
-                      </span>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation()
-                          handleQuantityChange(item.id, item.quantity + 1)
-                        }}
-                        className="bg-gray-100 hover:bg-gray-200 text-gray-900 rounded-lg p-2 transition-colors"
-                      >
-                        <Plus size={18} />
-                      </button>
-                    </div>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation()
-                        handleRemove(item.id)
-                      }}
-                      className="text-gray-600 hover:text-black transition-colors"
-                    >
-                      <Trash2 size={20} />
-                    </button>
-                  </div>
-                  <p className="text-gray-900 font-bold text-lg mt-2">
-                    ${(() => {
-                      let itemTotal = item.price
-                      if (item.selectedAddons && item.selectedAddons.length > 0) {
-                        itemTotal += item.selectedAddons.reduce((sum, addon) => sum + addon.price, 0)
-                      }
-                      return (itemTotal * item.quantity).toFixed(2)
-                    })()}
-                  </p>
+                  {person.lines.map(renderCartLine)}
                 </div>
-              </div>
-            ))}
+              ))
+            ) : (
+              cart.map(renderCartLine)
+            )}
+            {/* Nothing can be added to a locked group except by the host */}
+            {!(groupCart?.locked_at && !groupRole?.isHost) && <CartSuggestions cart={cart} menuItems={menuItems} />}
           </div>
 
           {/* Order Summary */}
@@ -369,15 +633,15 @@ export default function CartPage() {
                 <div className="flex items-start justify-between gap-4">
                   <div>
                     <h2 className="font-display text-2xl font-bold text-gray-900">
-                      Checkout
+                      {t.cart.checkout}
                     </h2>
                     <p className="text-sm text-gray-600 mt-1">
-                      Review totals and add your details.
+                      {t.cart.reviewTotals}
                     </p>
                   </div>
-                  <div className="text-right">
-                    <div className="text-xs text-gray-500">Total</div>
-                    <div className="text-2xl font-bold text-gray-900">${total.toFixed(2)}</div>
+                  <div className="text-end">
+                    <div className="text-xs text-gray-500">{t.checkout.total}</div>
+                    <div className="text-2xl font-bold text-gray-900">{formatCents(totals.total)}</div>
                   </div>
                 </div>
               </div>
@@ -385,11 +649,11 @@ export default function CartPage() {
               {/* No internal scroll; page scrolls normally */}
               <div className="p-6 pt-4 space-y-4">
                 <div className="rounded-lg border border-gray-200 bg-gray-50 p-4">
-                  <h3 className="font-semibold text-gray-900 mb-3">Customer info</h3>
+                  <h3 className="font-semibold text-gray-900 mb-3">{t.checkout.customerInfo}</h3>
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                     <div>
                       <label className="block text-xs font-semibold text-gray-700 mb-1">
-                        First name *
+                        {t.checkout.firstName}
                       </label>
                       <input
                         type="text"
@@ -403,7 +667,7 @@ export default function CartPage() {
                     </div>
                     <div>
                       <label className="block text-xs font-semibold text-gray-700 mb-1">
-                        Last name *
+                        {t.checkout.lastName}
                       </label>
                       <input
                         type="text"
@@ -418,7 +682,7 @@ export default function CartPage() {
                   </div>
                   <div className="mt-3">
                     <label className="block text-xs font-semibold text-gray-700 mb-1">
-                      Phone *
+                      {t.checkout.phone}
                     </label>
                     <input
                       type="tel"
@@ -432,7 +696,7 @@ export default function CartPage() {
                   </div>
                   <div className="mt-3">
                     <label className="block text-xs font-semibold text-gray-700 mb-1">
-                      Email (optional)
+                      {t.checkout.email}
                     </label>
                     <input
                       type="email"
@@ -447,14 +711,14 @@ export default function CartPage() {
 
                 <details className="group rounded-lg border border-gray-200 bg-gray-50">
                   <summary className="cursor-pointer select-none px-4 py-3 flex items-center justify-between">
-                    <span className="font-semibold text-gray-900">Tip & notes</span>
-                    <span className="text-xs text-gray-500 group-open:hidden">Optional</span>
+                    <span className="font-semibold text-gray-900">{t.checkout.tipAndNotes}</span>
+                    <span className="text-xs text-gray-500 group-open:hidden">{t.checkout.optional}</span>
                   </summary>
                   <div className="px-4 pb-4 pt-1 space-y-3">
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                       <div>
                         <label className="block text-xs font-semibold text-gray-700 mb-1">
-                          Tip
+                          {t.checkout.tip}
                         </label>
                         <select
                           value={customerInfo.tipPercent}
@@ -470,13 +734,13 @@ export default function CartPage() {
                         </select>
                       </div>
                       <div className="bg-white border border-gray-200 rounded-lg px-3 py-2">
-                        <div className="text-xs text-gray-500">Tip amount</div>
-                        <div className="text-lg font-semibold text-gray-900">${tipAmount.toFixed(2)}</div>
+                        <div className="text-xs text-gray-500">{t.checkout.tipAmount}</div>
+                        <div className="text-lg font-semibold text-gray-900">{formatCents(totals.tip)}</div>
                       </div>
                     </div>
                     <div>
                       <label className="block text-xs font-semibold text-gray-700 mb-1">
-                        Comments (optional)
+                        {t.checkout.comments}
                       </label>
                       <textarea
                         rows={3}
@@ -486,7 +750,7 @@ export default function CartPage() {
                         }
                         maxLength={400}
                         className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black bg-white"
-                        placeholder="Notes for the kitchen"
+                        placeholder={t.checkout.commentsPlaceholder}
                       />
                       <div className="mt-1 text-xs text-gray-500">
                         {customerInfo.comments.length}/400
@@ -499,20 +763,20 @@ export default function CartPage() {
               <div className="p-6 border-t border-gray-200 bg-white">
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm text-gray-600">
-                    <span>Subtotal</span>
-                    <span>${subtotal.toFixed(2)}</span>
+                    <span>{t.checkout.subtotal}</span>
+                    <span>{formatCents(totals.subtotal)}</span>
                   </div>
                   <div className="flex justify-between text-sm text-gray-600">
-                    <span>Tax</span>
-                    <span>${tax.toFixed(2)}</span>
+                    <span>{t.checkout.tax}</span>
+                    <span>{formatCents(totals.tax)}</span>
                   </div>
                   <div className="flex justify-between text-sm text-gray-600">
-                    <span>Tip</span>
-                    <span>${tipAmount.toFixed(2)}</span>
+                    <span>{t.checkout.tip}</span>
+                    <span>{formatCents(totals.tip)}</span>
                   </div>
                   <div className="flex justify-between font-bold text-lg text-gray-900 pt-2 border-t border-gray-200">
-                    <span>Total</span>
-                    <span>${total.toFixed(2)}</span>
+                    <span>{t.checkout.total}</span>
+                    <span>{formatCents(totals.total)}</span>
                   </div>
                 </div>
 
@@ -521,18 +785,23 @@ export default function CartPage() {
                     {checkoutError}
                   </div>
                 )}
+                {isGroupParticipant && (
+                  <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800 text-sm">
+                    {t.group.hostChecksOut(groupHostName)}
+                  </div>
+                )}
                 <button
                   onClick={handleCheckout}
-                  disabled={isProcessing}
+                  disabled={isProcessing || isGroupParticipant}
                   className="mt-4 w-full bg-black text-white py-4 rounded-lg font-semibold text-lg hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                 >
                   {isProcessing ? (
                     <>
                       <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                      <span>Processing...</span>
+                      <span>{t.checkout.processing}</span>
                     </>
                   ) : (
-                    'Proceed to Checkout'
+                    t.cart.proceedToCheckout
                   )}
                 </button>
               </div>
@@ -545,15 +814,21 @@ export default function CartPage() {
       <div className="lg:hidden fixed bottom-0 left-0 right-0 z-40 bg-white/95 backdrop-blur border-t border-gray-200">
         <div className="max-w-6xl mx-auto px-4 py-3 flex items-center justify-between gap-3">
           <div>
-            <div className="text-xs text-gray-500">Total</div>
-            <div className="text-lg font-bold text-gray-900">${total.toFixed(2)}</div>
+            <div className="text-xs text-gray-500">{t.checkout.total}</div>
+            <div className="text-lg font-bold text-gray-900">{formatCents(totals.total)}</div>
           </div>
-          <Link
-            href="/checkout"
-            className="flex-1 max-w-[260px] text-center bg-black text-white py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors"
-          >
-            Checkout
-          </Link>
+          {isGroupParticipant ? (
+            <p className="flex-1 max-w-[260px] text-end text-sm text-gray-600">
+              {t.group.hostChecksOut(groupHostName)}
+            </p>
+          ) : (
+            <Link
+              href="/checkout"
+              className="flex-1 max-w-[260px] text-center bg-black text-white py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors"
+            >
+              {t.cart.checkout}
+            </Link>
+          )}
         </div>
       </div>
 
@@ -567,8 +842,10 @@ export default function CartPage() {
         }}
         mode="edit"
         initialQuantity={editingItem?.quantity || 1}
+        initialModifiers={editingItem?.modifiers || []}
         initialSelectedOptions={editingItem?.selectedOptions || []}
         initialSelectedAddons={editingItem?.selectedAddons || []}
+        initialSpecialInstructions={editingItem?.special_instructions || ''}
         originalCartItemId={editingItem?.id}
       />
     </div>
@@ -3,9 +3,16 @@
 import { useEffect, useMemo, useState } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
-import { getCart } from '@/lib/cart'
-import { calculateSubtotal, calculateTax, calculateTipAmount, calculateTotal } from '@/lib/cart-utils'
-import { CartItem } from '@/lib/types'
+import { getCart, getGroupOrderRole, lockGroupOrderForCheckout, pullCart, revalidateCart } from '@/lib/cart'
+import { calculateOrderTotals, calculateTipCents, getCartOrderLines } from '@/lib/cart-utils'
+import { LOYALTY_REWARDS, applyLoyaltyReward, findLoyaltyReward } from '@/lib/loyalty'
+import { centsToAmount, formatCents } from '@/lib/money'
+import { AppliedPromoCode, normalizePromoCode } from '@/lib/promo-codes'
+import { CartChange, CartItem, LoyaltyReward, SharedCart } from '@/lib/types'
+import { useLocale } from '@/lib/use-locale'
+import { useMenu } from '@/lib/use-menu'
+import { readStorage, writeStorage } from '@/lib/storage'
+import CartChangesNotice from '@/components/CartChangesNotice'
 
 type CustomerInfo = {
   firstName: string
@@ -16,6 +23,8 @@ type CustomerInfo = {
   comments: string
 }
 
+const PROMO_PHONE_DEBOUNCE_MS = 500
+
 const DEFAULT_CUSTOMER: CustomerInfo = {
   firstName: '',
   lastName: '',
@@ -27,10 +36,24 @@ const DEFAULT_CUSTOMER: CustomerInfo = {
 
 export default function CheckoutPage() {
   const router = useRouter()
+  const { t } = useLocale()
+  const { items: menuItems } = useMenu()
   const [cart, setCart] = useState<CartItem[]>([])
   const [customerInfo, setCustomerInfo] = useState<CustomerInfo>(DEFAULT_CUSTOMER)
   const [isProcessing, setIsProcessing] = useState(false)
   const [checkoutError, setCheckoutError] = useState<string | null>(null)
+  const [groupCart, setGroupCart] = useState<SharedCart | null>(null)
+  const [isGroupParticipant, setIsGroupParticipant] = useState(false)
+  const [cartChanges, setCartChanges] = useState<CartChange[]>([])
+  const [promoInput, setPromoInput] = useState('')
+  // The code the customer applied, and what the server says it takes off the current cart
+  const [promoCode, setPromoCode] = useState<string | null>(null)
+  const [promo, setPromo] = useState<AppliedPromoCode | null>(null)
+  const [promoError, setPromoError] = useState<string | null>(null)
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false)
+  // Null until the customer's phone number has been looked up
+  const [pointsBalance, setPointsBalance] = useState<number | null>(null)
+  const [reward, setReward] = useState<LoyaltyReward | null>(null)
 
   useEffect(() => {
     const update = () => setCart(getCart())
@@ -43,36 +66,144 @@ export default function CheckoutPage() {
     }
   }, [])
 
+  // Group orders: refresh everyone's items; only the host checks out. Then check the cart against the
+  // current menu so the customer sees any changes before paying.
   useEffect(() => {
-    try {
-      const savedCustomer = localStorage.getItem('denver-kabob-customer-info')
-      const savedDetails = localStorage.getItem('denver-kabob-order-details')
-      const parsedCustomer = savedCustomer ? JSON.parse(savedCustomer) : null
-      const parsedDetails = savedDetails ? JSON.parse(savedDetails) : null
-
-      setCustomerInfo((prev) => ({
-        ...prev,
-        firstName: parsedCustomer?.firstName ?? prev.firstName,
-        lastName: parsedCustomer?.lastName ?? prev.lastName,
-        phone: parsedCustomer?.phone ?? prev.phone,
-        email: parsedCustomer?.email ?? prev.email,
-        tipPercent: typeof parsedDetails?.tipPercent === 'number' ? parsedDetails.tipPercent : prev.tipPercent,
-        comments: typeof parsedDetails?.comments === 'string' ? parsedDetails.comments : prev.comments,
-      }))
-    } catch {
-      // ignore
+    const role = getGroupOrderRole()
+    setIsGroupParticipant(Boolean(role && !role.isHost))
+    const refresh = role
+      ? pullCart()
+          .then((saved) => setGroupCart(saved?.is_group ? saved : null))
+          .catch((error) => console.error('Failed to refresh group order:', error))
+      : Promise.resolve()
+    refresh
+      .then(revalidateCart)
+      .then((changes) => {
+        if (changes.length > 0) setCartChanges(changes)
+      })
+      .catch((error) => console.error('Failed to check cart:', error))
+  }, [])
+
+  useEffect(() => {
+    const savedCustomer = readStorage('customerInfo')
+    const savedDetails = readStorage('orderDetails')
+
+    setCustomerInfo((prev) => ({
+      ...prev,
+      firstName: savedCustomer?.firstName ?? prev.firstName,
+      lastName: savedCustomer?.lastName ?? prev.lastName,
+      phone: savedCustomer?.phone ?? prev.phone,
+      email: savedCustomer?.email ?? prev.email,
+      tipPercent: savedDetails?.tipPercent ?? prev.tipPercent,
+      comments: savedDetails?.comments ?? prev.comments,
+    }))
+
+    // Back from Stripe without paying: put the code back if it still works
+    if (savedDetails?.promoCode) {
+      setPromoInput(savedDetails.promoCode)
+      setPromoCode(savedDetails.promoCode)
+    } else if (savedDetails?.rewardId) {
+      setReward(findLoyaltyReward(savedDetails.rewardId))
     }
   }, [])
 
-  const subtotal = useMemo(() => calculateSubtotal(cart), [cart])
-  const tax = useMemo(() => calculateTax(subtotal), [subtotal])
-  const tipAmount = useMemo(
-    () => calculateTipAmount(subtotal, customerInfo.tipPercent),
-    [subtotal, customerInfo.tipPercent]
+  // Points balance for the phone number entered (shown once it's a full number)
+  const phoneDigits = customerInfo.phone.replace(/\D/g, '')
+  useEffect(() => {
+    setPointsBalance(null)
+    if (phoneDigits.length < 10) return
+    let cancelled = false
+    fetch(`/api/loyalty?phone=${encodeURIComponent(phoneDigits)}`, { cache: 'no-store' })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && typeof data?.balance === 'number') setPointsBalance(data.balance)
+      })
+      .catch((error) => console.error('Failed to load loyalty points:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [phoneDigits])
+
+  const orderLines = useMemo(() => getCartOrderLines(cart, menuItems), [cart, menuItems])
+
+  // The phone number a promo code is checked against (per-phone limits), once the customer stops typing
+  const [promoPhone, setPromoPhone] = useState('')
+  useEffect(() => {
+    const timer = setTimeout(() => setPromoPhone(phoneDigits), PROMO_PHONE_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [phoneDigits])
+
+  // The server works out the applied code's discount on this cart, again whenever the cart or the
+  // phone number changes.
+  useEffect(() => {
+    if (!promoCode) return
+    let cancelled = false
+    setIsApplyingPromo(true)
+    setPromoError(null)
+    fetch('/api/promo-codes/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        code: promoCode,
+        phone: promoPhone,
+        lines: orderLines.map(({ cents, menu_item_id, category }) => ({ cents, menu_item_id, category })),
+      }),
+    })
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}))
+        if (!response.ok || !data.promo) {
+          throw new Error(data.error || 'Failed to check promo code')
+        }
+        if (cancelled) return
+        setPromo(data.promo)
+        setPromoInput(data.promo.code)
+        setReward(null)
+      })
+      .catch((error) => {
+        if (cancelled) return
+        setPromoCode(null)
+        setPromo(null)
+        setPromoError(error.message || 'Failed to check promo code')
+      })
+      .finally(() => {
+        if (!cancelled) setIsApplyingPromo(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [promoCode, orderLines, promoPhone])
+
+  const getRewardName = (option: LoyaltyReward) => t.checkout.rewardNames[option.id] || option.name
+
+  // A reward's discount is worked out here; create-checkout-session checks it and the points again
+  const rewardResult = useMemo((): ReturnType<typeof applyLoyaltyReward> | null => {
+    if (!reward) return null
+    const rewardName = t.checkout.rewardNames[reward.id] || reward.name
+    if (pointsBalance !== null && pointsBalance < reward.points) {
+      return { error: t.checkout.notEnoughPoints(rewardName, reward.points) }
+    }
+    const result = applyLoyaltyReward(reward, orderLines)
+    return result.error ? { error: t.checkout.rewardNeedsItem(rewardName, t.categories[reward.category]) } : result
+  }, [reward, pointsBalance, orderLines, t])
+
+  const totals = useMemo(
+    () => calculateOrderTotals(orderLines, customerInfo.tipPercent, promo?.discount ?? rewardResult?.value),
+    [orderLines, customerInfo.tipPercent, promo, rewardResult]
   )
-  const total = useMemo(() => calculateTotal(subtotal, tax, tipAmount), [subtotal, tax, tipAmount])
 
-  const tipAmountForPercent = (percent: number) => (subtotal * (percent / 100)).toFixed(2)
+  const tipAmountForPercent = (percent: number) => centsToAmount(calculateTipCents(totals.subtotal, percent))
+
+  const applyPromo = (code: string) => {
+    setPromo(null)
+    setPromoCode(normalizePromoCode(code))
+  }
+
+  const removePromo = () => {
+    setPromoCode(null)
+    setPromo(null)
+    setPromoInput('')
+    setPromoError(null)
+  }
 
   const validatePhone = (phone: string): boolean => {
     const phoneDigits = phone.replace(/\D/g, '')
@@ -87,28 +218,44 @@ export default function CheckoutPage() {
 
   const handleCheckout = async () => {
     if (cart.length === 0) {
-      setCheckoutError('Your cart is empty')
+      setCheckoutError(t.checkout.errors.emptyCart)
       return
     }
 
     if (!customerInfo.firstName.trim()) {
-      setCheckoutError('Please enter your first name')
+      setCheckoutError(t.checkout.errors.firstName)
       return
     }
     if (!customerInfo.lastName.trim()) {
-      setCheckoutError('Please enter your last name')
+      setCheckoutError(t.checkout.errors.lastName)
       return
     }
     if (!customerInfo.phone.trim()) {
-      setCheckoutError('Please enter your phone number')
+      setCheckoutError(t.checkout.errors.phone)
       return
     }
     if (!validatePhone(customerInfo.phone)) {
-      setCheckoutError('Please enter a valid phone number (at least 10 digits)')
+      setCheckoutError(t.checkout.errors.phoneInvalid)
       return
     }
     if (customerInfo.email && !validateEmail(customerInfo.email)) {
-      setCheckoutError('Please enter a valid email address')
+      setCheckoutError(t.checkout.errors.email)
+      return
+    }
+
+    if (promo?.error) {
+      setCheckoutError(promo.error)
+      return
+    }
+    if (rewardResult?.error) {
+      setCheckoutError(rewardResult.error)
+      return
+    }
+
+    // Group orders: only the host pays, for everyone
+    const groupRole = getGroupOrderRole()
+    if (groupRole && !groupRole.isHost) {
+      setCheckoutError(t.group.hostChecksOut(groupCart?.host_name || t.group.theHost))
       return
     }
 
@@ -126,35 +273,38 @@ export default function CheckoutPage() {
     const orderDetails = {
       tipPercent: customerInfo.tipPercent,
       comments: customerInfo.comments.trim().slice(0, 400),
+      promoCode: promoCode ?? undefined,
+      rewardId: reward?.id,
     }
 
-    try {
-      localStorage.setItem('denver-kabob-cart', JSON.stringify(cart))
-      localStorage.setItem('denver-kabob-customer-info', JSON.stringify(customerPayload))
-      localStorage.setItem('denver-kabob-order-details', JSON.stringify(orderDetails))
-    } catch {
-      // ignore
-    }
+    // Saved with the cart for the order confirmation page's fallback order creation
+    writeStorage('customerInfo', customerPayload)
+    writeStorage('orderDetails', orderDetails)
 
     try {
+      // Lock the group first; if someone changed their items meanwhile, let the host review them
+      if (await lockGroupOrderForCheckout(cart)) {
+        setCheckoutError(t.group.cartChanged)
+        setIsProcessing(false)
+        return
+      }
+
       const response = await fetch('/api/create-checkout-session', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          items: cart.map((item) => {
-            let itemPrice = item.price
-            if (item.selectedAddons && item.selectedAddons.length > 0) {
-              itemPrice += item.selectedAddons.reduce((sum, addon) => sum + addon.price, 0)
-            }
-            return {
-              id: item.id,
-              name: item.name,
-              price: itemPrice,
-              quantity: item.quantity,
-              selectedOptions: item.selectedOptions || [],
-              selectedAddons: item.selectedAddons || [],
-            }
-          }),
+          items: cart.map((item) => ({
+            id: item.id,
+            name: item.name,
+            price: item.price,
+            quantity: item.quantity,
+            selectedOptions: item.selectedOptions || [],
+            selectedAddons: item.selectedAddons || [],
+            base_item_id: item.base_item_id,
+            modifiers: item.modifiers || [],
+            participant_name: item.participant_name,
+            special_instructions: item.special_instructions,
+          })),
           customerInfo: customerPayload,
           orderDetails,
         }),
@@ -175,7 +325,7 @@ export default function CheckoutPage() {
       if (error) throw new Error(error.message || 'Failed to redirect to checkout')
     } catch (error: any) {
       console.error('Checkout error:', error)
-      setCheckoutError(error.message || 'Failed to start checkout. Please try again.')
+      setCheckoutError(error.message || t.checkout.errors.failed)
       setIsProcessing(false)
     }
   }
@@ -184,35 +334,42 @@ export default function CheckoutPage() {
     <div className="min-h-screen bg-white py-8">
       <div className="max-w-xl mx-auto px-4">
         <div className="flex items-center justify-between gap-3 mb-6">
-          <h1 className="font-display text-3xl font-bold text-gray-900">Checkout</h1>
+          <h1 className="font-display text-3xl font-bold text-gray-900">{t.checkout.title}</h1>
           <button
             type="button"
             onClick={() => router.push('/cart')}
             className="bg-black text-white px-4 py-2 rounded-lg font-semibold text-sm hover:bg-gray-800 transition-colors"
           >
-            Back
+            {t.checkout.back}
           </button>
         </div>
 
+        <CartChangesNotice changes={cartChanges} menuItems={menuItems} onDismiss={() => setCartChanges([])} />
+
         <div className="bg-white border border-gray-200 rounded-xl shadow-sm">
           <div className="p-5 border-b border-gray-200">
             <div className="flex items-center justify-between">
               <div>
-                <div className="text-xs text-gray-500">Total</div>
-                <div className="text-2xl font-bold text-gray-900">${total.toFixed(2)}</div>
+                <div className="text-xs text-gray-500">{t.checkout.total}</div>
+                <div className="text-2xl font-bold text-gray-900">{formatCents(totals.total)}</div>
               </div>
               <div className="text-xs font-semibold text-gray-500 text-center">
-                Secure checkout
+                {t.checkout.secureCheckout}
               </div>
             </div>
           </div>
 
           <div className="p-5 space-y-4">
+            {isGroupParticipant && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                {t.group.hostChecksOut(groupCart?.host_name || t.group.theHost)}
+              </div>
+            )}
             <div className="rounded-lg border border-gray-200 bg-gray-50 p-4">
-              <h2 className="font-semibold text-gray-900 mb-3">Customer info</h2>
+              <h2 className="font-semibold text-gray-900 mb-3">{t.checkout.customerInfo}</h2>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                 <div>
-                  <label className="block text-xs font-semibold text-gray-700 mb-1">First name *</label>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">{t.checkout.firstName}</label>
                   <input
                     type="text"
                     value={customerInfo.firstName}
@@ -221,7 +378,7 @@ export default function CheckoutPage() {
                   />
                 </div>
                 <div>
-                  <label className="block text-xs font-semibold text-gray-700 mb-1">Last name *</label>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">{t.checkout.lastName}</label>
                   <input
                     type="text"
                     value={customerInfo.lastName}
@@ -231,7 +388,7 @@ export default function CheckoutPage() {
                 </div>
               </div>
               <div className="mt-3">
-                <label className="block text-xs font-semibold text-gray-700 mb-1">Phone *</label>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">{t.checkout.phone}</label>
                 <input
                   type="tel"
                   value={customerInfo.phone}
@@ -240,7 +397,7 @@ export default function CheckoutPage() {
                 />
               </div>
               <div className="mt-3">
-                <label className="block text-xs font-semibold text-gray-700 mb-1">Email (optional)</label>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">{t.checkout.email}</label>
                 <input
                   type="email"
                   value={customerInfo.email}
@@ -252,13 +409,13 @@ export default function CheckoutPage() {
 
             <details className="group rounded-lg border border-gray-200 bg-gray-50">
               <summary className="cursor-pointer select-none px-4 py-3 flex items-center justify-between">
-                <span className="font-semibold text-gray-900">Tip & notes</span>
-                <span className="text-xs text-gray-500 group-open:hidden">Optional</span>
+                <span className="font-semibold text-gray-900">{t.checkout.tipAndNotes}</span>
+                <span className="text-xs text-gray-500 group-open:hidden">{t.checkout.optional}</span>
               </summary>
               <div className="px-4 pb-4 pt-1 space-y-3">
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                   <div>
-                    <label className="block text-xs font-semibold text-gray-700 mb-1">Tip</label>
+                    <label className="block text-xs font-semibold text-gray-700 mb-1">{t.checkout.tip}</label>
                     <select
                       value={customerInfo.tipPercent}
                       onChange={(e) => setCustomerInfo({ ...customerInfo, tipPercent: Number(e.target.value) })}
@@ -271,19 +428,19 @@ export default function CheckoutPage() {
                     </select>
                   </div>
                   <div className="bg-white border border-gray-200 rounded-lg px-3 py-2">
-                    <div className="text-xs text-gray-500">Tip amount</div>
-                    <div className="text-lg font-semibold text-gray-900">${tipAmount.toFixed(2)}</div>
+                    <div className="text-xs text-gray-500">{t.checkout.tipAmount}</div>
+                    <div className="text-lg font-semibold text-gray-900">{formatCents(totals.tip)}</div>
                   </div>
                 </div>
                 <div>
-                  <label className="block text-xs font-semibold text-gray-700 mb-1">Comments (optional)</label>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">{t.checkout.comments}</label>
                   <textarea
                     rows={3}
                     value={customerInfo.comments}
                     onChange={(e) => setCustomerInfo({ ...customerInfo, comments: e.target.value })}
                     maxLength={400}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black bg-white"
-                    placeholder="Notes for the kitchen"
+                    placeholder={t.checkout.commentsPlaceholder}
                   />
                   <div className="mt-1 text-xs text-gray-500">{customerInfo.comments.length}/400</div>
                 </div>
@@ -291,23 +448,127 @@ export default function CheckoutPage() {
             </details>
           </div>
 
+          <div className="px-5 pb-5">
+            <label className="block text-xs font-semibold text-gray-700 mb-1">{t.checkout.promoCode}</label>
+            {promo ? (
+              <div className="flex items-center justify-between gap-3 rounded-lg border border-green-200 bg-green-50 px-3 py-2">
+                <div className="text-sm">
+                  <span className="font-semibold text-green-800">{promo.code}</span>
+                  <span className="text-green-700"> · {promo.description}</span>
+                </div>
+                <button
+                  type="button"
+                  onClick={removePromo}
+                  className="text-sm font-medium text-gray-700 hover:text-gray-900"
+                >
+                  {t.checkout.remove}
+                </button>
+              </div>
+            ) : (
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  if (promoInput.trim()) applyPromo(promoInput)
+                }}
+              >
+                <input
+                  type="text"
+                  value={promoInput}
+                  onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                  maxLength={32}
+                  autoCapitalize="characters"
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black bg-white"
+                />
+                <button
+                  type="submit"
+                  disabled={isApplyingPromo || !promoInput.trim()}
+                  className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-semibold text-sm disabled:opacity-50"
+                >
+                  {t.checkout.apply}
+                </button>
+              </form>
+            )}
+            {(promoError || promo?.error) && (
+              <p className="mt-1 text-xs text-red-600">{promoError || promo?.error}</p>
+            )}
+          </div>
+
+          {pointsBalance !== null && (
+            <div className="px-5 pb-5">
+              <div className="rounded-lg border border-gray-200 bg-gray-50 p-4">
+                <div className="flex items-baseline justify-between gap-3 mb-1">
+                  <h2 className="font-semibold text-gray-900">{t.checkout.loyaltyPoints}</h2>
+                  <span className="text-sm font-semibold text-gray-900">{t.checkout.pointsBalance(pointsBalance)}</span>
+                </div>
+                <p className="text-xs text-gray-500 mb-3">{t.checkout.pointsEarned}</p>
+                <div className="space-y-2">
+                  {LOYALTY_REWARDS.map((option) => {
+                    const isRedeemed = reward?.id === option.id
+                    return (
+                      <div
+                        key={option.id}
+                        className={`flex items-center justify-between gap-3 rounded-lg border px-3 py-2 ${
+                          isRedeemed ? 'border-green-200 bg-green-50' : 'border-gray-200 bg-white'
+                        }`}
+                      >
+                        <div className="text-sm">
+                          <span className="font-semibold text-gray-900">{getRewardName(option)}</span>
+                          <span className="text-gray-500"> · {t.checkout.pointsNeeded(option.points)}</span>
+                        </div>
+                        {isRedeemed ? (
+                          <button
+                            type="button"
+                            onClick={() => setReward(null)}
+                            className="text-sm font-medium text-gray-700 hover:text-gray-900"
+                          >
+                            {t.checkout.remove}
+                          </button>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => setReward(option)}
+                            disabled={Boolean(promo) || pointsBalance < option.points}
+                            className="px-3 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-semibold text-sm disabled:opacity-50"
+                          >
+                            {t.checkout.redeem}
+                          </button>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+                {promo && <p className="mt-2 text-xs text-gray-500">{t.checkout.rewardOrPromo}</p>}
+                {rewardResult?.error && <p className="mt-2 text-xs text-red-600">{rewardResult.error}</p>}
+              </div>
+            </div>
+          )}
+
           <div className="p-5 border-t border-gray-200 bg-white">
             <div className="space-y-2 text-sm">
               <div className="flex justify-between text-gray-600">
-                <span>Subtotal</span>
-                <span>${subtotal.toFixed(2)}</span>
+                <span>{t.checkout.subtotal}</span>
+                <span>{formatCents(totals.subtotal)}</span>
               </div>
+              {totals.discount > 0 && (
+                <div className="flex justify-between text-green-700">
+                  <span>
+                    {t.checkout.discount} ({promo?.code ?? (reward && getRewardName(reward))})
+                  </span>
+                  <span>{formatCents(-totals.discount)}</span>
+                </div>
+              )}
               <div className="flex justify-between text-gray-600">
-                <span>Tax</span>
-                <span>${tax.toFixed(2)}</span>
+                <span>{t.checkout.tax}</span>
+                <span>{formatCents(totals.tax)}</span>
               </div>
               <div className="flex justify-between text-gray-600">
-                <span>Tip</span>
-                <span>${tipAmount.toFixed(2)}</span>
+                <span>{t.checkout.tip}</span>
+                <span>{formatCents(totals.tip)}</span>
               </div>
               <div className="flex justify-between font-bold text-gray-900 pt-2 border-t border-gray-200">
-                <span>Total</span>
-                <span>${total.toFixed(2)}</span>
+                <span>{t.checkout.total}</span>
+                <span>{formatCents(totals.total)}</span>
               </div>
             </div>
 
@@ -319,17 +580,17 @@ export default function CheckoutPage() {
 
             <button
               onClick={handleCheckout}
-              disabled={isProcessing}
+              disabled={isProcessing || isGroupParticipant}
               className="mt-4 w-full bg-black text-white py-4 rounded-lg font-semibold text-lg hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
               type="button"
             >
               {isProcessing ? (
                 <>
                   <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                  <span>Processing...</span>
+                  <span>{t.checkout.processing}</span>
                 </>
               ) : (
-                'Proceed to Payment'
+                t.checkout.proceedToPayment
               )}
             </button>
           </div>
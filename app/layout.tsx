@@ -2,19 +2,32 @@ import type { Metadata } from 'next'
 import './globals.css'
 import Navbar from '@/components/Navbar'
 import Footer from '@/components/Footer'
+import { RTL_LOCALES } from '@/lib/i18n'
+import { SAVED_LOCALE_EXPRESSION } from '@/lib/storage'
+import { LOCALES } from '@/lib/types'
 
 export const metadata: Metadata = {
   title: 'Denver Kabob - Authentic Afghan Cuisine',
   description: 'Experience the rich flavors of authentic Afghan cuisine at Denver Kabob',
 }
 
+// Applies the saved language before first paint so Dari/Pashto pages don't flash left-to-right
+const localeScript = `try{var l=${SAVED_LOCALE_EXPRESSION};if(${JSON.stringify(
+  LOCALES
+)}.indexOf(l)>-1){document.documentElement.lang=l;document.documentElement.dir=${JSON.stringify(
+  RTL_LOCALES
+)}.indexOf(l)>-1?'rtl':'ltr'}}catch(e){}`
+
 export default function RootLayout({
   children,
 }: {
   children: React.ReactNode
 }) {
   return (
-    <html lang="en">
+    <html lang="en" suppressHydrationWarning>
+      <head>
+        <script dangerouslySetInnerHTML={{ __html: localeScript }} />
+      </head>
       <body className="antialiased">
         <Navbar />
         <main className="min-h-screen">{children}</main>
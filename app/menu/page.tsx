@@ -1,30 +1,110 @@
 'use client'
 
-import { useState } from 'react'
-import { menuItems } from '@/lib/menu-data'
-import { MenuItem } from '@/lib/types'
+import { Suspense, useEffect, useMemo, useState } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { Search, X } from 'lucide-react'
+import { useMenu } from '@/lib/use-menu'
+import { searchMenuItems } from '@/lib/search'
+import { DietaryTag, DIETARY_TAGS, MenuCategory, MenuItem } from '@/lib/types'
+import { matchesDietaryTags } from '@/lib/dietary'
+import { localizeMenuItem } from '@/lib/i18n'
+import { useLocale } from '@/lib/use-locale'
+import DietaryBadges from '@/components/DietaryBadges'
+import { getSoldOutLabel, isMenuItemAvailable, isMenuItemScheduledNow } from '@/lib/availability'
+import { getMenuItemPrice } from '@/lib/price-rules'
 import MenuItemModal from '@/components/MenuItemModal'
+import HighlightedText from '@/components/HighlightedText'
 import Image from 'next/image'
 
-const categories = [
-  'All',
-  'Appetizers',
-  'Rice Dishes',
-  'Sandwiches',
-] as const
-
-export default function MenuPage() {
-  const [selectedCategory, setSelectedCategory] = useState<string>('All')
+function MenuPageContent() {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const pathname = usePathname()
+  const { items: menuItems, categories: categoryOrder, loading, error } = useMenu()
+  const { locale, t } = useLocale()
+  // Search and category live in the URL (?q=kobideh&category=Rice+Dishes) so they can be shared
+  const [query, setQuery] = useState(() => searchParams.get('q') || '')
+  const [selectedCategory, setSelectedCategory] = useState<string>(() => searchParams.get('category') || 'All')
+  const [selectedTags, setSelectedTags] = useState<DietaryTag[]>([])
   const [selectedItem, setSelectedItem] = useState<MenuItem | null>(null)
   const [isModalOpen, setIsModalOpen] = useState(false)
+  // Re-check dayparts and price rules every minute so time-limited items and specials change without a reload
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams()
+      if (query.trim()) params.set('q', query.trim())
+      if (selectedCategory !== 'All') params.set('category', selectedCategory)
+      const search = params.toString()
+      if (search !== window.location.search.replace(/^\?/, '')) {
+        router.replace(search ? `${pathname}?${search}` : pathname, { scroll: false })
+      }
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [query, selectedCategory, pathname, router])
+
+  // Items outside their daypart (restaurant-local time) aren't shown at all
+  const scheduledItems = useMemo(
+    () => menuItems.filter((item) => isMenuItemScheduledNow(item, now)),
+    [menuItems, now]
+  )
 
-  const filteredItems =
-    selectedCategory === 'All'
-      ? menuItems
-      : menuItems.filter((item) => item.category === selectedCategory)
+  // Search and render the translated text; the modal gets the original item so the cart stays in English
+  const localizedItems = useMemo(
+    () => scheduledItems.map((item) => localizeMenuItem(item, locale)),
+    [scheduledItems, locale]
+  )
+
+  // Only show categories that have items, in the order set from the admin menu editor.
+  const categories = useMemo(
+    () => ['All', ...categoryOrder.filter((category) => scheduledItems.some((item) => item.category === category))],
+    [categoryOrder, scheduledItems]
+  )
+
+  // Only offer dietary filters that at least one item on the menu right now carries
+  const availableTags = useMemo(
+    () => DIETARY_TAGS.filter((tag) => scheduledItems.some((item) => (item.dietary_tags || []).includes(tag))),
+    [scheduledItems]
+  )
+
+  const toggleTag = (tag: DietaryTag) => {
+    setSelectedTags((prev) => (prev.includes(tag) ? prev.filter((selected) => selected !== tag) : [...prev, tag]))
+  }
+
+  // Categories stay in English in the URL; custom categories without a translation show as-is
+  const getCategoryLabel = (category: string) =>
+    category === 'All' ? t.menu.all : t.categories[category as MenuCategory] || category
+
+  const filteredItems = useMemo(() => {
+    const taggedItems = localizedItems.filter((item) => matchesDietaryTags(item, selectedTags))
+    if (selectedCategory !== 'All') {
+      return searchMenuItems(
+        taggedItems.filter((item) => item.category === selectedCategory),
+        query,
+        t.dietaryTags
+      )
+    }
+    const categoryRank = (item: MenuItem) => {
+      const index = categoryOrder.indexOf(item.category)
+      return index === -1 ? categoryOrder.length : index
+    }
+    // Array.prototype.sort is stable, so items keep their sort_order within a category
+    // (and search results with equal scores keep that order too).
+    return searchMenuItems(
+      [...taggedItems].sort((a, b) => categoryRank(a) - categoryRank(b)),
+      query,
+      t.dietaryTags
+    )
+  }, [localizedItems, categoryOrder, selectedCategory, selectedTags, query, t])
 
   const handleItemClick = (item: MenuItem) => {
-    setSelectedItem(item)
+    setSelectedItem(menuItems.find((menuItem) => menuItem.id === item.id) || item)
     setIsModalOpen(true)
   }
 
@@ -35,15 +115,37 @@ export default function MenuPage() {
           {/* Header */}
           <div className="text-center mb-16">
             <h1 className="font-display text-5xl md:text-6xl font-bold text-gray-900 mb-4">
-              Our Menu
+              {t.menu.title}
             </h1>
             <p className="text-lg text-gray-600 max-w-2xl mx-auto">
-              Explore our authentic Afghan dishes, each prepared with care and traditional flavors
+              {t.menu.subtitle}
             </p>
           </div>
 
+          {/* Search */}
+          <div className="max-w-xl mx-auto mb-6 relative">
+            <Search className="absolute start-4 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t.menu.searchPlaceholder}
+              aria-label={t.menu.searchLabel}
+              className="w-full ps-12 pe-12 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black bg-white [&::-webkit-search-cancel-button]:hidden"
+            />
+            {query && (
+              <button
+                onClick={() => setQuery('')}
+                className="absolute end-3 top-1/2 -translate-y-1/2 p-1.5 rounded-full text-gray-500 hover:bg-gray-100 hover:text-black"
+                aria-label={t.menu.clearSearch}
+              >
+                <X size={18} />
+              </button>
+            )}
+          </div>
+
           {/* Category Filter */}
-          <div className="flex flex-wrap justify-center gap-3 mb-16">
+          <div className={`flex flex-wrap justify-center gap-3 ${availableTags.length > 0 ? 'mb-4' : 'mb-16'}`}>
             {categories.map((category) => (
               <button
                 key={category}
@@ -54,53 +156,124 @@ export default function MenuPage() {
                     : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                 }`}
               >
-                {category}
+                {getCategoryLabel(category)}
               </button>
             ))}
           </div>
 
+          {/* Dietary Filter */}
+          {availableTags.length > 0 && (
+            <div className="flex flex-wrap justify-center items-center gap-2 mb-16">
+              <span className="text-sm text-gray-500 me-1">{t.menu.dietary}</span>
+              {availableTags.map((tag) => {
+                const selected = selectedTags.includes(tag)
+                return (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTag(tag)}
+                    aria-pressed={selected}
+                    className={`px-4 py-1.5 rounded-full text-sm font-medium border transition-all ${
+                      selected
+                        ? 'bg-black text-white border-black'
+                        : 'bg-white text-gray-700 border-gray-300 hover:border-black'
+                    }`}
+                  >
+                    {t.dietaryTags[tag]}
+                  </button>
+                )
+              })}
+              {selectedTags.length > 0 && (
+                <button
+                  onClick={() => setSelectedTags([])}
+                  className="text-sm text-gray-500 hover:text-black underline ms-1"
+                >
+                  {t.menu.clear}
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Menu Items Grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-            {filteredItems.map((item) => (
-              <button
-                key={item.id}
-                onClick={() => handleItemClick(item)}
-                className="bg-white border border-gray-200 rounded-xl overflow-hidden hover:border-black transition-all text-left group cursor-pointer flex flex-col h-full"
-              >
-                <div className="relative h-64 sm:h-72 w-full bg-gray-100 overflow-hidden flex items-center justify-center p-4">
-                  {item.image_url && (
-                    <Image
-                      src={item.image_url}
-                      alt={item.name}
-                      fill
-                      className="object-contain group-hover:scale-105 transition-transform duration-300"
-                    />
-                  )}
-                </div>
-                <div className="p-6 flex-1 flex flex-col">
-                  <h3 className="font-display text-xl font-semibold mb-2 text-gray-900">
-                    {item.name}
-                  </h3>
-                  <p className="text-gray-600 mb-4 text-sm line-clamp-2 flex-1">
-                    {item.description}
-                  </p>
-                  <div className="flex items-center justify-between mt-auto">
-                    <span className="text-gray-900 font-bold text-xl">
-                      ${item.price.toFixed(2)}
-                    </span>
-                    <span className="text-gray-400 group-hover:text-black transition-colors text-sm">
-                      View Options →
-                    </span>
+            {filteredItems.map((item) => {
+              const available = isMenuItemAvailable(item)
+              const price = getMenuItemPrice(item, now)
+              return (
+                <button
+                  key={item.id}
+                  onClick={() => handleItemClick(item)}
+                  disabled={!available}
+                  aria-disabled={!available}
+                  className={`bg-white border border-gray-200 rounded-xl overflow-hidden transition-all text-start group flex flex-col h-full ${
+                    available ? 'hover:border-black cursor-pointer' : 'opacity-60 cursor-not-allowed'
+                  }`}
+                >
+                  <div className="relative h-64 sm:h-72 w-full bg-gray-100 overflow-hidden flex items-center justify-center p-4">
+                    {item.image_url && (
+                      <Image
+                        src={item.image_url}
+                        alt={item.name}
+                        fill
+                        className={`object-contain transition-transform duration-300 ${
+                          available ? 'group-hover:scale-105' : 'grayscale'
+                        }`}
+                      />
+                    )}
+                    {!available && (
+                      <span className="absolute top-3 start-3 px-3 py-1 rounded-full bg-black text-white text-xs font-semibold uppercase tracking-wide">
+                        {t.availability.soldOut}
+                      </span>
+                    )}
                   </div>
-                </div>
-              </button>
-            ))}
+                  <div className="p-6 flex-1 flex flex-col">
+                    <h3 className="font-display text-xl font-semibold mb-2 text-gray-900">
+                      <HighlightedText text={item.name} query={query} />
+                    </h3>
+                    <DietaryBadges tags={item.dietary_tags} labels={t.dietaryTags} className="mb-2" />
+                    <p className="text-gray-600 mb-4 text-sm line-clamp-2 flex-1">
+                      <HighlightedText text={item.description} query={query} />
+                    </p>
+                    <div className="flex items-center justify-between mt-auto">
+                      <span className="flex items-baseline gap-2">
+                        <span className="text-gray-900 font-bold text-xl">${price.toFixed(2)}</span>
+                        {price < item.price && (
+                          <span className="text-gray-400 text-sm line-through">${item.price.toFixed(2)}</span>
+                        )}
+                      </span>
+                      {available ? (
+                        <span className="text-gray-400 group-hover:text-black transition-colors text-sm">
+                          {t.menu.viewOptions}
+                        </span>
+                      ) : (
+                        <span className="text-red-700 text-sm font-medium">{getSoldOutLabel(item, locale)}</span>
+                      )}
+                    </div>
+                  </div>
+                </button>
+              )
+            })}
           </div>
 
-          {filteredItems.length === 0 && (
+          {loading && (
+            <div className="text-center py-12">
+              <p className="text-lg text-gray-600">{t.menu.loading}</p>
+            </div>
+          )}
+
+          {!loading && error && (
+            <div className="text-center py-12">
+              <p className="text-lg text-gray-600">{t.menu.loadError}</p>
+            </div>
+          )}
+
+          {!loading && !error && filteredItems.length === 0 && (
             <div className="text-center py-12">
               <p className="text-lg text-gray-600">
-                No items found in this category.
+                {query.trim()
+                  ? t.menu.noSearchResults(query.trim())
+                  : selectedTags.length > 0
+                    ? t.menu.noDietaryResults
+                    : t.menu.noCategoryResults}
               </p>
             </div>
           )}
@@ -118,3 +291,17 @@ export default function MenuPage() {
     </>
   )
 }
+
+export default function MenuPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-white py-16 text-center">
+          <p className="text-lg text-gray-600">Loading menu...</p>
+        </div>
+      }
+    >
+      <MenuPageContent />
+    </Suspense>
+  )
+}
@@ -4,7 +4,10 @@ import { useEffect, useState, Suspense } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
 import { CheckCircle, Clock, X, Phone, Mail } from 'lucide-react'
 import Link from 'next/link'
-import { clearCart } from '@/lib/cart'
+import { clearCart, getCart } from '@/lib/cart'
+import { getOrderSubtotalCents } from '@/lib/cart-utils'
+import { formatCents, toCents } from '@/lib/money'
+import { readStorage, removeStorage } from '@/lib/storage'
 
 function OrderConfirmationContent() {
   const searchParams = useSearchParams()
@@ -26,14 +29,7 @@ function OrderConfirmationContent() {
   }, [sessionId])
 
   useEffect(() => {
-    try {
-      const customerData = localStorage.getItem('denver-kabob-customer-info')
-      const parsed = customerData ? JSON.parse(customerData) : null
-      const phone = typeof parsed?.phone === 'string' ? parsed.phone : null
-      setSavedPhone(phone)
-    } catch {
-      setSavedPhone(null)
-    }
+    setSavedPhone(readStorage('customerInfo')?.phone || null)
   }, [])
 
   const verifyOrder = async (attempt = 1) => {
@@ -51,8 +47,8 @@ function OrderConfirmationContent() {
           setOrderDetails(order)
           setOrderStatus('success')
           clearCart()
-          localStorage.removeItem('denver-kabob-customer-info')
-          localStorage.removeItem('denver-kabob-order-details')
+          removeStorage('customerInfo')
+          removeStorage('orderDetails')
           return
         }
       } else {
@@ -79,17 +75,14 @@ function OrderConfirmationContent() {
       }
 
       // If order not found, ALWAYS try direct creation (for $0 orders or webhook failures)
-      // Get cart data from localStorage (if still available)
+      // Get cart data saved in the browser (if still available)
       if (attempt <= 2) {
         try {
-          const cartData = localStorage.getItem('denver-kabob-cart')
-          const customerData = localStorage.getItem('denver-kabob-customer-info')
-          const orderDetailsData = localStorage.getItem('denver-kabob-order-details')
-          
-          if (cartData && customerData) {
-            const cart = JSON.parse(cartData)
-            const customerInfo = JSON.parse(customerData)
-            const orderDetails = orderDetailsData ? JSON.parse(orderDetailsData) : null
+          const cart = getCart()
+          const customerInfo = readStorage('customerInfo')
+          const orderDetails = readStorage('orderDetails')
+
+          if (cart.length > 0 && customerInfo) {
             
             console.log('Attempting to create order directly...', { sessionId, cartLength: cart.length })
             
@@ -101,20 +94,18 @@ function OrderConfirmationContent() {
                 sessionId,
                 customerInfo,
                 orderDetails,
-                items: cart.map((item: any) => {
-                  let itemPrice = item.price || 0
-                  if (item.selectedAddons && item.selectedAddons.length > 0) {
-                    itemPrice += item.selectedAddons.reduce((sum: number, addon: any) => sum + (addon.price || 0), 0)
-                  }
-                  return {
-                    id: item.id,
-                    name: item.name,
-                    price: itemPrice,
-                    quantity: item.quantity,
-                    selectedOptions: item.selectedOptions || [],
-                    selectedAddons: item.selectedAddons || [],
-                  }
-                }),
+                items: cart.map((item) => ({
+                  id: item.id,
+                  name: item.name,
+                  price: item.price,
+                  quantity: item.quantity,
+                  selectedOptions: item.selectedOptions || [],
+                  selectedAddons: item.selectedAddons || [],
+                  base_item_id: item.base_item_id,
+                  modifiers: item.modifiers || [],
+                  participant_name: item.participant_name,
+                  special_instructions: item.special_instructions,
+                })),
               }),
             })
             
@@ -137,8 +128,8 @@ function OrderConfirmationContent() {
                     setOrderDetails(fullOrder)
                     setOrderStatus('success')
                     clearCart()
-                    localStorage.removeItem('denver-kabob-customer-info')
-                    localStorage.removeItem('denver-kabob-order-details')
+                    removeStorage('customerInfo')
+                    removeStorage('orderDetails')
                     return
                   }
                 }
@@ -148,7 +139,7 @@ function OrderConfirmationContent() {
               setDebugMessage(createData?.error ? String(createData.error) : 'Direct order creation failed')
             }
           } else {
-            console.warn('Cart or customer data not found in localStorage')
+            console.warn('Cart or customer data not found in browser storage')
             setDebugMessage('We could not use your saved cart details. If you were charged, use Track Order or tap Retry.')
           }
         } catch (directError) {
@@ -319,7 +310,7 @@ function OrderConfirmationContent() {
                   {orderDetails.order_items?.map((item: any, idx: number) => (
                     <li key={idx} className="flex justify-between">
                       <span>{item.quantity}x {item.menu_item_name}</span>
-                      <span className="font-semibold">${(item.price * item.quantity).toFixed(2)}</span>
+                      <span className="font-semibold">{formatCents(toCents(item.price) * item.quantity)}</span>
                     </li>
                   ))}
                 </ul>
@@ -329,27 +320,39 @@ function OrderConfirmationContent() {
                 <div className="space-y-2 text-sm text-gray-700">
                   {(() => {
                     const tipAmount = typeof orderDetails.tip_amount === 'number' ? orderDetails.tip_amount : 0
-                    const subtotal = orderDetails.total_amount - orderDetails.tax_amount - tipAmount
+                    const subtotal = getOrderSubtotalCents(orderDetails)
                     return (
                       <>
                         <div className="flex justify-between">
                           <span>Subtotal:</span>
-                          <span className="font-semibold">${subtotal.toFixed(2)}</span>
+                          <span className="font-semibold">{formatCents(subtotal)}</span>
                         </div>
+                        {typeof orderDetails.discount_amount === 'number' && orderDetails.discount_amount > 0 && (
+                          <div className="flex justify-between text-green-700">
+                            <span>
+                              Discount
+                              {orderDetails.promo_code || orderDetails.loyalty_reward
+                                ? ` (${orderDetails.promo_code || orderDetails.loyalty_reward})`
+                                : ''}
+                              :
+                            </span>
+                            <span className="font-semibold">{formatCents(-toCents(orderDetails.discount_amount))}</span>
+                          </div>
+                        )}
                         <div className="flex justify-between">
                           <span>Tax:</span>
-                          <span className="font-semibold">${orderDetails.tax_amount.toFixed(2)}</span>
+                          <span className="font-semibold">{formatCents(toCents(orderDetails.tax_amount))}</span>
                         </div>
                         <div className="flex justify-between">
                           <span>Tip:</span>
-                          <span className="font-semibold">${tipAmount.toFixed(2)}</span>
+                          <span className="font-semibold">{formatCents(toCents(tipAmount))}</span>
                         </div>
                       </>
                     )
                   })()}
                   <div className="border-t border-gray-300 pt-2 mt-2 flex justify-between font-bold text-lg">
                     <span>Total:</span>
-                    <span>${orderDetails.total_amount.toFixed(2)}</span>
+                    <span>{formatCents(toCents(orderDetails.total_amount))}</span>
                   </div>
                 </div>
               </div>
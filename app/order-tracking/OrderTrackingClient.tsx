@@ -1,10 +1,15 @@
 'use client'
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import { Search, Phone, Hash, Clock, ChefHat, Package, CheckCircle, Loader2 } from 'lucide-react'
+import { Search, Phone, Hash, Clock, ChefHat, Package, CheckCircle, Loader2, RotateCcw } from 'lucide-react'
 import { Order } from '@/lib/types'
 import Link from 'next/link'
-import { useSearchParams } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { addToCart } from '@/lib/cart'
+import { getOrderSubtotalCents } from '@/lib/cart-utils'
+import { formatCents, toCents } from '@/lib/money'
+import { buildReorderLines } from '@/lib/reorder'
+import { fetchMenu } from '@/lib/use-menu'
 import { createClient } from '@supabase/supabase-js'
 
 const statusConfig = {
@@ -32,6 +37,7 @@ const formatRequestedTime = (order: Order) => {
 }
 
 export default function OrderTrackingClient() {
+  const router = useRouter()
   const searchParams = useSearchParams()
   const [searchType, setSearchType] = useState<'phone' | 'orderId'>('phone')
   const [searchValue, setSearchValue] = useState('')
@@ -42,6 +48,10 @@ export default function OrderTrackingClient() {
   const [error, setError] = useState<string | null>(null)
   const [hasSearched, setHasSearched] = useState(false)
   const didAutoSearchRef = useRef(false)
+  const [reorderingId, setReorderingId] = useState<string | null>(null)
+  const [reorderNotice, setReorderNotice] = useState<{ orderId: string; messages: string[]; added: boolean } | null>(null)
+  // Loyalty points for the phone number searched (null for order ID searches or before the migration)
+  const [pointsBalance, setPointsBalance] = useState<number | null>(null)
 
   const REFRESH_INTERVAL_MS = 2000
 
@@ -151,6 +161,23 @@ export default function OrderTrackingClient() {
     await fetchTrackedOrders(query)
   }
 
+  useEffect(() => {
+    setPointsBalance(null)
+    if (lastQuery?.type !== 'phone') return
+    let cancelled = false
+    fetch(`/api/loyalty?phone=${encodeURIComponent(lastQuery.value)}`, { cache: 'no-store' })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && typeof data?.balance === 'number') setPointsBalance(data.balance)
+      })
+      .catch(() => {
+        // Points are extra; the orders still show
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [lastQuery])
+
   // Auto-refresh results so status changes show up
   useEffect(() => {
     if (!hasSearched || !lastQuery) return
@@ -227,6 +254,33 @@ export default function OrderTrackingClient() {
     fetchTrackedOrders(query)
   }, [searchParams, fetchTrackedOrders])
 
+  // "Order again": add the order's items to the cart at today's prices, skipping anything we no longer sell.
+  // If everything was added, go straight to the cart; otherwise say what was left out.
+  const handleReorder = async (order: Order) => {
+    setReorderingId(order.id)
+    setReorderNotice(null)
+    try {
+      const { items: menuItems } = await fetchMenu()
+      const { lines, skipped, changed } = buildReorderLines(order.order_items || [], menuItems)
+      lines.forEach(({ item, quantity }) => addToCart(item, quantity))
+
+      if (lines.length > 0 && skipped.length === 0 && changed.length === 0) {
+        router.push('/cart')
+        return
+      }
+      const messages = [
+        lines.length === 0 ? 'None of the items in this order are available right now.' : '',
+        skipped.length > 0 ? `Not available right now: ${skipped.join(', ')}` : '',
+        changed.length > 0 ? `Added without options we no longer offer: ${changed.join(', ')}` : '',
+      ].filter(Boolean)
+      setReorderNotice({ orderId: order.id, messages, added: lines.length > 0 })
+    } catch (err: any) {
+      setReorderNotice({ orderId: order.id, messages: [err.message || 'Failed to reorder. Please try again.'], added: false })
+    } finally {
+      setReorderingId(null)
+    }
+  }
+
   const formatPhone = (phone: string) => {
     const cleaned = phone.replace(/\D/g, '')
     if (cleaned.length === 10) {
@@ -342,6 +396,15 @@ export default function OrderTrackingClient() {
         {/* Results */}
         {hasSearched && (
           <>
+            {pointsBalance !== null && (
+              <div className="mb-6 p-4 bg-white rounded-2xl sm:rounded-xl shadow-sm border border-gray-200 flex items-center justify-between gap-3">
+                <div>
+                  <div className="font-semibold text-gray-900">Loyalty points</div>
+                  <div className="text-sm text-gray-600">Earn 1 point per $1 and redeem rewards at checkout.</div>
+                </div>
+                <div className="text-2xl font-bold text-gray-900">{pointsBalance}</div>
+              </div>
+            )}
             {orders.length > 0 ? (
               <div className="space-y-6">
                 <div className="flex items-center justify-between gap-3">
@@ -380,38 +443,78 @@ export default function OrderTrackingClient() {
                       </div>
 
                       <div className="border-t border-gray-200 pt-4 mt-4">
-                        <h4 className="font-semibold text-gray-900 mb-3">Order Items</h4>
+                        <div className="flex items-center justify-between gap-3 mb-3">
+                          <h4 className="font-semibold text-gray-900">Order Items</h4>
+                          <button
+                            onClick={() => handleReorder(order)}
+                            disabled={reorderingId === order.id}
+                            className="inline-flex items-center gap-2 px-3 py-1.5 border border-gray-300 hover:border-black rounded-lg text-sm font-semibold text-gray-900 transition-colors disabled:opacity-50"
+                          >
+                            {reorderingId === order.id ? (
+                              <Loader2 className="animate-spin" size={14} />
+                            ) : (
+                              <RotateCcw size={14} />
+                            )}
+                            Reorder
+                          </button>
+                        </div>
+                        {reorderNotice?.orderId === order.id && (
+                          <div className="mb-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                            {reorderNotice.messages.map((message) => (
+                              <p key={message}>{message}</p>
+                            ))}
+                            {reorderNotice.added && (
+                              <Link href="/cart" className="inline-block mt-1 font-semibold underline">
+                                View cart
+                              </Link>
+                            )}
+                          </div>
+                        )}
                         <div className="space-y-2 mb-4">
                           {order.order_items?.map((item, idx) => (
                             <div key={idx} className="flex justify-between text-sm text-gray-700">
                               <span>
                                 {item.quantity}x {item.menu_item_name}
+                                {item.special_instructions && (
+                                  <span className="block text-xs text-gray-500">Note: {item.special_instructions}</span>
+                                )}
                               </span>
-                              <span className="font-semibold">${(item.price * item.quantity).toFixed(2)}</span>
+                              <span className="font-semibold">{formatCents(toCents(item.price) * item.quantity)}</span>
                             </div>
                           ))}
                         </div>
                         <div className="border-t border-gray-200 pt-3 space-y-1">
                           {(() => {
                             const tipAmount = typeof order.tip_amount === 'number' ? order.tip_amount : 0
-                            const subtotal = order.total_amount - order.tax_amount - tipAmount
+                            const subtotal = getOrderSubtotalCents(order)
                             return (
                               <>
                                 <div className="flex justify-between text-sm text-gray-600">
                                   <span>Subtotal</span>
-                                  <span>${subtotal.toFixed(2)}</span>
+                                  <span>{formatCents(subtotal)}</span>
                                 </div>
+                                {typeof order.discount_amount === 'number' && order.discount_amount > 0 && (
+                                  <div className="flex justify-between text-sm text-green-700">
+                                    <span>
+                                      Discount
+                                      {order.promo_code || order.loyalty_reward
+                                        ? ` (${order.promo_code || order.loyalty_reward})`
+                                        : ''}
+                                    </span>
+                                    <span>{formatCents(-toCents(order.discount_amount))}</span>
+                                  </div>
+                                )}
                                 <div className="flex justify-between text-sm text-gray-600">
                                   <span>Tax</span>
-                                  <span>${order.tax_amount.toFixed(2)}</span>
+                                  <span>{formatCents(toCents(order.tax_amount))}</span>
                                 </div>
                                 <div className="flex justify-between text-sm text-gray-600">
                                   <span>Tip</span>
-                                  <span>${tipAmount.toFixed(2)}</span>
+                                  <span>{formatCents(toCents(tipAmount))}</span>
                                 </div>
                                 <div className="flex justify-between font-bold text-lg text-gray-900 pt-2 border-t border-gray-200">
                                   <span>Total</span>
-                                  <span>${order.total_amount.toFixed(2)}</span>
+                                  <span>{formatCents(toCents(order.total_amount))}</span>
                                 </div>
                               </>
                             )
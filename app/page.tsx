@@ -1,10 +1,14 @@
 import Link from 'next/link'
 import { ArrowRight, UtensilsCrossed, Clock, Award, Phone } from 'lucide-react'
-import { menuItems } from '@/lib/menu-data'
+import { getMenuItems } from '@/lib/menu'
 import Image from 'next/image'
 import Map from '@/components/Map'
 
-export default function Home() {
+// Re-render at most once a minute so featured dishes follow menu_items.
+export const revalidate = 60
+
+export default async function Home() {
+  const menuItems = await getMenuItems()
   const featuredDishes = menuItems.slice(0, 3)
 
   return (
@@ -0,0 +1,273 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { RotateCcw, X } from 'lucide-react'
+
+interface AdminInventoryEditorProps {
+  // Called when the admin session cookie is missing or expired
+  onUnauthorized: () => void
+}
+
+interface InventoryRow {
+  id: string
+  name: string
+  detail: string
+  // Form values; '' = not tracked
+  stock: string
+  daily: string
+  savedStock: string
+  savedDaily: string
+}
+
+const toFormValue = (value: unknown) => (value === null || value === undefined ? '' : String(value))
+
+const toRows = (data: any) => ({
+  items: (Array.isArray(data.items) ? data.items : []).map(
+    (item: any): InventoryRow => ({
+      id: item.id,
+      name: item.name,
+      detail: item.category,
+      stock: toFormValue(item.stock_quantity),
+      daily: toFormValue(item.daily_stock),
+      savedStock: toFormValue(item.stock_quantity),
+      savedDaily: toFormValue(item.daily_stock),
+    })
+  ),
+  options: (Array.isArray(data.options) ? data.options : []).map(
+    (option: any): InventoryRow => ({
+      id: option.id,
+      name: option.label,
+      detail: `Add-on • $${Number(option.price).toFixed(2)}`,
+      stock: toFormValue(option.stock_quantity),
+      daily: toFormValue(option.daily_stock),
+      savedStock: toFormValue(option.stock_quantity),
+      savedDaily: toFormValue(option.daily_stock),
+    })
+  ),
+})
+
+const isDirty = (row: InventoryRow) => row.stock !== row.savedStock || row.daily !== row.savedDaily
+
+const toPayload = (rows: InventoryRow[]) =>
+  rows.filter(isDirty).map((row) => ({
+    id: row.id,
+    stock_quantity: row.stock.trim() === '' ? null : Number(row.stock),
+    daily_stock: row.daily.trim() === '' ? null : Number(row.daily),
+  }))
+
+const inputClassName =
+  'w-20 px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-black bg-white'
+
+export default function AdminInventoryEditor({ onUnauthorized }: AdminInventoryEditorProps) {
+  const [items, setItems] = useState<InventoryRow[]>([])
+  const [options, setOptions] = useState<InventoryRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const adminRequest = useCallback(
+    async (url: string, init?: RequestInit) => {
+      const response = await fetch(url, {
+        ...init,
+        cache: 'no-store',
+        headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) },
+      })
+      const data = await response.json().catch(() => ({}))
+      if (response.status === 401) {
+        onUnauthorized()
+        throw new Error('Your admin session has expired. Please log in again.')
+      }
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}: Request failed`)
+      }
+      return data
+    },
+    [onUnauthorized]
+  )
+
+  const applyInventory = (data: any) => {
+    const rows = toRows(data)
+    setItems(rows.items)
+    setOptions(rows.options)
+  }
+
+  const fetchInventory = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      applyInventory(await adminRequest('/api/admin/inventory'))
+    } catch (err: any) {
+      setError(err.message || 'Failed to load inventory')
+    } finally {
+      setLoading(false)
+    }
+  }, [adminRequest])
+
+  useEffect(() => {
+    fetchInventory()
+  }, [fetchInventory])
+
+  const hasChanges = items.some(isDirty) || options.some(isDirty)
+
+  const saveCounts = async () => {
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+    try {
+      applyInventory(
+        await adminRequest('/api/admin/inventory', {
+          method: 'PUT',
+          body: JSON.stringify({ items: toPayload(items), options: toPayload(options) }),
+        })
+      )
+      setMessage('Inventory saved')
+    } catch (err: any) {
+      setError(err.message || 'Failed to save inventory')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const resetToDailyCounts = async () => {
+    if (!confirm('Reset every tracked item to its daily count? Sold-out tracked items will go back on the menu.')) return
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+    try {
+      await adminRequest('/api/admin/inventory/reset', { method: 'POST' })
+      await fetchInventory()
+      setMessage('Inventory reset to daily counts')
+    } catch (err: any) {
+      setError(err.message || 'Failed to reset inventory')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const renderRows = (
+    rows: InventoryRow[],
+    setRows: React.Dispatch<React.SetStateAction<InventoryRow[]>>
+  ) => (
+    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+      {rows.map((row) => {
+        const soldOut = row.stock.trim() === '0'
+        const updateRow = (changes: Partial<InventoryRow>) =>
+          setRows((prev) => prev.map((existing) => (existing.id === row.id ? { ...existing, ...changes } : existing)))
+        return (
+          <li
+            key={row.id}
+            className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 ${
+              isDirty(row) ? 'bg-yellow-50' : ''
+            }`}
+          >
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-gray-900">{row.name}</span>
+                {soldOut && (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-800">
+                    Sold out
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">{row.detail}</p>
+            </div>
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2 text-xs font-semibold text-gray-700">
+                In stock
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={row.stock}
+                  onChange={(e) => updateRow({ stock: e.target.value })}
+                  className={inputClassName}
+                  placeholder="—"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-xs font-semibold text-gray-700">
+                Daily
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={row.daily}
+                  onChange={(e) => updateRow({ daily: e.target.value })}
+                  className={inputClassName}
+                  placeholder="—"
+                />
+              </label>
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+          <p className="text-sm text-red-700">{error}</p>
+          <button onClick={() => setError(null)} className="text-red-600 hover:text-red-800">
+            <X size={20} />
+          </button>
+        </div>
+      )}
+      {message && !error && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between">
+          <p className="text-sm text-green-800">{message}</p>
+          <button onClick={() => setMessage(null)} className="text-green-700 hover:text-green-900">
+            <X size={20} />
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+          <div>
+            <h2 className="font-display text-2xl font-semibold text-gray-900">Inventory</h2>
+            <p className="text-sm text-gray-600">
+              Leave a count blank to stop tracking it. Paid orders take from &quot;In stock&quot; and items sell out
+              automatically at 0; the daily reset restores the &quot;Daily&quot; count.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={resetToDailyCounts}
+              disabled={saving || loading}
+              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-semibold text-sm flex items-center gap-2 disabled:opacity-50"
+            >
+              <RotateCcw size={16} />
+              Reset to Daily
+            </button>
+            <button
+              onClick={saveCounts}
+              disabled={!hasChanges || saving}
+              className="bg-black text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-800 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Counts'}
+            </button>
+          </div>
+        </div>
+
+        {loading && items.length === 0 ? (
+          <p className="text-gray-600 py-6 text-center">Loading inventory...</p>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h3 className="font-semibold text-gray-900 mb-2">Menu Items</h3>
+              {renderRows(items, setItems)}
+            </div>
+            {options.length > 0 && (
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-2">Add-ons</h3>
+                {renderRows(options, setOptions)}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
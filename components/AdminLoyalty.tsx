@@ -0,0 +1,237 @@
+'use client'
+
+import { useCallback, useState } from 'react'
+import { Search, X } from 'lucide-react'
+import { LoyaltyEntry, LoyaltyEntryKind } from '@/lib/types'
+import { LOYALTY_REWARDS, POINTS_PER_DOLLAR, describeLoyaltyReward } from '@/lib/loyalty'
+
+interface AdminLoyaltyProps {
+  // Called when the admin session cookie is missing or expired
+  onUnauthorized: () => void
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black bg-white'
+
+const kindLabels: Record<LoyaltyEntryKind, string> = {
+  earned: 'Earned',
+  redeemed: 'Redeemed',
+  adjusted: 'Adjusted',
+}
+
+const formatPoints = (points: number) => (points > 0 ? `+${points}` : String(points))
+
+const formatEntryDate = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+
+export default function AdminLoyalty({ onUnauthorized }: AdminLoyaltyProps) {
+  const [phoneInput, setPhoneInput] = useState('')
+  // The customer being shown (digits only)
+  const [phone, setPhone] = useState<string | null>(null)
+  const [balance, setBalance] = useState(0)
+  const [entries, setEntries] = useState<LoyaltyEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [points, setPoints] = useState('')
+  const [reason, setReason] = useState('')
+  const [formError, setFormError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const adminRequest = useCallback(
+    async (url: string, init?: RequestInit) => {
+      const response = await fetch(url, {
+        ...init,
+        cache: 'no-store',
+        headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) },
+      })
+      const data = await response.json().catch(() => ({}))
+      if (response.status === 401) {
+        onUnauthorized()
+        throw new Error('Your admin session has expired. Please log in again.')
+      }
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}: Request failed`)
+      }
+      return data
+    },
+    [onUnauthorized]
+  )
+
+  const fetchLedger = useCallback(
+    async (phoneDigits: string) => {
+      setLoading(true)
+      setError(null)
+      try {
+        const data = await adminRequest(`/api/admin/loyalty?phone=${encodeURIComponent(phoneDigits)}`)
+        setPhone(phoneDigits)
+        setBalance(typeof data.balance === 'number' ? data.balance : 0)
+        setEntries(Array.isArray(data.entries) ? data.entries : [])
+      } catch (err: any) {
+        setError(err.message || 'Failed to load loyalty points')
+      } finally {
+        setLoading(false)
+      }
+    },
+    [adminRequest]
+  )
+
+  const search = () => {
+    const phoneDigits = phoneInput.replace(/\D/g, '')
+    if (phoneDigits.length < 10) {
+      setError('Please enter a valid phone number (at least 10 digits)')
+      return
+    }
+    setFormError(null)
+    fetchLedger(phoneDigits)
+  }
+
+  const saveAdjustment = async () => {
+    if (!phone) return
+
+    const value = Number(points)
+    if (!points.trim() || !Number.isInteger(value) || value === 0) {
+      setFormError('Please enter a whole number of points (negative to take points away)')
+      return
+    }
+    if (!reason.trim()) {
+      setFormError('Please enter a reason')
+      return
+    }
+
+    setSaving(true)
+    setFormError(null)
+    try {
+      await adminRequest('/api/admin/loyalty', {
+        method: 'POST',
+        body: JSON.stringify({ phone, points: value, reason: reason.trim() }),
+      })
+      setPoints('')
+      setReason('')
+      await fetchLedger(phone)
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to adjust points')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+          <p className="text-sm text-red-700">{error}</p>
+          <button onClick={() => setError(null)} className="text-red-600 hover:text-red-800">
+            <X size={20} />
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="mb-4">
+          <h2 className="font-display text-2xl font-semibold text-gray-900">Loyalty</h2>
+          <p className="text-sm text-gray-600">
+            Customers earn {POINTS_PER_DOLLAR} point per dollar spent before tax and tip, by phone number, and
+            redeem them at checkout: {LOYALTY_REWARDS.map(describeLoyaltyReward).join(', ')}.
+          </p>
+        </div>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            search()
+          }}
+        >
+          <input
+            type="tel"
+            value={phoneInput}
+            onChange={(e) => setPhoneInput(e.target.value)}
+            placeholder="Customer phone number"
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={loading}
+            className="bg-black text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-800 transition-colors text-sm flex items-center gap-2 disabled:opacity-50"
+          >
+            <Search size={16} />
+            Look Up
+          </button>
+        </form>
+      </div>
+
+      {phone && (
+        <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <div className="text-sm text-gray-600">Balance for {phone}</div>
+              <div className="text-3xl font-bold text-gray-900">{balance} points</div>
+            </div>
+            {loading && <span className="text-sm text-gray-500">Loading...</span>}
+          </div>
+
+          <div className="rounded-lg border border-gray-200 bg-gray-50 p-4">
+            <h3 className="font-semibold text-gray-900 mb-3">Adjust Points</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-[8rem_1fr_auto] gap-3">
+              <input
+                type="number"
+                step={1}
+                value={points}
+                onChange={(e) => setPoints(e.target.value)}
+                placeholder="e.g. 25 or -25"
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={200}
+                placeholder="Reason (e.g. order #1042 arrived cold)"
+                className={inputClassName}
+              />
+              <button
+                type="button"
+                onClick={saveAdjustment}
+                disabled={saving}
+                className="bg-black text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-800 transition-colors text-sm disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+            {formError && <p className="mt-2 text-sm text-red-600">{formError}</p>}
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="text-gray-600 py-6 text-center">No points history for this number yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {entries.map((entry) => (
+                <li key={entry.id} className="flex items-center justify-between gap-3 p-4">
+                  <div className="min-w-0">
+                    <div className="font-semibold text-gray-900">
+                      {kindLabels[entry.kind]}
+                      {entry.order_id && (
+                        <span className="font-normal text-gray-500"> · Order {entry.order_id.substring(0, 8)}</span>
+                      )}
+                    </div>
+                    {entry.reason && <p className="text-sm text-gray-700">{entry.reason}</p>}
+                    <p className="text-xs text-gray-500">{formatEntryDate(entry.created_at)}</p>
+                  </div>
+                  <span className={`font-semibold ${entry.points > 0 ? 'text-green-700' : 'text-red-700'}`}>
+                    {formatPoints(entry.points)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
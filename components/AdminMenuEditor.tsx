@@ -0,0 +1,762 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { ChevronDown, ChevronUp, Pencil, Plus, Archive, RotateCcw, X } from 'lucide-react'
+import {
+  ALLERGENS,
+  Allergen,
+  AvailabilityWindow,
+  DIETARY_TAGS,
+  DietaryTag,
+  MENU_CATEGORIES,
+  MenuCategory,
+  MenuItem,
+  MenuItemTranslations,
+  MenuItemType,
+  TranslatedLocale,
+} from '@/lib/types'
+import { ALLERGEN_LABELS, DIETARY_TAG_LABELS } from '@/lib/dietary'
+import { LOCALE_NAMES, TRANSLATED_LOCALES, getLocaleDirection } from '@/lib/i18n'
+import { describeSchedule, getSoldOutLabel, isMenuItemAvailable } from '@/lib/availability'
+import AdminMenuTransfer from '@/components/AdminMenuTransfer'
+
+interface AdminMenuEditorProps {
+  // Called when the admin session cookie is missing or expired
+  onUnauthorized: () => void
+}
+
+interface MenuItemForm {
+  id?: string
+  name: string
+  description: string
+  price: string
+  category: MenuCategory
+  item_type: MenuItemType
+  dietary_tags: DietaryTag[]
+  allergens: Allergen[]
+  image_url: string
+  sort_order: string
+  availability_schedule: AvailabilityWindow[]
+  translations: MenuItemTranslations
+}
+
+const EMPTY_FORM: MenuItemForm = {
+  name: '',
+  description: '',
+  price: '',
+  category: MENU_CATEGORIES[0],
+  item_type: 'standard',
+  dietary_tags: [],
+  allergens: [],
+  image_url: '',
+  sort_order: '',
+  availability_schedule: [],
+  translations: {},
+}
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S']
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const NEW_SCHEDULE_WINDOW: AvailabilityWindow = { days: [1, 2, 3, 4, 5], start: '11:00', end: '14:00' }
+
+type AvailabilityChoice = 'available' | 'today' | 'restocked'
+
+// Sold out "today" lasts until the next midnight, after which the item shows up again on its own.
+const getEndOfToday = () => {
+  const end = new Date()
+  end.setHours(24, 0, 0, 0)
+  return end.toISOString()
+}
+
+const toggleValue = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value]
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black bg-white'
+
+export default function AdminMenuEditor({ onUnauthorized }: AdminMenuEditorProps) {
+  const [items, setItems] = useState<MenuItem[]>([])
+  const [categoryOrder, setCategoryOrder] = useState<MenuCategory[]>([...MENU_CATEGORIES])
+  const [categoryOrderDirty, setCategoryOrderDirty] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showArchived, setShowArchived] = useState(false)
+  const [form, setForm] = useState<MenuItemForm | null>(null)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const adminRequest = useCallback(
+    async (url: string, init?: RequestInit) => {
+      const response = await fetch(url, {
+        ...init,
+        cache: 'no-store',
+        headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) },
+      })
+      const data = await response.json().catch(() => ({}))
+      if (response.status === 401) {
+        onUnauthorized()
+        throw new Error('Your admin session has expired. Please log in again.')
+      }
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}: Request failed`)
+      }
+      return data
+    },
+    [onUnauthorized]
+  )
+
+  const fetchMenu = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const data = await adminRequest('/api/admin/menu')
+      setItems(Array.isArray(data.items) ? data.items : [])
+      if (Array.isArray(data.categories)) setCategoryOrder(data.categories)
+      setCategoryOrderDirty(false)
+    } catch (err: any) {
+      setError(err.message || 'Failed to load menu')
+    } finally {
+      setLoading(false)
+    }
+  }, [adminRequest])
+
+  useEffect(() => {
+    fetchMenu()
+  }, [fetchMenu])
+
+  const visibleItems = useMemo(
+    () => items.filter((item) => showArchived || !item.archived_at),
+    [items, showArchived]
+  )
+
+  const moveCategory = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= categoryOrder.length) return
+    const next = [...categoryOrder]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setCategoryOrder(next)
+    setCategoryOrderDirty(true)
+  }
+
+  const saveCategoryOrder = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      await adminRequest('/api/admin/menu/categories', {
+        method: 'PUT',
+        body: JSON.stringify({ categories: categoryOrder }),
+      })
+      setCategoryOrderDirty(false)
+    } catch (err: any) {
+      setError(err.message || 'Failed to save category order')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const openEditForm = (item: MenuItem) => {
+    setFormError(null)
+    setForm({
+      id: item.id,
+      name: item.name,
+      description: item.description || '',
+      price: item.price.toFixed(2),
+      category: item.category,
+      item_type: item.item_type || 'standard',
+      dietary_tags: [...(item.dietary_tags || [])],
+      allergens: [...(item.allergens || [])],
+      image_url: item.image_url || '',
+      sort_order: String(item.sort_order ?? 0),
+      availability_schedule: (item.availability_schedule || []).map((timeWindow) => ({ ...timeWindow })),
+      translations: { ...(item.translations || {}) },
+    })
+  }
+
+  const updateTranslation = (locale: TranslatedLocale, field: 'name' | 'description', text: string) => {
+    if (!form) return
+    setForm({
+      ...form,
+      translations: { ...form.translations, [locale]: { ...form.translations[locale], [field]: text } },
+    })
+  }
+
+  const updateScheduleWindow = (index: number, changes: Partial<AvailabilityWindow>) => {
+    if (!form) return
+    setForm({
+      ...form,
+      availability_schedule: form.availability_schedule.map((timeWindow, i) =>
+        i === index ? { ...timeWindow, ...changes } : timeWindow
+      ),
+    })
+  }
+
+  const openCreateForm = () => {
+    setFormError(null)
+    setForm({ ...EMPTY_FORM })
+  }
+
+  const saveForm = async () => {
+    if (!form) return
+
+    const price = Number(form.price)
+    if (!form.name.trim()) {
+      setFormError('Please enter a name')
+      return
+    }
+    if (!form.price.trim() || !Number.isFinite(price) || price < 0) {
+      setFormError('Please enter a valid price')
+      return
+    }
+    if (form.availability_schedule.some((timeWindow) => timeWindow.days.length === 0)) {
+      setFormError('Each time timeWindow needs at least one day')
+      return
+    }
+    if (form.availability_schedule.some((timeWindow) => !timeWindow.start || !timeWindow.end || timeWindow.start === timeWindow.end)) {
+      setFormError('Each time timeWindow needs a start and end time')
+      return
+    }
+
+    const payload: Record<string, unknown> = {
+      name: form.name.trim(),
+      description: form.description.trim(),
+      price,
+      category: form.category,
+      item_type: form.item_type,
+      dietary_tags: form.dietary_tags,
+      allergens: form.allergens,
+      image_url: form.image_url.trim(),
+      availability_schedule: form.availability_schedule,
+      translations: form.translations,
+    }
+    if (form.sort_order.trim()) {
+      payload.sort_order = Number(form.sort_order)
+    }
+
+    setSaving(true)
+    setFormError(null)
+    try {
+      if (form.id) {
+        await adminRequest(`/api/admin/menu/${encodeURIComponent(form.id)}`, {
+          method: 'PATCH',
+          body: JSON.stringify(payload),
+        })
+      } else {
+        await adminRequest('/api/admin/menu', {
+          method: 'POST',
+          body: JSON.stringify(payload),
+        })
+      }
+      setForm(null)
+      await fetchMenu()
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save menu item')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setArchived = async (item: MenuItem, archived: boolean) => {
+    if (archived && !confirm(`Archive "${item.name}"? It will be hidden from the menu.`)) return
+    setSaving(true)
+    setError(null)
+    try {
+      if (archived) {
+        await adminRequest(`/api/admin/menu/${encodeURIComponent(item.id)}`, { method: 'DELETE' })
+      } else {
+        await adminRequest(`/api/admin/menu/${encodeURIComponent(item.id)}`, {
+          method: 'PATCH',
+          body: JSON.stringify({ archived: false }),
+        })
+      }
+      await fetchMenu()
+    } catch (err: any) {
+      setError(err.message || 'Failed to update menu item')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setAvailability = async (item: MenuItem, choice: AvailabilityChoice) => {
+    const payload =
+      choice === 'available'
+        ? { is_available: true }
+        : { is_available: false, unavailable_until: choice === 'today' ? getEndOfToday() : null }
+
+    setSaving(true)
+    setError(null)
+    try {
+      const data = await adminRequest(`/api/admin/menu/${encodeURIComponent(item.id)}`, {
+        method: 'PATCH',
+        body: JSON.stringify(payload),
+      })
+      if (data.item) {
+        setItems((prev) => prev.map((existing) => (existing.id === item.id ? { ...existing, ...data.item } : existing)))
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to update availability')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+          <p className="text-sm text-red-700">{error}</p>
+          <button onClick={() => setError(null)} className="text-red-600 hover:text-red-800">
+            <X size={20} />
+          </button>
+        </div>
+      )}
+
+      {/* Category order */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="font-display text-2xl font-semibold text-gray-900">Category Order</h2>
+            <p className="text-sm text-gray-600">Controls the order of the category filters on the menu page.</p>
+          </div>
+          <button
+            onClick={saveCategoryOrder}
+            disabled={!categoryOrderDirty || saving}
+            className="bg-black text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-800 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save Order
+          </button>
+        </div>
+        <ul className="space-y-2">
+          {categoryOrder.map((category, index) => {
+            const count = items.filter((item) => item.category === category && !item.archived_at).length
+            return (
+              <li
+                key={category}
+                className="flex items-center justify-between px-4 py-2 border border-gray-200 rounded-lg"
+              >
+                <span className="font-medium text-gray-900">
+                  {category}{' '}
+                  <span className="text-sm text-gray-500">
+                    ({count} item{count !== 1 ? 's' : ''})
+                  </span>
+                </span>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => moveCategory(index, -1)}
+                    disabled={index === 0}
+                    className="p-1.5 rounded-lg hover:bg-gray-100 disabled:opacity-30"
+                    aria-label={`Move ${category} up`}
+                  >
+                    <ChevronUp size={18} />
+                  </button>
+                  <button
+                    onClick={() => moveCategory(index, 1)}
+                    disabled={index === categoryOrder.length - 1}
+                    className="p-1.5 rounded-lg hover:bg-gray-100 disabled:opacity-30"
+                    aria-label={`Move ${category} down`}
+                  >
+                    <ChevronDown size={18} />
+                  </button>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      </div>
+
+      {/* Items */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+          <h2 className="font-display text-2xl font-semibold text-gray-900">Menu Items</h2>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+                className="w-4 h-4 border-gray-300 rounded text-black focus:ring-black"
+              />
+              Show archived
+            </label>
+            <button
+              onClick={openCreateForm}
+              className="bg-black text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-800 transition-colors text-sm flex items-center gap-2"
+            >
+              <Plus size={16} />
+              Add Item
+            </button>
+          </div>
+        </div>
+
+        {loading && items.length === 0 ? (
+          <p className="text-gray-600 py-6 text-center">Loading menu...</p>
+        ) : (
+          <div className="space-y-6">
+            {categoryOrder.map((category) => {
+              const categoryItems = visibleItems.filter((item) => item.category === category)
+              if (categoryItems.length === 0) return null
+              return (
+                <div key={category}>
+                  <h3 className="font-semibold text-gray-900 mb-2">{category}</h3>
+                  <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                    {categoryItems.map((item) => {
+                      const available = isMenuItemAvailable(item)
+                      return (
+                        <li
+                          key={item.id}
+                          className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 ${
+                            item.archived_at ? 'bg-gray-50 opacity-70' : ''
+                          }`}
+                        >
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium text-gray-900">{item.name}</span>
+                              {item.item_type === 'combo' && (
+                                <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+                                  Combo
+                                </span>
+                              )}
+                              {item.archived_at && (
+                                <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-200 text-gray-700">
+                                  Archived
+                                </span>
+                              )}
+                              {!available && (
+                                <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-800">
+                                  {getSoldOutLabel(item)}
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-sm text-gray-600 truncate">{item.description}</p>
+                            <p className="text-xs text-gray-400">
+                              {item.id} • position {item.sort_order ?? 0}
+                            </p>
+                            {item.availability_schedule && item.availability_schedule.length > 0 && (
+                              <p className="text-xs text-gray-500">
+                                Available {describeSchedule(item.availability_schedule)}
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-semibold text-gray-900 w-20 text-right">
+                              ${item.price.toFixed(2)}
+                            </span>
+                            {!item.archived_at && (
+                              <select
+                                value={available ? 'available' : item.unavailable_until ? 'today' : 'restocked'}
+                                onChange={(e) => setAvailability(item, e.target.value as AvailabilityChoice)}
+                                disabled={saving}
+                                className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-black disabled:opacity-50"
+                                aria-label={`Availability for ${item.name}`}
+                              >
+                                <option value="available">Available</option>
+                                <option value="today">Sold out today</option>
+                                <option value="restocked">Sold out until restocked</option>
+                              </select>
+                            )}
+                            <button
+                              onClick={() => openEditForm(item)}
+                              className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium flex items-center gap-1"
+                            >
+                              <Pencil size={14} />
+                              Edit
+                            </button>
+                            {item.archived_at ? (
+                              <button
+                                onClick={() => setArchived(item, false)}
+                                disabled={saving}
+                                className="px-3 py-1.5 bg-green-100 hover:bg-green-200 text-green-800 rounded-lg text-sm font-medium flex items-center gap-1 disabled:opacity-50"
+                              >
+                                <RotateCcw size={14} />
+                                Restore
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => setArchived(item, true)}
+                                disabled={saving}
+                                className="px-3 py-1.5 bg-red-50 hover:bg-red-100 text-red-700 rounded-lg text-sm font-medium flex items-center gap-1 disabled:opacity-50"
+                              >
+                                <Archive size={14} />
+                                Archive
+                              </button>
+                            )}
+                          </div>
+                        </li>
+                      )
+                    })}
+                  </ul>
+                </div>
+              )
+            })}
+            {visibleItems.length === 0 && (
+              <p className="text-gray-600 py-6 text-center">No menu items yet</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <AdminMenuTransfer onUnauthorized={onUnauthorized} onImported={fetchMenu} />
+
+      {/* Add / edit form */}
+      {form && (
+        <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={() => setForm(null)}>
+          <div
+            className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[95dvh] overflow-y-auto p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="font-display text-2xl font-semibold text-gray-900">
+                {form.id ? 'Edit Item' : 'Add Item'}
+              </h2>
+              <button onClick={() => setForm(null)} className="p-1.5 hover:bg-gray-100 rounded-full" aria-label="Close">
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Name *</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Description</label>
+                <textarea
+                  rows={3}
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <details className="rounded-lg border border-gray-200 p-3">
+                <summary className="cursor-pointer text-xs font-semibold text-gray-700">
+                  Translations (blank fields show the English text)
+                </summary>
+                <div className="mt-3 space-y-3">
+                  {TRANSLATED_LOCALES.map((locale) => (
+                    <div key={locale} dir={getLocaleDirection(locale)} className="space-y-1.5">
+                      <label className="block text-xs font-semibold text-gray-700">{LOCALE_NAMES[locale]}</label>
+                      <input
+                        type="text"
+                        value={form.translations[locale]?.name || ''}
+                        onChange={(e) => updateTranslation(locale, 'name', e.target.value)}
+                        className={inputClassName}
+                        placeholder={form.name}
+                      />
+                      <textarea
+                        rows={2}
+                        value={form.translations[locale]?.description || ''}
+                        onChange={(e) => updateTranslation(locale, 'description', e.target.value)}
+                        className={inputClassName}
+                        placeholder={form.description}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </details>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Price *</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={form.price}
+                    onChange={(e) => setForm({ ...form, price: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Category *</label>
+                  <select
+                    value={form.category}
+                    onChange={(e) => setForm({ ...form, category: e.target.value as MenuCategory })}
+                    className={inputClassName}
+                  >
+                    {MENU_CATEGORIES.map((category) => (
+                      <option key={category} value={category}>
+                        {category}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Item Type</label>
+                <select
+                  value={form.item_type}
+                  onChange={(e) => setForm({ ...form, item_type: e.target.value as MenuItemType })}
+                  className={inputClassName}
+                >
+                  <option value="standard">Standard</option>
+                  <option value="combo">Combo (customer picks components from its option groups)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Dietary Tags</label>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {DIETARY_TAGS.map((tag) => (
+                    <label key={tag} className="flex items-center gap-1.5 text-sm text-gray-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={form.dietary_tags.includes(tag)}
+                        onChange={() => setForm({ ...form, dietary_tags: toggleValue(form.dietary_tags, tag) })}
+                        className="w-4 h-4 border-gray-300 rounded text-black focus:ring-black"
+                      />
+                      {DIETARY_TAG_LABELS[tag]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Contains Allergens</label>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {ALLERGENS.map((allergen) => (
+                    <label key={allergen} className="flex items-center gap-1.5 text-sm text-gray-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={form.allergens.includes(allergen)}
+                        onChange={() => setForm({ ...form, allergens: toggleValue(form.allergens, allergen) })}
+                        className="w-4 h-4 border-gray-300 rounded text-black focus:ring-black"
+                      />
+                      {ALLERGEN_LABELS[allergen]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Image URL</label>
+                <input
+                  type="text"
+                  value={form.image_url}
+                  onChange={(e) => setForm({ ...form, image_url: e.target.value })}
+                  className={inputClassName}
+                  placeholder="/images/menu/lamb-kabob-rice.webp"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Position</label>
+                <input
+                  type="number"
+                  step={1}
+                  value={form.sort_order}
+                  onChange={(e) => setForm({ ...form, sort_order: e.target.value })}
+                  className={inputClassName}
+                  placeholder="Leave blank to add at the end"
+                />
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-xs font-semibold text-gray-700">Available Hours (Denver time)</label>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setForm({
+                        ...form,
+                        availability_schedule: [...form.availability_schedule, { ...NEW_SCHEDULE_WINDOW }],
+                      })
+                    }
+                    className="text-xs font-semibold text-gray-700 hover:text-black flex items-center gap-1"
+                  >
+                    <Plus size={14} />
+                    Add time timeWindow
+                  </button>
+                </div>
+                {form.availability_schedule.length === 0 ? (
+                  <p className="text-sm text-gray-500">Available all day, every day</p>
+                ) : (
+                  <div className="space-y-2">
+                    {form.availability_schedule.map((timeWindow, index) => (
+                      <div key={index} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="flex gap-1">
+                            {DAY_LABELS.map((label, day) => {
+                              const selected = timeWindow.days.includes(day)
+                              return (
+                                <button
+                                  key={day}
+                                  type="button"
+                                  onClick={() =>
+                                    updateScheduleWindow(index, {
+                                      days: selected
+                                        ? timeWindow.days.filter((d) => d !== day)
+                                        : [...timeWindow.days, day].sort((a, b) => a - b),
+                                    })
+                                  }
+                                  className={`w-7 h-7 rounded-full text-xs font-semibold ${
+                                    selected ? 'bg-black text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                                  }`}
+                                  aria-label={DAY_NAMES[day]}
+                                  aria-pressed={selected}
+                                >
+                                  {label}
+                                </button>
+                              )
+                            })}
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setForm({
+                                ...form,
+                                availability_schedule: form.availability_schedule.filter((_, i) => i !== index),
+                              })
+                            }
+                            className="p-1.5 hover:bg-gray-100 rounded-full text-gray-500"
+                            aria-label="Remove time timeWindow"
+                          >
+                            <X size={16} />
+                          </button>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="time"
+                            value={timeWindow.start}
+                            onChange={(e) => updateScheduleWindow(index, { start: e.target.value })}
+                            className={inputClassName}
+                          />
+                          <span className="text-sm text-gray-500">to</span>
+                          <input
+                            type="time"
+                            value={timeWindow.end}
+                            onChange={(e) => updateScheduleWindow(index, { end: e.target.value })}
+                            className={inputClassName}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {formError && (
+              <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                {formError}
+              </div>
+            )}
+
+            <div className="mt-6 flex justify-end gap-3">
+              <button
+                onClick={() => setForm(null)}
+                className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveForm}
+                disabled={saving}
+                className="bg-black text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,278 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Download, Upload, X } from 'lucide-react'
+import { MenuImportDiff, MenuTransferFormat } from '@/lib/menu-transfer'
+
+interface AdminMenuTransferProps {
+  // Called when the admin session cookie is missing or expired
+  onUnauthorized: () => void
+  // Called after an import was applied so the editor can reload the menu
+  onImported: () => void
+}
+
+interface PendingImport {
+  fileName: string
+  format: MenuTransferFormat
+  content: string
+  diff: MenuImportDiff
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  item_type: 'type',
+  dietary_tags: 'dietary tags',
+  image_url: 'image',
+  sort_order: 'position',
+  is_available: 'available',
+  unavailable_until: 'sold out until',
+  stock_quantity: 'in stock',
+  daily_stock: 'daily stock',
+  availability_schedule: 'hours',
+  modifier_groups: 'modifiers',
+}
+
+const formatValue = (value: string) => (value === '' ? '—' : value)
+
+export default function AdminMenuTransfer({ onUnauthorized, onImported }: AdminMenuTransferProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [pending, setPending] = useState<PendingImport | null>(null)
+
+  const downloadExport = async (format: MenuTransferFormat) => {
+    setError(null)
+    setMessage(null)
+    try {
+      const response = await fetch(`/api/admin/menu/export?format=${format}`, { cache: 'no-store' })
+      if (response.status === 401) {
+        onUnauthorized()
+        throw new Error('Your admin session has expired. Please log in again.')
+      }
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || `HTTP ${response.status}: Export failed`)
+      }
+      const filename =
+        /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') || '')?.[1] || `menu.${format}`
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err: any) {
+      setError(err.message || 'Failed to export menu')
+    }
+  }
+
+  const requestImport = async (format: MenuTransferFormat, content: string, apply: boolean) => {
+    const response = await fetch('/api/admin/menu/import', {
+      method: 'POST',
+      cache: 'no-store',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ format, content, apply }),
+    })
+    const data = await response.json().catch(() => ({}))
+    if (response.status === 401) {
+      onUnauthorized()
+      throw new Error('Your admin session has expired. Please log in again.')
+    }
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP ${response.status}: Import failed`)
+    }
+    return data.diff as MenuImportDiff
+  }
+
+  const previewImport = async (file: File) => {
+    setBusy(true)
+    setError(null)
+    setMessage(null)
+    setPending(null)
+    try {
+      const content = await file.text()
+      const format: MenuTransferFormat =
+        file.name.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(content) ? 'json' : 'csv'
+      const diff = await requestImport(format, content, false)
+      setPending({ fileName: file.name, format, content, diff })
+    } catch (err: any) {
+      setError(err.message || 'Failed to read the import file')
+    } finally {
+      setBusy(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const applyImport = async () => {
+    if (!pending) return
+    setBusy(true)
+    setError(null)
+    try {
+      const diff = await requestImport(pending.format, pending.content, true)
+      setPending(null)
+      setMessage(
+        `Import applied: ${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} archived`
+      )
+      onImported()
+    } catch (err: any) {
+      setError(err.message || 'Failed to apply the import')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const diff = pending?.diff
+  const hasChanges = diff ? diff.added.length + diff.changed.length + diff.removed.length > 0 : false
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div>
+          <h2 className="font-display text-2xl font-semibold text-gray-900">Import / Export</h2>
+          <p className="text-sm text-gray-600">
+            Download the whole menu to edit in a spreadsheet, then upload it to review the changes before applying them.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => downloadExport('csv')}
+            className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-semibold text-sm flex items-center gap-2"
+          >
+            <Download size={16} />
+            CSV
+          </button>
+          <button
+            onClick={() => downloadExport('json')}
+            className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-semibold text-sm flex items-center gap-2"
+          >
+            <Download size={16} />
+            JSON
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="bg-black text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-800 transition-colors text-sm flex items-center gap-2 disabled:opacity-50"
+          >
+            <Upload size={16} />
+            {busy && !pending ? 'Checking...' : 'Import File'}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) previewImport(file)
+            }}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+          <p className="text-sm text-red-700">{error}</p>
+          <button onClick={() => setError(null)} className="text-red-600 hover:text-red-800">
+            <X size={20} />
+          </button>
+        </div>
+      )}
+      {message && !error && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between">
+          <p className="text-sm text-green-800">{message}</p>
+          <button onClick={() => setMessage(null)} className="text-green-700 hover:text-green-900">
+            <X size={20} />
+          </button>
+        </div>
+      )}
+
+      {pending && diff && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+          <div>
+            <h3 className="font-semibold text-gray-900">Dry run: {pending.fileName}</h3>
+            <p className="text-sm text-gray-600">
+              {diff.added.length} added • {diff.changed.length} changed • {diff.removed.length} archived •{' '}
+              {diff.unchanged} unchanged. Nothing is saved until you apply.
+            </p>
+          </div>
+
+          {diff.priceChanges.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-1">Price changes</h4>
+              <ul className="text-sm text-gray-700 space-y-0.5">
+                {diff.priceChanges.map((change) => (
+                  <li key={change.id}>
+                    {change.name}: <span className="line-through text-gray-500">${change.from.toFixed(2)}</span> → $
+                    {change.to.toFixed(2)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {diff.added.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-green-800 mb-1">Added</h4>
+              <ul className="text-sm text-gray-700 space-y-0.5">
+                {diff.added.map((item) => (
+                  <li key={item.id}>
+                    {item.name} (${item.price.toFixed(2)})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {diff.changed.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-yellow-800 mb-1">Changed</h4>
+              <ul className="text-sm text-gray-700 space-y-1">
+                {diff.changed.map((item) => (
+                  <li key={item.id}>
+                    <span className="font-medium">{item.name}</span>
+                    <ul className="ml-4 text-xs text-gray-600">
+                      {item.changes.map((change) => (
+                        <li key={change.field}>
+                          {FIELD_LABELS[change.field] || change.field}: {formatValue(change.from)} →{' '}
+                          {formatValue(change.to)}
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {diff.removed.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-red-800 mb-1">Not in file (will be archived)</h4>
+              <ul className="text-sm text-gray-700 space-y-0.5">
+                {diff.removed.map((item) => (
+                  <li key={item.id}>{item.name}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setPending(null)}
+              disabled={busy}
+              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-semibold text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={applyImport}
+              disabled={busy || !hasChanges}
+              className="bg-black text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-800 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy ? 'Applying...' : 'Apply Import'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,495 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Pencil, Plus, Trash2, X } from 'lucide-react'
+import { MENU_CATEGORIES, MenuCategory, MenuItem, PriceRule } from '@/lib/types'
+import { describePriceRule, isPriceRuleActive } from '@/lib/price-rules'
+
+interface AdminPriceRulesProps {
+  // Called when the admin session cookie is missing or expired
+  onUnauthorized: () => void
+}
+
+interface PriceRuleForm {
+  id?: string
+  name: string
+  price: string
+  category: MenuCategory | ''
+  menu_item_ids: string[]
+  days: number[]
+  allDay: boolean
+  start_time: string
+  end_time: string
+  starts_on: string
+  ends_on: string
+  is_active: boolean
+}
+
+const EMPTY_FORM: PriceRuleForm = {
+  name: '',
+  price: '',
+  category: '',
+  menu_item_ids: [],
+  days: [],
+  allDay: true,
+  start_time: '15:00',
+  end_time: '17:00',
+  starts_on: '',
+  ends_on: '',
+  is_active: true,
+}
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S']
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black bg-white'
+
+const toForm = (rule: PriceRule): PriceRuleForm => ({
+  id: rule.id,
+  name: rule.name,
+  price: rule.price.toFixed(2),
+  category: rule.category || '',
+  menu_item_ids: [...rule.menu_item_ids],
+  days: [...rule.days],
+  allDay: !rule.start_time || !rule.end_time,
+  start_time: rule.start_time || EMPTY_FORM.start_time,
+  end_time: rule.end_time || EMPTY_FORM.end_time,
+  starts_on: rule.starts_on || '',
+  ends_on: rule.ends_on || '',
+  is_active: rule.is_active,
+})
+
+const toPayload = (form: PriceRuleForm) => ({
+  name: form.name.trim(),
+  price: Number(form.price),
+  category: form.category || null,
+  menu_item_ids: form.menu_item_ids,
+  days: form.days,
+  start_time: form.allDay ? null : form.start_time,
+  end_time: form.allDay ? null : form.end_time,
+  starts_on: form.starts_on || null,
+  ends_on: form.ends_on || null,
+  is_active: form.is_active,
+})
+
+export default function AdminPriceRules({ onUnauthorized }: AdminPriceRulesProps) {
+  const [rules, setRules] = useState<PriceRule[]>([])
+  const [items, setItems] = useState<MenuItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState<PriceRuleForm | null>(null)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const adminRequest = useCallback(
+    async (url: string, init?: RequestInit) => {
+      const response = await fetch(url, {
+        ...init,
+        cache: 'no-store',
+        headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) },
+      })
+      const data = await response.json().catch(() => ({}))
+      if (response.status === 401) {
+        onUnauthorized()
+        throw new Error('Your admin session has expired. Please log in again.')
+      }
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}: Request failed`)
+      }
+      return data
+    },
+    [onUnauthorized]
+  )
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const [rulesData, menuData] = await Promise.all([
+        adminRequest('/api/admin/price-rules'),
+        adminRequest('/api/admin/menu'),
+      ])
+      setRules(Array.isArray(rulesData.rules) ? rulesData.rules : [])
+      setItems(Array.isArray(menuData.items) ? menuData.items.filter((item: MenuItem) => !item.archived_at) : [])
+    } catch (err: any) {
+      setError(err.message || 'Failed to load price rules')
+    } finally {
+      setLoading(false)
+    }
+  }, [adminRequest])
+
+  useEffect(() => {
+    fetchRules()
+  }, [fetchRules])
+
+  const openForm = (rule?: PriceRule) => {
+    setFormError(null)
+    setForm(rule ? toForm(rule) : { ...EMPTY_FORM })
+  }
+
+  const saveForm = async () => {
+    if (!form) return
+
+    const price = Number(form.price)
+    if (!form.name.trim()) {
+      setFormError('Please enter a name')
+      return
+    }
+    if (!form.price.trim() || !Number.isFinite(price) || price < 0) {
+      setFormError('Please enter a valid price')
+      return
+    }
+    if (!form.category && form.menu_item_ids.length === 0) {
+      setFormError('Choose a category or at least one item')
+      return
+    }
+
+    setSaving(true)
+    setFormError(null)
+    try {
+      await adminRequest(form.id ? `/api/admin/price-rules/${encodeURIComponent(form.id)}` : '/api/admin/price-rules', {
+        method: form.id ? 'PUT' : 'POST',
+        body: JSON.stringify(toPayload(form)),
+      })
+      setForm(null)
+      await fetchRules()
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save price rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setRuleActive = async (rule: PriceRule, isActive: boolean) => {
+    setSaving(true)
+    setError(null)
+    try {
+      await adminRequest(`/api/admin/price-rules/${encodeURIComponent(rule.id)}`, {
+        method: 'PUT',
+        body: JSON.stringify(toPayload({ ...toForm(rule), is_active: isActive })),
+      })
+      await fetchRules()
+    } catch (err: any) {
+      setError(err.message || 'Failed to update price rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteRule = async (rule: PriceRule) => {
+    if (!confirm(`Delete "${rule.name}"? Items go back to their regular price.`)) return
+    setSaving(true)
+    setError(null)
+    try {
+      await adminRequest(`/api/admin/price-rules/${encodeURIComponent(rule.id)}`, { method: 'DELETE' })
+      await fetchRules()
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete price rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const describeTargets = (rule: PriceRule) => {
+    const names = items.filter((item) => rule.menu_item_ids.includes(item.id)).map((item) => item.name)
+    return [rule.category ? `All ${rule.category}` : null, ...names].filter(Boolean).join(', ')
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+          <p className="text-sm text-red-700">{error}</p>
+          <button onClick={() => setError(null)} className="text-red-600 hover:text-red-800">
+            <X size={20} />
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+          <div>
+            <h2 className="font-display text-2xl font-semibold text-gray-900">Specials</h2>
+            <p className="text-sm text-gray-600">
+              Price rules replace an item&apos;s regular price on certain days, hours or dates (Denver time). The menu
+              shows the regular price struck through, and checkout charges the special price.
+            </p>
+          </div>
+          <button
+            onClick={() => openForm()}
+            className="bg-black text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-800 transition-colors text-sm flex items-center gap-2"
+          >
+            <Plus size={16} />
+            Add Special
+          </button>
+        </div>
+
+        {loading && rules.length === 0 ? (
+          <p className="text-gray-600 py-6 text-center">Loading specials...</p>
+        ) : rules.length === 0 ? (
+          <p className="text-gray-600 py-6 text-center">No specials yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {rules.map((rule) => {
+              const activeNow = isPriceRuleActive(rule)
+              return (
+                <li
+                  key={rule.id}
+                  className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 ${
+                    rule.is_active ? '' : 'bg-gray-50 opacity-70'
+                  }`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900">{rule.name}</span>
+                      {activeNow && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-800">
+                          Active now
+                        </span>
+                      )}
+                      {!rule.is_active && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-200 text-gray-700">
+                          Paused
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 truncate">{describeTargets(rule)}</p>
+                    <p className="text-xs text-gray-500">{describePriceRule(rule)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-gray-900 w-20 text-right">${rule.price.toFixed(2)}</span>
+                    <button
+                      onClick={() => setRuleActive(rule, !rule.is_active)}
+                      disabled={saving}
+                      className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium disabled:opacity-50"
+                    >
+                      {rule.is_active ? 'Pause' : 'Resume'}
+                    </button>
+                    <button
+                      onClick={() => openForm(rule)}
+                      className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium flex items-center gap-1"
+                    >
+                      <Pencil size={14} />
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => deleteRule(rule)}
+                      disabled={saving}
+                      className="px-3 py-1.5 bg-red-50 hover:bg-red-100 text-red-700 rounded-lg text-sm font-medium flex items-center gap-1 disabled:opacity-50"
+                    >
+                      <Trash2 size={14} />
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+
+      {/* Add / edit form */}
+      {form && (
+        <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={() => setForm(null)}>
+          <div
+            className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[95dvh] overflow-y-auto p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="font-display text-2xl font-semibold text-gray-900">
+                {form.id ? 'Edit Special' : 'Add Special'}
+              </h2>
+              <button onClick={() => setForm(null)} className="p-1.5 hover:bg-gray-100 rounded-full" aria-label="Close">
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Name *</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className={inputClassName}
+                    placeholder="Sandwich Tuesday"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Special Price *</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={form.price}
+                    onChange={(e) => setForm({ ...form, price: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Whole Category</label>
+                <select
+                  value={form.category}
+                  onChange={(e) => setForm({ ...form, category: e.target.value as MenuCategory | '' })}
+                  className={inputClassName}
+                >
+                  <option value="">None (pick items below)</option>
+                  {MENU_CATEGORIES.map((category) => (
+                    <option key={category} value={category}>
+                      {category}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Items</label>
+                <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-lg p-2 space-y-1">
+                  {items.map((item) => {
+                    const coveredByCategory = form.category !== '' && item.category === form.category
+                    return (
+                      <label key={item.id} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={coveredByCategory || form.menu_item_ids.includes(item.id)}
+                          disabled={coveredByCategory}
+                          onChange={() =>
+                            setForm({
+                              ...form,
+                              menu_item_ids: form.menu_item_ids.includes(item.id)
+                                ? form.menu_item_ids.filter((id) => id !== item.id)
+                                : [...form.menu_item_ids, item.id],
+                            })
+                          }
+                          className="w-4 h-4 border-gray-300 rounded text-black focus:ring-black"
+                        />
+                        <span className="flex-1">{item.name}</span>
+                        <span className="text-xs text-gray-500">${item.price.toFixed(2)}</span>
+                      </label>
+                    )
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Days (none selected = every day)</label>
+                <div className="flex gap-1">
+                  {DAY_LABELS.map((label, day) => {
+                    const selected = form.days.includes(day)
+                    return (
+                      <button
+                        key={day}
+                        type="button"
+                        onClick={() =>
+                          setForm({
+                            ...form,
+                            days: selected
+                              ? form.days.filter((d) => d !== day)
+                              : [...form.days, day].sort((a, b) => a - b),
+                          })
+                        }
+                        className={`w-7 h-7 rounded-full text-xs font-semibold ${
+                          selected ? 'bg-black text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                        aria-label={DAY_NAMES[day]}
+                        aria-pressed={selected}
+                      >
+                        {label}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer mb-2">
+                  <input
+                    type="checkbox"
+                    checked={form.allDay}
+                    onChange={(e) => setForm({ ...form, allDay: e.target.checked })}
+                    className="w-4 h-4 border-gray-300 rounded text-black focus:ring-black"
+                  />
+                  All day
+                </label>
+                {!form.allDay && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="time"
+                      value={form.start_time}
+                      onChange={(e) => setForm({ ...form, start_time: e.target.value })}
+                      className={inputClassName}
+                    />
+                    <span className="text-sm text-gray-500">to</span>
+                    <input
+                      type="time"
+                      value={form.end_time}
+                      onChange={(e) => setForm({ ...form, end_time: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Starts On</label>
+                  <input
+                    type="date"
+                    value={form.starts_on}
+                    onChange={(e) => setForm({ ...form, starts_on: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Ends On</label>
+                  <input
+                    type="date"
+                    value={form.ends_on}
+                    onChange={(e) => setForm({ ...form, ends_on: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+                  className="w-4 h-4 border-gray-300 rounded text-black focus:ring-black"
+                />
+                Enabled
+              </label>
+            </div>
+
+            {formError && (
+              <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                {formError}
+              </div>
+            )}
+
+            <div className="mt-6 flex justify-end gap-3">
+              <button
+                onClick={() => setForm(null)}
+                className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveForm}
+                disabled={saving}
+                className="bg-black text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
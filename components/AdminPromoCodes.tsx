@@ -0,0 +1,512 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Pencil, Plus, Trash2, X } from 'lucide-react'
+import { MENU_CATEGORIES, MenuCategory, MenuItem, PromoCode, PromoCodeRedemptions, PromoDiscountType } from '@/lib/types'
+import { describePromoDiscount, isPromoCodeExpired } from '@/lib/promo-codes'
+import { formatCents, toCents } from '@/lib/money'
+
+interface AdminPromoCodesProps {
+  // Called when the admin session cookie is missing or expired
+  onUnauthorized: () => void
+}
+
+interface PromoCodeForm {
+  id?: string
+  code: string
+  description: string
+  discount_type: PromoDiscountType
+  discount_value: string
+  min_subtotal: string
+  expires_on: string
+  max_uses: string
+  max_uses_per_phone: string
+  category: MenuCategory | ''
+  menu_item_ids: string[]
+  is_active: boolean
+}
+
+const EMPTY_FORM: PromoCodeForm = {
+  code: '',
+  description: '',
+  discount_type: 'percent',
+  discount_value: '',
+  min_subtotal: '',
+  expires_on: '',
+  max_uses: '',
+  max_uses_per_phone: '',
+  category: '',
+  menu_item_ids: [],
+  is_active: true,
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black bg-white'
+
+const toForm = (promo: PromoCode): PromoCodeForm => ({
+  id: promo.id,
+  code: promo.code,
+  description: promo.description || '',
+  discount_type: promo.discount_type,
+  discount_value: String(promo.discount_value),
+  min_subtotal: promo.min_subtotal === null ? '' : promo.min_subtotal.toFixed(2),
+  expires_on: promo.expires_on || '',
+  max_uses: promo.max_uses === null ? '' : String(promo.max_uses),
+  max_uses_per_phone: promo.max_uses_per_phone === null ? '' : String(promo.max_uses_per_phone),
+  category: promo.category || '',
+  menu_item_ids: [...promo.menu_item_ids],
+  is_active: promo.is_active,
+})
+
+const toPayload = (form: PromoCodeForm) => ({
+  code: form.code.trim(),
+  description: form.description.trim(),
+  discount_type: form.discount_type,
+  discount_value: Number(form.discount_value),
+  min_subtotal: form.min_subtotal.trim() ? Number(form.min_subtotal) : null,
+  expires_on: form.expires_on || null,
+  max_uses: form.max_uses.trim() ? Number(form.max_uses) : null,
+  max_uses_per_phone: form.max_uses_per_phone.trim() ? Number(form.max_uses_per_phone) : null,
+  category: form.category || null,
+  menu_item_ids: form.menu_item_ids,
+  is_active: form.is_active,
+})
+
+const describeLimits = (promo: PromoCode) =>
+  [
+    promo.min_subtotal !== null ? `Min ${formatCents(toCents(promo.min_subtotal))}` : null,
+    promo.expires_on
+      ? `Until ${new Date(`${promo.expires_on}T12:00:00Z`).toLocaleDateString('en-US', {
+          timeZone: 'UTC',
+          month: 'short',
+          day: 'numeric',
+          year: 'numeric',
+        })}`
+      : null,
+    promo.max_uses !== null ? `${promo.max_uses} uses` : null,
+    promo.max_uses_per_phone !== null ? `${promo.max_uses_per_phone} per phone` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ')
+
+export default function AdminPromoCodes({ onUnauthorized }: AdminPromoCodesProps) {
+  const [codes, setCodes] = useState<PromoCode[]>([])
+  const [redemptions, setRedemptions] = useState<Record<string, PromoCodeRedemptions>>({})
+  const [items, setItems] = useState<MenuItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState<PromoCodeForm | null>(null)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const adminRequest = useCallback(
+    async (url: string, init?: RequestInit) => {
+      const response = await fetch(url, {
+        ...init,
+        cache: 'no-store',
+        headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) },
+      })
+      const data = await response.json().catch(() => ({}))
+      if (response.status === 401) {
+        onUnauthorized()
+        throw new Error('Your admin session has expired. Please log in again.')
+      }
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}: Request failed`)
+      }
+      return data
+    },
+    [onUnauthorized]
+  )
+
+  const fetchCodes = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const [codesData, menuData] = await Promise.all([
+        adminRequest('/api/admin/promo-codes'),
+        adminRequest('/api/admin/menu'),
+      ])
+      setCodes(Array.isArray(codesData.codes) ? codesData.codes : [])
+      setRedemptions(codesData.redemptions || {})
+      setItems(Array.isArray(menuData.items) ? menuData.items.filter((item: MenuItem) => !item.archived_at) : [])
+    } catch (err: any) {
+      setError(err.message || 'Failed to load promo codes')
+    } finally {
+      setLoading(false)
+    }
+  }, [adminRequest])
+
+  useEffect(() => {
+    fetchCodes()
+  }, [fetchCodes])
+
+  const openForm = (promo?: PromoCode) => {
+    setFormError(null)
+    setForm(promo ? toForm(promo) : { ...EMPTY_FORM })
+  }
+
+  const saveForm = async () => {
+    if (!form) return
+
+    const value = Number(form.discount_value)
+    if (!form.code.trim()) {
+      setFormError('Please enter a code')
+      return
+    }
+    if (!form.discount_value.trim() || !Number.isFinite(value) || value <= 0) {
+      setFormError('Please enter the discount')
+      return
+    }
+    if (form.discount_type === 'percent' && value > 100) {
+      setFormError('Percent off must be 100 or less')
+      return
+    }
+
+    setSaving(true)
+    setFormError(null)
+    try {
+      await adminRequest(form.id ? `/api/admin/promo-codes/${encodeURIComponent(form.id)}` : '/api/admin/promo-codes', {
+        method: form.id ? 'PUT' : 'POST',
+        body: JSON.stringify(toPayload(form)),
+      })
+      setForm(null)
+      await fetchCodes()
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save promo code')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setCodeActive = async (promo: PromoCode, isActive: boolean) => {
+    setSaving(true)
+    setError(null)
+    try {
+      await adminRequest(`/api/admin/promo-codes/${encodeURIComponent(promo.id)}`, {
+        method: 'PUT',
+        body: JSON.stringify(toPayload({ ...toForm(promo), is_active: isActive })),
+      })
+      await fetchCodes()
+    } catch (err: any) {
+      setError(err.message || 'Failed to update promo code')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteCode = async (promo: PromoCode) => {
+    if (!confirm(`Delete ${promo.code}? Orders that used it keep their discount. Pausing keeps its history.`)) return
+    setSaving(true)
+    setError(null)
+    try {
+      await adminRequest(`/api/admin/promo-codes/${encodeURIComponent(promo.id)}`, { method: 'DELETE' })
+      await fetchCodes()
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete promo code')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const describeTargets = (promo: PromoCode) => {
+    const names = items.filter((item) => promo.menu_item_ids.includes(item.id)).map((item) => item.name)
+    return [promo.category ? `All ${promo.category}` : null, ...names].filter(Boolean).join(', ') || 'Whole order'
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+          <p className="text-sm text-red-700">{error}</p>
+          <button onClick={() => setError(null)} className="text-red-600 hover:text-red-800">
+            <X size={20} />
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+          <div>
+            <h2 className="font-display text-2xl font-semibold text-gray-900">Promo Codes</h2>
+            <p className="text-sm text-gray-600">
+              Customers enter codes at checkout. A code takes a percentage or an amount off the whole order, a
+              category or chosen items, before tax. Uses are counted from paid orders.
+            </p>
+          </div>
+          <button
+            onClick={() => openForm()}
+            className="bg-black text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-800 transition-colors text-sm flex items-center gap-2"
+          >
+            <Plus size={16} />
+            Add Code
+          </button>
+        </div>
+
+        {loading && codes.length === 0 ? (
+          <p className="text-gray-600 py-6 text-center">Loading promo codes...</p>
+        ) : codes.length === 0 ? (
+          <p className="text-gray-600 py-6 text-center">No promo codes yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {codes.map((promo) => {
+              const expired = isPromoCodeExpired(promo)
+              const used = redemptions[promo.id]
+              return (
+                <li
+                  key={promo.id}
+                  className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 ${
+                    promo.is_active && !expired ? '' : 'bg-gray-50 opacity-70'
+                  }`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono font-semibold text-gray-900">{promo.code}</span>
+                      <span className="text-sm text-gray-700">{describePromoDiscount(promo)}</span>
+                      {expired && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-200 text-gray-700">
+                          Expired
+                        </span>
+                      )}
+                      {!promo.is_active && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-200 text-gray-700">
+                          Paused
+                        </span>
+                      )}
+                    </div>
+                    {promo.description && <p className="text-sm text-gray-600 truncate">{promo.description}</p>}
+                    <p className="text-sm text-gray-600 truncate">{describeTargets(promo)}</p>
+                    {describeLimits(promo) && <p className="text-xs text-gray-500">{describeLimits(promo)}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-gray-700 w-32 text-right">
+                      {used ? `${used.orders} used · ${formatCents(toCents(used.discount))}` : 'Not used yet'}
+                    </span>
+                    <button
+                      onClick={() => setCodeActive(promo, !promo.is_active)}
+                      disabled={saving}
+                      className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium disabled:opacity-50"
+                    >
+                      {promo.is_active ? 'Pause' : 'Resume'}
+                    </button>
+                    <button
+                      onClick={() => openForm(promo)}
+                      className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium flex items-center gap-1"
+                    >
+                      <Pencil size={14} />
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => deleteCode(promo)}
+                      disabled={saving}
+                      className="px-3 py-1.5 bg-red-50 hover:bg-red-100 text-red-700 rounded-lg text-sm font-medium flex items-center gap-1 disabled:opacity-50"
+                    >
+                      <Trash2 size={14} />
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+
+      {/* Add / edit form */}
+      {form && (
+        <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={() => setForm(null)}>
+          <div
+            className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[95dvh] overflow-y-auto p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="font-display text-2xl font-semibold text-gray-900">
+                {form.id ? 'Edit Promo Code' : 'Add Promo Code'}
+              </h2>
+              <button onClick={() => setForm(null)} className="p-1.5 hover:bg-gray-100 rounded-full" aria-label="Close">
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Code *</label>
+                  <input
+                    type="text"
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                    maxLength={32}
+                    className={`${inputClassName} font-mono`}
+                    placeholder="WELCOME10"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Discount *</label>
+                  <div className="flex gap-2">
+                    <select
+                      value={form.discount_type}
+                      onChange={(e) => setForm({ ...form, discount_type: e.target.value as PromoDiscountType })}
+                      className={`${inputClassName} w-20`}
+                      aria-label="Discount type"
+                    >
+                      <option value="percent">%</option>
+                      <option value="amount">$</option>
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      step={form.discount_type === 'percent' ? '1' : '0.01'}
+                      value={form.discount_value}
+                      onChange={(e) => setForm({ ...form, discount_value: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Description</label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  maxLength={120}
+                  className={inputClassName}
+                  placeholder="10% off your first order"
+                />
+              </div>
+
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Whole Category</label>
+                <select
+                  value={form.category}
+                  onChange={(e) => setForm({ ...form, category: e.target.value as MenuCategory | '' })}
+                  className={inputClassName}
+                >
+                  <option value="">None (whole order, or pick items below)</option>
+                  {MENU_CATEGORIES.map((category) => (
+                    <option key={category} value={category}>
+                      {category}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Items (none selected = whole order)</label>
+                <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-lg p-2 space-y-1">
+                  {items.map((item) => {
+                    const coveredByCategory = form.category !== '' && item.category === form.category
+                    return (
+                      <label key={item.id} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={coveredByCategory || form.menu_item_ids.includes(item.id)}
+                          disabled={coveredByCategory}
+                          onChange={() =>
+                            setForm({
+                              ...form,
+                              menu_item_ids: form.menu_item_ids.includes(item.id)
+                                ? form.menu_item_ids.filter((id) => id !== item.id)
+                                : [...form.menu_item_ids, item.id],
+                            })
+                          }
+                          className="w-4 h-4 border-gray-300 rounded text-black focus:ring-black"
+                        />
+                        <span className="flex-1">{item.name}</span>
+                        <span className="text-xs text-gray-500">${item.price.toFixed(2)}</span>
+                      </label>
+                    )
+                  })}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Minimum Subtotal</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={form.min_subtotal}
+                    onChange={(e) => setForm({ ...form, min_subtotal: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Expires After</label>
+                  <input
+                    type="date"
+                    value={form.expires_on}
+                    onChange={(e) => setForm({ ...form, expires_on: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Total Uses</label>
+                  <input
+                    type="number"
+                    min={1}
+                    step="1"
+                    value={form.max_uses}
+                    onChange={(e) => setForm({ ...form, max_uses: e.target.value })}
+                    className={inputClassName}
+                    placeholder="Unlimited"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Uses per Phone Number</label>
+                  <input
+                    type="number"
+                    min={1}
+                    step="1"
+                    value={form.max_uses_per_phone}
+                    onChange={(e) => setForm({ ...form, max_uses_per_phone: e.target.value })}
+                    className={inputClassName}
+                    placeholder="Unlimited"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+                  className="w-4 h-4 border-gray-300 rounded text-black focus:ring-black"
+                />
+                Enabled
+              </label>
+            </div>
+
+            {formError && (
+              <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                {formError}
+              </div>
+            )}
+
+            <div className="mt-6 flex justify-end gap-3">
+              <button
+                onClick={() => setForm(null)}
+                className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveForm}
+                disabled={saving}
+                className="bg-black text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,387 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Pencil, Plus, Trash2, X } from 'lucide-react'
+import { MENU_CATEGORIES, MenuCategory, TaxRate } from '@/lib/types'
+import { getCombinedTaxRate, getItemTaxRates } from '@/lib/tax'
+
+interface AdminTaxRatesProps {
+  // Called when the admin session cookie is missing or expired
+  onUnauthorized: () => void
+}
+
+interface TaxRateForm {
+  id?: string
+  name: string
+  jurisdiction: string
+  rate: string
+  category: MenuCategory | ''
+  is_active: boolean
+}
+
+const EMPTY_FORM: TaxRateForm = {
+  name: '',
+  jurisdiction: '',
+  rate: '',
+  category: '',
+  is_active: true,
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black bg-white'
+
+const toForm = (rate: TaxRate): TaxRateForm => ({
+  id: rate.id,
+  name: rate.name,
+  jurisdiction: rate.jurisdiction,
+  rate: String(rate.rate),
+  category: rate.category || '',
+  is_active: rate.is_active,
+})
+
+const toPayload = (form: TaxRateForm) => ({
+  name: form.name.trim(),
+  jurisdiction: form.jurisdiction.trim(),
+  rate: Number(form.rate),
+  category: form.category || null,
+  is_active: form.is_active,
+})
+
+export default function AdminTaxRates({ onUnauthorized }: AdminTaxRatesProps) {
+  const [rates, setRates] = useState<TaxRate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState<TaxRateForm | null>(null)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const adminRequest = useCallback(
+    async (url: string, init?: RequestInit) => {
+      const response = await fetch(url, {
+        ...init,
+        cache: 'no-store',
+        headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) },
+      })
+      const data = await response.json().catch(() => ({}))
+      if (response.status === 401) {
+        onUnauthorized()
+        throw new Error('Your admin session has expired. Please log in again.')
+      }
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}: Request failed`)
+      }
+      return data
+    },
+    [onUnauthorized]
+  )
+
+  const fetchRates = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const data = await adminRequest('/api/admin/tax-rates')
+      setRates(Array.isArray(data.rates) ? data.rates : [])
+    } catch (err: any) {
+      setError(err.message || 'Failed to load tax rates')
+    } finally {
+      setLoading(false)
+    }
+  }, [adminRequest])
+
+  useEffect(() => {
+    fetchRates()
+  }, [fetchRates])
+
+  const openForm = (rate?: TaxRate) => {
+    setFormError(null)
+    setForm(rate ? toForm(rate) : { ...EMPTY_FORM })
+  }
+
+  const saveForm = async () => {
+    if (!form) return
+
+    const rate = Number(form.rate)
+    if (!form.name.trim()) {
+      setFormError('Please enter a name')
+      return
+    }
+    if (!form.jurisdiction.trim()) {
+      setFormError('Please enter a jurisdiction')
+      return
+    }
+    if (!form.rate.trim() || !Number.isFinite(rate) || rate < 0 || rate > 20) {
+      setFormError('Please enter a rate between 0 and 20%')
+      return
+    }
+
+    setSaving(true)
+    setFormError(null)
+    try {
+      await adminRequest(form.id ? `/api/admin/tax-rates/${encodeURIComponent(form.id)}` : '/api/admin/tax-rates', {
+        method: form.id ? 'PUT' : 'POST',
+        body: JSON.stringify(toPayload(form)),
+      })
+      setForm(null)
+      await fetchRates()
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save tax rate')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setRateActive = async (rate: TaxRate, isActive: boolean) => {
+    setSaving(true)
+    setError(null)
+    try {
+      await adminRequest(`/api/admin/tax-rates/${encodeURIComponent(rate.id)}`, {
+        method: 'PUT',
+        body: JSON.stringify(toPayload({ ...toForm(rate), is_active: isActive })),
+      })
+      await fetchRates()
+    } catch (err: any) {
+      setError(err.message || 'Failed to update tax rate')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteRate = async (rate: TaxRate) => {
+    if (!confirm(`Delete "${rate.name}" (${rate.jurisdiction})? Past orders keep the tax they were charged.`)) return
+    setSaving(true)
+    setError(null)
+    try {
+      await adminRequest(`/api/admin/tax-rates/${encodeURIComponent(rate.id)}`, { method: 'DELETE' })
+      await fetchRates()
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete tax rate')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const jurisdictions = Array.from(new Set(rates.map((rate) => rate.jurisdiction))).sort()
+  const generalRate = getCombinedTaxRate(rates.filter((rate) => rate.is_active && rate.category === null))
+  // What each category pays in total, for categories with a rate of their own
+  const categoryTotals = MENU_CATEGORIES.filter((category) =>
+    rates.some((rate) => rate.is_active && rate.category === category)
+  ).map((category) => ({ category, rate: getCombinedTaxRate(getItemTaxRates({ category }, rates)) }))
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+          <p className="text-sm text-red-700">{error}</p>
+          <button onClick={() => setError(null)} className="text-red-600 hover:text-red-800">
+            <X size={20} />
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+          <div>
+            <h2 className="font-display text-2xl font-semibold text-gray-900">Taxes</h2>
+            <p className="text-sm text-gray-600">
+              Every enabled rate applies to every item, grouped by jurisdiction. A rate for a category replaces its
+              jurisdiction&apos;s general rates on that category. Past orders keep the rates they were charged.
+            </p>
+          </div>
+          <button
+            onClick={() => openForm()}
+            className="bg-black text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-800 transition-colors text-sm flex items-center gap-2"
+          >
+            <Plus size={16} />
+            Add Rate
+          </button>
+        </div>
+
+        {!loading && rates.length > 0 && (
+          <p className="text-sm text-gray-700 mb-4">
+            Combined rate: <span className="font-semibold">{generalRate}%</span>
+            {categoryTotals.map(({ category, rate }) => (
+              <span key={category}>
+                {' '}
+                · {category}: <span className="font-semibold">{rate}%</span>
+              </span>
+            ))}
+          </p>
+        )}
+
+        {loading && rates.length === 0 ? (
+          <p className="text-gray-600 py-6 text-center">Loading tax rates...</p>
+        ) : rates.length === 0 ? (
+          <p className="text-gray-600 py-6 text-center">No tax rates yet. Orders are not taxed.</p>
+        ) : (
+          <div className="space-y-4">
+            {jurisdictions.map((jurisdiction) => (
+              <div key={jurisdiction}>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">{jurisdiction}</h3>
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {rates
+                    .filter((rate) => rate.jurisdiction === jurisdiction)
+                    .map((rate) => (
+                      <li
+                        key={rate.id}
+                        className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 ${
+                          rate.is_active ? '' : 'bg-gray-50 opacity-70'
+                        }`}
+                      >
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-gray-900">{rate.name}</span>
+                            {!rate.is_active && (
+                              <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-200 text-gray-700">
+                                Paused
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-sm text-gray-600">{rate.category || 'All items'}</p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold text-gray-900 w-20 text-right">{rate.rate}%</span>
+                          <button
+                            onClick={() => setRateActive(rate, !rate.is_active)}
+                            disabled={saving}
+                            className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium disabled:opacity-50"
+                          >
+                            {rate.is_active ? 'Pause' : 'Resume'}
+                          </button>
+                          <button
+                            onClick={() => openForm(rate)}
+                            className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium flex items-center gap-1"
+                          >
+                            <Pencil size={14} />
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => deleteRate(rate)}
+                            disabled={saving}
+                            className="px-3 py-1.5 bg-red-50 hover:bg-red-100 text-red-700 rounded-lg text-sm font-medium flex items-center gap-1 disabled:opacity-50"
+                          >
+                            <Trash2 size={14} />
+                            Delete
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Add / edit form */}
+      {form && (
+        <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={() => setForm(null)}>
+          <div
+            className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[95dvh] overflow-y-auto p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="font-display text-2xl font-semibold text-gray-900">
+                {form.id ? 'Edit Tax Rate' : 'Add Tax Rate'}
+              </h2>
+              <button onClick={() => setForm(null)} className="p-1.5 hover:bg-gray-100 rounded-full" aria-label="Close">
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Name *</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className={inputClassName}
+                    placeholder="City sales tax"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-gray-700 mb-1">Rate (%) *</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={20}
+                    step="0.001"
+                    value={form.rate}
+                    onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Jurisdiction *</label>
+                <input
+                  type="text"
+                  value={form.jurisdiction}
+                  onChange={(e) => setForm({ ...form, jurisdiction: e.target.value })}
+                  className={inputClassName}
+                  placeholder="City of Denver"
+                  list="tax-jurisdictions"
+                />
+                <datalist id="tax-jurisdictions">
+                  {jurisdictions.map((jurisdiction) => (
+                    <option key={jurisdiction} value={jurisdiction} />
+                  ))}
+                </datalist>
+              </div>
+
+              <div>
+                <label className="block text-xs font-semibold text-gray-700 mb-1">Applies To</label>
+                <select
+                  value={form.category}
+                  onChange={(e) => setForm({ ...form, category: e.target.value as MenuCategory | '' })}
+                  className={inputClassName}
+                >
+                  <option value="">All items</option>
+                  {MENU_CATEGORIES.map((category) => (
+                    <option key={category} value={category}>
+                      Only {category}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+                  className="w-4 h-4 border-gray-300 rounded text-black focus:ring-black"
+                />
+                Enabled
+              </label>
+            </div>
+
+            {formError && (
+              <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                {formError}
+              </div>
+            )}
+
+            <div className="mt-6 flex justify-end gap-3">
+              <button
+                onClick={() => setForm(null)}
+                className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveForm}
+                disabled={saving}
+                className="bg-black text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
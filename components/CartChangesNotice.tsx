@@ -0,0 +1,56 @@
+'use client'
+
+import { X } from 'lucide-react'
+import { localizeMenuItem } from '@/lib/i18n'
+import { CartChange, MenuItem } from '@/lib/types'
+import { useLocale } from '@/lib/use-locale'
+
+interface CartChangesNoticeProps {
+  changes: CartChange[]
+  menuItems: MenuItem[]
+  onDismiss: () => void
+}
+
+// "Your cart was updated": what changed when the saved cart was checked against the current menu.
+export default function CartChangesNotice({ changes, menuItems, onDismiss }: CartChangesNoticeProps) {
+  const { locale, t } = useLocale()
+
+  if (changes.length === 0) return null
+
+  const itemName = (change: CartChange) => {
+    const menuItem = 'base_item_id' in change ? menuItems.find((item) => item.id === change.base_item_id) : undefined
+    return menuItem ? localizeMenuItem(menuItem, locale).name : change.name
+  }
+
+  const describe = (change: CartChange) => {
+    switch (change.type) {
+      case 'removed':
+        return t.cart.itemRemoved(itemName(change))
+      case 'price':
+        return t.cart.priceChanged(itemName(change), `$${change.from.toFixed(2)}`, `$${change.to.toFixed(2)}`)
+      case 'options_removed':
+        return t.cart.optionsRemoved(itemName(change), change.options.join(', '))
+      case 'needs_options':
+        return t.cart.itemNeedsOptions(itemName(change))
+    }
+  }
+
+  return (
+    <div className="mb-8 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-900 text-start">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="font-semibold">{t.cart.cartUpdatedTitle}</p>
+          <p className="mb-2">{t.cart.cartUpdatedText}</p>
+        </div>
+        <button onClick={onDismiss} className="p-1 hover:bg-yellow-100 rounded-full" aria-label={t.cart.notNow}>
+          <X size={18} />
+        </button>
+      </div>
+      <ul className="list-disc ps-5 space-y-1">
+        {changes.map((change, index) => (
+          <li key={index}>{describe(change)}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import { Plus } from 'lucide-react'
+import { findMenuItemForCartLine } from '@/lib/availability'
+import { addToCart } from '@/lib/cart'
+import { localizeMenuItem } from '@/lib/i18n'
+import { getDefaultSelections, splitCartModifiers, toCartModifiers } from '@/lib/modifiers'
+import { getMenuItemPrice } from '@/lib/price-rules'
+import type { Suggestion } from '@/lib/suggestions'
+import { CartItem, MenuItem } from '@/lib/types'
+import { useLocale } from '@/lib/use-locale'
+import MenuItemModal from '@/components/MenuItemModal'
+
+interface CartSuggestionsProps {
+  cart: CartItem[]
+  menuItems: MenuItem[]
+}
+
+// "Goes well with" strip under the cart lines. Items with required choices open the item modal;
+// everything else is added in one tap with its default options.
+export default function CartSuggestions({ cart, menuItems }: CartSuggestionsProps) {
+  const { locale, t } = useLocale()
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([])
+  const [modalItem, setModalItem] = useState<MenuItem | null>(null)
+
+  // Refetch only when the set of items changes, not on quantity or option edits
+  const cartItemIds = Array.from(
+    new Set(cart.map((line) => findMenuItemForCartLine(line, menuItems)?.id).filter((id): id is string => Boolean(id)))
+  )
+    .sort()
+    .join(',')
+
+  useEffect(() => {
+    if (!cartItemIds) {
+      setSuggestions([])
+      return
+    }
+
+    let cancelled = false
+    fetch(`/api/suggestions?items=${encodeURIComponent(cartItemIds)}`, { cache: 'no-store' })
+      .then((response) => (response.ok ? response.json() : { suggestions: [] }))
+      .then((data) => {
+        if (!cancelled) setSuggestions(data.suggestions || [])
+      })
+      .catch((error) => console.error('Failed to load suggestions:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [cartItemIds])
+
+  const cards = suggestions
+    .map((suggestion) => ({
+      suggestion,
+      menuItem: menuItems.find((item) => item.id === suggestion.menu_item_id),
+    }))
+    .filter((card): card is { suggestion: Suggestion; menuItem: MenuItem } => Boolean(card.menuItem))
+
+  // Keep the modal mounted while it closes, even once its item has left the suggestions
+  if (cards.length === 0 && !modalItem) return null
+
+  const handleAdd = (menuItem: MenuItem) => {
+    const groups = menuItem.modifier_groups || []
+    if (groups.some((group) => group.min_selections > 0)) {
+      setModalItem(menuItem)
+      return
+    }
+
+    const modifiers = toCartModifiers(groups, getDefaultSelections(groups))
+    addToCart({
+      base_item_id: menuItem.id,
+      item_type: menuItem.item_type,
+      name: menuItem.name,
+      price: getMenuItemPrice(menuItem),
+      image_url: menuItem.image_url,
+      modifiers,
+      ...splitCartModifiers(modifiers),
+    })
+  }
+
+  return (
+    <div className="pt-4 text-start">
+      {cards.length > 0 && (
+        <h2 className="font-display text-2xl font-semibold text-gray-900 mb-3">{t.cart.goesWellWith}</h2>
+      )}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {cards.map(({ menuItem }) => {
+          const item = localizeMenuItem(menuItem, locale)
+          return (
+            <div key={menuItem.id} className="border border-gray-200 rounded-lg overflow-hidden flex flex-col">
+              {item.image_url && (
+                <div className="relative w-full h-24 bg-gray-100">
+                  <Image src={item.image_url} alt={item.name} fill className="object-cover" />
+                </div>
+              )}
+              <div className="p-2 flex-1 flex flex-col gap-2">
+                <p className="text-sm font-semibold text-gray-900 flex-1">{item.name}</p>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-gray-700">${getMenuItemPrice(menuItem).toFixed(2)}</span>
+                  <button
+                    onClick={() => handleAdd(menuItem)}
+                    className="flex items-center gap-1 px-2 py-1 bg-black text-white rounded-md text-xs font-semibold hover:bg-gray-800 transition-colors"
+                  >
+                    <Plus size={14} />
+                    {t.cart.add}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      <MenuItemModal
+        item={modalItem}
+        isOpen={Boolean(modalItem)}
+        onClose={() => setModalItem(null)}
+      />
+    </div>
+  )
+}
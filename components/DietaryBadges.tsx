@@ -0,0 +1,26 @@
+import { DIETARY_TAG_LABELS, DIETARY_TAG_STYLES } from '@/lib/dietary'
+import { DietaryTag } from '@/lib/types'
+
+interface DietaryBadgesProps {
+  tags?: DietaryTag[]
+  className?: string
+  // Translated labels for the current language
+  labels?: Record<DietaryTag, string>
+}
+
+export default function DietaryBadges({ tags, className = '', labels = DIETARY_TAG_LABELS }: DietaryBadgesProps) {
+  if (!tags || tags.length === 0) return null
+
+  return (
+    <div className={`flex flex-wrap gap-1.5 ${className}`}>
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          className={`px-2 py-0.5 rounded-full text-xs font-semibold ${DIETARY_TAG_STYLES[tag]}`}
+        >
+          {labels[tag]}
+        </span>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+'use client'
+
+import { useState } from 'react'
+import { Lock, Unlock, Users } from 'lucide-react'
+import { normalizeParticipantName, MAX_PARTICIPANT_NAME_LENGTH } from '@/lib/group-orders'
+import { SharedCart } from '@/lib/types'
+import { useLocale } from '@/lib/use-locale'
+
+interface GroupOrderPanelProps {
+  // The group cart, or null when this cart isn't a group order
+  groupCart: SharedCart | null
+  role: { participantName: string; isHost: boolean } | null
+  onStart: (hostName: string) => Promise<void>
+  onLock: (locked: boolean) => Promise<void>
+  onLeave: () => void
+}
+
+// Start a group order, or (once in one) see who hosts it, the name you're ordering under and,
+// for the host, lock or unlock the group before checkout.
+export default function GroupOrderPanel({ groupCart, role, onStart, onLock, onLeave }: GroupOrderPanelProps) {
+  const { t } = useLocale()
+  const [isStarting, setIsStarting] = useState(false)
+  const [name, setName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err: any) {
+      console.error('Group order error:', err)
+      setError(err.message || t.group.failed)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleStart = () => {
+    const hostName = normalizeParticipantName(name)
+    if (!hostName) {
+      setError(t.group.nameRequired)
+      return
+    }
+    run(() => onStart(hostName))
+  }
+
+  const errorMessage = error && <p className="mt-2 text-sm text-red-700">{error}</p>
+
+  if (!role || !groupCart) {
+    if (!isStarting) {
+      return (
+        <button
+          onClick={() => setIsStarting(true)}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-300 hover:border-black rounded-lg text-sm font-semibold text-gray-900 transition-colors"
+        >
+          <Users size={16} />
+          {t.group.start}
+        </button>
+      )
+    }
+
+    return (
+      <div className="w-full border border-gray-200 rounded-xl p-4 bg-gray-50 text-start">
+        <p className="text-sm text-gray-600 mb-3">{t.group.startHint}</p>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleStart()}
+            placeholder={t.group.yourName}
+            maxLength={MAX_PARTICIPANT_NAME_LENGTH}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black bg-white"
+            autoFocus
+          />
+          <button
+            onClick={handleStart}
+            disabled={isSaving}
+            className="bg-black text-white px-5 py-2 rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50"
+          >
+            {t.group.startButton}
+          </button>
+        </div>
+        {errorMessage}
+      </div>
+    )
+  }
+
+  const hostName = groupCart.host_name || t.group.theHost
+  const isLocked = Boolean(groupCart.locked_at)
+
+  return (
+    <div className="w-full border border-gray-200 rounded-xl p-4 bg-gray-50 text-start">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="font-semibold text-gray-900 flex items-center gap-2">
+            <Users size={18} />
+            {t.group.hostedBy(hostName)}
+            {isLocked && (
+              <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-800">
+                {t.group.locked}
+              </span>
+            )}
+          </p>
+          <p className="text-sm text-gray-600">{t.group.orderingAs(role.participantName)}</p>
+        </div>
+        <div className="flex gap-2">
+          {role.isHost && (
+            <button
+              onClick={() => run(() => onLock(!isLocked))}
+              disabled={isSaving}
+              className="flex items-center gap-2 px-3 py-1.5 bg-white border border-gray-300 hover:border-black rounded-lg text-sm font-semibold text-gray-900 transition-colors disabled:opacity-50"
+            >
+              {isLocked ? <Unlock size={14} /> : <Lock size={14} />}
+              {isLocked ? t.group.unlock : t.group.lock}
+            </button>
+          )}
+          <button
+            onClick={onLeave}
+            className="px-3 py-1.5 text-sm font-medium text-gray-600 hover:text-black transition-colors"
+          >
+            {t.group.leave}
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        {role.isHost ? t.group.hostHint : isLocked ? t.group.lockedText(hostName) : t.group.hostChecksOut(hostName)}
+      </p>
+      {errorMessage}
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import { getHighlightRanges } from '@/lib/search'
+
+interface HighlightedTextProps {
+  text: string
+  query: string
+}
+
+// Renders `text` with the words matching a menu search wrapped in <mark>.
+export default function HighlightedText({ text, query }: HighlightedTextProps) {
+  const ranges = getHighlightRanges(text, query)
+  if (ranges.length === 0) return <>{text}</>
+
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  ranges.forEach(({ start, end }) => {
+    if (start > cursor) parts.push(text.slice(cursor, start))
+    parts.push(
+      <mark key={start} className="bg-yellow-200 text-inherit rounded-sm px-0.5 -mx-0.5">
+        {text.slice(start, end)}
+      </mark>
+    )
+    cursor = end
+  })
+  if (cursor < text.length) parts.push(text.slice(cursor))
+
+  return <>{parts}</>
+}
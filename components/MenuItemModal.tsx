@@ -1,8 +1,34 @@
 'use client'
 
 import { X, Plus, Minus } from 'lucide-react'
-import { MenuItem } from '@/lib/types'
-import { addToCart, getCart, replaceCartItem, updateCartItemQuantity } from '@/lib/cart'
+import { CartModifierSelection, MenuItem, ModifierGroup } from '@/lib/types'
+import { addToCart, replaceCartItem } from '@/lib/cart'
+import { MAX_SPECIAL_INSTRUCTIONS_LENGTH, normalizeSpecialInstructions } from '@/lib/cart-utils'
+import { useMenu } from '@/lib/use-menu'
+import {
+  describeSchedule,
+  getSoldOutLabel,
+  isMenuItemAvailable,
+  isMenuItemScheduledNow,
+  isModifierOptionAvailable,
+} from '@/lib/availability'
+import {
+  ModifierSelections,
+  describeModifierGroup,
+  getDefaultSelections,
+  getModifiersTotalCents,
+  getSelectionsForCartItem,
+  isSingleSelectGroup,
+  splitCartModifiers,
+  toCartModifiers,
+  toggleModifierOption,
+  validateModifierSelections,
+} from '@/lib/modifiers'
+import { localizeMenuItem } from '@/lib/i18n'
+import { formatCents, toCents } from '@/lib/money'
+import { getMenuItemPrice } from '@/lib/price-rules'
+import { useLocale } from '@/lib/use-locale'
+import DietaryBadges from '@/components/DietaryBadges'
 import { useEffect, useState } from 'react'
 import Image from 'next/image'
 
@@ -12,120 +38,51 @@ interface MenuItemModalProps {
   onClose: () => void
   mode?: 'add' | 'edit'
   initialQuantity?: number
+  initialModifiers?: CartModifierSelection[]
+  // Labels from cart lines saved before modifier groups existed
   initialSelectedOptions?: string[]
   initialSelectedAddons?: Array<{ name: string; price: number }>
+  initialSpecialInstructions?: string
   originalCartItemId?: string
 }
 
-interface AddonOption {
-  id: string
-  label: string
-  price: number
-}
-
-interface FreeOption {
-  id: string
-  label: string
-}
-
 const EMPTY_STRING_ARRAY: string[] = []
 const EMPTY_ADDON_ARRAY: Array<{ name: string; price: number }> = []
-
-// Paid add-ons are intentionally limited to things that make sense for the current menu.
-// (No chips, no sodas, no generic add-ons that don't apply to the item.)
-const paidAddons: AddonOption[] = [
-  { id: 'extra-rice', label: 'XTRA RICE', price: 1 },
-  { id: 'extra-gyros', label: 'XTRA GYROS', price: 1 },
-  { id: 'extra-chicken-shawarma', label: 'XTRA CHICKEN SHAWARMA', price: 1 },
-  { id: 'extra-chicken-kabob', label: 'XTRA CHICKEN KABOB', price: 1 },
-  { id: 'extra-kobideh', label: 'XTRA KOBIDEH KABOB (BEEF)', price: 1 },
-  { id: 'extra-falafel', label: 'XTRA 3 PCS FALAFEL', price: 1 },
-  { id: 'extra-lamb-kabob', label: 'XTRA LAMB KABOB', price: 1 },
-]
-
-const freeOptions: FreeOption[] = [
-  { id: 'no-salad', label: 'NO SALAD' },
-  { id: 'no-lettuce', label: 'NO LETTUCE' },
-  { id: 'no-sauce', label: 'NO SAUCE' },
-  { id: 'add-hot-sauce', label: 'ADD HOT SAUCE' },
-  { id: 'extra-white-sauce', label: 'XTRA WHITE SAUCE' },
-  { id: 'no-fries', label: 'No fries' },
-]
-
-const getPaidAddonsForItem = (item: MenuItem): AddonOption[] => {
-  // Rice dishes can add extra rice, and only the matching protein add-on (when applicable).
-  if (item.category === 'Rice Dishes') {
-    const base: AddonOption[] = [paidAddons.find((a) => a.id === 'extra-rice')!]
-    switch (item.id) {
-      case 'gyro-rice':
-        return [...base, paidAddons.find((a) => a.id === 'extra-gyros')!]
-      case 'shawarma-rice':
-        return [...base, paidAddons.find((a) => a.id === 'extra-chicken-shawarma')!]
-      case 'chicken-kabob-rice':
-        return [...base, paidAddons.find((a) => a.id === 'extra-chicken-kabob')!]
-      case 'kobidah-kabob-rice':
-        return [...base, paidAddons.find((a) => a.id === 'extra-kobideh')!]
-      case 'lamb-kabob-rice':
-        return [...base, paidAddons.find((a) => a.id === 'extra-lamb-kabob')!]
-      // Lamb items: extra rice only (no generic "extra gyro/chicken" nonsense)
-      case 'lamb-shank-rice':
-      default:
-        return base
-    }
-  }
-
-  // Sandwiches: no extra meat options (per requirements).
-  if (item.category === 'Sandwiches') return []
-
-  // Appetizers: only falafel can add extra falafel. Wings/sambosa should not have unrelated extras.
-  if (item.category === 'Appetizers') {
-    if (item.id === 'falafel') return [paidAddons.find((a) => a.id === 'extra-falafel')!]
-    return []
-  }
-
-  return []
-}
-
-const getFreeOptionsForItem = (item: MenuItem): FreeOption[] => {
-  // Keep free options sensible per item type.
-  if (item.category === 'Rice Dishes') {
-    return freeOptions.filter((o) =>
-      ['no-salad', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'].includes(o.id)
-    )
-  }
-  if (item.category === 'Sandwiches') {
-    return freeOptions.filter((o) =>
-      ['no-lettuce', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'].includes(o.id)
-    )
-  }
-  return []
-}
+const EMPTY_MODIFIER_ARRAY: CartModifierSelection[] = []
+const EMPTY_GROUP_ARRAY: ModifierGroup[] = []
 
 export default function MenuItemModal({
-  item,
+  item: requestedItem,
   isOpen,
   onClose,
   mode = 'add',
   initialQuantity = 1,
+  initialModifiers = EMPTY_MODIFIER_ARRAY,
   initialSelectedOptions = EMPTY_STRING_ARRAY,
   initialSelectedAddons = EMPTY_ADDON_ARRAY,
+  initialSpecialInstructions = '',
   originalCartItemId,
 }: MenuItemModalProps) {
+  const { items: menuItems } = useMenu()
+  const { locale, t } = useLocale()
+  // Always price from the current menu, even if the caller passed a stale copy (e.g. from a saved cart line).
+  const item = (requestedItem && menuItems.find((menuItem) => menuItem.id === requestedItem.id)) || requestedItem
+  const modifierGroups = item?.modifier_groups || EMPTY_GROUP_ARRAY
   const [quantity, setQuantity] = useState(1)
-  const [selectedAddons, setSelectedAddons] = useState<Set<string>>(new Set())
-  const [selectedFreeOptions, setSelectedFreeOptions] = useState<Set<string>>(new Set())
-  const [selectedSambosaFilling, setSelectedSambosaFilling] = useState<'potato' | 'beef' | ''>('')
+  const [selections, setSelections] = useState<ModifierSelections>({})
+  const [selectionError, setSelectionError] = useState<string | null>(null)
+  const [specialInstructions, setSpecialInstructions] = useState('')
   const [isAdding, setIsAdding] = useState(false)
 
   const resetSelections = () => {
-    setSelectedAddons(new Set())
-    setSelectedFreeOptions(new Set())
-    setSelectedSambosaFilling('')
+    setSelections(getDefaultSelections(modifierGroups))
+    setSelectionError(null)
   }
 
   // Reset state when modal closes
   const handleClose = () => {
     setQuantity(1)
+    setSpecialInstructions('')
     resetSelections()
     onClose()
   }
@@ -157,126 +114,72 @@ export default function MenuItemModal({
     if (!isOpen || !item) return
 
     setQuantity(initialQuantity || 1)
-
-    // Sambosa filling is a single-select choice (potato OR beef).
-    if (item.id === 'potato-or-beef-sambosa') {
-      const hasPotato = initialSelectedOptions.some((opt) => opt.toLowerCase() === 'potato')
-      const hasBeef = initialSelectedOptions.some((opt) => opt.toLowerCase() === 'beef')
-      if (hasBeef) setSelectedSambosaFilling('beef')
-      else if (hasPotato) setSelectedSambosaFilling('potato')
-      else setSelectedSambosaFilling('potato') // default
-    } else {
-      setSelectedSambosaFilling('')
-    }
-
-    const allowedFree = getFreeOptionsForItem(item)
-    const freeOptionIds = new Set<string>()
-    initialSelectedOptions.forEach((label) => {
-      const match = allowedFree.find((option) => option.label === label)
-      if (match) freeOptionIds.add(match.id)
-    })
-    setSelectedFreeOptions(freeOptionIds)
-
-    const allowedPaid = getPaidAddonsForItem(item)
-    const addonIds = new Set<string>()
-    initialSelectedAddons.forEach((addon) => {
-      const paidMatch = allowedPaid.find((paid) => paid.label === addon.name)
-      if (paidMatch) addonIds.add(paidMatch.id)
-    })
-    setSelectedAddons(addonIds)
+    setSpecialInstructions(mode === 'edit' ? initialSpecialInstructions : '')
+    setSelectionError(null)
+    setSelections(
+      mode === 'edit'
+        ? getSelectionsForCartItem(modifierGroups, {
+            modifiers: initialModifiers,
+            selectedOptions: initialSelectedOptions,
+            selectedAddons: initialSelectedAddons,
+          })
+        : getDefaultSelections(modifierGroups)
+    )
     // Re-initialize only when opening or switching items
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isOpen, item?.id, originalCartItemId, initialQuantity])
+  }, [isOpen, item?.id, modifierGroups, originalCartItemId, initialQuantity])
 
   if (!isOpen || !item) return null
 
-  const toggleAddon = (id: string) => {
-    const newSet = new Set(selectedAddons)
-    if (newSet.has(id)) {
-      newSet.delete(id)
-    } else {
-      newSet.add(id)
-    }
-    setSelectedAddons(newSet)
+  const handleToggleOption = (group: ModifierGroup, optionId: string) => {
+    setSelections((prev) => toggleModifierOption(group, prev, optionId))
+    setSelectionError(null)
   }
 
-  const toggleFreeOption = (id: string) => {
-    const newSet = new Set(selectedFreeOptions)
-    if (newSet.has(id)) {
-      newSet.delete(id)
-    } else {
-      newSet.add(id)
-    }
-    setSelectedFreeOptions(newSet)
-  }
+  const selectedModifiers = toCartModifiers(modifierGroups, selections)
+  // Happy-hour and daily-special prices replace the regular price (checkout applies the same rules)
+  const basePrice = getMenuItemPrice(item)
+  // Translated copy for display; the cart line is built from `item` so it stays in English
+  const display = localizeMenuItem(item, locale)
+  const displayGroups = display.modifier_groups || EMPTY_GROUP_ARRAY
 
-  const calculateTotal = () => {
-    let addonTotal = 0
-    selectedAddons.forEach((id) => {
-      const addon = paidAddons.find((a) => a.id === id)
-      if (addon) addonTotal += addon.price
-    })
+  const calculateTotal = () =>
+    (toCents(basePrice) + getModifiersTotalCents(selectedModifiers)) * quantity
 
-    return (item.price + addonTotal) * quantity
-  }
+  const soldOut = !isMenuItemAvailable(item)
+  const offSchedule = !isMenuItemScheduledNow(item)
+  const available = !soldOut && !offSchedule
 
-  const getSelectedAddonsList = () => {
-    const addons: Array<{ name: string; price: number }> = []
-    selectedAddons.forEach((id) => {
-      const addon = paidAddons.find((a) => a.id === id)
-      if (addon) addons.push({ name: addon.label, price: addon.price })
-    })
-    return addons
-  }
+  const handleAddToCart = () => {
+    if (!available) return
 
-  const getSelectedOptionsList = () => {
-    const options: string[] = []
-    selectedFreeOptions.forEach((id) => {
-      const option = freeOptions.find((o) => o.id === id)
-      if (option) options.push(option.label)
-    })
-    if (item.id === 'potato-or-beef-sambosa') {
-      if (selectedSambosaFilling === 'potato') options.push('Potato')
-      if (selectedSambosaFilling === 'beef') options.push('Beef')
+    const validationError = validateModifierSelections(displayGroups, selections, t.modifiers)
+    if (validationError) {
+      setSelectionError(validationError)
+      return
     }
-    return options
-  }
 
-  const handleAddToCart = () => {
     setIsAdding(true)
-    const addonsList = getSelectedAddonsList()
-    const optionsList = getSelectedOptionsList()
-    
-    // Create unique ID based on item + options + addons (same combo = same ID)
-    const optionsKey = optionsList.sort().join('|')
-    const addonsKey = addonsList.map(a => a.name).sort().join('|')
-    const uniqueId = `${item.id}-${optionsKey}-${addonsKey}`
-    
+    const { selectedOptions, selectedAddons } = splitCartModifiers(selectedModifiers)
+    const note = normalizeSpecialInstructions(specialInstructions)
+
+    // The cart derives the line id from the item and its options, so identical choices share a line
     const cartItem = {
-      id: uniqueId,
       base_item_id: item.id,
+      item_type: item.item_type,
       name: item.name,
-      price: item.price,
+      price: basePrice,
       image_url: item.image_url,
-      selectedOptions: optionsList,
-      selectedAddons: addonsList,
+      modifiers: selectedModifiers,
+      selectedOptions,
+      selectedAddons,
+      ...(note ? { special_instructions: note } : {}),
     }
     
     if (mode === 'edit' && originalCartItemId) {
       replaceCartItem(originalCartItemId, cartItem, quantity)
     } else {
-      // Add item with quantity (cart.ts will handle incrementing if exists)
-      const cart = getCart()
-      const existingItem = cart.find(cartItem => cartItem.id === uniqueId)
-      
-      if (existingItem) {
-        // Update quantity
-        updateCartItemQuantity(uniqueId, existingItem.quantity + quantity)
-      } else {
-        // Add once, then set the desired quantity (avoids N repeated saves/events)
-        addToCart(cartItem)
-        updateCartItemQuantity(uniqueId, quantity)
-      }
+      addToCart(cartItem, quantity)
     }
     
     setTimeout(() => {
@@ -305,8 +208,8 @@ export default function MenuItemModal({
         {/* Close Button */}
         <button
           onClick={handleClose}
-          className="absolute top-3 right-3 z-20 p-1.5 hover:bg-gray-100 rounded-full transition-colors bg-white shadow-sm"
-          aria-label="Close"
+          className="absolute top-3 end-3 z-20 p-1.5 hover:bg-gray-100 rounded-full transition-colors bg-white shadow-sm"
+          aria-label={t.itemModal.close}
         >
           <X size={20} className="text-gray-600" />
         </button>
@@ -319,116 +222,121 @@ export default function MenuItemModal({
               <div className="relative w-full h-48 sm:h-56 bg-gray-100 rounded-lg mb-4 overflow-hidden">
                 <Image
                   src={item.image_url}
-                  alt={item.name}
+                  alt={display.name}
                   fill
                   className="object-cover"
                 />
               </div>
             )}
 
-            <h2 className="text-xl sm:text-2xl font-bold mb-1.5 text-gray-900">{item.name}</h2>
-            <p className="text-gray-600 mb-4 text-sm sm:text-base leading-relaxed">{item.description}</p>
+            <h2 className="text-xl sm:text-2xl font-bold mb-1.5 text-gray-900">{display.name}</h2>
+            <p className="mb-2 flex items-baseline gap-2">
+              <span className="text-lg font-semibold text-gray-900">${basePrice.toFixed(2)}</span>
+              {basePrice < item.price && (
+                <span className="text-sm text-gray-400 line-through">${item.price.toFixed(2)}</span>
+              )}
+            </p>
+            <DietaryBadges tags={item.dietary_tags} labels={t.dietaryTags} className="mb-2" />
+            <p className="text-gray-600 mb-4 text-sm sm:text-base leading-relaxed">{display.description}</p>
+            {item.allergens && item.allergens.length > 0 && (
+              <p className="text-xs sm:text-sm text-gray-600 mb-4 -mt-2">
+                <span className="font-semibold text-gray-900">{t.itemModal.contains}</span>{' '}
+                {item.allergens.map((allergen) => t.allergens[allergen]).join(', ')}
+              </p>
+            )}
             {mode === 'edit' && (
               <button
                 onClick={resetSelections}
                 className="mb-4 text-xs sm:text-sm font-semibold text-gray-700 underline hover:text-black"
               >
-                Remove all modifications
+                {t.itemModal.removeModifications}
               </button>
             )}
 
-            {/* Optional Add-ons */}
-            {(() => {
-              const allowedPaid = getPaidAddonsForItem(item)
-              if (allowedPaid.length === 0) return null
+            {/* Modifier groups (a combo plate is built entirely from these) */}
+            {item.item_type === 'combo' && modifierGroups.length > 0 && (
+              <h3 className="font-display text-lg font-semibold text-gray-900 mb-3">{t.itemModal.buildYourPlate}</h3>
+            )}
+            {displayGroups.map((group) => {
+              const selected = selections[group.id] || []
+              const singleSelect = isSingleSelectGroup(group)
+              const atMax =
+                !singleSelect && group.max_selections !== null && selected.length >= group.max_selections
               return (
-                <div className="mb-4">
-                  <h3 className="text-sm sm:text-base font-semibold mb-2 text-gray-900">OPTIONS - Optional</h3>
-                  <div className="space-y-1.5">
-                    {allowedPaid.map((addon) => (
-                      <label
-                        key={addon.id}
-                        className="flex items-center justify-between p-2 sm:p-2.5 border border-gray-200 rounded-lg hover:border-black transition-colors cursor-pointer"
-                      >
-                        <div className="flex items-center gap-2.5">
-                          <input
-                            type="checkbox"
-                            checked={selectedAddons.has(addon.id)}
-                            onChange={() => toggleAddon(addon.id)}
-                            className="w-4 h-4 border-gray-300 rounded text-black focus:ring-black cursor-pointer"
-                          />
-                          <span className="text-xs sm:text-sm font-medium text-gray-900">{addon.label}</span>
-                        </div>
-                        <span className="text-xs sm:text-sm font-semibold text-gray-900">${addon.price.toFixed(2)}</span>
-                      </label>
-                    ))}
+                <div key={group.id} className="mb-4">
+                  <div className="flex items-baseline justify-between gap-3 mb-2">
+                    <h3 className="text-sm sm:text-base font-semibold text-gray-900">{group.name}</h3>
+                    <span className="text-xs text-gray-500">
+                      {describeModifierGroup(group, t.modifiers)}
+                      {group.max_selections !== null && group.max_selections > 1 && (
+                        <> · {selected.length}/{group.max_selections}</>
+                      )}
+                    </span>
                   </div>
-                </div>
-              )
-            })()}
-
-            {/* Free Options */}
-            {(() => {
-              const allowedFree = getFreeOptionsForItem(item)
-              if (allowedFree.length === 0) return null
-              return (
-                <div className="mb-4">
                   <div className="space-y-1.5">
-                    {allowedFree.map((option) => (
-                      <label
-                        key={option.id}
-                        className="flex items-center p-2 sm:p-2.5 border border-gray-200 rounded-lg hover:border-black transition-colors cursor-pointer"
-                      >
-                        <input
-                          type="checkbox"
-                          checked={selectedFreeOptions.has(option.id)}
-                          onChange={() => toggleFreeOption(option.id)}
-                          className="w-4 h-4 border-gray-300 rounded text-black focus:ring-black cursor-pointer"
-                        />
-                        <span className="ml-2.5 text-xs sm:text-sm font-medium text-gray-900">{option.label}</span>
-                      </label>
-                    ))}
+                    {group.options.map((option) => {
+                      const checked = selected.includes(option.id)
+                      const optionAvailable = isModifierOptionAvailable(option)
+                      const disabled = !checked && (atMax || !optionAvailable)
+                      return (
+                        <label
+                          key={option.id}
+                          className={`flex items-center justify-between p-2 sm:p-2.5 border border-gray-200 rounded-lg transition-colors ${
+                            disabled ? 'opacity-50 cursor-not-allowed' : 'hover:border-black cursor-pointer'
+                          }`}
+                        >
+                          <div className="flex items-center gap-2.5">
+                            <input
+                              type={singleSelect ? 'radio' : 'checkbox'}
+                              name={`modifier-${group.id}`}
+                              checked={checked}
+                              disabled={disabled}
+                              onChange={() => handleToggleOption(group, option.id)}
+                              className={`w-4 h-4 border-gray-300 text-black focus:ring-black cursor-pointer ${
+                                singleSelect ? '' : 'rounded'
+                              }`}
+                            />
+                            <span className="text-xs sm:text-sm font-medium text-gray-900">{option.label}</span>
+                          </div>
+                          {!optionAvailable ? (
+                            <span className="text-xs sm:text-sm font-medium text-red-700">{t.availability.soldOut}</span>
+                          ) : (
+                            option.price > 0 && (
+                              <span className="text-xs sm:text-sm font-semibold text-gray-900">
+                                ${option.price.toFixed(2)}
+                              </span>
+                            )
+                          )}
+                        </label>
+                      )
+                    })}
                   </div>
                 </div>
               )
-            })()}
+            })}
 
-            {/* Sambosa filling (single select) */}
-            {item.id === 'potato-or-beef-sambosa' ? (
-              <div className="mb-4">
-                <h3 className="text-sm sm:text-base font-semibold mb-2 text-gray-900">Sambosa filling</h3>
-                <div className="space-y-1.5">
-                  <label className="flex items-center justify-between p-2 sm:p-2.5 border border-gray-200 rounded-lg hover:border-black transition-colors cursor-pointer">
-                    <div className="flex items-center gap-2.5">
-                      <input
-                        type="radio"
-                        name="sambosa-filling"
-                        checked={selectedSambosaFilling === 'potato'}
-                        onChange={() => setSelectedSambosaFilling('potato')}
-                        className="w-4 h-4 border-gray-300 text-black focus:ring-black cursor-pointer"
-                      />
-                      <span className="text-xs sm:text-sm font-medium text-gray-900">Potato</span>
-                    </div>
-                  </label>
-                  <label className="flex items-center justify-between p-2 sm:p-2.5 border border-gray-200 rounded-lg hover:border-black transition-colors cursor-pointer">
-                    <div className="flex items-center gap-2.5">
-                      <input
-                        type="radio"
-                        name="sambosa-filling"
-                        checked={selectedSambosaFilling === 'beef'}
-                        onChange={() => setSelectedSambosaFilling('beef')}
-                        className="w-4 h-4 border-gray-300 text-black focus:ring-black cursor-pointer"
-                      />
-                      <span className="text-xs sm:text-sm font-medium text-gray-900">Beef</span>
-                    </div>
-                  </label>
-                </div>
-              </div>
-            ) : null}
+            {/* Special instructions for this item only (the order-wide note is at checkout) */}
+            <div className="mb-4">
+              <label
+                htmlFor="special-instructions"
+                className="block text-sm sm:text-base font-semibold mb-2 text-gray-900"
+              >
+                {t.itemModal.specialInstructions}
+              </label>
+              <textarea
+                id="special-instructions"
+                value={specialInstructions}
+                onChange={(e) => setSpecialInstructions(e.target.value)}
+                placeholder={t.itemModal.specialInstructionsPlaceholder}
+                maxLength={MAX_SPECIAL_INSTRUCTIONS_LENGTH}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-black bg-white resize-none"
+              />
+            </div>
 
             {/* Quantity */}
             <div className="mb-4">
-              <h3 className="text-sm sm:text-base font-semibold mb-3 text-gray-900">Quantity</h3>
+              <h3 className="text-sm sm:text-base font-semibold mb-3 text-gray-900">{t.itemModal.quantity}</h3>
               <div className="flex items-center gap-3">
                 <button
                   onClick={() => setQuantity(Math.max(1, quantity - 1))}
@@ -451,22 +359,38 @@ export default function MenuItemModal({
 
         {/* Fixed Footer */}
         <div className="border-t border-gray-200 bg-white p-4 sm:p-5 flex-shrink-0">
+          {soldOut ? (
+            <div className="mb-3 p-2.5 bg-red-50 border border-red-200 rounded-lg text-red-700 text-xs sm:text-sm">
+              {t.itemModal.soldOutNotice(getSoldOutLabel(item, locale))}
+            </div>
+          ) : offSchedule && (
+            <div className="mb-3 p-2.5 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800 text-xs sm:text-sm">
+              {t.itemModal.onlyAvailable(describeSchedule(item.availability_schedule, locale))}
+            </div>
+          )}
+          {selectionError && (
+            <div className="mb-3 p-2.5 bg-red-50 border border-red-200 rounded-lg text-red-700 text-xs sm:text-sm">
+              {selectionError}
+            </div>
+          )}
           <div className="flex flex-col sm:flex-row items-center justify-between gap-3">
             <div>
-              <div className="text-xs text-gray-600">Total</div>
-              <div className="text-xl sm:text-2xl font-bold text-gray-900">${finalPrice.toFixed(2)}</div>
+              <div className="text-xs text-gray-600">{t.itemModal.total}</div>
+              <div className="text-xl sm:text-2xl font-bold text-gray-900">{formatCents(finalPrice)}</div>
             </div>
             <button
               onClick={handleAddToCart}
-              disabled={isAdding}
+              disabled={isAdding || !available}
               className="w-full sm:w-auto px-6 py-3 bg-black text-white rounded-lg font-semibold text-sm sm:text-base hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
             >
-              {isAdding ? (
-                <span>Adding...</span>
+              {!available ? (
+                <span>{soldOut ? t.itemModal.soldOut : t.itemModal.notAvailableNow}</span>
+              ) : isAdding ? (
+                <span>{t.itemModal.adding}</span>
               ) : (
                 <>
                   <Plus size={18} />
-                  <span>{mode === 'edit' ? 'Save Changes' : 'Add to Cart'}</span>
+                  <span>{mode === 'edit' ? t.itemModal.saveChanges : t.itemModal.addToCart}</span>
                 </>
               )}
             </button>
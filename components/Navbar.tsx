@@ -1,10 +1,13 @@
 'use client'
 
 import Link from 'next/link'
-import { ShoppingCart, Menu, X } from 'lucide-react'
+import { ShoppingCart, Menu, X, Globe } from 'lucide-react'
 import { useState, useEffect } from 'react'
 import { createPortal } from 'react-dom'
 import { getCartItemCount } from '@/lib/cart'
+import { LOCALE_NAMES, isLocale } from '@/lib/i18n'
+import { useLocale } from '@/lib/use-locale'
+import { LOCALES } from '@/lib/types'
 import Image from 'next/image'
 
 type LogoMode = 'expanded' | 'compact' | 'hidden'
@@ -14,6 +17,7 @@ export default function Navbar() {
   const [cartCount, setCartCount] = useState(0)
   const [isMounted, setIsMounted] = useState(false)
   const [logoMode, setLogoMode] = useState<LogoMode>('expanded')
+  const { locale, t, setLocale } = useLocale()
 
   useEffect(() => {
     const updateCartCount = () => {
@@ -113,6 +117,26 @@ export default function Navbar() {
     }
   }, [isOpen])
 
+  const languageSelect = (className: string) => (
+    <label className={`flex items-center gap-1.5 text-gray-700 ${className}`}>
+      <Globe size={18} aria-hidden="true" />
+      <span className="sr-only">{t.nav.language}</span>
+      <select
+        value={locale}
+        onChange={(e) => {
+          if (isLocale(e.target.value)) setLocale(e.target.value)
+        }}
+        className="bg-transparent text-sm font-medium focus:outline-none cursor-pointer"
+      >
+        {LOCALES.map((code) => (
+          <option key={code} value={code}>
+            {LOCALE_NAMES[code]}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+
   const drawer = (
     <div
       className={`md:hidden fixed inset-0 z-[9999] ${isOpen ? '' : 'pointer-events-none'}`}
@@ -137,11 +161,11 @@ export default function Navbar() {
         onClick={(e) => e.stopPropagation()}
       >
         <div className="h-20 px-4 flex items-center justify-between border-b border-gray-200">
-          <span className="font-display text-lg font-bold text-gray-900">Menu</span>
+          <span className="font-display text-lg font-bold text-gray-900">{t.nav.menu}</span>
           <button
             className="p-2 text-gray-700 hover:text-black transition-colors"
             onClick={() => setIsOpen(false)}
-            aria-label="Close menu"
+            aria-label={t.nav.closeMenu}
           >
             <X size={22} />
           </button>
@@ -153,21 +177,21 @@ export default function Navbar() {
             className="flex items-center justify-between rounded-xl px-4 py-3.5 bg-gray-50 border border-gray-200 text-gray-900 font-semibold hover:bg-gray-100 transition-colors"
             onClick={() => setIsOpen(false)}
           >
-            <span>Home</span>
+            <span>{t.nav.home}</span>
           </Link>
           <Link
             href="/menu"
             className="flex items-center justify-between rounded-xl px-4 py-3.5 bg-gray-50 border border-gray-200 text-gray-900 font-semibold hover:bg-gray-100 transition-colors"
             onClick={() => setIsOpen(false)}
           >
-            <span>Menu</span>
+            <span>{t.nav.menu}</span>
           </Link>
           <Link
             href="/order-tracking"
             className="flex items-center justify-between rounded-xl px-4 py-3.5 bg-gray-50 border border-gray-200 text-gray-900 font-semibold hover:bg-gray-100 transition-colors"
             onClick={() => setIsOpen(false)}
           >
-            <span>Track Order</span>
+            <span>{t.nav.trackOrder}</span>
           </Link>
 
           <Link
@@ -177,7 +201,7 @@ export default function Navbar() {
           >
             <span className="flex items-center gap-2">
               <ShoppingCart size={18} />
-              Cart
+              {t.nav.cart}
             </span>
             {cartCount > 0 && (
               <span className="bg-white/20 text-white text-xs font-bold rounded-full min-w-6 h-6 px-2 flex items-center justify-center">
@@ -185,6 +209,8 @@ export default function Navbar() {
               </span>
             )}
           </Link>
+
+          {languageSelect('px-4 py-3')}
         </div>
       </div>
     </div>
@@ -196,18 +222,18 @@ export default function Navbar() {
         <div className="relative flex items-center h-20">
           {/* Left side: desktop nav / mobile menu button */}
           <div className="flex items-center gap-4">
-            <div className="hidden md:flex items-center space-x-8">
+            <div className="hidden md:flex items-center gap-8">
               <Link href="/" className="text-gray-700 hover:text-black transition-colors font-medium text-base relative group">
-                Home
-                <span className="absolute bottom-0 left-0 w-0 h-0.5 bg-black group-hover:w-full transition-all duration-300"></span>
+                {t.nav.home}
+                <span className="absolute bottom-0 start-0 w-0 h-0.5 bg-black group-hover:w-full transition-all duration-300"></span>
               </Link>
               <Link href="/menu" className="text-gray-700 hover:text-black transition-colors font-medium text-base relative group">
-                Menu
-                <span className="absolute bottom-0 left-0 w-0 h-0.5 bg-black group-hover:w-full transition-all duration-300"></span>
+                {t.nav.menu}
+                <span className="absolute bottom-0 start-0 w-0 h-0.5 bg-black group-hover:w-full transition-all duration-300"></span>
               </Link>
               <Link href="/order-tracking" className="text-gray-700 hover:text-black transition-colors font-medium text-base relative group">
-                Track Order
-                <span className="absolute bottom-0 left-0 w-0 h-0.5 bg-black group-hover:w-full transition-all duration-300"></span>
+                {t.nav.trackOrder}
+                <span className="absolute bottom-0 start-0 w-0 h-0.5 bg-black group-hover:w-full transition-all duration-300"></span>
               </Link>
             </div>
           </div>
@@ -215,7 +241,7 @@ export default function Navbar() {
           {/* Center: logo */}
           <Link
             href="/"
-            aria-label="Home"
+            aria-label={t.nav.home}
             className={[
               'absolute left-1/2 -translate-x-1/2 flex items-center justify-center transition-all duration-300 ease-out',
               logoMode === 'hidden' ? 'opacity-0 -translate-y-2 pointer-events-none' : 'opacity-100',
@@ -245,11 +271,12 @@ export default function Navbar() {
           </Link>
 
           {/* Right side: cart (desktop) + menu (mobile) */}
-          <div className="ml-auto flex items-center gap-2">
+          <div className="ms-auto flex items-center gap-2">
+            {languageSelect('hidden md:flex me-2')}
             <button
               className="md:hidden relative p-2 text-gray-700 hover:text-black transition-colors"
               onClick={() => setIsOpen(true)}
-              aria-label="Toggle menu"
+              aria-label={t.nav.toggleMenu}
             >
               <Menu size={24} />
               {cartCount > 0 && (
@@ -261,10 +288,10 @@ export default function Navbar() {
 
             <Link
               href="/cart"
-              className="hidden md:relative md:flex items-center space-x-2 bg-black text-white px-5 py-2.5 rounded-lg hover:bg-gray-800 transition-colors font-semibold"
+              className="hidden md:relative md:flex items-center gap-2 bg-black text-white px-5 py-2.5 rounded-lg hover:bg-gray-800 transition-colors font-semibold"
             >
               <ShoppingCart size={18} />
-              <span>Cart</span>
+              <span>{t.nav.cart}</span>
               {cartCount > 0 && (
                 <span className="absolute -top-2 -right-2 bg-gray-600 text-white text-xs font-bold rounded-full w-5 h-5 flex items-center justify-center">
                   {cartCount}
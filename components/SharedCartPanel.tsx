@@ -0,0 +1,127 @@
+'use client'
+
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import { calculateSubtotalCents, getCartLineTotalCents } from '@/lib/cart-utils'
+import { MAX_PARTICIPANT_NAME_LENGTH, normalizeParticipantName } from '@/lib/group-orders'
+import { localizeCartItem } from '@/lib/i18n'
+import { formatCents } from '@/lib/money'
+import { MenuItem, SharedCart } from '@/lib/types'
+import { useLocale } from '@/lib/use-locale'
+
+interface SharedCartPanelProps {
+  cart: SharedCart
+  menuItems: MenuItem[]
+  onContinue: () => void
+  onCopy: () => void
+  onJoin: (name: string) => void
+  onDismiss: () => void
+}
+
+// Shown when a share link is opened: the shared cart's items, with the choice to continue that
+// cart (edits are shared) or copy its items into the visitor's own cart. Group order links ask for
+// the visitor's name and join the group instead.
+export default function SharedCartPanel({ cart, menuItems, onContinue, onCopy, onJoin, onDismiss }: SharedCartPanelProps) {
+  const { locale, t } = useLocale()
+  const [name, setName] = useState('')
+  const [nameError, setNameError] = useState(false)
+
+  const hostName = cart.host_name || t.group.theHost
+
+  const handleJoin = () => {
+    const participantName = normalizeParticipantName(name)
+    if (!participantName) {
+      setNameError(true)
+      return
+    }
+    onJoin(participantName)
+  }
+
+  return (
+    <div className="mb-8 border border-gray-200 rounded-xl p-4 sm:p-6 bg-gray-50 text-start">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div>
+          <h2 className="font-display text-2xl font-semibold text-gray-900">
+            {cart.is_group ? t.group.joinTitle(hostName) : t.cart.sharedTitle}
+          </h2>
+          <p className="text-sm text-gray-600">{cart.is_group ? t.group.joinText : t.cart.sharedText}</p>
+        </div>
+        <button onClick={onDismiss} className="p-1.5 hover:bg-gray-200 rounded-full" aria-label={t.cart.notNow}>
+          <X size={20} />
+        </button>
+      </div>
+
+      <ul className="divide-y divide-gray-200 mb-4">
+        {cart.items.map((line) => {
+          const item = localizeCartItem(line, menuItems, locale)
+          return (
+            <li key={line.id} className="py-2 flex justify-between gap-3 text-sm">
+              <span className="text-gray-900">
+                {line.participant_name && <span className="text-gray-500">{line.participant_name}: </span>}
+                {line.quantity} × {item.name}
+                {item.selectedOptions && item.selectedOptions.length > 0 && (
+                  <span className="text-gray-500"> ({item.selectedOptions.join(', ')})</span>
+                )}
+              </span>
+              <span className="text-gray-700">
+                {formatCents(getCartLineTotalCents(line))}
+              </span>
+            </li>
+          )
+        })}
+        <li className="py-2 flex justify-between gap-3 text-sm font-semibold">
+          <span>{t.checkout.subtotal}</span>
+          <span>{formatCents(calculateSubtotalCents(cart.items))}</span>
+        </li>
+      </ul>
+
+      {cart.is_group ? (
+        cart.locked_at ? (
+          <p className="text-sm text-yellow-800">{t.group.lockedText(hostName)}</p>
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row gap-3">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => {
+                  setName(e.target.value)
+                  setNameError(false)
+                }}
+                onKeyDown={(e) => e.key === 'Enter' && handleJoin()}
+                placeholder={t.group.yourName}
+                maxLength={MAX_PARTICIPANT_NAME_LENGTH}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black bg-white"
+              />
+              <button
+                onClick={handleJoin}
+                className="bg-black text-white px-5 py-2.5 rounded-lg font-semibold hover:bg-gray-800 transition-colors"
+              >
+                {t.group.join}
+              </button>
+            </div>
+            {nameError && <p className="text-sm text-red-700 mt-2">{t.group.nameRequired}</p>}
+          </>
+        )
+      ) : (
+        <>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <button
+              onClick={onContinue}
+              className="bg-black text-white px-5 py-2.5 rounded-lg font-semibold hover:bg-gray-800 transition-colors"
+            >
+              {t.cart.continueShared}
+            </button>
+            <button
+              onClick={onCopy}
+              className="px-5 py-2.5 bg-white border border-gray-300 hover:border-black text-gray-900 rounded-lg font-semibold transition-colors"
+            >
+              {t.cart.copyShared}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">{t.cart.continueSharedHint}</p>
+        </>
+      )}
+    </div>
+  )
+}
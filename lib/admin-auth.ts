@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export const ADMIN_SESSION_COOKIE = 'denver-kabob-admin-session'
+
+const ADMIN_SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7
+
+export const getAdminPassword = (): string => {
+  // Server-only env var. Do NOT prefix with NEXT_PUBLIC_.
+  const pw = process.env.ADMIN_PASSWORD
+  if (!pw) {
+    throw new Error('Missing ADMIN_PASSWORD environment variable')
+  }
+  return pw
+}
+
+export const safeEqual = (a: string, b: string): boolean => {
+  const aBuf = Buffer.from(a)
+  const bBuf = Buffer.from(b)
+  if (aBuf.length !== bBuf.length) return false
+  return timingSafeEqual(aBuf, bBuf)
+}
+
+// Signed with the password, so changing ADMIN_PASSWORD signs everyone out.
+const signAdminSession = (issuedAt: string): string =>
+  createHmac('sha256', getAdminPassword()).update(`denver-kabob-admin-session:${issuedAt}`).digest('hex')
+
+// "<issued at, ms>.<signature>": each login gets its own token, which stops working after the max age.
+const createAdminSessionToken = (): string => {
+  const issuedAt = String(Date.now())
+  return `${issuedAt}.${signAdminSession(issuedAt)}`
+}
+
+const isValidAdminSessionToken = (token: string): boolean => {
+  const [issuedAt, signature, ...rest] = token.split('.')
+  if (!/^\d+$/.test(issuedAt || '') || !signature || rest.length > 0) return false
+  const age = Date.now() - Number(issuedAt)
+  if (age < 0 || age > ADMIN_SESSION_MAX_AGE_SECONDS * 1000) return false
+  return safeEqual(signature, signAdminSession(issuedAt))
+}
+
+export const setAdminSessionCookie = (response: NextResponse): void => {
+  response.cookies.set(ADMIN_SESSION_COOKIE, createAdminSessionToken(), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    maxAge: ADMIN_SESSION_MAX_AGE_SECONDS,
+  })
+}
+
+export const clearAdminSessionCookie = (response: NextResponse): void => {
+  response.cookies.set(ADMIN_SESSION_COOKIE, '', { path: '/', maxAge: 0 })
+}
+
+/**
+ * Admin requests carry the session cookie set by /api/admin/login,
+ * or an `x-admin-password` header for scripted calls (e.g. curl).
+ */
+export const isAdminRequest = (request: NextRequest): boolean => {
+  try {
+    const sessionToken = request.cookies.get(ADMIN_SESSION_COOKIE)?.value || ''
+    if (sessionToken && isValidAdminSessionToken(sessionToken)) {
+      return true
+    }
+
+    const provided = request.headers.get('x-admin-password') || ''
+    return !!provided && safeEqual(provided, getAdminPassword())
+  } catch {
+    return false
+  }
+}
+
+export const unauthorizedResponse = () =>
+  NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
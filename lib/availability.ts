@@ -0,0 +1,204 @@
+import { messages } from './messages'
+import { AvailabilityWindow, Locale, MenuItem, ModifierOption } from './types'
+
+// Sold-out ("86") and schedule checks shared by the menu, item modal and checkout.
+
+export const RESTAURANT_TIME_ZONE = 'America/Denver'
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 }
+
+/**
+ * An item is available unless it ran out of stock or was marked sold out; a sold-out item with an
+ * until-time becomes available again once that time has passed.
+ */
+export const isMenuItemAvailable = (
+  item: Pick<MenuItem, 'is_available' | 'unavailable_until' | 'stock_quantity'>,
+  now: Date = new Date()
+): boolean => {
+  if (item.stock_quantity === 0) return false
+  if (item.is_available !== false) return true
+  if (!item.unavailable_until) return false
+  const until = new Date(item.unavailable_until)
+  return !Number.isNaN(until.getTime()) && until.getTime() <= now.getTime()
+}
+
+export const isModifierOptionAvailable = (option: Pick<ModifierOption, 'stock_quantity'>): boolean =>
+  option.stock_quantity !== 0
+
+// Intl locale for dates and times; English keeps the US format the kitchen uses
+const getDateLocale = (locale: Locale): string => (locale === 'en' ? 'en-US' : locale)
+
+/**
+ * Label for a sold-out item, e.g. "Sold out until 5:00 PM" or just "Sold out"
+ */
+export const getSoldOutLabel = (
+  item: Pick<MenuItem, 'unavailable_until' | 'stock_quantity'>,
+  locale: Locale = 'en'
+): string => {
+  const t = messages[locale].availability
+  if (item.stock_quantity === 0 || !item.unavailable_until) return t.soldOut
+  const until = new Date(item.unavailable_until)
+  if (Number.isNaN(until.getTime())) return t.soldOut
+
+  const sameDay =
+    until.toLocaleDateString('en-US', { timeZone: RESTAURANT_TIME_ZONE }) ===
+    new Date().toLocaleDateString('en-US', { timeZone: RESTAURANT_TIME_ZONE })
+  const formatted = until.toLocaleString(getDateLocale(locale), {
+    timeZone: RESTAURANT_TIME_ZONE,
+    ...(sameDay ? {} : { weekday: 'short' }),
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+  return t.soldOutUntil(formatted)
+}
+
+/**
+ * Day of week (0 = Sunday) and minutes since midnight in restaurant-local time.
+ */
+export const getRestaurantTime = (now: Date = new Date()): { day: number; minutes: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: RESTAURANT_TIME_ZONE,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now)
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || ''
+  return {
+    day: WEEKDAY_INDEX[part('weekday')] ?? now.getDay(),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  }
+}
+
+/**
+ * "HH:MM" → minutes since midnight, or null when malformed.
+ */
+export const parseTimeOfDay = (value: string): number | null => {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
+/**
+ * Whether restaurant-local `day`/`minutes` fall inside a window (windows may run past midnight).
+ */
+export const isWithinWindow = (window: AvailabilityWindow, day: number, minutes: number): boolean => {
+  const start = parseTimeOfDay(window.start)
+  const end = parseTimeOfDay(window.end)
+  if (start === null || end === null) return false
+  if (start < end) {
+    return window.days.includes(day) && minutes >= start && minutes < end
+  }
+  // Overnight window: the part after midnight belongs to the previous day's window
+  const previousDay = (day + 6) % 7
+  return (window.days.includes(day) && minutes >= start) || (window.days.includes(previousDay) && minutes < end)
+}
+
+/**
+ * Whether an item's daypart schedule allows ordering right now (no schedule = always).
+ */
+export const isMenuItemScheduledNow = (
+  item: Pick<MenuItem, 'availability_schedule'>,
+  now: Date = new Date()
+): boolean => {
+  const schedule = item.availability_schedule
+  if (!schedule || schedule.length === 0) return true
+  const { day, minutes } = getRestaurantTime(now)
+  return schedule.some((window) => isWithinWindow(window, day, minutes))
+}
+
+const formatTimeOfDay = (value: string, locale: Locale): string => {
+  const minutes = parseTimeOfDay(value)
+  if (minutes === null) return value
+  const hours = Math.floor(minutes / 60)
+  if (locale !== 'en') {
+    return new Date(Date.UTC(2023, 0, 1, hours, minutes % 60)).toLocaleTimeString(getDateLocale(locale), {
+      timeZone: 'UTC',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+  const suffix = hours < 12 ? 'AM' : 'PM'
+  return `${hours % 12 || 12}:${String(minutes % 60).padStart(2, '0')} ${suffix}`
+}
+
+// 1 Jan 2023 was a Sunday, so day N of that week has weekday N
+const getDayName = (day: number, locale: Locale): string =>
+  locale === 'en'
+    ? DAY_NAMES[day]
+    : new Date(Date.UTC(2023, 0, 1 + day)).toLocaleDateString(getDateLocale(locale), {
+        timeZone: 'UTC',
+        weekday: 'short',
+      })
+
+/**
+ * Short label for a set of weekdays, e.g. "Mon–Fri", "Sun, Sat" or "Daily"
+ */
+export const describeDays = (days: number[], locale: Locale = 'en'): string => {
+  const sorted = Array.from(new Set(days)).sort((a, b) => a - b)
+  if (sorted.length === 7) return messages[locale].availability.daily
+  const isRun = sorted.length > 2 && sorted.every((day, index) => index === 0 || day === sorted[index - 1] + 1)
+  if (isRun) return `${getDayName(sorted[0], locale)}–${getDayName(sorted[sorted.length - 1], locale)}`
+  return sorted.map((day) => getDayName(day, locale)).join(', ')
+}
+
+/**
+ * Human-readable schedule, e.g. "Mon–Fri 11:00 AM–2:00 PM; Sun, Sat 5:00 PM–9:00 PM"
+ */
+export const describeSchedule = (schedule: AvailabilityWindow[] | null | undefined, locale: Locale = 'en'): string =>
+  (schedule || [])
+    .map(
+      (window) =>
+        `${describeDays(window.days, locale)} ${formatTimeOfDay(window.start, locale)}–${formatTimeOfDay(window.end, locale)}`
+    )
+    .join('; ')
+
+/**
+ * Find the menu item a cart line was built from. Lines saved before base_item_id existed only have
+ * `${menuItemId}-${options}` ids, so fall back to the longest menu id that prefixes the line id.
+ */
+export const findMenuItemForCartLine = (
+  line: { id: string; base_item_id?: string },
+  menuItems: MenuItem[]
+): MenuItem | undefined => {
+  if (line.base_item_id) {
+    return menuItems.find((item) => item.id === line.base_item_id)
+  }
+  return menuItems
+    .filter((item) => line.id === item.id || line.id.startsWith(`${item.id}-`))
+    .sort((a, b) => b.id.length - a.id.length)[0]
+}
+
+/**
+ * Names of cart lines that can't be ordered right now (sold out or no longer on the menu).
+ */
+export const getUnavailableCartItems = (
+  lines: Array<{ id: string; base_item_id?: string; name: string }>,
+  menuItems: MenuItem[],
+  now: Date = new Date()
+): string[] => {
+  const names = lines
+    .filter((line) => {
+      const menuItem = findMenuItemForCartLine(line, menuItems)
+      return !menuItem || !isMenuItemAvailable(menuItem, now)
+    })
+    .map((line) => line.name)
+  return Array.from(new Set(names))
+}
+
+/**
+ * Cart lines whose item can't be ordered at this time of day, with the item's schedule,
+ * e.g. "Lunch Special (Mon–Fri 11:00 AM–2:00 PM)".
+ */
+export const getOffScheduleCartItems = (
+  lines: Array<{ id: string; base_item_id?: string; name: string }>,
+  menuItems: MenuItem[],
+  now: Date = new Date()
+): string[] => {
+  const labels = lines.flatMap((line) => {
+    const menuItem = findMenuItemForCartLine(line, menuItems)
+    if (!menuItem || isMenuItemScheduledNow(menuItem, now)) return []
+    return [`${menuItem.name} (${describeSchedule(menuItem.availability_schedule)})`]
+  })
+  return Array.from(new Set(labels))
+}
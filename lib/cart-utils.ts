@@ -1,7 +1,12 @@
-import { CartItem } from './types'
+import { findMenuItemForCartLine } from './availability'
+import { percentOfCents, sumCents, toCents } from './money'
+import type { RewardLine } from './loyalty'
+import type { PromoDiscount } from './promo-codes'
+import { DEFAULT_TAX_RATES, TaxBreakdownLine, TaxableLine, calculateTax } from './tax'
+import { CartItem, MenuItem, Order } from './types'
 
-// Tax rate for calculations
-export const TAX_RATE = 0.08
+// Per-item special instructions ("well done", "no onions")
+export const MAX_SPECIAL_INSTRUCTIONS_LENGTH = 140
 
 // Time slot configuration for scheduling
 export const TIME_SLOT_CONFIG = {
@@ -9,40 +14,105 @@ export const TIME_SLOT_CONFIG = {
   slotsCount: 12,
 } as const
 
+// Order totals in cents (see lib/money.ts for the rounding rules)
+export interface OrderTotals {
+  subtotal: number
+  // Promo code or loyalty reward discount
+  discount: number
+  tax: number
+  tip: number
+  total: number
+  // Tax per rate (see lib/tax.ts)
+  taxBreakdown: TaxBreakdownLine[]
+}
+
 /**
- * Calculate cart subtotal (items + addons)
+ * Cents for one of a cart line: the item plus its add-ons.
  */
-export const calculateSubtotal = (cart: CartItem[]): number => {
-  return cart.reduce((total, item) => {
-    let itemTotal = item.price
-    if (item.selectedAddons && item.selectedAddons.length > 0) {
-      itemTotal += item.selectedAddons.reduce((sum, addon) => sum + addon.price, 0)
-    }
-    return total + itemTotal * item.quantity
-  }, 0)
-}
+export const getCartLineUnitCents = (item: Pick<CartItem, 'price' | 'selectedAddons'>): number =>
+  toCents(item.price) + sumCents((item.selectedAddons || []).map((addon) => toCents(addon.price)))
+
+export const getCartLineTotalCents = (item: Pick<CartItem, 'price' | 'selectedAddons' | 'quantity'>): number =>
+  getCartLineUnitCents(item) * item.quantity
 
 /**
- * Calculate tax amount
+ * Cart subtotal in cents (items + addons)
  */
-export const calculateTax = (subtotal: number): number => {
-  return Number((subtotal * TAX_RATE).toFixed(2))
-}
+export const calculateSubtotalCents = (cart: Array<Pick<CartItem, 'price' | 'selectedAddons' | 'quantity'>>): number =>
+  sumCents(cart.map(getCartLineTotalCents))
 
 /**
- * Calculate tip amount from percentage
+ * Trimmed single-line special instructions, cut to the maximum length, or null if empty.
  */
-export const calculateTipAmount = (subtotal: number, tipPercent: number): number => {
-  return Number((subtotal * (tipPercent / 100)).toFixed(2))
+export const normalizeSpecialInstructions = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null
+  const note = value.trim().replace(/\s+/g, ' ').slice(0, MAX_SPECIAL_INSTRUCTIONS_LENGTH).trim()
+  return note || null
 }
 
 /**
- * Calculate final total (subtotal + tax + tip)
+ * Tip in cents for a percentage of the subtotal
+ */
+export const calculateTipCents = (subtotal: number, tipPercent: number): number =>
+  percentOfCents(subtotal, tipPercent)
+
+// A priced order line with what tax, promo codes and rewards need to know about it
+export type OrderLine = TaxableLine & RewardLine
+
+/**
+ * Cart lines with their menu items' tax rates and categories. Lines whose item isn't loaded (or is gone)
+ * are estimated at the default rate; checkout charges the real one.
  */
-export const calculateTotal = (subtotal: number, tax: number, tip: number): number => {
-  return Number((subtotal + tax + tip).toFixed(2))
+export const getCartOrderLines = (cart: CartItem[], menuItems: MenuItem[]): OrderLine[] =>
+  cart.map((line) => {
+    const menuItem = findMenuItemForCartLine(line, menuItems)
+    return {
+      cents: getCartLineTotalCents(line),
+      tax_rates: menuItem?.tax_rates ?? DEFAULT_TAX_RATES,
+      menu_item_id: menuItem?.id ?? null,
+      category: menuItem?.category ?? null,
+      quantity: line.quantity,
+    }
+  })
+
+/**
+ * Subtotal, discount, tax, tip and total in cents. A promo or reward discount comes off its lines before tax,
+ * which is rounded once per rate; the tip is rounded once, on the subtotal before the discount.
+ */
+export const calculateOrderTotals = (
+  lines: TaxableLine[],
+  tipPercent: number,
+  discount?: PromoDiscount | null
+): OrderTotals => {
+  const subtotal = sumCents(lines.map((line) => line.cents))
+  const { tax, breakdown } = calculateTax(
+    lines.map((line, index) => ({ ...line, cents: line.cents - (discount?.lines[index] ?? 0) }))
+  )
+  const discountTotal = discount?.total ?? 0
+  const tip = calculateTipCents(subtotal, tipPercent)
+  return {
+    subtotal,
+    discount: discountTotal,
+    tax,
+    tip,
+    total: subtotal - discountTotal + tax + tip,
+    taxBreakdown: breakdown,
+  }
 }
 
+/**
+ * An order's subtotal in cents. Orders placed before subtotals were stored work it out from the total.
+ */
+export const getOrderSubtotalCents = (
+  order: Pick<Order, 'subtotal_amount' | 'total_amount' | 'tax_amount' | 'tip_amount' | 'discount_amount'>
+): number =>
+  typeof order.subtotal_amount === 'number'
+    ? toCents(order.subtotal_amount)
+    : toCents(order.total_amount) -
+      toCents(order.tax_amount) -
+      toCents(order.tip_amount ?? 0) +
+      toCents(order.discount_amount ?? 0)
+
 /**
  * Generate available time slots for scheduling
  */
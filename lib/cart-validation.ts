@@ -0,0 +1,104 @@
+import { safeEqual } from './admin-auth'
+import { normalizeSpecialInstructions } from './cart-utils'
+import { normalizeParticipantName } from './group-orders'
+import { MENU_ITEM_TYPES, CartItem, CartModifierSelection, MenuItemType, SharedCart } from './types'
+
+// Validation for carts saved through /api/carts. Saved prices are only for display: checkout
+// re-prices every line from the menu, so this just keeps the stored JSON well-formed and bounded.
+
+const MAX_LINES = 100
+const MAX_LINE_QUANTITY = 99
+const MAX_MODIFIERS = 30
+const MAX_TEXT_LENGTH = 200
+const MAX_PRICE = 1000
+
+// Ids are 22 URL-safe base64 characters (16 random bytes)
+export const CART_ID_PATTERN = /^[A-Za-z0-9_-]{22}$/
+
+export const isCartId = (value: unknown): value is string => typeof value === 'string' && CART_ID_PATTERN.test(value)
+
+/**
+ * Whether `provided` is the group order's host token, compared in constant time.
+ */
+export const isHostToken = (provided: unknown, hostToken: unknown): boolean =>
+  typeof provided === 'string' && typeof hostToken === 'string' && !!hostToken && safeEqual(provided, hostToken)
+
+const isText = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= MAX_TEXT_LENGTH
+
+const isPrice = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_PRICE
+
+const parseModifier = (value: any): CartModifierSelection | null => {
+  if (!value || !isText(value.group_id) || !isText(value.option_id) || !isPrice(value.price)) return null
+  return {
+    group_id: value.group_id,
+    group_name: typeof value.group_name === 'string' ? value.group_name.slice(0, MAX_TEXT_LENGTH) : '',
+    option_id: value.option_id,
+    label: typeof value.label === 'string' ? value.label.slice(0, MAX_TEXT_LENGTH) : '',
+    price: value.price,
+  }
+}
+
+const parseCartLine = (line: any): CartItem | null => {
+  if (!line || typeof line !== 'object') return null
+  if (!isText(line.id) || !isText(line.name) || !isPrice(line.price)) return null
+  if (!Number.isInteger(line.quantity) || line.quantity < 1 || line.quantity > MAX_LINE_QUANTITY) return null
+
+  const modifiers = Array.isArray(line.modifiers) ? line.modifiers.slice(0, MAX_MODIFIERS).map(parseModifier) : []
+  if (modifiers.some((modifier: CartModifierSelection | null) => !modifier)) return null
+  const selectedOptions = Array.isArray(line.selectedOptions) ? line.selectedOptions.filter(isText) : []
+  const selectedAddons = Array.isArray(line.selectedAddons)
+    ? line.selectedAddons
+        .filter((addon: any) => addon && isText(addon.name) && isPrice(addon.price))
+        .map((addon: any) => ({ name: addon.name, price: addon.price }))
+    : []
+  const participantName = normalizeParticipantName(line.participant_name)
+  const specialInstructions = normalizeSpecialInstructions(line.special_instructions)
+
+  return {
+    id: line.id,
+    ...(isText(line.base_item_id) ? { base_item_id: line.base_item_id } : {}),
+    ...((MENU_ITEM_TYPES as readonly string[]).includes(line.item_type)
+      ? { item_type: line.item_type as MenuItemType }
+      : {}),
+    name: line.name,
+    price: line.price,
+    quantity: line.quantity,
+    ...(typeof line.image_url === 'string' && line.image_url.length <= 500 ? { image_url: line.image_url } : {}),
+    modifiers,
+    selectedOptions: selectedOptions.slice(0, MAX_MODIFIERS),
+    selectedAddons: selectedAddons.slice(0, MAX_MODIFIERS),
+    ...(participantName ? { participant_name: participantName } : {}),
+    ...(specialInstructions ? { special_instructions: specialInstructions } : {}),
+  }
+}
+
+/**
+ * Validate the `items` of a cart write.
+ */
+export const parseCartItems = (
+  value: unknown
+): { value: CartItem[]; error?: undefined } | { value?: undefined; error: string } => {
+  if (!Array.isArray(value)) return { error: 'Cart items must be a list' }
+  if (value.length > MAX_LINES) return { error: `A cart can hold at most ${MAX_LINES} different items` }
+
+  const lines: CartItem[] = []
+  for (const item of value) {
+    const line = parseCartLine(item)
+    if (!line) return { error: 'Invalid cart item' }
+    lines.push(line)
+  }
+  return { value: lines }
+}
+
+/**
+ * A `carts` row as returned to browsers. The host token is never included; the create route adds it
+ * for the host only.
+ */
+export const toSharedCart = (row: any): SharedCart => ({
+  id: row.id,
+  items: Array.isArray(row.items) ? row.items : [],
+  updated_at: row.updated_at,
+  ...(row.is_group ? { is_group: true, host_name: row.host_name || null, locked_at: row.locked_at || null } : {}),
+})
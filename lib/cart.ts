@@ -1,38 +1,363 @@
-import { CartItem } from './types'
+import { calculateSubtotalCents } from './cart-utils'
+import { mergeParticipantLines } from './group-orders'
+import { fromCents } from './money'
+import { CartSyncState, readStorage, removeStorage, writeStorage } from './storage'
+import { CartChange, CartItem, SharedCart } from './types'
 
-const CART_STORAGE_KEY = 'denver-kabob-cart'
+const SYNC_DELAY_MS = 800
 
-export const getCart = (): CartItem[] => {
-  if (typeof window === 'undefined') return []
-  
-  try {
-    const cart = localStorage.getItem(CART_STORAGE_KEY)
-    return cart ? JSON.parse(cart) : []
-  } catch {
-    return []
+/**
+ * Deterministic 53-bit string hash (cyrb53), base-36 encoded. Not cryptographic; it only has to
+ * tell cart configurations apart.
+ */
+const hashString = (value: string): string => {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
   }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
+
+type CartLineConfig = Pick<
+  CartItem,
+  'base_item_id' | 'modifiers' | 'selectedOptions' | 'selectedAddons' | 'participant_name' | 'special_instructions'
+>
+
+/**
+ * Cart line id for a base item and its chosen options: the same configuration always gets the same
+ * id (in any selection order), and different configurations get different ids. Lines saved before
+ * base_item_id existed keep the id they were saved with.
+ */
+export const getCartLineId = (line: CartLineConfig & { id?: string }): string => {
+  if (!line.base_item_id) return line.id || ''
+
+  // Modifier selections identify the options exactly; lines without them fall back to labels
+  const options =
+    line.modifiers && line.modifiers.length > 0
+      ? line.modifiers.map((modifier) => `${modifier.group_id}:${modifier.option_id}`)
+      : [
+          ...(line.selectedOptions || []).map((label) => `option:${label}`),
+          ...(line.selectedAddons || []).map((addon) => `addon:${addon.name}`),
+        ]
+  // In a group order each person's lines stay separate even when they order the same thing, and so
+  // do lines with different special instructions ("well done" vs "no onions")
+  const parts: unknown[] = [line.base_item_id, options.sort()]
+  if (line.participant_name) parts.push(line.participant_name)
+  if (line.special_instructions) parts.push({ note: line.special_instructions })
+  const canonical = JSON.stringify(parts)
+  return `${line.base_item_id}:${hashString(canonical)}`
+}
+
+/**
+ * Give every line its canonical id and merge lines that turn out to be the same configuration.
+ */
+const normalizeCart = (cart: CartItem[]): CartItem[] => {
+  const lines: CartItem[] = []
+  cart.forEach((line) => {
+    const id = getCartLineId(line)
+    const existing = lines.find((item) => item.id === id)
+    if (existing) {
+      existing.quantity += line.quantity
+    } else {
+      lines.push({ ...line, id })
+    }
+  })
+  return lines
+}
+
+export const getCart = (): CartItem[] => {
+  const cart = readStorage('cart')
+  return cart ? normalizeCart(cart) : []
 }
 
 export const saveCart = (cart: CartItem[]): void => {
   if (typeof window === 'undefined') return
-  
+
+  writeLocalCart(cart)
+  scheduleCartSync()
+}
+
+const getSyncState = (): CartSyncState | null => readStorage('cartSync')
+
+const setSyncState = (state: CartSyncState | null) => {
+  if (state) {
+    writeStorage('cartSync', state)
+  } else {
+    removeStorage('cartSync')
+  }
+}
+
+const writeLocalCart = (cart: CartItem[]) => {
+  writeStorage('cart', cart)
+  // Dispatch custom event for same-tab updates
+  window.dispatchEvent(new Event('cartUpdated'))
+}
+
+const requestCart = async (url: string, init?: RequestInit): Promise<SharedCart | null> => {
+  const response = await fetch(url, {
+    ...init,
+    cache: 'no-store',
+    headers: { 'Content-Type': 'application/json' },
+  })
+  if (response.status === 404) return null
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP ${response.status}: Failed to save cart`)
+  }
+  return data.cart
+}
+
+let syncTimer: ReturnType<typeof setTimeout> | null = null
+let pendingSync: Promise<string | null> | null = null
+
+const cancelScheduledSync = () => {
+  if (syncTimer) {
+    clearTimeout(syncTimer)
+    syncTimer = null
+  }
+}
+
+/**
+ * Push the local cart to its server copy now, creating the copy on first use.
+ * Resolves to the server cart id, or null if there is nothing to save.
+ */
+export const syncCart = async (): Promise<string | null> => {
+  if (typeof window === 'undefined') return null
+  cancelScheduledSync()
+  // Let an in-flight sync finish first so two requests don't both create a cart
+  if (pendingSync) await pendingSync.catch(() => null)
+
+  pendingSync = (async () => {
+    const items = getCart()
+    const state = getSyncState()
+    if (!state && items.length === 0) return null
+
+    const body = JSON.stringify({ items, participant: state?.participantName, host_token: state?.hostToken })
+    let saved: SharedCart | null = null
+    if (state) {
+      try {
+        saved = await requestCart(`/api/carts/${encodeURIComponent(state.id)}`, { method: 'PUT', body })
+      } catch (error) {
+        // A group the host has locked rejects changes: put back what's actually in the group
+        const current = state.participantName ? await fetchSharedCart(state.id).catch(() => null) : null
+        if (current) {
+          setSyncState({ ...state, updatedAt: current.updated_at })
+          writeLocalCart(current.items)
+        }
+        throw error
+      }
+    }
+    // No server copy yet, or it was cleaned up: start a new one (a removed group can't be recreated)
+    if (!saved && !state?.participantName) saved = await requestCart('/api/carts', { method: 'POST', body })
+    if (!saved) return null
+
+    setSyncState({ ...state, id: saved.id, updatedAt: saved.updated_at })
+    // A group save returns everyone's lines; show them unless another local change is already queued
+    if (saved.is_group && !syncTimer) writeLocalCart(saved.items)
+    return saved.id
+  })()
+
   try {
-    localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(cart))
-    // Dispatch custom event for same-tab updates
-    window.dispatchEvent(new Event('cartUpdated'))
-  } catch (error) {
-    console.error('Failed to save cart:', error)
+    return await pendingSync
+  } finally {
+    pendingSync = null
   }
 }
 
-export const addToCart = (item: Omit<CartItem, 'quantity'>): CartItem[] => {
+const scheduleCartSync = () => {
+  if (syncTimer) clearTimeout(syncTimer)
+  syncTimer = setTimeout(() => {
+    syncTimer = null
+    syncCart().catch((error) => console.error('Failed to sync cart:', error))
+  }, SYNC_DELAY_MS)
+}
+
+/**
+ * Load a saved cart by id (e.g. from a share link). Resolves to null if it doesn't exist.
+ */
+export const fetchSharedCart = async (id: string): Promise<SharedCart | null> =>
+  requestCart(`/api/carts/${encodeURIComponent(id)}`)
+
+/**
+ * Pick up changes made to this cart elsewhere (another device continuing the same shared cart, or
+ * other people in a group order). The server copy replaces the local cart only when it changed since
+ * this browser last synced and no local change is waiting to be pushed. Resolves to the server copy.
+ */
+export const pullCart = async (): Promise<SharedCart | null> => {
+  const state = getSyncState()
+  if (typeof window === 'undefined' || !state) return null
+
+  const saved = await fetchSharedCart(state.id)
+  if (!saved) {
+    setSyncState(null)
+    return null
+  }
+  if (saved.updated_at !== state.updatedAt && !syncTimer && !pendingSync) {
+    setSyncState({ ...state, id: saved.id, updatedAt: saved.updated_at })
+    writeLocalCart(saved.items)
+  }
+  return saved
+}
+
+/**
+ * Check the saved cart against the current menu and fix it: removed items and options are dropped and
+ * prices refreshed. Resolves to what changed, for the "your cart was updated" notice. In a group order
+ * participants only check their own lines (everyone else checks theirs).
+ */
+export const revalidateCart = async (): Promise<CartChange[]> => {
+  if (typeof window === 'undefined') return []
   const cart = getCart()
-  const existingItem = cart.find(cartItem => cartItem.id === item.id)
+  const role = getGroupOrderRole()
+  const participant = role && !role.isHost ? role.participantName : null
+  const lines = participant ? cart.filter((line) => line.participant_name === participant) : cart
+  if (lines.length === 0) return []
+
+  const response = await fetch('/api/carts/validate', {
+    method: 'POST',
+    cache: 'no-store',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ items: lines }),
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP ${response.status}: Failed to check cart`)
+  }
+
+  const changes: CartChange[] = Array.isArray(data.changes) ? data.changes : []
+  // Leave the cart alone if it changed while the check was running; the next page load checks it again
+  if (changes.length === 0 || JSON.stringify(getCart()) !== JSON.stringify(cart)) return changes
+
+  const items: CartItem[] = data.items
+  saveCart(normalizeCart(participant ? mergeParticipantLines(cart, items, participant) : items))
+  return changes
+}
+
+/**
+ * Make a shared cart this browser's cart: both people now edit the same cart.
+ */
+export const continueSharedCart = (shared: SharedCart): CartItem[] => {
+  cancelScheduledSync()
+  setSyncState({ id: shared.id, updatedAt: shared.updated_at })
+  writeLocalCart(shared.items)
+  return getCart()
+}
+
+/**
+ * Add a shared cart's items to this browser's own cart; the shared cart itself is left unchanged.
+ */
+export const copySharedCart = (shared: SharedCart): CartItem[] => {
+  let cart = getCart()
+  // Copied group lines become this browser's own lines
+  shared.items.forEach(({ quantity, participant_name: _participant, ...line }) => {
+    cart = addToCart(line, quantity)
+  })
+  return cart
+}
+
+/**
+ * Turn this cart into a group order hosted by `hostName`; the current items become the host's.
+ */
+export const startGroupOrder = async (hostName: string): Promise<SharedCart> => {
+  cancelScheduledSync()
+  const items = getCart().map(({ id: _id, ...line }) => {
+    const hostLine = { ...line, participant_name: hostName }
+    return { ...hostLine, id: getCartLineId(hostLine) }
+  })
+  const saved = await requestCart('/api/carts', {
+    method: 'POST',
+    body: JSON.stringify({ items, group: { host_name: hostName } }),
+  })
+  if (!saved || !saved.host_token) throw new Error('Failed to start group order')
+
+  setSyncState({ id: saved.id, updatedAt: saved.updated_at, participantName: hostName, hostToken: saved.host_token })
+  writeLocalCart(saved.items)
+  return saved
+}
+
+/**
+ * Join a group order: this browser's cart becomes the group cart and new items are added under `name`.
+ */
+export const joinGroupOrder = (shared: SharedCart, name: string): CartItem[] => {
+  cancelScheduledSync()
+  setSyncState({ id: shared.id, updatedAt: shared.updated_at, participantName: name })
+  writeLocalCart(shared.items)
+  return getCart()
+}
+
+/**
+ * This browser's place in a group order, or null when the cart isn't a group cart.
+ */
+export const getGroupOrderRole = (): { participantName: string; isHost: boolean } | null => {
+  if (typeof window === 'undefined') return null
+  const state = getSyncState()
+  if (!state?.participantName) return null
+  return { participantName: state.participantName, isHost: Boolean(state.hostToken) }
+}
+
+/**
+ * Host only: stop (or resume) other people's changes so the group can check out.
+ */
+export const setGroupOrderLocked = async (locked: boolean): Promise<SharedCart> => {
+  await syncCart()
+  const state = getSyncState()
+  if (!state?.hostToken) throw new Error('Only the host can lock the group order')
+
+  const saved = await requestCart(`/api/carts/${encodeURIComponent(state.id)}/lock`, {
+    method: 'POST',
+    body: JSON.stringify({ host_token: state.hostToken, locked }),
+  })
+  if (!saved) throw new Error('Group order not found')
+
+  setSyncState({ ...state, updatedAt: saved.updated_at })
+  writeLocalCart(saved.items)
+  return saved
+}
+
+/**
+ * Before the host pays for a group order: lock the group so nobody changes it mid-payment.
+ * Resolves to true if anyone's items changed since `shownCart` was displayed (the host should review
+ * them before paying). Does nothing for carts that aren't group orders.
+ */
+export const lockGroupOrderForCheckout = async (shownCart: CartItem[]): Promise<boolean> => {
+  if (!getGroupOrderRole()?.isHost) return false
+  const saved = await setGroupOrderLocked(true)
+  const summarize = (lines: CartItem[]) =>
+    lines
+      .map((line) => `${line.id}:${line.quantity}`)
+      .sort()
+      .join(',')
+  return summarize(normalizeCart(saved.items)) !== summarize(shownCart)
+}
+
+export const getSyncedCartId = (): string | null => (typeof window === 'undefined' ? null : getSyncState()?.id || null)
+
+export const getCartShareUrl = (id: string): string =>
+  `${window.location.origin}/cart?shared=${encodeURIComponent(id)}`
+
+/**
+ * Add `quantity` of a configured item. The line id is derived from the configuration, so adding an
+ * identical configuration increases that line's quantity instead of creating a second line.
+ */
+export const addToCart = (
+  newItem: Omit<CartItem, 'quantity' | 'id'> & { id?: string },
+  quantity: number = 1
+): CartItem[] => {
+  const cart = getCart()
+  // In a group order new lines go under this browser's participant name
+  const participantName = getSyncState()?.participantName
+  const item = newItem.participant_name || !participantName ? newItem : { ...newItem, participant_name: participantName }
+  const id = getCartLineId(item)
+  const existingItem = cart.find(cartItem => cartItem.id === id)
   
   if (existingItem) {
-    existingItem.quantity += 1
+    existingItem.quantity += Math.max(1, quantity)
   } else {
-    cart.push({ ...item, quantity: 1 })
+    cart.push({ ...item, id, quantity: Math.max(1, quantity) })
   }
   
   saveCart(cart)
@@ -60,19 +385,35 @@ export const updateCartItemQuantity = (itemId: string, quantity: number): CartIt
   return cart
 }
 
+/**
+ * Save an edited line. The edited line keeps its place in the cart; if its new configuration
+ * matches another line, the two are merged (quantities added) rather than one overwriting the other.
+ */
 export const replaceCartItem = (
   originalId: string,
-  newItem: Omit<CartItem, 'quantity'>,
+  newItem: Omit<CartItem, 'quantity' | 'id'> & { id?: string },
   quantity: number
 ): CartItem[] => {
   const normalizedQuantity = Math.max(1, quantity)
-  const cart = getCart().filter(item => item.id !== originalId)
-  const existingItem = cart.find(item => item.id === newItem.id)
-  
-  if (existingItem) {
-    existingItem.quantity += normalizedQuantity
+  const cart = getCart()
+  const originalIndex = cart.findIndex(item => item.id === originalId)
+
+  // The line was removed elsewhere (another tab) while being edited: add it back
+  if (originalIndex === -1) {
+    return addToCart(newItem, normalizedQuantity)
+  }
+
+  // An edited group line stays with the person it was for
+  const participantName = newItem.participant_name ?? cart[originalIndex].participant_name
+  const item = participantName ? { ...newItem, participant_name: participantName } : newItem
+  const id = getCartLineId(item)
+
+  const duplicate = id !== originalId ? cart.find(item => item.id === id) : undefined
+  if (duplicate) {
+    duplicate.quantity += normalizedQuantity
+    cart.splice(originalIndex, 1)
   } else {
-    cart.push({ ...newItem, quantity: normalizedQuantity })
+    cart[originalIndex] = { ...item, id, quantity: normalizedQuantity }
   }
   
   saveCart(cart)
@@ -81,18 +422,13 @@ export const replaceCartItem = (
 
 export const clearCart = (): void => {
   if (typeof window === 'undefined') return
-  localStorage.removeItem(CART_STORAGE_KEY)
+  cancelScheduledSync()
+  removeStorage('cart')
+  // The next cart gets a new server copy; the old one (and any share link to it) is left as is
+  setSyncState(null)
 }
 
-export const getCartTotal = (cart: CartItem[]): number => {
-  return cart.reduce((total, item) => {
-    let itemTotal = item.price
-    if (item.selectedAddons && item.selectedAddons.length > 0) {
-      itemTotal += item.selectedAddons.reduce((sum, addon) => sum + addon.price, 0)
-    }
-    return total + itemTotal * item.quantity
-  }, 0)
-}
+export const getCartTotal = (cart: CartItem[]): number => fromCents(calculateSubtotalCents(cart))
 
 export const getCartItemCount = (cart: CartItem[]): number => {
   return cart.reduce((count, item) => count + item.quantity, 0)
@@ -0,0 +1,52 @@
+import { ALLERGENS, Allergen, DIETARY_TAGS, DietaryTag, MenuItem } from './types'
+
+// Labels and filtering for dietary tags and allergens (menu cards, item modal, admin editor).
+
+export const DIETARY_TAG_LABELS: Record<DietaryTag, string> = {
+  vegetarian: 'Vegetarian',
+  vegan: 'Vegan',
+  halal: 'Halal',
+  'gluten-free': 'Gluten-Free',
+  spicy: 'Spicy',
+}
+
+export const DIETARY_TAG_STYLES: Record<DietaryTag, string> = {
+  vegetarian: 'bg-green-100 text-green-800',
+  vegan: 'bg-emerald-100 text-emerald-800',
+  halal: 'bg-blue-100 text-blue-800',
+  'gluten-free': 'bg-yellow-100 text-yellow-800',
+  spicy: 'bg-red-100 text-red-800',
+}
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  milk: 'Milk',
+  eggs: 'Eggs',
+  wheat: 'Wheat',
+  soy: 'Soy',
+  sesame: 'Sesame',
+  peanuts: 'Peanuts',
+  'tree-nuts': 'Tree Nuts',
+  fish: 'Fish',
+  shellfish: 'Shellfish',
+}
+
+export const isDietaryTag = (value: unknown): value is DietaryTag =>
+  typeof value === 'string' && (DIETARY_TAGS as readonly string[]).includes(value)
+
+export const isAllergen = (value: unknown): value is Allergen =>
+  typeof value === 'string' && (ALLERGENS as readonly string[]).includes(value)
+
+/**
+ * Keep known values only, in canonical order (rows from the database may contain anything).
+ */
+export const normalizeDietaryTags = (value: unknown): DietaryTag[] =>
+  Array.isArray(value) ? DIETARY_TAGS.filter((tag) => value.includes(tag)) : []
+
+export const normalizeAllergens = (value: unknown): Allergen[] =>
+  Array.isArray(value) ? ALLERGENS.filter((allergen) => value.includes(allergen)) : []
+
+/**
+ * An item matches when it has every selected tag (no selection matches everything).
+ */
+export const matchesDietaryTags = (item: Pick<MenuItem, 'dietary_tags'>, tags: DietaryTag[]): boolean =>
+  tags.every((tag) => (item.dietary_tags || []).includes(tag))
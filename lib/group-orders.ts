@@ -0,0 +1,58 @@
+import { calculateSubtotalCents } from './cart-utils'
+import { CartItem } from './types'
+
+// Group orders: a shared cart where each person adds items under their own name and the host
+// checks out once for everyone. The name travels with each line to order_items so the kitchen
+// can label the bags.
+
+export const MAX_PARTICIPANT_NAME_LENGTH = 40
+
+/**
+ * Trimmed, whitespace-collapsed participant name, or null if it's empty or too long.
+ */
+export const normalizeParticipantName = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null
+  const name = value.trim().replace(/\s+/g, ' ')
+  if (!name || name.length > MAX_PARTICIPANT_NAME_LENGTH) return null
+  return name
+}
+
+export interface ParticipantLines {
+  name: string
+  lines: CartItem[]
+  // Cents
+  subtotal: number
+}
+
+/**
+ * Cart lines grouped by participant (in order of first appearance) with each person's subtotal.
+ * Lines without a name are grouped under `fallbackName`.
+ */
+export const groupCartLinesByParticipant = (lines: CartItem[], fallbackName: string): ParticipantLines[] => {
+  const groups: ParticipantLines[] = []
+  lines.forEach((line) => {
+    const name = line.participant_name || fallbackName
+    let group = groups.find((g) => g.name === name)
+    if (!group) {
+      group = { name, lines: [], subtotal: 0 }
+      groups.push(group)
+    }
+    group.lines.push(line)
+  })
+  groups.forEach((group) => {
+    group.subtotal = calculateSubtotalCents(group.lines)
+  })
+  return groups
+}
+
+/**
+ * A participant's save: their own lines are replaced by `incoming`, everyone else's are kept as stored.
+ * PUT /api/carts/[id] only writes the result if the stored lines haven't changed since it read them
+ * (and merges again if they have), so two people adding at the same time don't overwrite each other.
+ */
+export const mergeParticipantLines = (stored: CartItem[], incoming: CartItem[], participant: string): CartItem[] => [
+  ...stored.filter((line) => line.participant_name !== participant),
+  ...incoming
+    .filter((line) => line.participant_name === participant)
+    .map((line) => ({ ...line, participant_name: participant })),
+]
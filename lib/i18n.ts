@@ -0,0 +1,152 @@
+import { findMenuItemForCartLine } from './availability'
+import { Messages, messages } from './messages'
+import {
+  CartItem,
+  LOCALES,
+  LabelTranslations,
+  Locale,
+  MenuItem,
+  MenuItemTranslations,
+  ModifierGroup,
+  TranslatedLocale,
+} from './types'
+
+// Locale selection and translation of menu content. The database and cart always hold the English
+// text (what the kitchen and Stripe see); translations are applied only when rendering.
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+// Each language's own name, for the switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  'fa-AF': 'دری',
+  ps: 'پښتو',
+  es: 'Español',
+}
+
+export const RTL_LOCALES: Locale[] = ['fa-AF', 'ps']
+
+export const TRANSLATED_LOCALES = LOCALES.filter((locale): locale is TranslatedLocale => locale !== 'en')
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && (LOCALES as readonly string[]).includes(value)
+
+export const getLocaleDirection = (locale: Locale): 'ltr' | 'rtl' =>
+  RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr'
+
+export const getMessages = (locale: Locale): Messages => messages[locale] || messages[DEFAULT_LOCALE]
+
+/**
+ * Best match for the browser's preferred languages (first visit only; an explicit choice is stored).
+ * Dari is often reported as plain Persian ("fa") or by its ISO 639-3 code ("prs").
+ */
+export const matchBrowserLocale = (languages: readonly string[]): Locale => {
+  for (const language of languages) {
+    const code = language.toLowerCase()
+    if (code.startsWith('fa') || code.startsWith('prs')) return 'fa-AF'
+    if (code.startsWith('ps')) return 'ps'
+    if (code.startsWith('es')) return 'es'
+    if (code.startsWith('en')) return 'en'
+  }
+  return DEFAULT_LOCALE
+}
+
+const cleanText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined
+
+/**
+ * Keep only known locales and non-empty strings from a `translations` column.
+ */
+export const normalizeMenuItemTranslations = (value: unknown): MenuItemTranslations => {
+  const result: MenuItemTranslations = {}
+  if (!value || typeof value !== 'object') return result
+  TRANSLATED_LOCALES.forEach((locale) => {
+    const entry = (value as Record<string, any>)[locale]
+    const name = cleanText(entry?.name)
+    const description = cleanText(entry?.description)
+    if (name || description) {
+      result[locale] = { ...(name ? { name } : {}), ...(description ? { description } : {}) }
+    }
+  })
+  return result
+}
+
+export const normalizeLabelTranslations = (value: unknown): LabelTranslations => {
+  const result: LabelTranslations = {}
+  if (!value || typeof value !== 'object') return result
+  TRANSLATED_LOCALES.forEach((locale) => {
+    const label = cleanText((value as Record<string, unknown>)[locale])
+    if (label) result[locale] = label
+  })
+  return result
+}
+
+const translateLabel = (text: string, translations: LabelTranslations | undefined, locale: Locale): string =>
+  (locale !== 'en' && translations?.[locale]) || text
+
+const localizeModifierGroup = (group: ModifierGroup, locale: Locale): ModifierGroup => ({
+  ...group,
+  name: translateLabel(group.name, group.translations, locale),
+  options: group.options.map((option) => ({
+    ...option,
+    label: translateLabel(option.label, option.translations, locale),
+  })),
+})
+
+/**
+ * The item with its name, description and modifier labels in `locale` (English where untranslated).
+ * Ids, prices and everything else are unchanged, so the result can be used for display only.
+ */
+export const localizeMenuItem = (item: MenuItem, locale: Locale): MenuItem => {
+  if (locale === 'en') return item
+  const translation = item.translations?.[locale]
+  return {
+    ...item,
+    name: translation?.name || item.name,
+    description: translation?.description || item.description,
+    modifier_groups: item.modifier_groups?.map((group) => localizeModifierGroup(group, locale)),
+  }
+}
+
+/**
+ * A cart line with its name and modifier labels translated, looked up from the current menu.
+ * Lines for items no longer on the menu keep their saved (English) text.
+ */
+export const localizeCartItem = (line: CartItem, menuItems: MenuItem[], locale: Locale): CartItem => {
+  if (locale === 'en') return line
+  const menuItem = findMenuItemForCartLine(line, menuItems)
+  if (!menuItem) return line
+
+  const groups = menuItem.modifier_groups || []
+  const findOption = (optionId: string) => {
+    for (const group of groups) {
+      const option = group.options.find((o) => o.id === optionId)
+      if (option) return { group, option }
+    }
+    return null
+  }
+  // Lines saved before modifier groups existed only have English labels
+  const translateSavedLabel = (label: string) => {
+    for (const group of groups) {
+      const option = group.options.find((o) => o.label.toLowerCase() === label.toLowerCase())
+      if (option) return translateLabel(option.label, option.translations, locale)
+    }
+    return label
+  }
+
+  return {
+    ...line,
+    name: menuItem.translations?.[locale]?.name || line.name,
+    modifiers: line.modifiers?.map((modifier) => {
+      const match = findOption(modifier.option_id)
+      if (!match) return modifier
+      return {
+        ...modifier,
+        group_name: translateLabel(match.group.name, match.group.translations, locale),
+        label: translateLabel(match.option.label, match.option.translations, locale),
+      }
+    }),
+    selectedOptions: line.selectedOptions?.map(translateSavedLabel),
+    selectedAddons: line.selectedAddons?.map((addon) => ({ ...addon, name: translateSavedLabel(addon.name) })),
+  }
+}
@@ -0,0 +1,105 @@
+import { createServerClient, isMissingColumnError } from './supabase'
+import { MenuItem } from './types'
+
+// Inventory counts for menu items and modifier options (only rows with a stock_quantity are tracked).
+
+export interface InventoryLine {
+  menu_item_id: string
+  option_ids: string[]
+  quantity: number
+}
+
+export interface InventoryUsage {
+  menu_items: Array<{ id: string; quantity: number }>
+  modifier_options: Array<{ id: string; quantity: number }>
+}
+
+const toEntries = (counts: Map<string, number>) =>
+  Array.from(counts.entries()).map(([id, quantity]) => ({ id, quantity }))
+
+/**
+ * Total units an order takes from each menu item and modifier option.
+ */
+export const getInventoryUsage = (lines: InventoryLine[]): InventoryUsage => {
+  const menuItems = new Map<string, number>()
+  const options = new Map<string, number>()
+
+  lines.forEach((line) => {
+    menuItems.set(line.menu_item_id, (menuItems.get(line.menu_item_id) || 0) + line.quantity)
+    line.option_ids.forEach((optionId) => {
+      options.set(optionId, (options.get(optionId) || 0) + line.quantity)
+    })
+  })
+
+  return { menu_items: toEntries(menuItems), modifier_options: toEntries(options) }
+}
+
+/**
+ * Messages for anything the order needs more of than is left, e.g. "Lamb Shank with Rice (only 2 left)".
+ */
+export const getInventoryShortages = (usage: InventoryUsage, menuItems: MenuItem[]): string[] => {
+  const shortages: string[] = []
+
+  usage.menu_items.forEach(({ id, quantity }) => {
+    const item = menuItems.find((menuItem) => menuItem.id === id)
+    if (item && typeof item.stock_quantity === 'number' && quantity > item.stock_quantity) {
+      shortages.push(`${item.name} (only ${item.stock_quantity} left)`)
+    }
+  })
+
+  usage.modifier_options.forEach(({ id, quantity }) => {
+    const option = menuItems
+      .flatMap((item) => item.modifier_groups || [])
+      .flatMap((group) => group.options)
+      .find((candidate) => candidate.id === id)
+    if (option && typeof option.stock_quantity === 'number' && quantity > option.stock_quantity) {
+      shortages.push(`${option.label} (only ${option.stock_quantity} left)`)
+    }
+  })
+
+  return shortages
+}
+
+/**
+ * Atomically take an order's usage out of stock (see decrement_inventory in supabase-migration-inventory.sql).
+ * Items that hit zero are marked sold out by the same statement.
+ */
+export const decrementInventory = async (usage: InventoryUsage): Promise<void> => {
+  if (usage.menu_items.length === 0 && usage.modifier_options.length === 0) return
+
+  const supabase = createServerClient()
+  const { error } = await supabase.rpc('decrement_inventory', {
+    p_menu_items: usage.menu_items,
+    p_modifier_options: usage.modifier_options,
+  })
+
+  if (error) throw error
+}
+
+/**
+ * Take a paid order out of stock exactly once, however many routes record it (the webhook, its retries
+ * and /api/orders/ensure, which read the paid Stripe session; /api/orders/create-direct isn't verified and
+ * leaves it to them). apply_order_inventory claims the order and decrements
+ * in one transaction (see supabase-migration-order-inventory.sql). Returns whether stock changed.
+ * Until that migration is run, only the route that inserted the order (`created`) decrements.
+ */
+export const applyOrderInventory = async (
+  orderId: string,
+  usage: InventoryUsage,
+  { created }: { created: boolean }
+): Promise<boolean> => {
+  const supabase = createServerClient()
+  const { data, error } = await supabase.rpc('apply_order_inventory', {
+    p_order_id: orderId,
+    p_menu_items: usage.menu_items,
+    p_modifier_options: usage.modifier_options,
+  })
+
+  if (error) {
+    if (!isMissingColumnError(error.message)) throw error
+    if (!created) return false
+    await decrementInventory(usage)
+    return true
+  }
+  return data === true
+}
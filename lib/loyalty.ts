@@ -0,0 +1,211 @@
+import type { PromoDiscount, PromoLine } from './promo-codes'
+import { createServerClient, isMissingColumnError } from './supabase'
+import { LoyaltyEntry, LoyaltyReward } from './types'
+
+// Loyalty points, keyed by the customer's phone (digits only, as orders store it). `loyalty_ledger` has one
+// row per change and the balance is their sum. Points are earned on what a paid order cost before tax and
+// tip, when the webhook (or /api/orders/ensure) sees the paid order; a reward redeemed at checkout is taken
+// off the same order. Admins can add or take points by hand, with a reason.
+
+export const POINTS_PER_DOLLAR = 1
+
+const MAX_ADJUSTMENT = 10000
+const MAX_REASON_LENGTH = 200
+
+// What points can be redeemed for. Each reward makes one item of its category free: the most expensive
+// one in the cart, with its add-ons. `name` is the English name orders and Stripe record; checkout shows
+// the customer's language from `checkout.rewardNames` in lib/messages.ts, keyed by id.
+export const LOYALTY_REWARDS: LoyaltyReward[] = [
+  { id: 'free-appetizer', name: 'Free appetizer', points: 75, category: 'Appetizers' },
+  { id: 'free-sandwich', name: 'Free sandwich', points: 100, category: 'Sandwiches' },
+  { id: 'free-rice-dish', name: 'Free rice dish', points: 175, category: 'Rice Dishes' },
+]
+
+export const findLoyaltyReward = (id: unknown): LoyaltyReward | null =>
+  LOYALTY_REWARDS.find((reward) => reward.id === id) ?? null
+
+/**
+ * Points earned for an order that cost `cents` before tax and tip (after any discount): whole dollars only.
+ */
+export const getPointsForPurchase = (cents: number): number =>
+  cents > 0 ? Math.floor(cents / 100) * POINTS_PER_DOLLAR : 0
+
+// An order line as a reward sees it
+export interface RewardLine extends PromoLine {
+  quantity: number
+}
+
+/**
+ * The discount a reward gives on these lines (the line's unit price, once), or why it can't be used.
+ * The points balance is checked separately (fetchLoyaltyBalance).
+ */
+export const applyLoyaltyReward = (
+  reward: LoyaltyReward,
+  lines: RewardLine[]
+): { value: PromoDiscount; error?: undefined } | { value?: undefined; error: string } => {
+  const unitCents = lines.map((line) =>
+    line.category === reward.category && line.quantity > 0 ? Math.floor(line.cents / line.quantity) : 0
+  )
+  const free = Math.max(0, ...unitCents)
+  if (free <= 0) {
+    return { error: `Add an item from ${reward.category} to your cart to use ${reward.name}` }
+  }
+  const index = unitCents.indexOf(free)
+  return { value: { total: free, lines: unitCents.map((_, i) => (i === index ? free : 0)) } }
+}
+
+/**
+ * "Free sandwich (100 points)"
+ */
+export const describeLoyaltyReward = (reward: LoyaltyReward): string => `${reward.name} (${reward.points} points)`
+
+export const toLoyaltyEntry = (row: any): LoyaltyEntry => ({
+  id: String(row.id),
+  customer_phone: String(row.customer_phone),
+  points: Number(row.points),
+  kind: row.kind === 'earned' || row.kind === 'redeemed' ? row.kind : 'adjusted',
+  reason: row.reason || null,
+  order_id: row.order_id || null,
+  created_at: row.created_at,
+})
+
+/**
+ * A customer's points, or null until supabase-migration-loyalty.sql is run.
+ */
+export const fetchLoyaltyBalance = async (phoneDigits: string): Promise<number | null> => {
+  const supabase = createServerClient()
+  const { data, error } = await supabase.from('loyalty_ledger').select('points').eq('customer_phone', phoneDigits)
+
+  if (error) {
+    if (isMissingColumnError(error.message)) {
+      console.warn('loyalty_ledger is not migrated yet:', error.message)
+      return null
+    }
+    throw error
+  }
+  return (data || []).reduce((sum, row) => sum + Number(row.points), 0)
+}
+
+/**
+ * A customer's ledger, newest first (for the admin dashboard), or null until the migration is run.
+ */
+export const fetchLoyaltyEntries = async (phoneDigits: string, limit = 100): Promise<LoyaltyEntry[] | null> => {
+  const supabase = createServerClient()
+  const { data, error } = await supabase
+    .from('loyalty_ledger')
+    .select('*')
+    .eq('customer_phone', phoneDigits)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    if (isMissingColumnError(error.message)) return null
+    throw error
+  }
+  return (data || []).map(toLoyaltyEntry)
+}
+
+/**
+ * Stripe session metadata for a redeemed reward, read back by the webhook.
+ */
+export const toLoyaltyMetadata = (reward: LoyaltyReward): Record<string, string> => ({
+  loyalty_reward_id: reward.id,
+  loyalty_reward: reward.name,
+  loyalty_points: String(reward.points),
+})
+
+/**
+ * The reward saved on a Stripe session by toLoyaltyMetadata, or null. The points are the ones charged at
+ * checkout, even if the reward has changed since.
+ */
+export const parseLoyaltyMetadata = (
+  metadata: Record<string, string> | null | undefined
+): { name: string; points: number } | null => {
+  const name = metadata?.loyalty_reward
+  const points = Number(metadata?.loyalty_points)
+  return name && Number.isInteger(points) && points > 0 ? { name, points } : null
+}
+
+/**
+ * Add the points a paid order earned and take off the ones it redeemed. Each order is recorded at most
+ * once (the ledger is unique on order and kind), so the webhook can call this for every paid order, including
+ * ones /api/orders/ensure or /api/orders/create-direct created first. The balance was checked when the Stripe
+ * session was created; record_order_points checks it again, one order per customer at a time, and skips a
+ * redemption it no longer covers (two sessions paid at once for the same points). Returns false then.
+ */
+export const recordOrderPoints = async ({
+  orderId,
+  phoneDigits,
+  paidCents,
+  redeemedPoints,
+}: {
+  orderId: string
+  phoneDigits: string
+  // What the order cost before tax and tip, after any discount
+  paidCents: number
+  redeemedPoints: number
+}): Promise<boolean> => {
+  const earned = getPointsForPurchase(paidCents)
+  if (earned <= 0 && redeemedPoints <= 0) return true
+
+  const supabase = createServerClient()
+  const { data, error } = await supabase.rpc('record_order_points', {
+    p_order_id: orderId,
+    p_customer_phone: phoneDigits,
+    p_earned: earned,
+    p_redeemed: redeemedPoints,
+  })
+  if (!error) return data !== false
+  if (!isMissingColumnError(error.message)) throw error
+
+  // Before supabase-migration-loyalty-redemptions.sql: record without checking the balance again
+  const rows = [
+    ...(earned > 0 ? [{ customer_phone: phoneDigits, points: earned, kind: 'earned', order_id: orderId }] : []),
+    ...(redeemedPoints > 0
+      ? [{ customer_phone: phoneDigits, points: -redeemedPoints, kind: 'redeemed', order_id: orderId }]
+      : []),
+  ]
+  const upsert = await supabase
+    .from('loyalty_ledger')
+    .upsert(rows, { onConflict: 'order_id,kind', ignoreDuplicates: true })
+
+  if (upsert.error) {
+    if (isMissingColumnError(upsert.error.message)) {
+      console.warn('loyalty_ledger is not migrated yet; no points recorded for order:', orderId)
+      return true
+    }
+    throw upsert.error
+  }
+  return true
+}
+
+/**
+ * Validate an admin points adjustment: a phone number, a whole number of points (negative to take
+ * points away) and the reason for it.
+ */
+export const parseLoyaltyAdjustment = (
+  body: any
+):
+  | { value: { customer_phone: string; points: number; reason: string }; error?: undefined }
+  | { value?: undefined; error: string } => {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid adjustment data' }
+  }
+
+  const phone = typeof body.phone === 'string' ? body.phone.replace(/\D/g, '') : ''
+  if (phone.length < 10) return { error: 'A valid phone number is required' }
+
+  const points = typeof body.points === 'string' ? Number(body.points) : body.points
+  if (typeof points !== 'number' || !Number.isInteger(points) || points === 0) {
+    return { error: 'Points must be a whole number other than 0' }
+  }
+  if (Math.abs(points) > MAX_ADJUSTMENT) {
+    return { error: `Points must be between -${MAX_ADJUSTMENT} and ${MAX_ADJUSTMENT}` }
+  }
+
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : ''
+  if (!reason) return { error: 'Reason is required' }
+  if (reason.length > MAX_REASON_LENGTH) return { error: `Reason must be ${MAX_REASON_LENGTH} characters or less` }
+
+  return { value: { customer_phone: phone, points, reason } }
+}
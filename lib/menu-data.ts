@@ -1,5 +1,10 @@
-import { MenuItem } from './types'
+import { MenuItem, MenuItemModifierAssignment, ModifierGroup } from './types'
 
+// Seed for the `menu_items` table (see supabase-migration-menu-items.sql and POST /api/menu/sync).
+// The live menu is served from the database via /api/menu; edit prices there, not here.
+// Dietary tags and allergens are a starting point (sauces are yogurt-based, pita and sambosa dough contain wheat);
+// confirm them with the kitchen in the admin menu editor.
+// Dari, Pashto and Spanish translations are kept next to the English text they translate.
 export const menuItems: MenuItem[] = [
   {
     id: 'lamb-kabob-rice',
@@ -7,7 +12,13 @@ export const menuItems: MenuItem[] = [
     description: 'Char-grilled lamb kabob served over warm, seasoned rice for a hearty and satisfying meal.',
     price: 16.99,
     category: 'Rice Dishes',
+    allergens: ['milk'],
     image_url: '/images/menu/lamb-kabob-rice.webp',
+    translations: {
+      'fa-AF': { name: 'کباب گوسفند با برنج', description: 'کباب گوسفند کبابی روی ذغال، با برنج گرم و خوش‌طعم؛ یک غذای سیر و دلچسب.' },
+      ps: { name: 'د پسه کباب له وريجو سره', description: 'د سکرو پر سر پوخ شوی د پسه کباب، له تودو او مزه‌دارو وريجو سره؛ ماړه او خوندوره ډوډۍ.' },
+      es: { name: 'Kebab de cordero con arroz', description: 'Kebab de cordero asado a la parrilla sobre arroz caliente y sazonado, una comida abundante y satisfactoria.' },
+    },
   },
   {
     id: 'kobidah-kabob-rice',
@@ -15,7 +26,13 @@ export const menuItems: MenuItem[] = [
     description: 'Juicy, well-seasoned ground beef kobidah kabob grilled and served over rice.',
     price: 14.99,
     category: 'Rice Dishes',
+    allergens: ['milk'],
     image_url: '/images/menu/kobidah-kabob-rice.webp',
+    translations: {
+      'fa-AF': { name: 'کباب کوبیده با برنج', description: 'کباب کوبیده آبدار از گوشت گاو چرخ‌کرده و خوش‌ادویه، کباب‌شده و با برنج.' },
+      ps: { name: 'کوبیده کباب له وريجو سره', description: 'د غوا د قیمه شوې غوښې اوبلن او مساله‌دار کوبیده کباب، په سکرو پوخ او له وريجو سره.' },
+      es: { name: 'Kebab kobidah con arroz', description: 'Jugoso kebab kobidah de carne de res molida bien sazonada, asado y servido sobre arroz.' },
+    },
   },
   {
     id: 'chicken-kabob-rice',
@@ -23,7 +40,13 @@ export const menuItems: MenuItem[] = [
     description: 'Tender, well-cooked chicken kabob grilled and served over rice.',
     price: 14.99,
     category: 'Rice Dishes',
+    allergens: ['milk'],
     image_url: '/images/menu/chicken-kabob-rice.webp',
+    translations: {
+      'fa-AF': { name: 'کباب مرغ با برنج', description: 'کباب مرغ نرم و خوب پخته، کباب‌شده و با برنج.' },
+      ps: { name: 'د چرګ کباب له وريجو سره', description: 'نرم او ښه پوخ شوی د چرګ کباب، له وريجو سره.' },
+      es: { name: 'Kebab de pollo con arroz', description: 'Kebab de pollo tierno y bien cocido, asado y servido sobre arroz.' },
+    },
   },
   {
     id: 'gyro-rice',
@@ -31,7 +54,13 @@ export const menuItems: MenuItem[] = [
     description: 'Savory gyro meat served over rice—simple, flavorful, and filling.',
     price: 14.99,
     category: 'Rice Dishes',
+    allergens: ['milk'],
     image_url: '/images/menu/gyro-rice.webp',
+    translations: {
+      'fa-AF': { name: 'گیرو با برنج', description: 'گوشت گیروی خوش‌طعم روی برنج؛ ساده، لذیذ و سیرکننده.' },
+      ps: { name: 'ګایرو له وريجو سره', description: 'مزه‌داره ګایرو غوښه له وريجو سره؛ ساده، خوندوره او ماړونکې.' },
+      es: { name: 'Gyro con arroz', description: 'Sabrosa carne de gyro sobre arroz: sencillo, delicioso y llenador.' },
+    },
   },
   {
     id: 'lamb-shank-rice',
@@ -39,7 +68,13 @@ export const menuItems: MenuItem[] = [
     description: 'Slow-cooked lamb shank served over rice for rich, comforting flavor in every bite.',
     price: 14.99,
     category: 'Rice Dishes',
+    allergens: ['milk'],
     image_url: '/images/menu/lamb-shank-rice.webp',
+    translations: {
+      'fa-AF': { name: 'ماهیچه گوسفند با برنج', description: 'ماهیچه گوسفند آرام‌پز روی برنج، با طعمی غنی و دلنشین در هر لقمه.' },
+      ps: { name: 'د پسه پنډۍ له وريجو سره', description: 'ورو ورو پخه شوې د پسه پنډۍ له وريجو سره، په هره ګوله کې بډای او خوندور خوند.' },
+      es: { name: 'Chamorro de cordero con arroz', description: 'Chamorro de cordero cocido a fuego lento sobre arroz, con un sabor intenso y reconfortante en cada bocado.' },
+    },
   },
   {
     id: 'shawarma-rice',
@@ -47,7 +82,13 @@ export const menuItems: MenuItem[] = [
     description: 'Well-seasoned chicken shawarma served over rice—classic, bold, and delicious.',
     price: 14.99,
     category: 'Rice Dishes',
+    allergens: ['milk'],
     image_url: '/images/menu/shawarma-rice.webp',
+    translations: {
+      'fa-AF': { name: 'شاورمه با برنج', description: 'شاورمه مرغ خوش‌ادویه روی برنج؛ کلاسیک، پرطعم و لذیذ.' },
+      ps: { name: 'شاورما له وريجو سره', description: 'مساله‌داره د چرګ شاورما له وريجو سره؛ کلاسیکه، تېز خوند لرونکې او خوندوره.' },
+      es: { name: 'Shawarma con arroz', description: 'Shawarma de pollo bien sazonado sobre arroz: clásico, intenso y delicioso.' },
+    },
   },
   {
     id: 'gyro-sandwich',
@@ -55,7 +96,13 @@ export const menuItems: MenuItem[] = [
     description: 'A warm pita filled with savory gyro meat—quick, classic, and satisfying.',
     price: 7.99,
     category: 'Sandwiches',
+    allergens: ['milk', 'wheat'],
     image_url: '/images/menu/gyro-sandwich.webp',
+    translations: {
+      'fa-AF': { name: 'ساندویچ گیرو', description: 'نان پیتای گرم پر از گوشت گیروی خوش‌طعم؛ سریع، کلاسیک و سیرکننده.' },
+      ps: { name: 'ګایرو سانډویچ', description: 'توده پیټا ډوډۍ له مزه‌دارې ګایرو غوښې ډکه؛ چټکه، کلاسیکه او ماړونکې.' },
+      es: { name: 'Sándwich de gyro', description: 'Pan pita caliente relleno de sabrosa carne de gyro: rápido, clásico y satisfactorio.' },
+    },
   },
   {
     id: 'chicken-sandwich',
@@ -63,7 +110,13 @@ export const menuItems: MenuItem[] = [
     description: 'A flavorful chicken sandwich made fresh to order in warm pita.',
     price: 7.99,
     category: 'Sandwiches',
+    allergens: ['milk', 'wheat'],
     image_url: '/images/menu/chicken-sandwich.webp',
+    translations: {
+      'fa-AF': { name: 'ساندویچ مرغ', description: 'ساندویچ مرغ پرطعم که تازه در نان پیتای گرم آماده می‌شود.' },
+      ps: { name: 'د چرګ سانډویچ', description: 'خوندور د چرګ سانډویچ چې په توده پیټا ډوډۍ کې تازه جوړېږي.' },
+      es: { name: 'Sándwich de pollo', description: 'Un sabroso sándwich de pollo preparado al momento en pan pita caliente.' },
+    },
   },
   {
     id: 'falafel-sandwich',
@@ -71,7 +124,14 @@ export const menuItems: MenuItem[] = [
     description: 'Crispy falafel tucked into warm pita—packed with flavor and great for any time.',
     price: 7.99,
     category: 'Sandwiches',
+    dietary_tags: ['vegetarian'],
+    allergens: ['milk', 'wheat'],
     image_url: '/images/menu/flafel-sandwich.webp',
+    translations: {
+      'fa-AF': { name: 'ساندویچ فلافل', description: 'فلافل ترد در نان پیتای گرم؛ پرطعم و مناسب برای هر وقت.' },
+      ps: { name: 'د فلافلو سانډویچ', description: 'کړپ فلافل په توده پیټا ډوډۍ کې؛ له خوند ډک او د هر وخت لپاره ښه.' },
+      es: { name: 'Sándwich de falafel', description: 'Falafel crujiente en pan pita caliente: lleno de sabor e ideal a cualquier hora.' },
+    },
   },
   {
     id: 'potato-or-beef-sambosa',
@@ -79,7 +139,13 @@ export const menuItems: MenuItem[] = [
     description: 'Golden, crispy sambosa—perfectly seasoned and fried until crunchy.',
     price: 0.5,
     category: 'Appetizers',
+    allergens: ['wheat'],
     image_url: '/images/menu/potato-or-beef-sambosa.webp',
+    translations: {
+      'fa-AF': { name: 'سمبوسه کچالو یا گوشت', description: 'سمبوسه طلایی و ترد، با ادویه کامل و سرخ‌شده تا کاملاً ترد شود.' },
+      ps: { name: 'د کچالو یا غوښې سمبوسه', description: 'طلايي او کړپ سمبوسه، په سمه توګه مساله شوې او تر کړپېدو پورې سره شوې.' },
+      es: { name: 'Sambosa de papa o de res', description: 'Sambosa dorada y crujiente, perfectamente sazonada y frita hasta quedar crocante.' },
+    },
   },
   {
     id: 'chicken-wings',
@@ -88,6 +154,11 @@ export const menuItems: MenuItem[] = [
     price: 7.99,
     category: 'Appetizers',
     image_url: '/images/menu/chicken-wings.webp',
+    translations: {
+      'fa-AF': { name: 'بال مرغ', description: 'بال مرغ ترد که تا طلایی شدن پخته می‌شود؛ عالی برای شریک شدن (یا نه).' },
+      ps: { name: 'د چرګ وزرونه', description: 'کړپ د چرګ وزرونه چې تر طلايي کېدو پورې پاخه شوي؛ د شریکولو لپاره ښه (یا نه).' },
+      es: { name: 'Alitas de pollo', description: 'Alitas de pollo crujientes y doradas, perfectas para compartir (o no).' },
+    },
   },
   {
     id: 'falafel',
@@ -95,6 +166,132 @@ export const menuItems: MenuItem[] = [
     description: 'Crispy, well-seasoned falafel—crunchy outside, tender inside.',
     price: 7.99,
     category: 'Appetizers',
+    dietary_tags: ['vegetarian', 'vegan'],
     image_url: '/images/menu/flafel.webp',
+    translations: {
+      'fa-AF': { name: 'فلافل', description: 'فلافل خوش‌ادویه؛ بیرون ترد و داخل نرم.' },
+      ps: { name: 'فلافل', description: 'ښه مساله شوي فلافل؛ بهر کړپ او دننه نرم.' },
+      es: { name: 'Falafel', description: 'Falafel bien sazonado: crujiente por fuera y suave por dentro.' },
+    },
   },
+  {
+    id: 'combo-plate',
+    name: 'Combo Plate',
+    description: 'Pick any two of our grilled meats or falafel, served with salad and your choice of side.',
+    price: 17.99,
+    category: 'Combo Plates',
+    item_type: 'combo',
+    allergens: ['milk'],
+    translations: {
+      'fa-AF': { name: 'بشقاب ترکیبی', description: 'دو مورد از گوشت‌های کبابی یا فلافل ما را انتخاب کنید، با سالاد و غذای جانبی دلخواه شما.' },
+      ps: { name: 'ګډ پلیټ', description: 'زموږ له کباب شویو غوښو یا فلافلو څخه دوه وټاکئ، له سلاتې او ستاسو د خوښې د څنګ خوړو سره.' },
+      es: { name: 'Plato combinado', description: 'Elige dos de nuestras carnes a la parrilla o falafel, servidos con ensalada y el acompañamiento que prefieras.' },
+    },
+  },
+]
+
+// Seed for `modifier_groups` / `modifier_options`.
+// Paid add-ons are intentionally limited to things that make sense for the current menu.
+export const modifierGroups: ModifierGroup[] = [
+  {
+    id: 'add-ons',
+    name: 'OPTIONS',
+    translations: { 'fa-AF': 'گزینه‌ها', ps: 'انتخابونه', es: 'Opciones' },
+    min_selections: 0,
+    max_selections: null,
+    options: [
+      { id: 'extra-rice', label: 'XTRA RICE', price: 1, translations: { 'fa-AF': 'برنج اضافه', ps: 'اضافي وريجې', es: 'Arroz extra' } },
+      { id: 'extra-gyros', label: 'XTRA GYROS', price: 1, translations: { 'fa-AF': 'گیروی اضافه', ps: 'اضافي ګایرو', es: 'Gyro extra' } },
+      { id: 'extra-chicken-shawarma', label: 'XTRA CHICKEN SHAWARMA', price: 1, translations: { 'fa-AF': 'شاورمه مرغ اضافه', ps: 'اضافي د چرګ شاورما', es: 'Shawarma de pollo extra' } },
+      { id: 'extra-chicken-kabob', label: 'XTRA CHICKEN KABOB', price: 1, translations: { 'fa-AF': 'کباب مرغ اضافه', ps: 'اضافي د چرګ کباب', es: 'Kebab de pollo extra' } },
+      { id: 'extra-kobideh', label: 'XTRA KOBIDEH KABOB (BEEF)', price: 1, translations: { 'fa-AF': 'کباب کوبیده اضافه (گوشت گاو)', ps: 'اضافي کوبیده کباب (د غوا غوښه)', es: 'Kebab kobideh extra (res)' } },
+      { id: 'extra-falafel', label: 'XTRA 3 PCS FALAFEL', price: 1, translations: { 'fa-AF': '۳ دانه فلافل اضافه', ps: '۳ دانې اضافي فلافل', es: '3 piezas de falafel extra' } },
+      { id: 'extra-lamb-kabob', label: 'XTRA LAMB KABOB', price: 1, translations: { 'fa-AF': 'کباب گوسفند اضافه', ps: 'اضافي د پسه کباب', es: 'Kebab de cordero extra' } },
+    ],
+  },
+  {
+    id: 'requests',
+    name: 'Special requests',
+    translations: { 'fa-AF': 'درخواست‌های خاص', ps: 'ځانګړې غوښتنې', es: 'Peticiones especiales' },
+    min_selections: 0,
+    max_selections: null,
+    options: [
+      { id: 'no-salad', label: 'NO SALAD', price: 0, translations: { 'fa-AF': 'بدون سالاد', ps: 'بې سلاتې', es: 'Sin ensalada' } },
+      { id: 'no-lettuce', label: 'NO LETTUCE', price: 0, translations: { 'fa-AF': 'بدون کاهو', ps: 'بې کاهو', es: 'Sin lechuga' } },
+      { id: 'no-sauce', label: 'NO SAUCE', price: 0, translations: { 'fa-AF': 'بدون سس', ps: 'بې ساس', es: 'Sin salsa' } },
+      { id: 'add-hot-sauce', label: 'ADD HOT SAUCE', price: 0, translations: { 'fa-AF': 'با سس تند', ps: 'تریخ ساس ور اضافه کړئ', es: 'Con salsa picante' } },
+      { id: 'extra-white-sauce', label: 'XTRA WHITE SAUCE', price: 0, translations: { 'fa-AF': 'سس سفید اضافه', ps: 'اضافي سپین ساس', es: 'Salsa blanca extra' } },
+      { id: 'no-fries', label: 'No fries', price: 0, translations: { 'fa-AF': 'بدون کچالوی سرخ‌کرده', ps: 'بې سره شوو کچالو', es: 'Sin papas fritas' } },
+    ],
+  },
+  {
+    id: 'combo-proteins',
+    name: 'Proteins',
+    translations: { 'fa-AF': 'پروتئین‌ها', ps: 'پروټین', es: 'Proteínas' },
+    min_selections: 2,
+    max_selections: 2,
+    options: [
+      { id: 'combo-chicken-kabob', label: 'Chicken Kabob', price: 0, translations: { 'fa-AF': 'کباب مرغ', ps: 'د چرګ کباب', es: 'Kebab de pollo' } },
+      { id: 'combo-kobideh', label: 'Kobideh Kabob (Beef)', price: 0, translations: { 'fa-AF': 'کباب کوبیده (گوشت گاو)', ps: 'کوبیده کباب (د غوا غوښه)', es: 'Kebab kobideh (res)' } },
+      { id: 'combo-gyro', label: 'Gyro', price: 0, translations: { 'fa-AF': 'گیرو', ps: 'ګایرو', es: 'Gyro' } },
+      { id: 'combo-chicken-shawarma', label: 'Chicken Shawarma', price: 0, translations: { 'fa-AF': 'شاورمه مرغ', ps: 'د چرګ شاورما', es: 'Shawarma de pollo' } },
+      { id: 'combo-falafel', label: 'Falafel', price: 0, translations: { 'fa-AF': 'فلافل', ps: 'فلافل', es: 'Falafel' } },
+      { id: 'combo-lamb-kabob', label: 'Lamb Kabob', price: 2, translations: { 'fa-AF': 'کباب گوسفند', ps: 'د پسه کباب', es: 'Kebab de cordero' } },
+    ],
+  },
+  {
+    id: 'combo-side',
+    name: 'Side',
+    translations: { 'fa-AF': 'غذای جانبی', ps: 'د څنګ خواړه', es: 'Acompañamiento' },
+    min_selections: 1,
+    max_selections: 1,
+    options: [
+      { id: 'combo-side-rice', label: 'Seasoned Rice', price: 0, translations: { 'fa-AF': 'برنج مصاله‌دار', ps: 'مساله‌دارې وريجې', es: 'Arroz sazonado' } },
+      { id: 'combo-side-fries', label: 'Fries', price: 0, translations: { 'fa-AF': 'کچالوی سرخ‌کرده', ps: 'سره شوي کچالو', es: 'Papas fritas' } },
+      { id: 'combo-side-salad', label: 'Extra Salad', price: 0, translations: { 'fa-AF': 'سالاد اضافه', ps: 'اضافي سلاته', es: 'Ensalada extra' } },
+    ],
+  },
+  {
+    id: 'sambosa-filling',
+    name: 'Sambosa filling',
+    translations: { 'fa-AF': 'مواد داخل سمبوسه', ps: 'د سمبوسې ډکول', es: 'Relleno de sambosa' },
+    min_selections: 1,
+    max_selections: 1,
+    options: [
+      { id: 'sambosa-potato', label: 'Potato', price: 0, translations: { 'fa-AF': 'کچالو', ps: 'کچالو', es: 'Papa' } },
+      { id: 'sambosa-beef', label: 'Beef', price: 0, translations: { 'fa-AF': 'گوشت گاو', ps: 'د غوا غوښه', es: 'Res' } },
+    ],
+  },
+]
+
+const RICE_REQUESTS = ['no-salad', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce']
+const SANDWICH_REQUESTS = ['no-lettuce', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce']
+
+const riceDish = (menuItemId: string, addOnIds: string[]): MenuItemModifierAssignment[] => [
+  { menu_item_id: menuItemId, group_id: 'add-ons', option_ids: addOnIds, sort_order: 0 },
+  { menu_item_id: menuItemId, group_id: 'requests', option_ids: RICE_REQUESTS, sort_order: 1 },
+]
+
+const sandwich = (menuItemId: string): MenuItemModifierAssignment[] => [
+  { menu_item_id: menuItemId, group_id: 'requests', option_ids: SANDWICH_REQUESTS, sort_order: 0 },
+]
+
+// Seed for `menu_item_modifier_groups`. Rice dishes only get the matching protein (lamb shank: extra rice only);
+// sandwiches get no extra meat; wings and sambosa get no unrelated extras. Combo plates are built from
+// their protein and side groups (lamb costs extra).
+export const menuItemModifierGroups: MenuItemModifierAssignment[] = [
+  ...riceDish('lamb-kabob-rice', ['extra-rice', 'extra-lamb-kabob']),
+  ...riceDish('kobidah-kabob-rice', ['extra-rice', 'extra-kobideh']),
+  ...riceDish('chicken-kabob-rice', ['extra-rice', 'extra-chicken-kabob']),
+  ...riceDish('gyro-rice', ['extra-rice', 'extra-gyros']),
+  ...riceDish('lamb-shank-rice', ['extra-rice']),
+  ...riceDish('shawarma-rice', ['extra-rice', 'extra-chicken-shawarma']),
+  ...sandwich('gyro-sandwich'),
+  ...sandwich('chicken-sandwich'),
+  ...sandwich('falafel-sandwich'),
+  { menu_item_id: 'potato-or-beef-sambosa', group_id: 'sambosa-filling', option_ids: null, sort_order: 0 },
+  { menu_item_id: 'falafel', group_id: 'add-ons', option_ids: ['extra-falafel'], sort_order: 0 },
+  { menu_item_id: 'combo-plate', group_id: 'combo-proteins', option_ids: null, sort_order: 0 },
+  { menu_item_id: 'combo-plate', group_id: 'combo-side', option_ids: null, sort_order: 1 },
+  { menu_item_id: 'combo-plate', group_id: 'requests', option_ids: RICE_REQUESTS, sort_order: 2 },
 ]
@@ -0,0 +1,528 @@
+import { parseMenuItemWrite, parseStockCount, slugifyMenuItemId } from './menu-validation'
+import {
+  Allergen,
+  AvailabilityWindow,
+  DietaryTag,
+  MenuCategory,
+  MenuItem,
+  MenuItemModifierAssignment,
+  MenuItemType,
+  ModifierGroup,
+} from './types'
+
+// Bulk menu export/import (admin Menu tab). Exports are one row per item; imports are diffed against
+// the current menu so the admin can review a dry run before anything is written.
+
+export const MENU_TRANSFER_FORMATS = ['csv', 'json'] as const
+export type MenuTransferFormat = (typeof MENU_TRANSFER_FORMATS)[number]
+
+export interface MenuTransferModifierGroup {
+  group_id: string
+  // null = every option in the group
+  option_ids: string[] | null
+}
+
+export interface MenuTransferItem {
+  id: string
+  name: string
+  description: string
+  price: number
+  category: MenuCategory
+  item_type: MenuItemType
+  dietary_tags: DietaryTag[]
+  allergens: Allergen[]
+  image_url: string | null
+  sort_order: number
+  archived: boolean
+  is_available: boolean
+  unavailable_until: string | null
+  stock_quantity: number | null
+  daily_stock: number | null
+  availability_schedule: AvailabilityWindow[] | null
+  modifier_groups: MenuTransferModifierGroup[]
+}
+
+export interface MenuImportChange {
+  field: string
+  from: string
+  to: string
+}
+
+export interface MenuImportDiff {
+  added: Array<{ id: string; name: string; price: number }>
+  changed: Array<{ id: string; name: string; changes: MenuImportChange[] }>
+  // Items missing from the file; applying the import archives them
+  removed: Array<{ id: string; name: string }>
+  priceChanges: Array<{ id: string; name: string; from: number; to: number }>
+  unchanged: number
+}
+
+export interface MenuImportPlan {
+  diff: MenuImportDiff
+  // Items to insert or update, in file order
+  upserts: MenuTransferItem[]
+  removedIds: string[]
+  // Item ids whose modifier group assignments should be replaced
+  modifierUpdates: string[]
+  // Item ids whose stock_quantity the file sets (new items, or a count that differs from the live one).
+  // Every other item keeps its live count, which orders keep decrementing.
+  stockUpdates: string[]
+}
+
+const COLUMNS: Array<keyof MenuTransferItem> = [
+  'id',
+  'name',
+  'description',
+  'price',
+  'category',
+  'item_type',
+  'dietary_tags',
+  'allergens',
+  'image_url',
+  'sort_order',
+  'archived',
+  'is_available',
+  'unavailable_until',
+  'stock_quantity',
+  'daily_stock',
+  'availability_schedule',
+  'modifier_groups',
+]
+
+const DAY_ABBREVIATIONS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const MAX_IMPORT_ITEMS = 500
+
+type ParseResult<T> = { value: T; error?: undefined } | { value?: undefined; error: string }
+
+export const isMenuTransferFormat = (value: unknown): value is MenuTransferFormat =>
+  typeof value === 'string' && (MENU_TRANSFER_FORMATS as readonly string[]).includes(value)
+
+/**
+ * Export row for an item. Sold-out-until times already in the past are dropped so re-importing
+ * an old file doesn't fail validation.
+ */
+export const toMenuTransferItem = (
+  item: MenuItem,
+  assignments: MenuItemModifierAssignment[]
+): MenuTransferItem => {
+  const soldOutUntil =
+    item.unavailable_until && new Date(item.unavailable_until).getTime() > Date.now()
+      ? item.unavailable_until
+      : null
+  const soldOut = item.is_available === false && (!item.unavailable_until || soldOutUntil !== null)
+  return {
+    id: item.id,
+    name: item.name,
+    description: item.description || '',
+    price: item.price,
+    category: item.category as MenuCategory,
+    item_type: item.item_type || 'standard',
+    dietary_tags: item.dietary_tags || [],
+    allergens: item.allergens || [],
+    image_url: item.image_url || null,
+    sort_order: item.sort_order ?? 0,
+    archived: Boolean(item.archived_at),
+    is_available: !soldOut,
+    unavailable_until: soldOut ? soldOutUntil : null,
+    stock_quantity: item.stock_quantity ?? null,
+    daily_stock: item.daily_stock ?? null,
+    availability_schedule: item.availability_schedule || null,
+    modifier_groups: assignments
+      .filter((assignment) => assignment.menu_item_id === item.id)
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map((assignment) => ({ group_id: assignment.group_id, option_ids: assignment.option_ids })),
+  }
+}
+
+const formatSchedule = (schedule: AvailabilityWindow[] | null): string =>
+  (schedule || [])
+    .map((window) => `${window.days.map((day) => DAY_ABBREVIATIONS[day]).join(',')} ${window.start}-${window.end}`)
+    .join('; ')
+
+const formatModifierGroups = (groups: MenuTransferModifierGroup[]): string =>
+  groups.map((group) => (group.option_ids ? `${group.group_id}(${group.option_ids.join('|')})` : group.group_id)).join('; ')
+
+const formatCell = (item: MenuTransferItem, column: keyof MenuTransferItem): string => {
+  switch (column) {
+    case 'price':
+      return item.price.toFixed(2)
+    case 'dietary_tags':
+    case 'allergens':
+      return item[column].join('|')
+    case 'availability_schedule':
+      return formatSchedule(item.availability_schedule)
+    case 'modifier_groups':
+      return formatModifierGroups(item.modifier_groups)
+    default: {
+      const value = item[column]
+      return value === null || value === undefined ? '' : String(value)
+    }
+  }
+}
+
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) || value.trim() !== value ? `"${value.replace(/"/g, '""')}"` : value
+
+export const toMenuCsv = (items: MenuTransferItem[]): string =>
+  [COLUMNS.join(','), ...items.map((item) => COLUMNS.map((column) => escapeCsvField(formatCell(item, column))).join(','))]
+    .join('\r\n') + '\r\n'
+
+/**
+ * Minimal RFC 4180 parser: quoted fields may contain commas, quotes ("") and newlines.
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''))
+}
+
+const parseBooleanCell = (value: string, column: string): ParseResult<boolean> => {
+  const normalized = value.trim().toLowerCase()
+  if (['true', 'yes', '1'].includes(normalized)) return { value: true }
+  if (['false', 'no', '0'].includes(normalized)) return { value: false }
+  return { error: `${column} must be true or false` }
+}
+
+const parseScheduleCell = (value: string): ParseResult<AvailabilityWindow[]> => {
+  const windows: AvailabilityWindow[] = []
+  for (const part of value.split(';').map((entry) => entry.trim()).filter(Boolean)) {
+    const match = /^([A-Za-z,\s]+?)\s+(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/.exec(part)
+    if (!match) return { error: `Invalid availability "${part}" (expected e.g. "Mon,Tue 11:00-14:00")` }
+    const days: number[] = []
+    for (const day of match[1].split(',').map((entry) => entry.trim()).filter(Boolean)) {
+      const index = DAY_ABBREVIATIONS.findIndex((name) => name.toLowerCase() === day.slice(0, 3).toLowerCase())
+      if (index === -1) return { error: `Unknown day "${day}" in availability` }
+      days.push(index)
+    }
+    // Spreadsheets like to turn 09:00 into 9:00
+    const pad = (time: string) => time.padStart(5, '0')
+    windows.push({ days, start: pad(match[2]), end: pad(match[3]) })
+  }
+  return { value: windows }
+}
+
+const parseModifierGroupsCell = (value: string): ParseResult<MenuTransferModifierGroup[]> => {
+  const groups: MenuTransferModifierGroup[] = []
+  for (const part of value.split(';').map((entry) => entry.trim()).filter(Boolean)) {
+    const match = /^([^()]+?)\s*(?:\(([^()]*)\))?$/.exec(part)
+    if (!match) return { error: `Invalid modifier groups "${part}" (expected e.g. "add-ons; requests(no-onions|extra-sauce)")` }
+    groups.push({
+      group_id: match[1].trim(),
+      option_ids:
+        match[2] === undefined
+          ? null
+          : match[2].split('|').map((id) => id.trim()).filter(Boolean),
+    })
+  }
+  return { value: groups }
+}
+
+/**
+ * A CSV record as raw import values. Cells are kept as text where menu validation accepts text
+ * (price, counts); columns missing from the header are left undefined so they keep their current value.
+ */
+const fromCsvRecord = (record: Record<string, string>): ParseResult<Record<string, unknown>> => {
+  const raw: Record<string, unknown> = {}
+  for (const [column, cell] of Object.entries(record)) {
+    const value = cell.trim()
+    switch (column) {
+      case 'dietary_tags':
+      case 'allergens':
+        raw[column] = value.split('|').map((entry) => entry.trim().toLowerCase()).filter(Boolean)
+        break
+      case 'archived':
+      case 'is_available': {
+        if (value === '') break
+        const parsed = parseBooleanCell(value, column)
+        if (parsed.error !== undefined) return { error: parsed.error }
+        raw[column] = parsed.value
+        break
+      }
+      case 'sort_order':
+        if (value !== '') raw[column] = value
+        break
+      case 'availability_schedule': {
+        const parsed = parseScheduleCell(value)
+        if (!parsed.value) return { error: parsed.error }
+        raw[column] = parsed.value
+        break
+      }
+      case 'modifier_groups': {
+        const parsed = parseModifierGroupsCell(value)
+        if (!parsed.value) return { error: parsed.error }
+        raw[column] = parsed.value
+        break
+      }
+      default:
+        raw[column] = value
+    }
+  }
+  return { value: raw }
+}
+
+/**
+ * Raw item records from an uploaded file. JSON may be the export object (`{ items: [...] }`) or a bare array.
+ */
+export const parseMenuTransferFile = (
+  content: string,
+  format: MenuTransferFormat
+): ParseResult<Array<Record<string, unknown>>> => {
+  if (format === 'json') {
+    let data: any
+    try {
+      data = JSON.parse(content)
+    } catch {
+      return { error: 'File is not valid JSON' }
+    }
+    const records = Array.isArray(data) ? data : data?.items
+    if (!Array.isArray(records) || !records.every((record) => record && typeof record === 'object')) {
+      return { error: 'JSON must be a list of menu items or an object with an "items" list' }
+    }
+    return { value: records }
+  }
+
+  const rows = parseCsv(content)
+  if (rows.length < 2) return { error: 'CSV needs a header row and at least one item' }
+  const header = rows[0].map((column) => column.trim().toLowerCase())
+  const unknown = header.filter((column) => !(COLUMNS as string[]).includes(column))
+  if (unknown.length > 0) {
+    return { error: `Unknown CSV column${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}` }
+  }
+  if (!header.includes('id') && !header.includes('name')) {
+    return { error: 'CSV needs an "id" or "name" column' }
+  }
+
+  const records: Array<Record<string, unknown>> = []
+  for (let index = 1; index < rows.length; index++) {
+    const record: Record<string, string> = {}
+    header.forEach((column, columnIndex) => {
+      record[column] = rows[index][columnIndex] ?? ''
+    })
+    const parsed = fromCsvRecord(record)
+    if (!parsed.value) return { error: `Row ${index + 1}: ${parsed.error}` }
+    records.push(parsed.value)
+  }
+  return { value: records }
+}
+
+const validateModifierGroups = (
+  value: unknown,
+  groups: ModifierGroup[]
+): ParseResult<MenuTransferModifierGroup[]> => {
+  if (!Array.isArray(value)) return { error: 'modifier_groups must be a list' }
+  const result: MenuTransferModifierGroup[] = []
+  for (const entry of value) {
+    const groupId = typeof entry === 'string' ? entry : entry?.group_id
+    const group = groups.find((g) => g.id === groupId)
+    if (!group) return { error: `Unknown modifier group "${groupId}"` }
+    if (result.some((existing) => existing.group_id === group.id)) {
+      return { error: `Modifier group "${group.id}" is listed twice` }
+    }
+    const optionIds = typeof entry === 'string' ? null : entry.option_ids ?? null
+    if (optionIds !== null) {
+      if (!Array.isArray(optionIds) || optionIds.length === 0) {
+        return { error: `Modifier group "${group.id}" needs at least one option` }
+      }
+      const unknownOption = optionIds.find((id: unknown) => !group.options.some((option) => option.id === id))
+      if (unknownOption !== undefined) {
+        return { error: `Unknown option "${unknownOption}" in modifier group "${group.id}"` }
+      }
+    }
+    result.push({ group_id: group.id, option_ids: optionIds ? Array.from(new Set<string>(optionIds)) : null })
+  }
+  return { value: result }
+}
+
+/**
+ * Merge an import record over the item's current values (or defaults for a new item) and validate it.
+ */
+const toImportedItem = (
+  record: Record<string, unknown>,
+  current: MenuTransferItem | undefined,
+  id: string,
+  groups: ModifierGroup[]
+): ParseResult<MenuTransferItem> => {
+  const merged: Record<string, any> = {
+    ...(current || {
+      description: '',
+      item_type: 'standard',
+      dietary_tags: [],
+      allergens: [],
+      image_url: null,
+      archived: false,
+      is_available: true,
+      unavailable_until: null,
+      stock_quantity: null,
+      daily_stock: null,
+      availability_schedule: null,
+      modifier_groups: [],
+    }),
+    ...Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)),
+  }
+
+  // A sold-out-until time that has passed just means the item is back
+  if (merged.unavailable_until && new Date(merged.unavailable_until).getTime() <= Date.now()) {
+    merged.unavailable_until = null
+    merged.is_available = true
+  }
+
+  const { value, error } = parseMenuItemWrite(
+    {
+      ...merged,
+      availability_schedule: merged.availability_schedule || null,
+      // Written back explicitly below; parseMenuItemWrite clears it when the item is available
+      unavailable_until: merged.is_available === false ? merged.unavailable_until || null : undefined,
+    },
+    { partial: false }
+  )
+  if (!value) return { error: error as string }
+
+  const stock = parseStockCount(merged.stock_quantity)
+  if ('error' in stock) return { error: stock.error }
+  const daily = parseStockCount(merged.daily_stock)
+  if ('error' in daily) return { error: daily.error }
+
+  if (typeof merged.archived !== 'boolean') return { error: 'archived must be true or false' }
+
+  const modifierGroups = validateModifierGroups(merged.modifier_groups ?? [], groups)
+  if (!modifierGroups.value) return { error: modifierGroups.error }
+
+  return {
+    value: {
+      id,
+      name: value.name as string,
+      description: value.description || '',
+      price: value.price as number,
+      category: value.category as MenuCategory,
+      item_type: value.item_type || 'standard',
+      dietary_tags: value.dietary_tags || [],
+      allergens: value.allergens || [],
+      image_url: value.image_url ?? null,
+      sort_order: value.sort_order ?? current?.sort_order ?? -1,
+      archived: merged.archived,
+      is_available: value.is_available !== false,
+      unavailable_until: value.is_available === false ? value.unavailable_until ?? null : null,
+      stock_quantity: stock.value,
+      daily_stock: daily.value,
+      availability_schedule: value.availability_schedule ?? null,
+      modifier_groups: modifierGroups.value,
+    },
+  }
+}
+
+const DIFF_COLUMNS = COLUMNS.filter((column) => column !== 'id')
+
+/**
+ * Validate imported records against the current menu and work out what applying them would change.
+ * Current items missing from the file are archived; archived items missing from it are left alone.
+ */
+export const planMenuImport = (
+  records: Array<Record<string, unknown>>,
+  currentItems: MenuTransferItem[],
+  groups: ModifierGroup[]
+): ParseResult<MenuImportPlan> => {
+  if (records.length === 0) return { error: 'The file has no menu items' }
+  if (records.length > MAX_IMPORT_ITEMS) return { error: `Import at most ${MAX_IMPORT_ITEMS} items at a time` }
+
+  const currentById = new Map(currentItems.map((item) => [item.id, item]))
+  const seenIds = new Set<string>()
+  let nextSortOrder = currentItems.reduce((max, item) => Math.max(max, item.sort_order), -1) + 1
+
+  const plan: MenuImportPlan = {
+    diff: { added: [], changed: [], removed: [], priceChanges: [], unchanged: 0 },
+    upserts: [],
+    removedIds: [],
+    modifierUpdates: [],
+    stockUpdates: [],
+  }
+
+  for (let index = 0; index < records.length; index++) {
+    const record = records[index]
+    const label = `Item ${index + 1}${typeof record.name === 'string' && record.name.trim() ? ` (${record.name.trim()})` : ''}`
+    const rawId = typeof record.id === 'string' ? record.id.trim() : ''
+    const id = rawId || slugifyMenuItemId(typeof record.name === 'string' ? record.name : '')
+    if (!id) return { error: `${label}: needs an id or a name` }
+    if (slugifyMenuItemId(id) !== id) {
+      return { error: `${label}: id "${id}" may only use lowercase letters, numbers and dashes` }
+    }
+    if (seenIds.has(id)) return { error: `${label}: id "${id}" appears more than once` }
+    seenIds.add(id)
+
+    const current = currentById.get(id)
+    const { value: item, error } = toImportedItem({ ...record, id: undefined }, current, id, groups)
+    if (!item) return { error: `${label}: ${error}` }
+    if (item.sort_order < 0) item.sort_order = nextSortOrder++
+
+    if (!current) {
+      plan.diff.added.push({ id, name: item.name, price: item.price })
+      plan.upserts.push(item)
+      plan.modifierUpdates.push(id)
+      plan.stockUpdates.push(id)
+      continue
+    }
+
+    const changes = DIFF_COLUMNS.map((column) => ({
+      field: column,
+      from: formatCell(current, column),
+      to: formatCell(item, column),
+    })).filter((change) => change.from !== change.to)
+
+    if (changes.length === 0) {
+      plan.diff.unchanged += 1
+      continue
+    }
+
+    plan.diff.changed.push({ id, name: item.name, changes })
+    plan.upserts.push(item)
+    if (changes.some((change) => change.field === 'modifier_groups')) plan.modifierUpdates.push(id)
+    if (changes.some((change) => change.field === 'stock_quantity')) plan.stockUpdates.push(id)
+    if (item.price !== current.price) {
+      plan.diff.priceChanges.push({ id, name: item.name, from: current.price, to: item.price })
+    }
+  }
+
+  currentItems
+    .filter((item) => !item.archived && !seenIds.has(item.id))
+    .forEach((item) => {
+      plan.diff.removed.push({ id: item.id, name: item.name })
+      plan.removedIds.push(item.id)
+    })
+
+  return { value: plan }
+}
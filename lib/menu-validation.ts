@@ -0,0 +1,245 @@
+import { parseTimeOfDay } from './availability'
+import { isAllergen, isDietaryTag, normalizeAllergens, normalizeDietaryTags } from './dietary'
+import { normalizeMenuItemTranslations } from './i18n'
+import { roundToCents } from './money'
+import {
+  Allergen,
+  AvailabilityWindow,
+  DietaryTag,
+  MENU_CATEGORIES,
+  MENU_ITEM_TYPES,
+  MenuCategory,
+  MenuItemTranslations,
+  MenuItemType,
+} from './types'
+
+// Validation for admin writes to `menu_items`.
+
+export interface MenuItemWrite {
+  name?: string
+  description?: string
+  price?: number
+  category?: MenuCategory
+  item_type?: MenuItemType
+  dietary_tags?: DietaryTag[]
+  allergens?: Allergen[]
+  image_url?: string | null
+  sort_order?: number
+  is_available?: boolean
+  unavailable_until?: string | null
+  availability_schedule?: AvailabilityWindow[] | null
+  translations?: MenuItemTranslations
+}
+
+const MAX_NAME_LENGTH = 120
+const MAX_DESCRIPTION_LENGTH = 1000
+const MAX_PRICE = 1000
+const MAX_STOCK = 10000
+const MAX_SCHEDULE_WINDOWS = 14
+
+// Remote images must come from a host allowed in next.config.js `images.remotePatterns`.
+const ALLOWED_IMAGE_HOSTS = ['images.unsplash.com', 'via.placeholder.com']
+
+export const isMenuCategory = (value: unknown): value is MenuCategory =>
+  typeof value === 'string' && (MENU_CATEGORIES as readonly string[]).includes(value)
+
+export const slugifyMenuItemId = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+
+/**
+ * Inventory count from an admin form: null/'' means "not tracked", otherwise a whole number from 0 up.
+ */
+export const parseStockCount = (value: unknown): { value: number | null } | { error: string } => {
+  if (value === null || value === undefined || value === '') return { value: null }
+  const count = typeof value === 'string' ? Number(value) : value
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 0 || count > MAX_STOCK) {
+    return { error: `Counts must be whole numbers between 0 and ${MAX_STOCK}` }
+  }
+  return { value: count }
+}
+
+/**
+ * Daypart windows from the admin form; an empty list means the item is always orderable.
+ */
+export const parseAvailabilitySchedule = (
+  value: unknown
+): { value: AvailabilityWindow[] | null } | { error: string } => {
+  if (value === null || value === undefined) return { value: null }
+  if (!Array.isArray(value) || value.length > MAX_SCHEDULE_WINDOWS) {
+    return { error: 'Invalid availability schedule' }
+  }
+
+  const windows: AvailabilityWindow[] = []
+  for (const window of value) {
+    const days: unknown[] = Array.isArray(window?.days) ? window.days : []
+    const validDays = days.filter(
+      (day): day is number => typeof day === 'number' && Number.isInteger(day) && day >= 0 && day <= 6
+    )
+    if (validDays.length === 0 || validDays.length !== days.length) {
+      return { error: 'Each schedule window needs at least one day' }
+    }
+    const start = typeof window.start === 'string' ? window.start : ''
+    const end = typeof window.end === 'string' ? window.end : ''
+    if (parseTimeOfDay(start) === null || parseTimeOfDay(end) === null) {
+      return { error: 'Schedule times must be in HH:MM format' }
+    }
+    if (start === end) {
+      return { error: 'Schedule start and end times must differ' }
+    }
+    windows.push({ days: Array.from(new Set(validDays)).sort((a, b) => a - b), start, end })
+  }
+
+  return { value: windows.length > 0 ? windows : null }
+}
+
+const validateImageUrl = (value: string): string | null => {
+  if (value.startsWith('/')) return null
+  try {
+    const url = new URL(value)
+    if (url.protocol !== 'https:' || !ALLOWED_IMAGE_HOSTS.includes(url.hostname)) {
+      return `Image URL must be a site path (e.g. /images/menu/...) or https://${ALLOWED_IMAGE_HOSTS.join(', https://')}`
+    }
+    return null
+  } catch {
+    return 'Image URL is invalid'
+  }
+}
+
+/**
+ * Validate an admin create/update payload. With `partial`, omitted fields are left alone (PATCH);
+ * otherwise name, price and category are required (POST).
+ */
+export const parseMenuItemWrite = (
+  body: any,
+  opts: { partial: boolean }
+): { value: MenuItemWrite; error?: undefined } | { value?: undefined; error: string } => {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid menu item data' }
+  }
+
+  const value: MenuItemWrite = {}
+  const has = (key: string) => body[key] !== undefined
+
+  if (has('name') || !opts.partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name) return { error: 'Name is required' }
+    if (name.length > MAX_NAME_LENGTH) return { error: `Name must be ${MAX_NAME_LENGTH} characters or less` }
+    value.name = name
+  }
+
+  if (has('description')) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      return { error: 'Description must be text' }
+    }
+    const description = (body.description || '').trim()
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      return { error: `Description must be ${MAX_DESCRIPTION_LENGTH} characters or less` }
+    }
+    value.description = description
+  } else if (!opts.partial) {
+    value.description = ''
+  }
+
+  if (has('price') || !opts.partial) {
+    const price = typeof body.price === 'string' ? Number(body.price) : body.price
+    if (typeof price !== 'number' || !Number.isFinite(price) || price < 0 || price > MAX_PRICE) {
+      return { error: `Price must be a number between 0 and ${MAX_PRICE}` }
+    }
+    value.price = roundToCents(price)
+  }
+
+  if (has('category') || !opts.partial) {
+    if (!isMenuCategory(body.category)) {
+      return { error: `Invalid category. Must be one of: ${MENU_CATEGORIES.join(', ')}` }
+    }
+    value.category = body.category
+  }
+
+  if (has('item_type')) {
+    if (!(MENU_ITEM_TYPES as readonly unknown[]).includes(body.item_type)) {
+      return { error: `Invalid item type. Must be one of: ${MENU_ITEM_TYPES.join(', ')}` }
+    }
+    value.item_type = body.item_type
+  }
+
+  if (has('dietary_tags')) {
+    if (!Array.isArray(body.dietary_tags) || !body.dietary_tags.every(isDietaryTag)) {
+      return { error: 'Invalid dietary tags' }
+    }
+    value.dietary_tags = normalizeDietaryTags(body.dietary_tags)
+  }
+
+  if (has('allergens')) {
+    if (!Array.isArray(body.allergens) || !body.allergens.every(isAllergen)) {
+      return { error: 'Invalid allergens' }
+    }
+    value.allergens = normalizeAllergens(body.allergens)
+  }
+
+  if (has('translations')) {
+    if (body.translations === null || typeof body.translations !== 'object' || Array.isArray(body.translations)) {
+      return { error: 'Translations must be an object keyed by language' }
+    }
+    const translations = normalizeMenuItemTranslations(body.translations)
+    const tooLong = Object.values(translations).some(
+      (entry) =>
+        (entry?.name?.length || 0) > MAX_NAME_LENGTH || (entry?.description?.length || 0) > MAX_DESCRIPTION_LENGTH
+    )
+    if (tooLong) {
+      return {
+        error: `Translated names must be ${MAX_NAME_LENGTH} characters or less and descriptions ${MAX_DESCRIPTION_LENGTH} or less`,
+      }
+    }
+    value.translations = translations
+  }
+
+  if (has('image_url')) {
+    const imageUrl = typeof body.image_url === 'string' ? body.image_url.trim() : ''
+    if (imageUrl) {
+      const imageError = validateImageUrl(imageUrl)
+      if (imageError) return { error: imageError }
+    }
+    value.image_url = imageUrl || null
+  }
+
+  if (has('sort_order')) {
+    const sortOrder = Number(body.sort_order)
+    if (!Number.isInteger(sortOrder)) return { error: 'Sort order must be a whole number' }
+    value.sort_order = sortOrder
+  }
+
+  if (has('availability_schedule')) {
+    const schedule = parseAvailabilitySchedule(body.availability_schedule)
+    if ('error' in schedule) return { error: schedule.error }
+    value.availability_schedule = schedule.value
+  }
+
+  if (has('is_available')) {
+    if (typeof body.is_available !== 'boolean') return { error: 'Availability must be true or false' }
+    value.is_available = body.is_available
+    // Back in stock clears any sold-out-until time
+    if (body.is_available) value.unavailable_until = null
+  }
+
+  if (has('unavailable_until') && value.is_available !== true) {
+    if (body.unavailable_until === null || body.unavailable_until === '') {
+      value.unavailable_until = null
+    } else {
+      const until = new Date(body.unavailable_until)
+      if (typeof body.unavailable_until !== 'string' || Number.isNaN(until.getTime())) {
+        return { error: 'Sold out until must be a valid date and time' }
+      }
+      if (until.getTime() <= Date.now()) {
+        return { error: 'Sold out until must be in the future' }
+      }
+      value.unavailable_until = until.toISOString()
+    }
+  }
+
+  return { value }
+}
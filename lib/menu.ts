@@ -0,0 +1,336 @@
+import { createServerClient, isMissingColumnError } from './supabase'
+import {
+  menuItemModifierGroups as seedModifierAssignments,
+  menuItems as seedMenuItems,
+  modifierGroups as seedModifierGroups,
+} from './menu-data'
+import { normalizeAllergens, normalizeDietaryTags } from './dietary'
+import { normalizeLabelTranslations, normalizeMenuItemTranslations } from './i18n'
+import { resolveModifierGroups } from './modifiers'
+import { priceRuleAppliesTo, toPriceRule } from './price-rules'
+import { DEFAULT_TAX_RATES, getItemTaxRates, toTaxRate } from './tax'
+import {
+  MENU_CATEGORIES,
+  MenuCategory,
+  MenuItem,
+  MenuItemModifierAssignment,
+  ModifierGroup,
+  PriceRule,
+  TaxRate,
+} from './types'
+
+// Server-side menu access. The `menu_items` table is the source of truth;
+// lib/menu-data.ts is only the seed used to populate it (and a fallback until the migration is run).
+
+const MENU_CACHE_TTL_MS = 60 * 1000
+
+const MENU_COLUMNS =
+  'id, name, description, price, category, item_type, dietary_tags, allergens, translations, image_url, sort_order, archived_at, is_available, unavailable_until, stock_quantity, daily_stock, availability_schedule, created_at, updated_at'
+
+export interface MenuData {
+  items: MenuItem[]
+  categories: MenuCategory[]
+}
+
+let cachedMenu: { menu: MenuData; fetchedAt: number } | null = null
+
+const toStockCount = (value: unknown): number | null =>
+  value === null || value === undefined ? null : Number(value)
+
+export const toMenuItem = (row: any): MenuItem => ({
+  id: String(row.id),
+  name: row.name,
+  description: row.description || '',
+  price: Number(row.price),
+  category: row.category,
+  item_type: row.item_type === 'combo' ? 'combo' : 'standard',
+  dietary_tags: normalizeDietaryTags(row.dietary_tags),
+  allergens: normalizeAllergens(row.allergens),
+  translations: normalizeMenuItemTranslations(row.translations),
+  image_url: row.image_url || undefined,
+  sort_order: typeof row.sort_order === 'number' ? row.sort_order : 0,
+  archived_at: row.archived_at || null,
+  is_available: row.is_available !== false,
+  unavailable_until: row.unavailable_until || null,
+  stock_quantity: toStockCount(row.stock_quantity),
+  daily_stock: toStockCount(row.daily_stock),
+  availability_schedule: Array.isArray(row.availability_schedule) ? row.availability_schedule : null,
+  created_at: row.created_at || undefined,
+  updated_at: row.updated_at || undefined,
+})
+
+/**
+ * Rows for seeding `menu_items` from lib/menu-data.ts (sort order follows the array order)
+ */
+export const getSeedMenuRows = () =>
+  seedMenuItems.map((item, index) => ({
+    id: item.id,
+    name: item.name,
+    description: item.description,
+    price: item.price,
+    category: item.category,
+    item_type: item.item_type || 'standard',
+    dietary_tags: item.dietary_tags || [],
+    allergens: item.allergens || [],
+    translations: item.translations || {},
+    image_url: item.image_url || null,
+    sort_order: index,
+  }))
+
+/**
+ * Rows for seeding `modifier_groups`, `modifier_options` and `menu_item_modifier_groups`
+ */
+export const getSeedModifierRows = () => ({
+  groups: seedModifierGroups.map((group, index) => ({
+    id: group.id,
+    name: group.name,
+    min_selections: group.min_selections,
+    max_selections: group.max_selections,
+    translations: group.translations || {},
+    sort_order: index,
+  })),
+  options: seedModifierGroups.flatMap((group) =>
+    group.options.map((option, index) => ({
+      id: option.id,
+      group_id: group.id,
+      label: option.label,
+      price: option.price,
+      translations: option.translations || {},
+      sort_order: index,
+    }))
+  ),
+  assignments: seedModifierAssignments.map((assignment) => ({ ...assignment })),
+})
+
+const attachModifierGroups = (
+  items: MenuItem[],
+  groups: ModifierGroup[],
+  assignments: MenuItemModifierAssignment[]
+): MenuItem[] =>
+  items.map((item) => ({
+    ...item,
+    modifier_groups: resolveModifierGroups(item.id, groups, assignments),
+  }))
+
+const getSeedMenu = (): MenuData => ({
+  items: attachTaxRates(
+    attachModifierGroups(getSeedMenuRows().map(toMenuItem), seedModifierGroups, seedModifierAssignments),
+    DEFAULT_TAX_RATES
+  ),
+  categories: [...MENU_CATEGORIES],
+})
+
+/**
+ * Modifier groups (with all their options) and per-item assignments, uncached.
+ */
+export const fetchModifiersFromDatabase = async (): Promise<{
+  groups: ModifierGroup[]
+  assignments: MenuItemModifierAssignment[]
+}> => {
+  const supabase = createServerClient()
+
+  const [groupsResult, optionsResult, assignmentsResult] = await Promise.all([
+    supabase
+      .from('modifier_groups')
+      .select('id, name, min_selections, max_selections, translations, sort_order')
+      .order('sort_order', { ascending: true }),
+    supabase
+      .from('modifier_options')
+      .select('id, group_id, label, price, stock_quantity, daily_stock, translations, sort_order')
+      .order('sort_order', { ascending: true }),
+    supabase
+      .from('menu_item_modifier_groups')
+      .select('menu_item_id, group_id, option_ids, sort_order'),
+  ])
+
+  const error = groupsResult.error || optionsResult.error || assignmentsResult.error
+  if (error) {
+    if (isMissingColumnError(error.message)) {
+      console.warn('Modifier tables are not migrated yet; using seed modifiers:', error.message)
+      return { groups: seedModifierGroups, assignments: seedModifierAssignments }
+    }
+    throw error
+  }
+
+  const options = optionsResult.data || []
+  const groups: ModifierGroup[] = (groupsResult.data || []).map((row: any) => ({
+    id: String(row.id),
+    name: row.name,
+    min_selections: Number(row.min_selections) || 0,
+    max_selections: row.max_selections === null ? null : Number(row.max_selections),
+    translations: normalizeLabelTranslations(row.translations),
+    options: options
+      .filter((option: any) => option.group_id === row.id)
+      .map((option: any) => ({
+        id: String(option.id),
+        label: option.label,
+        price: Number(option.price),
+        stock_quantity: toStockCount(option.stock_quantity),
+        daily_stock: toStockCount(option.daily_stock),
+        translations: normalizeLabelTranslations(option.translations),
+      })),
+  }))
+
+  const assignments: MenuItemModifierAssignment[] = (assignmentsResult.data || []).map((row: any) => ({
+    menu_item_id: String(row.menu_item_id),
+    group_id: String(row.group_id),
+    option_ids: Array.isArray(row.option_ids) ? row.option_ids.map(String) : null,
+    sort_order: Number(row.sort_order) || 0,
+  }))
+
+  return { groups, assignments }
+}
+
+/**
+ * All price rules (including disabled ones), uncached. Empty until the price_rules migration is run.
+ */
+export const fetchPriceRulesFromDatabase = async (): Promise<PriceRule[]> => {
+  const supabase = createServerClient()
+  const { data, error } = await supabase
+    .from('price_rules')
+    .select('id, name, price, menu_item_ids, category, days, start_time, end_time, starts_on, ends_on, is_active')
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    if (isMissingColumnError(error.message)) {
+      console.warn('price_rules is not migrated yet; serving regular prices:', error.message)
+      return []
+    }
+    throw error
+  }
+  return (data || []).map(toPriceRule)
+}
+
+const attachPriceRules = (items: MenuItem[], rules: PriceRule[]): MenuItem[] => {
+  const enabled = rules.filter((rule) => rule.is_active)
+  return items.map((item) => ({
+    ...item,
+    price_rules: enabled.filter((rule) => priceRuleAppliesTo(rule, item)),
+  }))
+}
+
+/**
+ * All tax rates (including disabled ones), uncached. The built-in default until the tax_rates migration is run.
+ */
+export const fetchTaxRatesFromDatabase = async (): Promise<TaxRate[]> => {
+  const supabase = createServerClient()
+  const { data, error } = await supabase
+    .from('tax_rates')
+    .select('id, name, jurisdiction, rate, category, is_active')
+    .order('jurisdiction', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    if (isMissingColumnError(error.message)) {
+      console.warn('tax_rates is not migrated yet; charging the default rate:', error.message)
+      return DEFAULT_TAX_RATES
+    }
+    throw error
+  }
+  return (data || []).map(toTaxRate)
+}
+
+const attachTaxRates = (items: MenuItem[], rates: TaxRate[]): MenuItem[] =>
+  items.map((item) => ({ ...item, tax_rates: getItemTaxRates(item, rates) }))
+
+/**
+ * Order categories by the saved `menu_categories` order; categories never saved keep their default position at the end.
+ */
+const orderCategories = (saved: string[]): MenuCategory[] => {
+  const known = saved.filter((name): name is MenuCategory =>
+    (MENU_CATEGORIES as readonly string[]).includes(name)
+  )
+  const missing = MENU_CATEGORIES.filter((name) => !known.includes(name))
+  return [...known, ...missing]
+}
+
+const fetchMenuFromDatabase = async (opts: { includeArchived: boolean }): Promise<MenuData> => {
+  const supabase = createServerClient()
+
+  let itemsQuery = supabase
+    .from('menu_items')
+    .select(MENU_COLUMNS)
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true })
+
+  if (!opts.includeArchived) {
+    itemsQuery = itemsQuery.is('archived_at', null)
+  }
+
+  const [itemsResult, categoriesResult, modifiers, priceRules, taxRates] = await Promise.all([
+    itemsQuery,
+    supabase.from('menu_categories').select('name, sort_order').order('sort_order', { ascending: true }),
+    fetchModifiersFromDatabase(),
+    fetchPriceRulesFromDatabase(),
+    fetchTaxRatesFromDatabase(),
+  ])
+
+  if (itemsResult.error) throw itemsResult.error
+
+  let savedCategories: string[] = []
+  if (categoriesResult.error) {
+    if (!isMissingColumnError(categoriesResult.error.message)) throw categoriesResult.error
+  } else {
+    savedCategories = (categoriesResult.data || []).map((row: any) => String(row.name))
+  }
+
+  return {
+    items: attachTaxRates(
+      attachPriceRules(
+        attachModifierGroups((itemsResult.data || []).map(toMenuItem), modifiers.groups, modifiers.assignments),
+        priceRules
+      ),
+      taxRates
+    ),
+    categories: orderCategories(savedCategories),
+  }
+}
+
+/**
+ * Fetch the public menu (archived items excluded), cached in memory for a short TTL.
+ * Falls back to the seed data when the table hasn't been migrated yet.
+ */
+export const getMenu = async (opts?: { fresh?: boolean }): Promise<MenuData> => {
+  if (!opts?.fresh && cachedMenu && Date.now() - cachedMenu.fetchedAt < MENU_CACHE_TTL_MS) {
+    return cachedMenu.menu
+  }
+
+  try {
+    const menu = await fetchMenuFromDatabase({ includeArchived: false })
+    cachedMenu = { menu, fetchedAt: Date.now() }
+    return menu
+  } catch (error: any) {
+    if (isMissingColumnError(error?.message)) {
+      console.warn('menu_items is not migrated yet; serving seed menu:', error.message)
+      return getSeedMenu()
+    }
+    // Keep the last good menu if we have one; otherwise fall back to the seed so the site still works.
+    console.error('Error fetching menu items:', error)
+    return cachedMenu?.menu ?? getSeedMenu()
+  }
+}
+
+export const getMenuItems = async (opts?: { fresh?: boolean }): Promise<MenuItem[]> => {
+  const menu = await getMenu(opts)
+  return menu.items
+}
+
+/**
+ * The public menu read straight from the database, for pricing an order. Unlike getMenuItems it never serves
+ * the cached or seed menu (their prices and availability may be wrong): it throws when the database can't
+ * be read. Refreshes the cache on success.
+ */
+export const getLiveMenuItems = async (): Promise<MenuItem[]> => {
+  const menu = await fetchMenuFromDatabase({ includeArchived: false })
+  cachedMenu = { menu, fetchedAt: Date.now() }
+  return menu.items
+}
+
+/**
+ * Full menu for the admin editor, including archived items. Never cached and never falls back to the seed.
+ */
+export const getAdminMenu = (): Promise<MenuData> => fetchMenuFromDatabase({ includeArchived: true })
+
+export const invalidateMenuCache = (): void => {
+  cachedMenu = null
+}
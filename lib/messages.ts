@@ -0,0 +1,758 @@
+import { ALLERGEN_LABELS, DIETARY_TAG_LABELS } from './dietary'
+import { Locale, MenuCategory } from './types'
+
+// UI strings for the menu, item modal, cart and checkout. Menu content (item names, descriptions,
+// modifier labels) is translated on the menu rows themselves; see lib/i18n.ts.
+
+const en = {
+  nav: {
+    home: 'Home',
+    menu: 'Menu',
+    trackOrder: 'Track Order',
+    cart: 'Cart',
+    closeMenu: 'Close menu',
+    toggleMenu: 'Toggle menu',
+    language: 'Language',
+  },
+  categories: {
+    Appetizers: 'Appetizers',
+    'Rice Dishes': 'Rice Dishes',
+    Sandwiches: 'Sandwiches',
+    Kabobs: 'Kabobs',
+    'Combo Plates': 'Combo Plates',
+    Drinks: 'Drinks',
+    Desserts: 'Desserts',
+  } as Record<MenuCategory, string>,
+  dietaryTags: DIETARY_TAG_LABELS,
+  allergens: ALLERGEN_LABELS,
+  menu: {
+    title: 'Our Menu',
+    subtitle: 'Explore our authentic Afghan dishes, each prepared with care and traditional flavors',
+    all: 'All',
+    searchPlaceholder: 'Search dishes, e.g. kobideh, chicken, vegan',
+    searchLabel: 'Search the menu',
+    clearSearch: 'Clear search',
+    dietary: 'Dietary:',
+    clear: 'Clear',
+    viewOptions: 'View Options →',
+    loading: 'Loading menu...',
+    loadError: "We couldn't load the menu right now. Please refresh or call us to order.",
+    noSearchResults: (query: string) => `No dishes match "${query}".`,
+    noDietaryResults: 'No items match these dietary filters.',
+    noCategoryResults: 'No items found in this category.',
+  },
+  availability: {
+    soldOut: 'Sold out',
+    soldOutUntil: (time: string) => `Sold out until ${time}`,
+    daily: 'Daily',
+  },
+  modifiers: {
+    required: 'Required',
+    optional: 'Optional',
+    choose: (count: number) => `Choose ${count}`,
+    chooseUpTo: (count: number) => `Choose up to ${count}`,
+    chooseAtLeast: (count: number) => `Choose at least ${count}`,
+    pleaseChooseOne: (group: string) => `Please choose a ${group.toLowerCase()}`,
+    pleaseChoose: (count: number, group: string) => `Please choose ${count} for ${group}`,
+    pleaseChooseAtLeast: (count: number, group: string) => `Please choose at least ${count} for ${group}`,
+    pleaseChooseAtMost: (count: number, group: string) => `Please choose at most ${count} for ${group}`,
+  },
+  itemModal: {
+    close: 'Close',
+    contains: 'Contains:',
+    removeModifications: 'Remove all modifications',
+    buildYourPlate: 'Build your plate',
+    quantity: 'Quantity',
+    total: 'Total',
+    soldOutNotice: (label: string) => `${label}. Please choose something else for now.`,
+    onlyAvailable: (schedule: string) => `Only available ${schedule}.`,
+    soldOut: 'Sold Out',
+    notAvailableNow: 'Not Available Now',
+    adding: 'Adding...',
+    saveChanges: 'Save Changes',
+    addToCart: 'Add to Cart',
+    specialInstructions: 'Special instructions (optional)',
+    specialInstructionsPlaceholder: 'e.g. well done, no onions',
+  },
+  cart: {
+    emptyTitle: 'Your Cart is Empty',
+    emptyText: 'Add some delicious items from our menu to get started!',
+    browseMenu: 'Browse Menu',
+    title: 'Your Cart',
+    options: 'Options:',
+    addOns: 'Add-ons:',
+    note: 'Note:',
+    goesWellWith: 'Goes well with',
+    add: 'Add',
+    checkout: 'Checkout',
+    reviewTotals: 'Review totals and add your details.',
+    proceedToCheckout: 'Proceed to Checkout',
+    shareCart: 'Share cart',
+    sharing: 'Creating link…',
+    shareLink: 'Share link',
+    shareLinkCopied: 'Link copied. Anyone with it can view, copy or continue this cart.',
+    shareFailed: "We couldn't create a share link. Please try again.",
+    sharedTitle: 'Shared cart',
+    sharedText: 'Someone shared this cart with you.',
+    continueShared: 'Continue this cart',
+    continueSharedHint: 'You and whoever shared it will edit the same cart.',
+    copyShared: 'Add to my cart',
+    notNow: 'Not now',
+    sharedNotFound: "That shared cart couldn't be found. It may have been removed.",
+    cartUpdatedTitle: 'Your cart was updated',
+    cartUpdatedText: 'The menu changed since these items were added:',
+    itemRemoved: (item: string) => `${item} is no longer on the menu and was removed.`,
+    priceChanged: (item: string, from: string, to: string) => `${item} is now ${to} (was ${from}).`,
+    optionsRemoved: (item: string, options: string) => `${options} is no longer available and was removed from ${item}.`,
+    itemNeedsOptions: (item: string) => `${item} was removed because its choices changed. Please add it again.`,
+  },
+  checkout: {
+    title: 'Checkout',
+    back: 'Back',
+    secureCheckout: 'Secure checkout',
+    customerInfo: 'Customer info',
+    firstName: 'First name *',
+    lastName: 'Last name *',
+    phone: 'Phone *',
+    email: 'Email (optional)',
+    tipAndNotes: 'Tip & notes',
+    optional: 'Optional',
+    tip: 'Tip',
+    tipAmount: 'Tip amount',
+    comments: 'Comments (optional)',
+    commentsPlaceholder: 'Notes for the kitchen',
+    subtotal: 'Subtotal',
+    discount: 'Discount',
+    promoCode: 'Promo code',
+    apply: 'Apply',
+    remove: 'Remove',
+    loyaltyPoints: 'Loyalty points',
+    pointsBalance: (points: number) => `You have ${points} points`,
+    pointsEarned: 'Earn 1 point for every $1 you spend.',
+    redeem: 'Redeem',
+    pointsNeeded: (points: number) => `${points} points`,
+    notEnoughPoints: (reward: string, points: number) => `${reward} needs ${points} points.`,
+    rewardOrPromo: 'Use either a reward or a promo code, not both.',
+    // Keyed by reward id (lib/loyalty.ts); orders and the kitchen keep the English name
+    rewardNames: {
+      'free-appetizer': 'Free appetizer',
+      'free-sandwich': 'Free sandwich',
+      'free-rice-dish': 'Free rice dish',
+    } as Record<string, string>,
+    rewardNeedsItem: (reward: string, category: string) => `Add an item from ${category} to your cart to use ${reward}.`,
+    tax: 'Tax',
+    total: 'Total',
+    processing: 'Processing...',
+    proceedToPayment: 'Proceed to Payment',
+    errors: {
+      emptyCart: 'Your cart is empty',
+      firstName: 'Please enter your first name',
+      lastName: 'Please enter your last name',
+      phone: 'Please enter your phone number',
+      phoneInvalid: 'Please enter a valid phone number (at least 10 digits)',
+      email: 'Please enter a valid email address',
+      failed: 'Failed to start checkout. Please try again.',
+    },
+  },
+  group: {
+    start: 'Start group order',
+    startHint: 'Coworkers add their own food under their name, and you check out once for everyone.',
+    yourName: 'Your name',
+    startButton: 'Start',
+    joinTitle: (host: string) => `${host}'s group order`,
+    joinText: 'Enter your name, then add your food from the menu. The host checks out for everyone.',
+    join: 'Join group order',
+    hostedBy: (host: string) => `Group order hosted by ${host}`,
+    orderingAs: (name: string) => `You're ordering as ${name}.`,
+    hostHint: 'Share the link with your group. Lock the group when everyone has added their food, then check out.',
+    lock: 'Lock group',
+    unlock: 'Unlock group',
+    locked: 'Locked for checkout',
+    lockedText: (host: string) => `${host} has locked the group for checkout, so items can't be changed now.`,
+    theHost: 'The host',
+    hostChecksOut: (host: string) => `${host} will check out for the whole group.`,
+    cartChanged: 'Someone changed their items. Please review the cart and check out again.',
+    leave: 'Leave group',
+    nameRequired: 'Please enter your name',
+    failed: 'Something went wrong with the group order. Please try again.',
+  },
+}
+
+export type Messages = typeof en
+
+const dari: Messages = {
+  nav: {
+    home: 'خانه',
+    menu: 'منو',
+    trackOrder: 'پیگیری سفارش',
+    cart: 'سبد خرید',
+    closeMenu: 'بستن منو',
+    toggleMenu: 'باز کردن منو',
+    language: 'زبان',
+  },
+  categories: {
+    Appetizers: 'پیش‌غذاها',
+    'Rice Dishes': 'غذاهای برنجی',
+    Sandwiches: 'ساندویچ‌ها',
+    Kabobs: 'کباب‌ها',
+    'Combo Plates': 'بشقاب‌های ترکیبی',
+    Drinks: 'نوشیدنی‌ها',
+    Desserts: 'دسرها',
+  },
+  dietaryTags: {
+    vegetarian: 'گیاهی',
+    vegan: 'وگن',
+    halal: 'حلال',
+    'gluten-free': 'بدون گلوتن',
+    spicy: 'تند',
+  },
+  allergens: {
+    milk: 'شیر',
+    eggs: 'تخم مرغ',
+    wheat: 'گندم',
+    soy: 'سویا',
+    sesame: 'کنجد',
+    peanuts: 'بادام زمینی',
+    'tree-nuts': 'مغزهای درختی',
+    fish: 'ماهی',
+    shellfish: 'صدف و میگو',
+  },
+  menu: {
+    title: 'منوی ما',
+    subtitle: 'غذاهای اصیل افغانی ما را ببینید که هر کدام با دقت و طعم‌های سنتی آماده می‌شوند',
+    all: 'همه',
+    searchPlaceholder: 'جستجوی غذا، مثلاً کوبیده، مرغ، گیاهی',
+    searchLabel: 'جستجو در منو',
+    clearSearch: 'پاک کردن جستجو',
+    dietary: 'رژیم غذایی:',
+    clear: 'پاک کردن',
+    viewOptions: 'دیدن گزینه‌ها ←',
+    loading: 'در حال بارگذاری منو...',
+    loadError: 'فعلاً نتوانستیم منو را بارگذاری کنیم. لطفاً صفحه را تازه کنید یا برای سفارش به ما زنگ بزنید.',
+    noSearchResults: (query) => `هیچ غذایی با «${query}» پیدا نشد.`,
+    noDietaryResults: 'هیچ غذایی با این فیلترهای رژیمی مطابقت ندارد.',
+    noCategoryResults: 'در این دسته غذایی پیدا نشد.',
+  },
+  availability: {
+    soldOut: 'تمام شد',
+    soldOutUntil: (time) => `تا ${time} تمام است`,
+    daily: 'هر روز',
+  },
+  modifiers: {
+    required: 'الزامی',
+    optional: 'اختیاری',
+    choose: (count) => `${count} مورد انتخاب کنید`,
+    chooseUpTo: (count) => `تا ${count} مورد انتخاب کنید`,
+    chooseAtLeast: (count) => `حداقل ${count} مورد انتخاب کنید`,
+    pleaseChooseOne: (group) => `لطفاً «${group}» را انتخاب کنید`,
+    pleaseChoose: (count, group) => `لطفاً ${count} مورد برای «${group}» انتخاب کنید`,
+    pleaseChooseAtLeast: (count, group) => `لطفاً حداقل ${count} مورد برای «${group}» انتخاب کنید`,
+    pleaseChooseAtMost: (count, group) => `لطفاً حداکثر ${count} مورد برای «${group}» انتخاب کنید`,
+  },
+  itemModal: {
+    close: 'بستن',
+    contains: 'دارای:',
+    removeModifications: 'حذف همه تغییرات',
+    buildYourPlate: 'بشقاب خود را بسازید',
+    quantity: 'تعداد',
+    total: 'مجموع',
+    soldOutNotice: (label) => `${label}. لطفاً فعلاً چیز دیگری انتخاب کنید.`,
+    onlyAvailable: (schedule) => `فقط ${schedule} موجود است.`,
+    soldOut: 'تمام شد',
+    notAvailableNow: 'فعلاً موجود نیست',
+    adding: 'در حال افزودن...',
+    saveChanges: 'ذخیره تغییرات',
+    addToCart: 'افزودن به سبد',
+    specialInstructions: 'دستور ویژه (اختیاری)',
+    specialInstructionsPlaceholder: 'مثلاً خوب پخته، بدون پیاز',
+  },
+  cart: {
+    emptyTitle: 'سبد خرید شما خالی است',
+    emptyText: 'برای شروع، غذاهای خوشمزه را از منوی ما اضافه کنید!',
+    browseMenu: 'دیدن منو',
+    title: 'سبد خرید شما',
+    options: 'گزینه‌ها:',
+    addOns: 'افزودنی‌ها:',
+    note: 'یادداشت:',
+    goesWellWith: 'همراه با این‌ها خوب است',
+    add: 'افزودن',
+    checkout: 'پرداخت',
+    reviewTotals: 'مجموع را بررسی کنید و مشخصات خود را وارد کنید.',
+    proceedToCheckout: 'ادامه به پرداخت',
+    shareCart: 'اشتراک‌گذاری سبد',
+    sharing: 'در حال ساختن لینک…',
+    shareLink: 'لینک اشتراک',
+    shareLinkCopied: 'لینک کپی شد. هر کسی که آن را داشته باشد می‌تواند این سبد را ببیند، کپی کند یا ادامه دهد.',
+    shareFailed: 'ساختن لینک اشتراک ممکن نشد. لطفاً دوباره امتحان کنید.',
+    sharedTitle: 'سبد مشترک',
+    sharedText: 'کسی این سبد را با شما به اشتراک گذاشته است.',
+    continueShared: 'ادامهٔ همین سبد',
+    continueSharedHint: 'شما و کسی که آن را فرستاده، یک سبد را ویرایش می‌کنید.',
+    copyShared: 'افزودن به سبد من',
+    notNow: 'حالا نه',
+    sharedNotFound: 'این سبد مشترک پیدا نشد. شاید حذف شده باشد.',
+    cartUpdatedTitle: 'سبد خرید شما به‌روز شد',
+    cartUpdatedText: 'پس از افزودن این غذاها، منو تغییر کرده است:',
+    itemRemoved: (item: string) => `${item} دیگر در منو نیست و حذف شد.`,
+    priceChanged: (item: string, from: string, to: string) => `قیمت ${item} اکنون ${to} است (قبلاً ${from}).`,
+    optionsRemoved: (item: string, options: string) => `${options} دیگر موجود نیست و از ${item} حذف شد.`,
+    itemNeedsOptions: (item: string) => `${item} حذف شد چون گزینه‌های آن تغییر کرده است. لطفاً دوباره اضافه کنید.`,
+  },
+  checkout: {
+    title: 'پرداخت',
+    back: 'بازگشت',
+    secureCheckout: 'پرداخت امن',
+    customerInfo: 'مشخصات مشتری',
+    firstName: 'نام *',
+    lastName: 'تخلص *',
+    phone: 'شماره تلفن *',
+    email: 'ایمیل (اختیاری)',
+    tipAndNotes: 'انعام و یادداشت',
+    optional: 'اختیاری',
+    tip: 'انعام',
+    tipAmount: 'مقدار انعام',
+    comments: 'توضیحات (اختیاری)',
+    commentsPlaceholder: 'یادداشت برای آشپزخانه',
+    subtotal: 'جمع جزء',
+    discount: 'تخفیف',
+    promoCode: 'کد تخفیف',
+    apply: 'اعمال',
+    remove: 'حذف',
+    loyaltyPoints: 'امتیازهای وفاداری',
+    pointsBalance: (points: number) => `شما ${points} امتیاز دارید`,
+    pointsEarned: 'برای هر ۱ دالر خرید ۱ امتیاز بگیرید.',
+    redeem: 'استفاده',
+    pointsNeeded: (points: number) => `${points} امتیاز`,
+    notEnoughPoints: (reward: string, points: number) => `${reward} به ${points} امتیاز نیاز دارد.`,
+    rewardOrPromo: 'جایزه را نمی‌توان با کد تخفیف یکجا استفاده کرد.',
+    rewardNames: {
+      'free-appetizer': 'پیش‌غذای رایگان',
+      'free-sandwich': 'ساندویچ رایگان',
+      'free-rice-dish': 'غذای برنجی رایگان',
+    },
+    rewardNeedsItem: (reward: string, category: string) =>
+      `برای استفاده از ${reward}، یک قلم از ${category} را به سبد خود اضافه کنید.`,
+    tax: 'مالیات',
+    total: 'مجموع',
+    processing: 'در حال پردازش...',
+    proceedToPayment: 'رفتن به پرداخت',
+    errors: {
+      emptyCart: 'سبد خرید شما خالی است',
+      firstName: 'لطفاً نام خود را وارد کنید',
+      lastName: 'لطفاً تخلص خود را وارد کنید',
+      phone: 'لطفاً شماره تلفن خود را وارد کنید',
+      phoneInvalid: 'لطفاً یک شماره تلفن معتبر وارد کنید (حداقل ۱۰ رقم)',
+      email: 'لطفاً یک ایمیل معتبر وارد کنید',
+      failed: 'شروع پرداخت ممکن نشد. لطفاً دوباره تلاش کنید.',
+    },
+  },
+  group: {
+    start: 'شروع سفارش گروهی',
+    startHint: 'همکاران غذای خود را به نام خودشان اضافه می‌کنند و شما یک بار برای همه پرداخت می‌کنید.',
+    yourName: 'نام شما',
+    startButton: 'شروع',
+    joinTitle: (host: string) => `سفارش گروهی ${host}`,
+    joinText: 'نام خود را وارد کنید و بعد غذای خود را از منو اضافه کنید. میزبان برای همه پرداخت می‌کند.',
+    join: 'پیوستن به سفارش گروهی',
+    hostedBy: (host: string) => `سفارش گروهی به میزبانی ${host}`,
+    orderingAs: (name: string) => `شما به نام ${name} سفارش می‌دهید.`,
+    hostHint: 'لینک را با گروه خود به اشتراک بگذارید. وقتی همه غذای خود را اضافه کردند، گروه را قفل کنید و پرداخت کنید.',
+    lock: 'قفل کردن گروه',
+    unlock: 'باز کردن گروه',
+    locked: 'برای پرداخت قفل شده',
+    lockedText: (host: string) => `${host} گروه را برای پرداخت قفل کرده است، پس اکنون نمی‌توان اقلام را تغییر داد.`,
+    theHost: 'میزبان',
+    hostChecksOut: (host: string) => `${host} برای همهٔ گروه پرداخت می‌کند.`,
+    cartChanged: 'کسی اقلام خود را تغییر داد. لطفاً سبد را بررسی کنید و دوباره پرداخت کنید.',
+    leave: 'ترک گروه',
+    nameRequired: 'لطفاً نام خود را وارد کنید',
+    failed: 'در سفارش گروهی مشکلی پیش آمد. لطفاً دوباره امتحان کنید.',
+  },
+}
+
+const pashto: Messages = {
+  nav: {
+    home: 'کور',
+    menu: 'مینو',
+    trackOrder: 'د فرمایش تعقیب',
+    cart: 'ټوکرۍ',
+    closeMenu: 'مینو وتړئ',
+    toggleMenu: 'مینو پرانیزئ',
+    language: 'ژبه',
+  },
+  categories: {
+    Appetizers: 'پیل خواړه',
+    'Rice Dishes': 'د وريجو خواړه',
+    Sandwiches: 'سانډویچونه',
+    Kabobs: 'کبابونه',
+    'Combo Plates': 'ګډ پلیټونه',
+    Drinks: 'څښاک',
+    Desserts: 'خوږې',
+  },
+  dietaryTags: {
+    vegetarian: 'سبزیجاتي',
+    vegan: 'ویګن',
+    halal: 'حلال',
+    'gluten-free': 'بې ګلوټنه',
+    spicy: 'تریخ',
+  },
+  allergens: {
+    milk: 'شیدې',
+    eggs: 'هګۍ',
+    wheat: 'غنم',
+    soy: 'سویا',
+    sesame: 'کونجد',
+    peanuts: 'مومپلي',
+    'tree-nuts': 'مغزیات',
+    fish: 'کب',
+    shellfish: 'سمندري صدف',
+  },
+  menu: {
+    title: 'زموږ مینو',
+    subtitle: 'زموږ اصلي افغاني خواړه وګورئ چې هر یو په پاملرنه او دودیزو خوندونو چمتو شوی',
+    all: 'ټول',
+    searchPlaceholder: 'خواړه ولټوئ، لکه کوبیده، چرګ، ویګن',
+    searchLabel: 'په مینو کې لټون',
+    clearSearch: 'لټون پاک کړئ',
+    dietary: 'غذايي رژیم:',
+    clear: 'پاک کړئ',
+    viewOptions: 'انتخابونه وګورئ ←',
+    loading: 'مینو بارېږي...',
+    loadError: 'اوس مو مینو نه شو بارولی. مهرباني وکړئ پاڼه تازه کړئ یا د فرمایش لپاره موږ ته زنګ ووهئ.',
+    noSearchResults: (query) => `د «${query}» لپاره هیڅ خواړه ونه موندل شول.`,
+    noDietaryResults: 'هیڅ خواړه له دې رژیمي فلټرونو سره سمون نه لري.',
+    noCategoryResults: 'په دې کټګورۍ کې هیڅ خواړه ونه موندل شول.',
+  },
+  availability: {
+    soldOut: 'خلاص شو',
+    soldOutUntil: (time) => `تر ${time} پورې خلاص دی`,
+    daily: 'هره ورځ',
+  },
+  modifiers: {
+    required: 'اړین',
+    optional: 'اختیاري',
+    choose: (count) => `${count} وټاکئ`,
+    chooseUpTo: (count) => `تر ${count} پورې وټاکئ`,
+    chooseAtLeast: (count) => `لږ تر لږه ${count} وټاکئ`,
+    pleaseChooseOne: (group) => `مهرباني وکړئ «${group}» وټاکئ`,
+    pleaseChoose: (count, group) => `مهرباني وکړئ د «${group}» لپاره ${count} وټاکئ`,
+    pleaseChooseAtLeast: (count, group) => `مهرباني وکړئ د «${group}» لپاره لږ تر لږه ${count} وټاکئ`,
+    pleaseChooseAtMost: (count, group) => `مهرباني وکړئ د «${group}» لپاره تر ${count} ډېر مه ټاکئ`,
+  },
+  itemModal: {
+    close: 'بندول',
+    contains: 'لري:',
+    removeModifications: 'ټول بدلونونه لرې کړئ',
+    buildYourPlate: 'خپل پلیټ جوړ کړئ',
+    quantity: 'شمېر',
+    total: 'ټول',
+    soldOutNotice: (label) => `${label}. مهرباني وکړئ اوس بل څه وټاکئ.`,
+    onlyAvailable: (schedule) => `یوازې ${schedule} شتون لري.`,
+    soldOut: 'خلاص شو',
+    notAvailableNow: 'اوس نشته',
+    adding: 'اضافه کېږي...',
+    saveChanges: 'بدلونونه خوندي کړئ',
+    addToCart: 'ټوکرۍ ته اضافه کړئ',
+    specialInstructions: 'ځانګړې لارښوونې (اختیاري)',
+    specialInstructionsPlaceholder: 'لکه ښه پوخ، پرته له پیازو',
+  },
+  cart: {
+    emptyTitle: 'ستاسو ټوکرۍ خالي ده',
+    emptyText: 'د پیل لپاره زموږ له مینو څخه خوندور خواړه اضافه کړئ!',
+    browseMenu: 'مینو وګورئ',
+    title: 'ستاسو ټوکرۍ',
+    options: 'انتخابونه:',
+    addOns: 'اضافي توکي:',
+    note: 'یادښت:',
+    goesWellWith: 'له دې سره ښه ځي',
+    add: 'اضافه کول',
+    checkout: 'تادیه',
+    reviewTotals: 'ټول حساب وګورئ او خپل معلومات ولیکئ.',
+    proceedToCheckout: 'تادیې ته دوام ورکړئ',
+    shareCart: 'ټوکرۍ شریکه کړئ',
+    sharing: 'لینک جوړېږي…',
+    shareLink: 'د شریکولو لینک',
+    shareLinkCopied: 'لینک کاپي شو. هر څوک چې دا ولري کولی شي دا ټوکرۍ وګوري، کاپي یې کړي یا یې دوام ورکړي.',
+    shareFailed: 'د شریکولو لینک جوړ نشو. مهرباني وکړئ بیا هڅه وکړئ.',
+    sharedTitle: 'شریکه ټوکرۍ',
+    sharedText: 'چا دا ټوکرۍ له تاسو سره شریکه کړې ده.',
+    continueShared: 'همدا ټوکرۍ دوام کړئ',
+    continueSharedHint: 'تاسو او هغه څوک چې دا یې شریکه کړې، یوه ټوکرۍ سموئ.',
+    copyShared: 'زما ټوکرۍ ته یې اضافه کړئ',
+    notNow: 'اوس نه',
+    sharedNotFound: 'دا شریکه ټوکرۍ ونه موندل شوه. کېدای شي لرې شوې وي.',
+    cartUpdatedTitle: 'ستاسو ټوکرۍ تازه شوه',
+    cartUpdatedText: 'د دې خوړو له اضافه کولو وروسته مینو بدله شوې ده:',
+    itemRemoved: (item: string) => `${item} نور په مینو کې نشته او لرې شو.`,
+    priceChanged: (item: string, from: string, to: string) => `د ${item} بیه اوس ${to} ده (مخکې ${from}).`,
+    optionsRemoved: (item: string, options: string) => `${options} نور شتون نه لري او له ${item} څخه لرې شو.`,
+    itemNeedsOptions: (item: string) => `${item} لرې شو ځکه چې انتخابونه یې بدل شوي. مهرباني وکړئ بیا یې اضافه کړئ.`,
+  },
+  checkout: {
+    title: 'تادیه',
+    back: 'شاته',
+    secureCheckout: 'خوندي تادیه',
+    customerInfo: 'د پیرودونکي معلومات',
+    firstName: 'نوم *',
+    lastName: 'تخلص *',
+    phone: 'د تلیفون شمېره *',
+    email: 'برېښنالیک (اختیاري)',
+    tipAndNotes: 'بخشش او یادښتونه',
+    optional: 'اختیاري',
+    tip: 'بخشش',
+    tipAmount: 'د بخشش اندازه',
+    comments: 'تبصرې (اختیاري)',
+    commentsPlaceholder: 'د پخلنځي لپاره یادښت',
+    subtotal: 'فرعي مجموعه',
+    discount: 'تخفیف',
+    promoCode: 'د تخفیف کوډ',
+    apply: 'پلي کړئ',
+    remove: 'لرې کړئ',
+    loyaltyPoints: 'د وفادارۍ نمرې',
+    pointsBalance: (points: number) => `تاسو ${points} نمرې لرئ`,
+    pointsEarned: 'د هر ۱ ډالر پیرود لپاره ۱ نمره ترلاسه کړئ.',
+    redeem: 'وکاروئ',
+    pointsNeeded: (points: number) => `${points} نمرې`,
+    notEnoughPoints: (reward: string, points: number) => `${reward} ته ${points} نمرو ته اړتیا ده.`,
+    rewardOrPromo: 'انعام د تخفیف له کوډ سره یوځای نشي کارېدای.',
+    rewardNames: {
+      'free-appetizer': 'وړیا پیل خواړه',
+      'free-sandwich': 'وړیا سانډویچ',
+      'free-rice-dish': 'د وريجو وړیا خواړه',
+    },
+    rewardNeedsItem: (reward: string, category: string) =>
+      `د ${reward} کارولو لپاره، له ${category} څخه یو توکی خپلې ټوکرۍ ته ور اضافه کړئ.`,
+    tax: 'مالیه',
+    total: 'ټول',
+    processing: 'پروسس کېږي...',
+    proceedToPayment: 'تادیې ته لاړ شئ',
+    errors: {
+      emptyCart: 'ستاسو ټوکرۍ خالي ده',
+      firstName: 'مهرباني وکړئ خپل نوم ولیکئ',
+      lastName: 'مهرباني وکړئ خپل تخلص ولیکئ',
+      phone: 'مهرباني وکړئ د تلیفون شمېره ولیکئ',
+      phoneInvalid: 'مهرباني وکړئ سمه د تلیفون شمېره ولیکئ (لږ تر لږه ۱۰ عددونه)',
+      email: 'مهرباني وکړئ سم برېښنالیک ولیکئ',
+      failed: 'تادیه پیل نه شوه. مهرباني وکړئ بیا هڅه وکړئ.',
+    },
+  },
+  group: {
+    start: 'ډله‌ییز فرمایش پیل کړئ',
+    startHint: 'همکاران خپل خواړه د خپل نوم لاندې اضافه کوي، او تاسو د ټولو لپاره یو ځل تادیه کوئ.',
+    yourName: 'ستاسو نوم',
+    startButton: 'پیل',
+    joinTitle: (host: string) => `د ${host} ډله‌ییز فرمایش`,
+    joinText: 'خپل نوم ولیکئ، بیا له مینو څخه خپل خواړه اضافه کړئ. کوربه د ټولو لپاره تادیه کوي.',
+    join: 'ډله‌ییز فرمایش ته ورګډ شئ',
+    hostedBy: (host: string) => `ډله‌ییز فرمایش، کوربه: ${host}`,
+    orderingAs: (name: string) => `تاسو د ${name} په نوم فرمایش ورکوئ.`,
+    hostHint: 'لینک له خپلې ډلې سره شریک کړئ. کله چې ټولو خپل خواړه اضافه کړل، ډله قفل کړئ او تادیه وکړئ.',
+    lock: 'ډله قفل کړئ',
+    unlock: 'ډله خلاصه کړئ',
+    locked: 'د تادیې لپاره قفل ده',
+    lockedText: (host: string) => `${host} ډله د تادیې لپاره قفل کړې ده، نو اوس توکي نشي بدلېدای.`,
+    theHost: 'کوربه',
+    hostChecksOut: (host: string) => `${host} به د ټولې ډلې لپاره تادیه وکړي.`,
+    cartChanged: 'چا خپل توکي بدل کړل. مهرباني وکړئ ټوکرۍ وګورئ او بیا تادیه وکړئ.',
+    leave: 'له ډلې ووځئ',
+    nameRequired: 'مهرباني وکړئ خپل نوم ولیکئ',
+    failed: 'په ډله‌ییز فرمایش کې ستونزه رامنځته شوه. مهرباني وکړئ بیا هڅه وکړئ.',
+  },
+}
+
+const spanish: Messages = {
+  nav: {
+    home: 'Inicio',
+    menu: 'Menú',
+    trackOrder: 'Seguir pedido',
+    cart: 'Carrito',
+    closeMenu: 'Cerrar menú',
+    toggleMenu: 'Abrir menú',
+    language: 'Idioma',
+  },
+  categories: {
+    Appetizers: 'Entradas',
+    'Rice Dishes': 'Platos con arroz',
+    Sandwiches: 'Sándwiches',
+    Kabobs: 'Kebabs',
+    'Combo Plates': 'Platos combinados',
+    Drinks: 'Bebidas',
+    Desserts: 'Postres',
+  },
+  dietaryTags: {
+    vegetarian: 'Vegetariano',
+    vegan: 'Vegano',
+    halal: 'Halal',
+    'gluten-free': 'Sin gluten',
+    spicy: 'Picante',
+  },
+  allergens: {
+    milk: 'Leche',
+    eggs: 'Huevo',
+    wheat: 'Trigo',
+    soy: 'Soya',
+    sesame: 'Ajonjolí',
+    peanuts: 'Cacahuate',
+    'tree-nuts': 'Nueces',
+    fish: 'Pescado',
+    shellfish: 'Mariscos',
+  },
+  menu: {
+    title: 'Nuestro menú',
+    subtitle: 'Descubre nuestros auténticos platillos afganos, cada uno preparado con cuidado y sabores tradicionales',
+    all: 'Todo',
+    searchPlaceholder: 'Busca platillos, p. ej. kobideh, pollo, vegano',
+    searchLabel: 'Buscar en el menú',
+    clearSearch: 'Borrar búsqueda',
+    dietary: 'Dieta:',
+    clear: 'Quitar',
+    viewOptions: 'Ver opciones →',
+    loading: 'Cargando menú...',
+    loadError: 'No pudimos cargar el menú en este momento. Actualiza la página o llámanos para ordenar.',
+    noSearchResults: (query) => `Ningún platillo coincide con "${query}".`,
+    noDietaryResults: 'Ningún platillo coincide con estos filtros.',
+    noCategoryResults: 'No hay platillos en esta categoría.',
+  },
+  availability: {
+    soldOut: 'Agotado',
+    soldOutUntil: (time) => `Agotado hasta las ${time}`,
+    daily: 'Todos los días',
+  },
+  modifiers: {
+    required: 'Obligatorio',
+    optional: 'Opcional',
+    choose: (count) => `Elige ${count}`,
+    chooseUpTo: (count) => `Elige hasta ${count}`,
+    chooseAtLeast: (count) => `Elige al menos ${count}`,
+    pleaseChooseOne: (group) => `Elige una opción de ${group}`,
+    pleaseChoose: (count, group) => `Elige ${count} en ${group}`,
+    pleaseChooseAtLeast: (count, group) => `Elige al menos ${count} en ${group}`,
+    pleaseChooseAtMost: (count, group) => `Elige como máximo ${count} en ${group}`,
+  },
+  itemModal: {
+    close: 'Cerrar',
+    contains: 'Contiene:',
+    removeModifications: 'Quitar todas las modificaciones',
+    buildYourPlate: 'Arma tu plato',
+    quantity: 'Cantidad',
+    total: 'Total',
+    soldOutNotice: (label) => `${label}. Por ahora elige otro platillo.`,
+    onlyAvailable: (schedule) => `Solo disponible ${schedule}.`,
+    soldOut: 'Agotado',
+    notAvailableNow: 'No disponible ahora',
+    adding: 'Agregando...',
+    saveChanges: 'Guardar cambios',
+    addToCart: 'Agregar al carrito',
+    specialInstructions: 'Instrucciones especiales (opcional)',
+    specialInstructionsPlaceholder: 'p. ej. bien cocido, sin cebolla',
+  },
+  cart: {
+    emptyTitle: 'Tu carrito está vacío',
+    emptyText: '¡Agrega platillos deliciosos de nuestro menú para empezar!',
+    browseMenu: 'Ver el menú',
+    title: 'Tu carrito',
+    options: 'Opciones:',
+    addOns: 'Extras:',
+    note: 'Nota:',
+    goesWellWith: 'Va bien con',
+    add: 'Agregar',
+    checkout: 'Pagar',
+    reviewTotals: 'Revisa los totales y agrega tus datos.',
+    proceedToCheckout: 'Continuar al pago',
+    shareCart: 'Compartir carrito',
+    sharing: 'Creando enlace…',
+    shareLink: 'Enlace para compartir',
+    shareLinkCopied: 'Enlace copiado. Cualquiera que lo tenga puede ver, copiar o continuar este carrito.',
+    shareFailed: 'No pudimos crear el enlace. Inténtalo de nuevo.',
+    sharedTitle: 'Carrito compartido',
+    sharedText: 'Alguien compartió este carrito contigo.',
+    continueShared: 'Continuar este carrito',
+    continueSharedHint: 'Tú y quien lo compartió editarán el mismo carrito.',
+    copyShared: 'Agregar a mi carrito',
+    notNow: 'Ahora no',
+    sharedNotFound: 'No encontramos ese carrito compartido. Puede que se haya eliminado.',
+    cartUpdatedTitle: 'Tu carrito se actualizó',
+    cartUpdatedText: 'El menú cambió desde que agregaste estos productos:',
+    itemRemoved: (item: string) => `${item} ya no está en el menú y se eliminó.`,
+    priceChanged: (item: string, from: string, to: string) => `${item} ahora cuesta ${to} (antes ${from}).`,
+    optionsRemoved: (item: string, options: string) => `${options} ya no está disponible y se quitó de ${item}.`,
+    itemNeedsOptions: (item: string) => `${item} se eliminó porque sus opciones cambiaron. Agrégalo de nuevo.`,
+  },
+  checkout: {
+    title: 'Pago',
+    back: 'Volver',
+    secureCheckout: 'Pago seguro',
+    customerInfo: 'Tus datos',
+    firstName: 'Nombre *',
+    lastName: 'Apellido *',
+    phone: 'Teléfono *',
+    email: 'Correo electrónico (opcional)',
+    tipAndNotes: 'Propina y notas',
+    optional: 'Opcional',
+    tip: 'Propina',
+    tipAmount: 'Monto de propina',
+    comments: 'Comentarios (opcional)',
+    commentsPlaceholder: 'Notas para la cocina',
+    subtotal: 'Subtotal',
+    discount: 'Descuento',
+    promoCode: 'Código promocional',
+    apply: 'Aplicar',
+    remove: 'Quitar',
+    loyaltyPoints: 'Puntos de lealtad',
+    pointsBalance: (points: number) => `Tienes ${points} puntos`,
+    pointsEarned: 'Gana 1 punto por cada $1 que gastes.',
+    redeem: 'Canjear',
+    pointsNeeded: (points: number) => `${points} puntos`,
+    notEnoughPoints: (reward: string, points: number) => `${reward} requiere ${points} puntos.`,
+    rewardOrPromo: 'Una recompensa no se puede combinar con un código promocional.',
+    rewardNames: {
+      'free-appetizer': 'Entrada gratis',
+      'free-sandwich': 'Sándwich gratis',
+      'free-rice-dish': 'Plato con arroz gratis',
+    },
+    rewardNeedsItem: (reward: string, category: string) =>
+      `Agrega un artículo de ${category} a tu carrito para usar ${reward}.`,
+    tax: 'Impuesto',
+    total: 'Total',
+    processing: 'Procesando...',
+    proceedToPayment: 'Continuar al pago',
+    errors: {
+      emptyCart: 'Tu carrito está vacío',
+      firstName: 'Escribe tu nombre',
+      lastName: 'Escribe tu apellido',
+      phone: 'Escribe tu número de teléfono',
+      phoneInvalid: 'Escribe un número de teléfono válido (al menos 10 dígitos)',
+      email: 'Escribe un correo electrónico válido',
+      failed: 'No pudimos iniciar el pago. Inténtalo de nuevo.',
+    },
+  },
+  group: {
+    start: 'Iniciar pedido grupal',
+    startHint: 'Tus compañeros agregan su comida con su nombre y tú pagas una sola vez por todos.',
+    yourName: 'Tu nombre',
+    startButton: 'Iniciar',
+    joinTitle: (host: string) => `Pedido grupal de ${host}`,
+    joinText: 'Escribe tu nombre y agrega tu comida desde el menú. El anfitrión paga por todos.',
+    join: 'Unirme al pedido grupal',
+    hostedBy: (host: string) => `Pedido grupal organizado por ${host}`,
+    orderingAs: (name: string) => `Estás pidiendo como ${name}.`,
+    hostHint: 'Comparte el enlace con tu grupo. Cuando todos hayan agregado su comida, bloquea el grupo y paga.',
+    lock: 'Bloquear grupo',
+    unlock: 'Desbloquear grupo',
+    locked: 'Bloqueado para pagar',
+    lockedText: (host: string) => `${host} bloqueó el grupo para pagar, así que ya no se pueden cambiar los platillos.`,
+    theHost: 'El anfitrión',
+    hostChecksOut: (host: string) => `${host} pagará por todo el grupo.`,
+    cartChanged: 'Alguien cambió sus platillos. Revisa el carrito y vuelve a pagar.',
+    leave: 'Salir del grupo',
+    nameRequired: 'Escribe tu nombre',
+    failed: 'Algo salió mal con el pedido grupal. Inténtalo de nuevo.',
+  },
+}
+
+export const messages: Record<Locale, Messages> = {
+  en,
+  'fa-AF': dari,
+  ps: pashto,
+  es: spanish,
+}
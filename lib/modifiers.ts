@@ -0,0 +1,198 @@
+import { isModifierOptionAvailable } from './availability'
+import { Messages, messages } from './messages'
+import { sumCents, toCents } from './money'
+import { CartItem, CartModifierSelection, MenuItemModifierAssignment, ModifierGroup } from './types'
+
+// Modifier selections are keyed by group id -> selected option ids.
+export type ModifierSelections = Record<string, string[]>
+
+type ModifierMessages = Messages['modifiers']
+
+/**
+ * Build an item's modifier groups from its assignments (in assignment order),
+ * limiting each group to the assigned option subset.
+ */
+export const resolveModifierGroups = (
+  menuItemId: string,
+  groups: ModifierGroup[],
+  assignments: MenuItemModifierAssignment[]
+): ModifierGroup[] =>
+  assignments
+    .filter((assignment) => assignment.menu_item_id === menuItemId)
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .flatMap((assignment) => {
+      const group = groups.find((g) => g.id === assignment.group_id)
+      if (!group) return []
+      const options = assignment.option_ids
+        ? group.options.filter((option) => assignment.option_ids!.includes(option.id))
+        : group.options
+      return options.length > 0 ? [{ ...group, options }] : []
+    })
+
+export const isSingleSelectGroup = (group: ModifierGroup): boolean => group.max_selections === 1
+
+/**
+ * Short hint for the modal heading, e.g. "Required · Choose 1" or "Optional · Choose up to 2"
+ */
+export const describeModifierGroup = (group: ModifierGroup, t: ModifierMessages = messages.en.modifiers): string => {
+  const requirement = group.min_selections > 0 ? t.required : t.optional
+  const max = group.max_selections
+  if (max === 1) return `${requirement} · ${t.choose(1)}`
+  if (max !== null && max === group.min_selections) return `${requirement} · ${t.choose(max)}`
+  if (max !== null) return `${requirement} · ${t.chooseUpTo(max)}`
+  if (group.min_selections > 1) return `${requirement} · ${t.chooseAtLeast(group.min_selections)}`
+  return requirement
+}
+
+/**
+ * Required single-choice groups start on their first in-stock option so the customer can add in one tap.
+ */
+export const getDefaultSelections = (groups: ModifierGroup[]): ModifierSelections => {
+  const selections: ModifierSelections = {}
+  groups.forEach((group) => {
+    const firstAvailable = group.options.find(isModifierOptionAvailable)
+    selections[group.id] =
+      group.min_selections > 0 && isSingleSelectGroup(group) && firstAvailable ? [firstAvailable.id] : []
+  })
+  return selections
+}
+
+/**
+ * Restore selections for editing a cart line. Lines saved before modifier groups existed only have
+ * selectedOptions/selectedAddons labels, so those are matched by label.
+ */
+export const getSelectionsForCartItem = (
+  groups: ModifierGroup[],
+  cartItem: Pick<CartItem, 'modifiers' | 'selectedOptions' | 'selectedAddons'>
+): ModifierSelections => {
+  const selections: ModifierSelections = {}
+  const legacyLabels = new Set(
+    [...(cartItem.selectedOptions || []), ...(cartItem.selectedAddons || []).map((addon) => addon.name)].map(
+      (label) => label.toLowerCase()
+    )
+  )
+
+  groups.forEach((group) => {
+    const picked = group.options.filter((option) =>
+      cartItem.modifiers && cartItem.modifiers.length > 0
+        ? cartItem.modifiers.some((m) => m.group_id === group.id && m.option_id === option.id)
+        : legacyLabels.has(option.label.toLowerCase())
+    )
+    selections[group.id] = picked.map((option) => option.id)
+  })
+
+  // Fill in defaults for required groups the old line didn't cover
+  const defaults = getDefaultSelections(groups)
+  groups.forEach((group) => {
+    if (selections[group.id].length === 0) selections[group.id] = defaults[group.id]
+  })
+
+  return selections
+}
+
+/**
+ * Toggle an option, respecting the group's max (single-select groups behave like radios).
+ * Sold-out options can be deselected but not selected.
+ */
+export const toggleModifierOption = (
+  group: ModifierGroup,
+  selections: ModifierSelections,
+  optionId: string
+): ModifierSelections => {
+  const current = selections[group.id] || []
+  const option = group.options.find((o) => o.id === optionId)
+  if (!option || (!current.includes(optionId) && !isModifierOptionAvailable(option))) {
+    return selections
+  }
+  if (isSingleSelectGroup(group)) {
+    if (current.includes(optionId) && group.min_selections === 0) {
+      return { ...selections, [group.id]: [] }
+    }
+    return { ...selections, [group.id]: [optionId] }
+  }
+  if (current.includes(optionId)) {
+    return { ...selections, [group.id]: current.filter((id) => id !== optionId) }
+  }
+  if (group.max_selections !== null && current.length >= group.max_selections) {
+    return selections
+  }
+  return { ...selections, [group.id]: [...current, optionId] }
+}
+
+/**
+ * Returns an error message for the first group whose selection count is out of bounds, else null.
+ */
+export const validateModifierSelections = (
+  groups: ModifierGroup[],
+  selections: ModifierSelections,
+  t: ModifierMessages = messages.en.modifiers
+): string | null => {
+  for (const group of groups) {
+    const selected = (selections[group.id] || []).filter((id) =>
+      group.options.some((option) => option.id === id)
+    )
+    if (selected.length < group.min_selections) {
+      if (group.min_selections === 1) return t.pleaseChooseOne(group.name)
+      return group.max_selections === group.min_selections
+        ? t.pleaseChoose(group.min_selections, group.name)
+        : t.pleaseChooseAtLeast(group.min_selections, group.name)
+    }
+    if (group.max_selections !== null && selected.length > group.max_selections) {
+      return t.pleaseChooseAtMost(group.max_selections, group.name)
+    }
+  }
+  return null
+}
+
+/**
+ * Structured selections for a cart line, in group order then option order.
+ */
+export const toCartModifiers = (
+  groups: ModifierGroup[],
+  selections: ModifierSelections
+): CartModifierSelection[] =>
+  groups.flatMap((group) =>
+    group.options
+      .filter((option) => (selections[group.id] || []).includes(option.id))
+      .map((option) => ({
+        group_id: group.id,
+        group_name: group.name,
+        option_id: option.id,
+        label: option.label,
+        price: option.price,
+      }))
+  )
+
+export const getModifiersTotalCents = (modifiers: CartModifierSelection[]): number =>
+  sumCents(modifiers.map((modifier) => toCents(modifier.price)))
+
+/**
+ * Display fields derived from modifiers: free choices become options, paid ones become add-ons.
+ */
+export const splitCartModifiers = (modifiers: CartModifierSelection[]) => ({
+  selectedOptions: modifiers.filter((m) => m.price <= 0).map((m) => m.label),
+  selectedAddons: modifiers.filter((m) => m.price > 0).map((m) => ({ name: m.label, price: m.price })),
+})
+
+/**
+ * Selections grouped under their group name, in selection order, e.g. for a combo plate:
+ * [{ name: 'Proteins', modifiers: [...] }, { name: 'Side', modifiers: [...] }]
+ */
+export const groupCartModifiers = (modifiers: CartModifierSelection[]) =>
+  modifiers.reduce<Array<{ name: string; modifiers: CartModifierSelection[] }>>((groups, modifier) => {
+    const existing = groups.find((group) => group.name === modifier.group_name)
+    if (existing) {
+      existing.modifiers.push(modifier)
+    } else {
+      groups.push({ name: modifier.group_name, modifiers: [modifier] })
+    }
+    return groups
+  }, [])
+
+/**
+ * One-line breakdown for the kitchen and receipts, e.g. "Proteins: Chicken Kabob, Gyro; Side: Seasoned Rice"
+ */
+export const describeCartModifiers = (modifiers: CartModifierSelection[]): string =>
+  groupCartModifiers(modifiers)
+    .map((group) => `${group.name}: ${group.modifiers.map((modifier) => modifier.label).join(', ')}`)
+    .join('; ')
@@ -0,0 +1,60 @@
+// Money is added up in integer cents so the cart, the Stripe charge and the stored order always agree.
+// Menu prices stay in dollars (that's how the catalog and the database store them) and are converted
+// once, with toCents, before any arithmetic.
+//
+// Rounding rules:
+// - Dollar amounts convert to the nearest cent, halves rounding away from zero ($1.005 -> 101¢).
+// - Percentages (tax, tip) are taken of the order subtotal, not of each line, and round the same way.
+// - Everything else (line totals, subtotals, the order total) is a sum of whole cents and never rounds.
+
+// Float error (1.005 * 100 = 100.49999999999999) is cleared before rounding
+const roundHalfAwayFromZero = (value: number): number => {
+  const rounded = Math.round(Number(Math.abs(value).toFixed(6)))
+  return value < 0 ? -rounded : rounded
+}
+
+/**
+ * Whole cents for a dollar amount, e.g. 12.99 -> 1299. Anything that isn't a finite number is 0.
+ */
+export const toCents = (dollars: number): number =>
+  Number.isFinite(dollars) ? roundHalfAwayFromZero(dollars * 100) : 0
+
+/**
+ * Dollars for a cent amount, e.g. 1299 -> 12.99 (for the database and for dollar-based APIs).
+ */
+export const fromCents = (cents: number): number => cents / 100
+
+/**
+ * A dollar amount rounded to whole cents, for prices that are stored in dollars.
+ */
+export const roundToCents = (dollars: number): number => fromCents(toCents(dollars))
+
+/**
+ * Cents for a dollar value read from outside (Stripe metadata, a database row, a request body):
+ * a number or a numeric string such as "12.34". Null when it isn't one.
+ */
+export const parseCents = (value: unknown): number | null => {
+  if (typeof value !== 'number' && typeof value !== 'string') return null
+  if (typeof value === 'string' && !value.trim()) return null
+  const dollars = Number(value)
+  return Number.isFinite(dollars) ? toCents(dollars) : null
+}
+
+/**
+ * `percent`% of a cent amount, rounded to the cent (e.g. tax or tip on a subtotal).
+ */
+export const percentOfCents = (cents: number, percent: number): number =>
+  roundHalfAwayFromZero((cents * percent) / 100)
+
+export const sumCents = (amounts: number[]): number => amounts.reduce((sum, cents) => sum + cents, 0)
+
+/**
+ * "12.34" for 1234: for Stripe metadata and inputs that hold a plain amount.
+ */
+export const centsToAmount = (cents: number): string => fromCents(cents).toFixed(2)
+
+/**
+ * "$12.34" for 1234.
+ */
+export const formatCents = (cents: number): string =>
+  cents < 0 ? `-$${centsToAmount(-cents)}` : `$${centsToAmount(cents)}`
@@ -0,0 +1,175 @@
+import {
+  RESTAURANT_TIME_ZONE,
+  describeDays,
+  describeSchedule,
+  getRestaurantTime,
+  isWithinWindow,
+  parseTimeOfDay,
+} from './availability'
+import { isMenuCategory } from './menu-validation'
+import { roundToCents } from './money'
+import { MenuItem, PriceRule } from './types'
+
+// Scheduled price overrides (happy hour, daily specials). The menu page, item modal and checkout all
+// price items through getMenuItemPrice so the Stripe charge matches what the customer was shown.
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6]
+const MAX_NAME_LENGTH = 80
+const MAX_PRICE = 1000
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export const toPriceRule = (row: any): PriceRule => ({
+  id: String(row.id),
+  name: row.name || '',
+  price: Number(row.price),
+  menu_item_ids: Array.isArray(row.menu_item_ids) ? row.menu_item_ids.map(String) : [],
+  category: isMenuCategory(row.category) ? row.category : null,
+  days: Array.isArray(row.days) ? row.days.map(Number) : [],
+  start_time: row.start_time || null,
+  end_time: row.end_time || null,
+  starts_on: row.starts_on || null,
+  ends_on: row.ends_on || null,
+  is_active: row.is_active !== false,
+})
+
+/**
+ * Today's date in restaurant-local time as YYYY-MM-DD (comparable with starts_on/ends_on).
+ */
+export const getRestaurantDate = (now: Date = new Date()): string =>
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone: RESTAURANT_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now)
+
+export const priceRuleAppliesTo = (rule: PriceRule, item: Pick<MenuItem, 'id' | 'category'>): boolean =>
+  rule.menu_item_ids.includes(item.id) || (rule.category !== null && rule.category === item.category)
+
+export const isPriceRuleActive = (rule: PriceRule, now: Date = new Date()): boolean => {
+  if (!rule.is_active) return false
+
+  const today = getRestaurantDate(now)
+  if (rule.starts_on && today < rule.starts_on) return false
+  if (rule.ends_on && today > rule.ends_on) return false
+
+  const days = rule.days.length > 0 ? rule.days : ALL_DAYS
+  const { day, minutes } = getRestaurantTime(now)
+  if (!rule.start_time || !rule.end_time) return days.includes(day)
+  return isWithinWindow({ days, start: rule.start_time, end: rule.end_time }, day, minutes)
+}
+
+/**
+ * The rule setting an item's price right now; when several overlap the lowest price wins.
+ */
+export const getActivePriceRule = (
+  item: Pick<MenuItem, 'price_rules'>,
+  now: Date = new Date()
+): PriceRule | null =>
+  (item.price_rules || [])
+    .filter((rule) => isPriceRuleActive(rule, now))
+    .reduce<PriceRule | null>((best, rule) => (!best || rule.price < best.price ? rule : best), null)
+
+/**
+ * What an item costs right now (before modifiers): the active rule's price, else the regular price.
+ */
+export const getMenuItemPrice = (item: Pick<MenuItem, 'price' | 'price_rules'>, now: Date = new Date()): number =>
+  getActivePriceRule(item, now)?.price ?? item.price
+
+/**
+ * When a rule runs, e.g. "Tue", "Mon–Fri 3:00 PM–5:00 PM" or "Daily · Jul 1–Jul 4"
+ */
+export const describePriceRule = (rule: PriceRule): string => {
+  const days = rule.days.length > 0 ? rule.days : ALL_DAYS
+  const when =
+    rule.start_time && rule.end_time
+      ? describeSchedule([{ days, start: rule.start_time, end: rule.end_time }])
+      : describeDays(days)
+  const formatDate = (value: string) =>
+    new Date(`${value}T12:00:00Z`).toLocaleDateString('en-US', { timeZone: 'UTC', month: 'short', day: 'numeric' })
+  if (rule.starts_on && rule.ends_on) return `${when} · ${formatDate(rule.starts_on)}–${formatDate(rule.ends_on)}`
+  if (rule.starts_on) return `${when} · from ${formatDate(rule.starts_on)}`
+  if (rule.ends_on) return `${when} · until ${formatDate(rule.ends_on)}`
+  return when
+}
+
+const parseDate = (value: unknown, label: string): { value: string | null } | { error: string } => {
+  if (value === null || value === undefined || value === '') return { value: null }
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(new Date(`${value}T00:00:00Z`).getTime())) {
+    return { error: `${label} must be a date (YYYY-MM-DD)` }
+  }
+  return { value }
+}
+
+/**
+ * Validate an admin create/replace payload for `price_rules`.
+ */
+export const parsePriceRuleWrite = (
+  body: any
+): { value: Omit<PriceRule, 'id'>; error?: undefined } | { value?: undefined; error: string } => {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid price rule data' }
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name) return { error: 'Name is required' }
+  if (name.length > MAX_NAME_LENGTH) return { error: `Name must be ${MAX_NAME_LENGTH} characters or less` }
+
+  const price = typeof body.price === 'string' ? Number(body.price) : body.price
+  if (typeof price !== 'number' || !Number.isFinite(price) || price < 0 || price > MAX_PRICE) {
+    return { error: `Price must be a number between 0 and ${MAX_PRICE}` }
+  }
+
+  const menuItemIds = body.menu_item_ids ?? []
+  if (!Array.isArray(menuItemIds) || !menuItemIds.every((id: unknown) => typeof id === 'string' && id)) {
+    return { error: 'Invalid menu items' }
+  }
+  const category = body.category === null || body.category === undefined || body.category === '' ? null : body.category
+  if (category !== null && !isMenuCategory(category)) {
+    return { error: 'Invalid category' }
+  }
+  if (menuItemIds.length === 0 && category === null) {
+    return { error: 'Choose a category or at least one item for the rule' }
+  }
+
+  const days = body.days ?? []
+  if (!Array.isArray(days) || !days.every((day: unknown) => Number.isInteger(day) && ALL_DAYS.includes(day as number))) {
+    return { error: 'Days must be 0 (Sunday) through 6 (Saturday)' }
+  }
+
+  const startTime = body.start_time || null
+  const endTime = body.end_time || null
+  if (startTime || endTime) {
+    const start = typeof startTime === 'string' ? parseTimeOfDay(startTime) : null
+    const end = typeof endTime === 'string' ? parseTimeOfDay(endTime) : null
+    if (start === null || end === null) return { error: 'Start and end times must both be set as HH:MM' }
+    if (start === end) return { error: 'Start and end times must be different' }
+  }
+
+  const startsOn = parseDate(body.starts_on, 'Start date')
+  if ('error' in startsOn) return startsOn
+  const endsOn = parseDate(body.ends_on, 'End date')
+  if ('error' in endsOn) return endsOn
+  if (startsOn.value && endsOn.value && startsOn.value > endsOn.value) {
+    return { error: 'End date must be on or after the start date' }
+  }
+
+  if (body.is_active !== undefined && typeof body.is_active !== 'boolean') {
+    return { error: 'Active must be true or false' }
+  }
+
+  return {
+    value: {
+      name,
+      price: roundToCents(price),
+      menu_item_ids: Array.from(new Set<string>(menuItemIds)),
+      category,
+      days: Array.from(new Set<number>(days)).sort((a, b) => a - b),
+      start_time: startTime,
+      end_time: endTime,
+      starts_on: startsOn.value,
+      ends_on: endsOn.value,
+      is_active: body.is_active !== false,
+    },
+  }
+}
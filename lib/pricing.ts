@@ -0,0 +1,272 @@
+import { findMenuItemForCartLine, isModifierOptionAvailable } from './availability'
+import {
+  ModifierSelections,
+  describeCartModifiers,
+  getModifiersTotalCents,
+  splitCartModifiers,
+  toCartModifiers,
+  validateModifierSelections,
+} from './modifiers'
+import { OrderLine, normalizeSpecialInstructions } from './cart-utils'
+import { normalizeParticipantName } from './group-orders'
+import { fromCents, sumCents, toCents } from './money'
+import { getMenuItemPrice } from './price-rules'
+import { DEFAULT_TAX_RATES } from './tax'
+import {
+  CartChange,
+  CartItem,
+  CartModifierSelection,
+  MenuItem,
+  MenuItemType,
+  ModifierGroup,
+  ModifierOption,
+} from './types'
+
+// Server-side pricing for checkout: prices always come from the menu catalog, never from the client's cart.
+
+const MAX_LINE_QUANTITY = 99
+
+export interface PricedCartLine {
+  menu_item_id: string
+  item_type: MenuItemType
+  name: string
+  // Base price of the menu item (after any active price rule); add-on prices are listed separately
+  unit_price: number
+  quantity: number
+  modifiers: CartModifierSelection[]
+  selectedOptions: string[]
+  selectedAddons: Array<{ name: string; price: number }>
+  // Group orders: whose bag the line goes in
+  participant_name?: string
+  // The customer's note for the kitchen about this line
+  special_instructions?: string
+}
+
+interface ResolvedSelections {
+  selections: ModifierSelections
+  // Saved options the item no longer offers, or that are sold out
+  rejected: Array<{ label: string; soldOut: boolean }>
+}
+
+/**
+ * Rebuild a line's modifier selections from the catalog. Lines carry structured `modifiers`; older lines
+ * only have option/add-on labels, which must match an option the item offers.
+ */
+const resolveSelections = (line: any, menuItem: MenuItem): ResolvedSelections => {
+  const groups = menuItem.modifier_groups || []
+  const selections: ModifierSelections = {}
+  const rejected: ResolvedSelections['rejected'] = []
+  groups.forEach((group) => {
+    selections[group.id] = []
+  })
+
+  const addSelection = (group: ModifierGroup | undefined, option: ModifierOption | undefined, label: string) => {
+    if (!group || !option) {
+      rejected.push({ label, soldOut: false })
+    } else if (!isModifierOptionAvailable(option)) {
+      rejected.push({ label: option.label, soldOut: true })
+    } else if (!selections[group.id].includes(option.id)) {
+      selections[group.id].push(option.id)
+    }
+  }
+
+  if (Array.isArray(line.modifiers) && line.modifiers.length > 0) {
+    for (const modifier of line.modifiers) {
+      const group = groups.find((g) => g.id === modifier?.group_id)
+      addSelection(
+        group,
+        group?.options.find((o) => o.id === modifier?.option_id),
+        String(modifier?.label || modifier?.option_id)
+      )
+    }
+    return { selections, rejected }
+  }
+
+  const labels: string[] = [
+    ...(Array.isArray(line.selectedOptions) ? line.selectedOptions : []),
+    ...(Array.isArray(line.selectedAddons) ? line.selectedAddons.map((addon: any) => addon?.name) : []),
+  ]
+  for (const label of labels) {
+    const normalized = String(label || '').toLowerCase()
+    const group = groups.find((g) => g.options.some((o) => o.label.toLowerCase() === normalized))
+    addSelection(group, group?.options.find((o) => o.label.toLowerCase() === normalized), String(label))
+  }
+  return { selections, rejected }
+}
+
+/**
+ * Price cart lines against the menu at `now` (so happy-hour rules match what the menu showed). Rejects
+ * unknown items, options the item doesn't offer, selections that break a group's min/max, and invalid quantities.
+ */
+export const priceCartLines = (
+  lines: any[],
+  menuItems: MenuItem[],
+  now: Date = new Date()
+): { value: PricedCartLine[]; error?: undefined } | { value?: undefined; error: string } => {
+  const priced: PricedCartLine[] = []
+
+  for (const line of lines) {
+    if (!line || typeof line.id !== 'string') {
+      return { error: 'Invalid item data' }
+    }
+
+    const quantity = Number(line.quantity)
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_LINE_QUANTITY) {
+      return { error: 'Invalid item price or quantity' }
+    }
+
+    const menuItem = findMenuItemForCartLine(line, menuItems)
+    if (!menuItem) {
+      return { error: `${line.name || 'An item in your cart'} is no longer on the menu. Please remove it and try again.` }
+    }
+
+    const { selections, rejected } = resolveSelections(line, menuItem)
+    if (rejected.length > 0) {
+      return {
+        error: rejected[0].soldOut
+          ? `${rejected[0].label} is sold out right now. Please update ${menuItem.name} in your cart.`
+          : `"${rejected[0].label}" is not available for ${menuItem.name}`,
+      }
+    }
+
+    const groups = menuItem.modifier_groups || []
+    const selectionError = validateModifierSelections(groups, selections)
+    if (selectionError) {
+      return { error: `${menuItem.name}: ${selectionError}` }
+    }
+
+    const modifiers = toCartModifiers(groups, selections)
+    const participantName = normalizeParticipantName(line.participant_name)
+    const specialInstructions = normalizeSpecialInstructions(line.special_instructions)
+    priced.push({
+      menu_item_id: menuItem.id,
+      item_type: menuItem.item_type || 'standard',
+      name: menuItem.name,
+      unit_price: getMenuItemPrice(menuItem, now),
+      quantity,
+      modifiers,
+      ...splitCartModifiers(modifiers),
+      ...(participantName ? { participant_name: participantName } : {}),
+      ...(specialInstructions ? { special_instructions: specialInstructions } : {}),
+    })
+  }
+
+  return { value: priced }
+}
+
+/**
+ * Bring saved cart lines in line with the current menu: drop items that are gone, drop options the
+ * item no longer offers (or that are sold out), and refresh names and prices. Returns the corrected
+ * lines and what changed, for the "your cart was updated" notice. Line ids are left to the client.
+ */
+export const revalidateCartLines = (
+  lines: CartItem[],
+  menuItems: MenuItem[],
+  now: Date = new Date()
+): { items: CartItem[]; changes: CartChange[] } => {
+  const items: CartItem[] = []
+  const changes: CartChange[] = []
+
+  lines.forEach((line) => {
+    const menuItem = findMenuItemForCartLine(line, menuItems)
+    if (!menuItem) {
+      changes.push({ type: 'removed', name: line.name })
+      return
+    }
+
+    const { selections, rejected } = resolveSelections(line, menuItem)
+    const groups = menuItem.modifier_groups || []
+    if (validateModifierSelections(groups, selections)) {
+      changes.push({ type: 'needs_options', name: menuItem.name, base_item_id: menuItem.id })
+      return
+    }
+    if (rejected.length > 0) {
+      changes.push({
+        type: 'options_removed',
+        name: menuItem.name,
+        base_item_id: menuItem.id,
+        options: rejected.map((option) => option.label),
+      })
+    }
+
+    const modifiers = toCartModifiers(groups, selections)
+    const revalidated: CartItem = {
+      ...line,
+      base_item_id: menuItem.id,
+      item_type: menuItem.item_type || 'standard',
+      name: menuItem.name,
+      price: getMenuItemPrice(menuItem, now),
+      modifiers,
+      ...splitCartModifiers(modifiers),
+    }
+
+    // Compare what one of the line costs, so a changed add-on price counts too. Add-ons that were
+    // dropped are already reported above, so they're left out of the saved price.
+    const droppedLabels = rejected.map((option) => option.label)
+    const savedCents =
+      toCents(line.price) +
+      sumCents(
+        (line.selectedAddons || [])
+          .filter((addon) => !droppedLabels.includes(addon.name))
+          .map((addon) => toCents(addon.price))
+      )
+    const currentCents =
+      toCents(revalidated.price) + sumCents((revalidated.selectedAddons || []).map((addon) => toCents(addon.price)))
+    if (savedCents !== currentCents) {
+      changes.push({
+        type: 'price',
+        name: menuItem.name,
+        base_item_id: menuItem.id,
+        from: fromCents(savedCents),
+        to: fromCents(currentCents),
+      })
+    }
+    items.push(revalidated)
+  })
+
+  return { items, changes }
+}
+
+/**
+ * Cents for one of a priced line as it's charged on its own Stripe line, without separate add-on lines.
+ * Combo plates are sold as one unit: the combo price plus any component upcharges.
+ */
+export const getPricedUnitCents = (line: PricedCartLine): number =>
+  line.item_type === 'combo'
+    ? toCents(line.unit_price) + getModifiersTotalCents(line.modifiers)
+    : toCents(line.unit_price)
+
+/**
+ * Cents for the whole line: every unit with its add-ons. Matches what Stripe charges for the line and
+ * its add-on lines, since each of those is a whole-cent unit amount times the quantity.
+ */
+export const getPricedLineTotalCents = (line: PricedCartLine): number => {
+  const addons = line.item_type === 'combo' ? [] : line.selectedAddons
+  return (getPricedUnitCents(line) + sumCents(addons.map((addon) => toCents(addon.price)))) * line.quantity
+}
+
+/**
+ * Priced lines with their menu items' tax rates and categories, for calculateOrderTotals.
+ */
+export const getPricedOrderLines = (lines: PricedCartLine[], menuItems: MenuItem[]): OrderLine[] =>
+  lines.map((line) => {
+    const menuItem = menuItems.find((candidate) => candidate.id === line.menu_item_id)
+    return {
+      cents: getPricedLineTotalCents(line),
+      tax_rates: menuItem?.tax_rates ?? DEFAULT_TAX_RATES,
+      menu_item_id: line.menu_item_id,
+      category: menuItem?.category ?? null,
+      quantity: line.quantity,
+    }
+  })
+
+/**
+ * Name recorded on order_items for the kitchen. Combos list every component by group
+ * ("Combo Plate (Proteins: Chicken Kabob, Gyro; Side: Seasoned Rice)"); other items list their free options.
+ */
+export const getOrderItemName = (line: PricedCartLine): string => {
+  if (line.item_type === 'combo' && line.modifiers.length > 0) {
+    return `${line.name} (${describeCartModifiers(line.modifiers)})`
+  }
+  return line.selectedOptions.length > 0 ? `${line.name} (${line.selectedOptions.join(', ')})` : line.name
+}
@@ -0,0 +1,361 @@
+import { isMenuCategory } from './menu-validation'
+import { formatCents, fromCents, parseCents, percentOfCents, roundToCents, sumCents, toCents } from './money'
+import { getRestaurantDate } from './price-rules'
+import { createServerClient, isMissingColumnError } from './supabase'
+import { MenuCategory, PromoCode, PromoCodeRedemptions } from './types'
+
+// Promo codes entered at checkout. A code takes a percentage or a dollar amount off the items it covers
+// (the whole order, a category or chosen items). The discount is spread over those lines before tax, so
+// tax is charged on what the customer pays; the tip is still a share of the full subtotal. Orders record
+// the code they used (orders.promo_code_id), and usage limits count those orders.
+
+const MAX_CODE_LENGTH = 32
+const CODE_PATTERN = /^[A-Z0-9_-]+$/
+const MAX_DESCRIPTION_LENGTH = 120
+const MAX_AMOUNT = 1000
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const MAX_LINES = 100
+
+export const normalizePromoCode = (value: unknown): string =>
+  typeof value === 'string' ? value.trim().toUpperCase() : ''
+
+const toLimit = (value: unknown): number | null => {
+  const limit = Number(value)
+  return value === null || value === undefined || !Number.isInteger(limit) ? null : limit
+}
+
+export const toPromoCode = (row: any): PromoCode => ({
+  id: String(row.id),
+  code: normalizePromoCode(row.code),
+  description: row.description || null,
+  discount_type: row.discount_type === 'amount' ? 'amount' : 'percent',
+  discount_value: Number(row.discount_value),
+  min_subtotal: row.min_subtotal === null || row.min_subtotal === undefined ? null : Number(row.min_subtotal),
+  expires_on: row.expires_on || null,
+  max_uses: toLimit(row.max_uses),
+  max_uses_per_phone: toLimit(row.max_uses_per_phone),
+  category: isMenuCategory(row.category) ? row.category : null,
+  menu_item_ids: Array.isArray(row.menu_item_ids) ? row.menu_item_ids.map(String) : [],
+  is_active: row.is_active !== false,
+})
+
+// An order line as a promo code sees it
+export interface PromoLine {
+  // What the line costs in cents
+  cents: number
+  // The line's menu item (null if it's no longer on the menu)
+  menu_item_id: string | null
+  category: MenuCategory | null
+}
+
+export interface PromoDiscount {
+  // Cents off the order
+  total: number
+  // Cents off each line, in the order the lines were given
+  lines: number[]
+}
+
+// What checkout is told about a code: no limits or usage counts
+export interface AppliedPromoCode {
+  code: string
+  // The admin's description, or describePromoDiscount
+  description: string
+  // What it takes off the cart it was checked against, or null with the reason in `error`
+  discount: PromoDiscount | null
+  error: string | null
+}
+
+export const promoCodeAppliesTo = (promo: PromoCode, line: PromoLine): boolean => {
+  if (promo.category === null && promo.menu_item_ids.length === 0) return true
+  return (
+    (line.menu_item_id !== null && promo.menu_item_ids.includes(line.menu_item_id)) ||
+    (promo.category !== null && promo.category === line.category)
+  )
+}
+
+export const isPromoCodeExpired = (promo: PromoCode, now: Date = new Date()): boolean =>
+  Boolean(promo.expires_on && getRestaurantDate(now) > promo.expires_on)
+
+/**
+ * Why a code can't be used by anyone right now (paused or expired), or null.
+ */
+export const getPromoCodeAvailabilityError = (promo: PromoCode, now: Date = new Date()): string | null => {
+  if (!promo.is_active) return `Promo code ${promo.code} is no longer available`
+  if (isPromoCodeExpired(promo, now)) return `Promo code ${promo.code} has expired`
+  return null
+}
+
+/**
+ * "15% off", "$5.00 off Sandwiches"
+ */
+export const describePromoDiscount = (promo: PromoCode): string => {
+  const amount =
+    promo.discount_type === 'percent' ? `${promo.discount_value}% off` : `${formatCents(toCents(promo.discount_value))} off`
+  if (promo.category === null && promo.menu_item_ids.length === 0) return amount
+  if (promo.category === null) return `${amount} selected items`
+  return promo.menu_item_ids.length > 0 ? `${amount} ${promo.category} and selected items` : `${amount} ${promo.category}`
+}
+
+// Split `total` cents over `amounts` in proportion to them. Leftover cents go to the largest fractions,
+// so the parts add up to `total` exactly and no line gets more than it costs.
+const spreadCents = (total: number, amounts: number[]): number[] => {
+  const sum = sumCents(amounts)
+  const shares = amounts.map((amount) => (total * amount) / sum)
+  const parts = shares.map(Math.floor)
+  let left = total - sumCents(parts)
+  shares
+    .map((share, index) => ({ index, fraction: share - parts[index] }))
+    .sort((a, b) => b.fraction - a.fraction)
+    .forEach(({ index }) => {
+      if (left <= 0) return
+      parts[index] += 1
+      left -= 1
+    })
+  return parts
+}
+
+/**
+ * The discount a code gives on these lines, or why it can't be used. Usage limits need the order history
+ * and are checked separately (getPromoCodeUsageError).
+ */
+export const applyPromoCode = (
+  promo: PromoCode,
+  lines: PromoLine[],
+  now: Date = new Date()
+): { value: PromoDiscount; error?: undefined } | { value?: undefined; error: string } => {
+  const availabilityError = getPromoCodeAvailabilityError(promo, now)
+  if (availabilityError) return { error: availabilityError }
+
+  const subtotal = sumCents(lines.map((line) => line.cents))
+  if (promo.min_subtotal !== null && subtotal < toCents(promo.min_subtotal)) {
+    return { error: `Promo code ${promo.code} needs a subtotal of ${formatCents(toCents(promo.min_subtotal))} or more` }
+  }
+
+  const eligible = lines.map((line) => (promoCodeAppliesTo(promo, line) ? line.cents : 0))
+  const eligibleTotal = sumCents(eligible)
+  if (eligibleTotal <= 0) {
+    return { error: `Promo code ${promo.code} doesn't apply to anything in your cart` }
+  }
+
+  const total = Math.min(
+    promo.discount_type === 'percent' ? percentOfCents(eligibleTotal, promo.discount_value) : toCents(promo.discount_value),
+    eligibleTotal
+  )
+  return { value: { total, lines: spreadCents(total, eligible) } }
+}
+
+/**
+ * The checkout page's cart lines as promo lines, or null if they're malformed.
+ */
+export const parsePromoLines = (value: unknown): PromoLine[] | null => {
+  if (!Array.isArray(value) || value.length > MAX_LINES) return null
+  const lines: PromoLine[] = []
+  for (const line of value) {
+    if (!line || typeof line !== 'object' || !Number.isInteger(line.cents) || line.cents < 0) return null
+    lines.push({
+      cents: line.cents,
+      menu_item_id: typeof line.menu_item_id === 'string' ? line.menu_item_id : null,
+      category: isMenuCategory(line.category) ? line.category : null,
+    })
+  }
+  return lines
+}
+
+export const toAppliedPromoCode = (promo: PromoCode, lines: PromoLine[]): AppliedPromoCode => {
+  const { value, error } = applyPromoCode(promo, lines)
+  return {
+    code: promo.code,
+    description: promo.description || describePromoDiscount(promo),
+    discount: value ?? null,
+    error: error ?? null,
+  }
+}
+
+/**
+ * All promo codes (including paused ones), newest first. Empty until the promo_codes migration is run.
+ */
+export const fetchPromoCodes = async (): Promise<PromoCode[]> => {
+  const supabase = createServerClient()
+  const { data, error } = await supabase.from('promo_codes').select('*').order('created_at', { ascending: false })
+
+  if (error) {
+    if (isMissingColumnError(error.message)) {
+      console.warn('promo_codes is not migrated yet:', error.message)
+      return []
+    }
+    throw error
+  }
+  return (data || []).map(toPromoCode)
+}
+
+/**
+ * The code a customer entered (matched case-insensitively), or null if there's no such code.
+ */
+export const findPromoCode = async (code: string): Promise<PromoCode | null> => {
+  const normalized = normalizePromoCode(code)
+  if (!normalized) return null
+
+  const supabase = createServerClient()
+  const { data, error } = await supabase.from('promo_codes').select('*').eq('code', normalized).maybeSingle()
+  if (error) {
+    if (isMissingColumnError(error.message)) {
+      console.warn('promo_codes is not migrated yet:', error.message)
+      return null
+    }
+    throw error
+  }
+  return data ? toPromoCode(data) : null
+}
+
+/**
+ * Why a customer can't use a code any more (its uses, or theirs, have run out), or null. Limits are checked
+ * when the Stripe session is created, so two customers paying at the same moment can both get the last use.
+ */
+export const getPromoCodeUsageError = async (promo: PromoCode, phoneDigits: string): Promise<string | null> => {
+  if (promo.max_uses === null && promo.max_uses_per_phone === null) return null
+
+  const supabase = createServerClient()
+  const countOrders = async (phone?: string): Promise<number> => {
+    let query = supabase.from('orders').select('id', { count: 'exact', head: true }).eq('promo_code_id', promo.id)
+    if (phone) query = query.eq('customer_phone', phone)
+    const { count, error } = await query
+    if (error) throw error
+    return count || 0
+  }
+
+  if (promo.max_uses !== null && (await countOrders()) >= promo.max_uses) {
+    return `Promo code ${promo.code} has been used up`
+  }
+  if (promo.max_uses_per_phone !== null && phoneDigits && (await countOrders(phoneDigits)) >= promo.max_uses_per_phone) {
+    return promo.max_uses_per_phone === 1
+      ? `Promo code ${promo.code} has already been used with this phone number`
+      : `Promo code ${promo.code} can only be used ${promo.max_uses_per_phone} times per phone number`
+  }
+  return null
+}
+
+/**
+ * Orders and dollars off per code, for the admin list.
+ */
+export const fetchPromoCodeRedemptions = async (): Promise<Record<string, PromoCodeRedemptions>> => {
+  const supabase = createServerClient()
+  const { data, error } = await supabase
+    .from('orders')
+    .select('promo_code_id, discount_amount')
+    .not('promo_code_id', 'is', null)
+
+  if (error) {
+    if (isMissingColumnError(error.message)) return {}
+    throw error
+  }
+
+  const totals: Record<string, { orders: number; cents: number }> = {}
+  for (const row of data || []) {
+    const entry = totals[row.promo_code_id] || { orders: 0, cents: 0 }
+    entry.orders += 1
+    entry.cents += parseCents(row.discount_amount) ?? 0
+    totals[row.promo_code_id] = entry
+  }
+  return Object.fromEntries(
+    Object.entries(totals).map(([id, entry]) => [id, { orders: entry.orders, discount: fromCents(entry.cents) }])
+  )
+}
+
+const parseLimit = (value: unknown, label: string): { value: number | null } | { error: string } => {
+  if (value === null || value === undefined || value === '') return { value: null }
+  const limit = typeof value === 'string' ? Number(value) : value
+  if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1) {
+    return { error: `${label} must be a whole number of at least 1` }
+  }
+  return { value: limit }
+}
+
+/**
+ * Validate an admin create/replace payload for `promo_codes`.
+ */
+export const parsePromoCodeWrite = (
+  body: any
+): { value: Omit<PromoCode, 'id'>; error?: undefined } | { value?: undefined; error: string } => {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid promo code data' }
+  }
+
+  const code = normalizePromoCode(body.code)
+  if (!code) return { error: 'Code is required' }
+  if (code.length > MAX_CODE_LENGTH) return { error: `Code must be ${MAX_CODE_LENGTH} characters or less` }
+  if (!CODE_PATTERN.test(code)) return { error: 'Code can only use letters, numbers, dashes and underscores' }
+
+  const description = typeof body.description === 'string' ? body.description.trim() : ''
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    return { error: `Description must be ${MAX_DESCRIPTION_LENGTH} characters or less` }
+  }
+
+  const discountType = body.discount_type
+  if (discountType !== 'percent' && discountType !== 'amount') {
+    return { error: 'Discount type must be percent or amount' }
+  }
+  const discountValue = typeof body.discount_value === 'string' ? Number(body.discount_value) : body.discount_value
+  if (typeof discountValue !== 'number' || !Number.isFinite(discountValue) || discountValue <= 0) {
+    return { error: 'Discount must be more than 0' }
+  }
+  if (discountType === 'percent' && discountValue > 100) {
+    return { error: 'Percent off must be 100 or less' }
+  }
+  if (discountType === 'amount' && discountValue > MAX_AMOUNT) {
+    return { error: `Amount off must be ${MAX_AMOUNT} or less` }
+  }
+
+  const minSubtotalRaw = body.min_subtotal
+  let minSubtotal: number | null = null
+  if (minSubtotalRaw !== null && minSubtotalRaw !== undefined && minSubtotalRaw !== '') {
+    const value = typeof minSubtotalRaw === 'string' ? Number(minSubtotalRaw) : minSubtotalRaw
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > MAX_AMOUNT) {
+      return { error: `Minimum subtotal must be between 0 and ${MAX_AMOUNT}` }
+    }
+    minSubtotal = roundToCents(value)
+  }
+
+  const expiresOn = body.expires_on || null
+  if (
+    expiresOn !== null &&
+    (typeof expiresOn !== 'string' ||
+      !DATE_PATTERN.test(expiresOn) ||
+      Number.isNaN(new Date(`${expiresOn}T00:00:00Z`).getTime()))
+  ) {
+    return { error: 'Expiry date must be a date (YYYY-MM-DD)' }
+  }
+
+  const maxUses = parseLimit(body.max_uses, 'Total uses')
+  if ('error' in maxUses) return maxUses
+  const maxUsesPerPhone = parseLimit(body.max_uses_per_phone, 'Uses per phone number')
+  if ('error' in maxUsesPerPhone) return maxUsesPerPhone
+
+  const menuItemIds = body.menu_item_ids ?? []
+  if (!Array.isArray(menuItemIds) || !menuItemIds.every((id: unknown) => typeof id === 'string' && id)) {
+    return { error: 'Invalid menu items' }
+  }
+  const category = body.category === null || body.category === undefined || body.category === '' ? null : body.category
+  if (category !== null && !isMenuCategory(category)) {
+    return { error: 'Invalid category' }
+  }
+
+  if (body.is_active !== undefined && typeof body.is_active !== 'boolean') {
+    return { error: 'Active must be true or false' }
+  }
+
+  return {
+    value: {
+      code,
+      description: description || null,
+      discount_type: discountType,
+      discount_value: discountType === 'amount' ? roundToCents(discountValue) : Math.round(discountValue * 100) / 100,
+      min_subtotal: minSubtotal,
+      expires_on: expiresOn,
+      max_uses: maxUses.value,
+      max_uses_per_phone: maxUsesPerPhone.value,
+      category,
+      menu_item_ids: Array.from(new Set<string>(menuItemIds)),
+      is_active: body.is_active !== false,
+    },
+  }
+}
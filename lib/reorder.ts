@@ -0,0 +1,83 @@
+import {
+  findMenuItemForCartLine,
+  isMenuItemAvailable,
+  isMenuItemScheduledNow,
+  isModifierOptionAvailable,
+} from './availability'
+import { ModifierSelections, splitCartModifiers, toCartModifiers, validateModifierSelections } from './modifiers'
+import { getMenuItemPrice } from './price-rules'
+import { CartItem, MenuItem, OrderItem } from './types'
+
+// "Order again": rebuild cart lines from a past order's order_items using today's menu and prices.
+
+export interface ReorderLines {
+  lines: Array<{ item: Omit<CartItem, 'id' | 'quantity'>; quantity: number }>
+  // Items that can't be ordered right now (off the menu, sold out, or their choices are gone)
+  skipped: string[]
+  // Items added without some of their options, which are no longer offered or are sold out
+  changed: string[]
+}
+
+/**
+ * Cart lines for reordering `orderItems`. Add-on rows are skipped (their options are on the item row).
+ * Orders placed before order_items stored options come back as the plain item, or are skipped when
+ * the item needs choices.
+ */
+export const buildReorderLines = (
+  orderItems: OrderItem[],
+  menuItems: MenuItem[],
+  now: Date = new Date()
+): ReorderLines => {
+  const result: ReorderLines = { lines: [], skipped: [], changed: [] }
+
+  orderItems.forEach((row) => {
+    // Older orders only mark add-on rows by their id or "+ " name
+    if (row.is_addon || row.menu_item_id.includes('-addon-') || row.menu_item_name.startsWith('+ ')) return
+
+    // Older rows hold the cart line id ("<menu id>:<hash>" or "<menu id>-<options>") rather than the menu id
+    const menuItem = findMenuItemForCartLine({ id: row.menu_item_id.split(':')[0] }, menuItems)
+    if (!menuItem || !isMenuItemAvailable(menuItem, now) || !isMenuItemScheduledNow(menuItem, now)) {
+      result.skipped.push(menuItem?.name || row.menu_item_name)
+      return
+    }
+
+    const groups = menuItem.modifier_groups || []
+    const selections: ModifierSelections = {}
+    groups.forEach((group) => {
+      selections[group.id] = []
+    })
+    let droppedOption = false
+    for (const optionId of row.modifier_option_ids || []) {
+      const group = groups.find((g) => g.options.some((option) => option.id === optionId))
+      const option = group?.options.find((o) => o.id === optionId)
+      if (!group || !option || !isModifierOptionAvailable(option)) {
+        droppedOption = true
+      } else if (!selections[group.id].includes(option.id)) {
+        selections[group.id].push(option.id)
+      }
+    }
+
+    if (validateModifierSelections(groups, selections)) {
+      result.skipped.push(menuItem.name)
+      return
+    }
+    if (droppedOption) result.changed.push(menuItem.name)
+
+    const modifiers = toCartModifiers(groups, selections)
+    result.lines.push({
+      item: {
+        base_item_id: menuItem.id,
+        item_type: menuItem.item_type,
+        name: menuItem.name,
+        price: getMenuItemPrice(menuItem, now),
+        image_url: menuItem.image_url,
+        modifiers,
+        ...splitCartModifiers(modifiers),
+        ...(row.special_instructions ? { special_instructions: row.special_instructions } : {}),
+      },
+      quantity: row.quantity,
+    })
+  })
+
+  return result
+}
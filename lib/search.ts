@@ -0,0 +1,147 @@
+import { DIETARY_TAG_LABELS } from './dietary'
+import { DietaryTag, MenuItem } from './types'
+
+// Typo-tolerant menu search: every query word must match a word in the item's name, description or tags,
+// exactly, as a prefix, or within a small edit distance (so "koobideh" finds "Kobidah").
+
+export interface TextRange {
+  start: number
+  end: number
+}
+
+const FIELD_WEIGHTS = { name: 3, tags: 2, description: 1 }
+
+// Strips Latin accents and Arabic-script vowel marks, and folds Arabic yeh/kaf into their Persian forms
+// so Dari and Pashto queries match however they were typed. Every step keeps one character per letter.
+const normalize = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f\u064b-\u065f\u0670]/g, '')
+    .replace(/\u064a/g, '\u06cc')
+    .replace(/\u0643/g, '\u06a9')
+    .toLowerCase()
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+const tokenize = (value: string): string[] => normalize(value).match(WORD_PATTERN) || []
+
+/**
+ * Words of a text with their positions, so matches can be highlighted in the original string.
+ */
+const wordsWithRanges = (text: string): Array<TextRange & { word: string }> => {
+  const normalized = normalize(text)
+  const words: Array<TextRange & { word: string }> = []
+  // NFD normalization can change string length; only keep positions when it didn't
+  if (normalized.length !== text.length) return words
+  const pattern = new RegExp(WORD_PATTERN)
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(normalized))) {
+    words.push({ word: match[0], start: match.index, end: match.index + match[0].length })
+  }
+  return words
+}
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions), capped for speed
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i])
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j
+
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, rows[i - 2][j - 2] + 1)
+      }
+      rows[i][j] = value
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+  }
+  return rows[a.length][b.length]
+}
+
+// Short words must match exactly; longer ones allow more typos
+const allowedTypos = (token: string): number => (token.length <= 3 ? 0 : token.length <= 5 ? 1 : 2)
+
+/**
+ * How well a query word matches a text word: 1 exact or prefix, 0.5 typo match, 0 no match.
+ */
+const matchWord = (token: string, word: string): number => {
+  if (word === token || word.startsWith(token)) return 1
+  const typos = allowedTypos(token)
+  if (typos === 0) return 0
+  // Compare against the whole word and against its start, so partially typed words still match
+  const distance = Math.min(
+    editDistance(token, word, typos),
+    word.length > token.length ? editDistance(token, word.slice(0, token.length), typos) : typos + 1
+  )
+  return distance <= typos ? 0.5 : 0
+}
+
+const getSearchFields = (item: MenuItem, tagLabels: Record<DietaryTag, string>) => ({
+  name: item.name,
+  tags: (item.dietary_tags || []).map((tag) => tagLabels[tag]).join(' '),
+  description: item.description || '',
+})
+
+/**
+ * Relevance of an item for a query (0 = no match). Empty queries match everything with score 1.
+ * Pass translated `tagLabels` when searching localized items.
+ */
+export const scoreMenuItem = (
+  item: MenuItem,
+  query: string,
+  tagLabels: Record<DietaryTag, string> = DIETARY_TAG_LABELS
+): number => {
+  const tokens = tokenize(query)
+  if (tokens.length === 0) return 1
+
+  const fields = getSearchFields(item, tagLabels)
+  const fieldWords = (Object.keys(fields) as Array<keyof typeof fields>).map((field) => ({
+    weight: FIELD_WEIGHTS[field],
+    words: tokenize(fields[field]),
+  }))
+
+  let score = 0
+  for (const token of tokens) {
+    let best = 0
+    fieldWords.forEach(({ weight, words }) => {
+      words.forEach((word) => {
+        best = Math.max(best, matchWord(token, word) * weight)
+      })
+    })
+    if (best === 0) return 0
+    score += best
+  }
+  return score
+}
+
+/**
+ * Items matching the query, best matches first (ties keep their menu order).
+ */
+export const searchMenuItems = (
+  items: MenuItem[],
+  query: string,
+  tagLabels: Record<DietaryTag, string> = DIETARY_TAG_LABELS
+): MenuItem[] => {
+  if (tokenize(query).length === 0) return items
+  return items
+    .map((item) => ({ item, score: scoreMenuItem(item, query, tagLabels) }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map((result) => result.item)
+}
+
+/**
+ * Character ranges in `text` whose words match a query word, for highlighting.
+ */
+export const getHighlightRanges = (text: string, query: string): TextRange[] => {
+  const tokens = tokenize(query)
+  if (tokens.length === 0 || !text) return []
+  return wordsWithRanges(text)
+    .filter(({ word }) => tokens.some((token) => matchWord(token, word) > 0))
+    .map(({ start, end }) => ({ start, end }))
+}
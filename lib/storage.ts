@@ -0,0 +1,196 @@
+import { CartItem, LOCALES, Locale } from './types'
+
+// Versioned browser storage for the cart and the details saved at checkout. Every value is stored as
+// { v, savedAt, data }: `v` is the schema version the data was written with, and older values are
+// upgraded through MIGRATIONS when they're read. Pages use these functions instead of localStorage.
+
+const STORAGE_VERSION = 2
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const STORAGE_KEYS = {
+  cart: 'denver-kabob-cart',
+  // Id of the server-side copy of the cart (see /api/carts) and when it was last synced
+  cartSync: 'denver-kabob-cart-sync',
+  customerInfo: 'denver-kabob-customer-info',
+  orderDetails: 'denver-kabob-order-details',
+  // Site language (read before first paint by the script in app/layout.tsx; see getSavedLocaleScript)
+  locale: 'denver-kabob-locale',
+} as const
+
+export type StorageKey = keyof typeof STORAGE_KEYS
+
+export interface CartSyncState {
+  id: string
+  updatedAt: string
+  // Group orders: the name this browser orders under, and the host's secret for locking the group
+  participantName?: string
+  hostToken?: string
+}
+
+export interface SavedCustomerInfo {
+  firstName: string
+  lastName: string
+  name: string
+  phone: string
+  email: string
+}
+
+export interface SavedOrderDetails {
+  tipPercent: number
+  comments: string
+  // Promo code applied at checkout (checked again when it's used)
+  promoCode?: string
+  // Loyalty reward redeemed instead (see lib/loyalty.ts)
+  rewardId?: string
+}
+
+export interface StorageSchema {
+  cart: CartItem[]
+  cartSync: CartSyncState
+  customerInfo: SavedCustomerInfo
+  orderDetails: SavedOrderDetails
+  locale: Locale
+}
+
+// A cart nobody has touched for a week is stale (old prices, a different day's specials). The sync
+// state and checkout details go with it; the customer's name and phone are kept.
+const MAX_AGE_MS: Partial<Record<StorageKey, number>> = {
+  cart: 7 * DAY_MS,
+  cartSync: 7 * DAY_MS,
+  orderDetails: 7 * DAY_MS,
+}
+
+interface StoredValue {
+  v: number
+  savedAt: number
+  data: any
+}
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : '')
+
+/**
+ * MIGRATIONS[n] upgrades data written with version n to version n + 1. Version 1 is the raw JSON
+ * saved before values were versioned; it's checked field by field since nothing guaranteed its shape.
+ */
+const MIGRATIONS: Record<number, (key: StorageKey, data: any) => any> = {
+  1: (key, data) => {
+    switch (key) {
+      case 'cart':
+        return Array.isArray(data)
+          ? data.filter(
+              (line) =>
+                line &&
+                typeof line.name === 'string' &&
+                Number.isFinite(line.price) &&
+                Number.isInteger(line.quantity) &&
+                line.quantity > 0
+            )
+          : []
+      case 'cartSync':
+        return data && typeof data.id === 'string' ? data : null
+      case 'customerInfo':
+        return {
+          firstName: asString(data?.firstName),
+          lastName: asString(data?.lastName),
+          name: asString(data?.name),
+          phone: asString(data?.phone),
+          email: asString(data?.email),
+        }
+      case 'orderDetails':
+        return {
+          tipPercent: Number.isFinite(data?.tipPercent) ? data.tipPercent : 0,
+          comments: asString(data?.comments),
+        }
+      case 'locale':
+        return LOCALES.includes(data) ? data : null
+    }
+  },
+}
+
+const isStoredValue = (value: any): value is StoredValue =>
+  Boolean(value) && typeof value === 'object' && typeof value.v === 'number' && 'data' in value
+
+/**
+ * Read a saved value, upgrading it to the current schema. Returns null when nothing is saved, the
+ * value has expired, or it can't be read (including values written by a newer version of the site).
+ */
+export const readStorage = <K extends StorageKey>(key: K): StorageSchema[K] | null => {
+  if (typeof window === 'undefined') return null
+
+  try {
+    const raw = localStorage.getItem(STORAGE_KEYS[key])
+    if (raw === null) return null
+    let parsed: any
+    try {
+      parsed = JSON.parse(raw)
+    } catch {
+      // Unversioned values that were saved as plain strings (the locale)
+      parsed = raw
+    }
+    // Unversioned values count as saved now, so an old cart gets a full week after the upgrade
+    let stored: StoredValue = isStoredValue(parsed) ? parsed : { v: 1, savedAt: Date.now(), data: parsed }
+    if (stored.v > STORAGE_VERSION) return null
+
+    const maxAge = MAX_AGE_MS[key]
+    if (maxAge && Date.now() - stored.savedAt > maxAge) {
+      localStorage.removeItem(STORAGE_KEYS[key])
+      return null
+    }
+
+    if (stored.v < STORAGE_VERSION) {
+      let data = stored.data
+      for (let version = stored.v; version < STORAGE_VERSION; version++) {
+        data = MIGRATIONS[version](key, data)
+      }
+      stored = { v: STORAGE_VERSION, savedAt: stored.savedAt, data }
+      if (data === null) {
+        localStorage.removeItem(STORAGE_KEYS[key])
+      } else {
+        localStorage.setItem(STORAGE_KEYS[key], JSON.stringify(stored))
+      }
+    }
+    return stored.data
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Save a value under the current schema version. Storage can be full or disabled (private
+ * browsing), so failures are logged rather than thrown.
+ */
+export const writeStorage = <K extends StorageKey>(key: K, data: StorageSchema[K]): void => {
+  if (typeof window === 'undefined') return
+
+  try {
+    const stored: StoredValue = { v: STORAGE_VERSION, savedAt: Date.now(), data }
+    localStorage.setItem(STORAGE_KEYS[key], JSON.stringify(stored))
+  } catch (error) {
+    console.error(`Failed to save ${key}:`, error)
+  }
+}
+
+export const removeStorage = (key: StorageKey): void => {
+  if (typeof window === 'undefined') return
+
+  try {
+    localStorage.removeItem(STORAGE_KEYS[key])
+  } catch (error) {
+    console.error(`Failed to remove ${key}:`, error)
+  }
+}
+
+/**
+ * Whether a `storage` event (a change made in another tab) is for `key`.
+ */
+export const isStorageEventFor = (event: StorageEvent, key: StorageKey): boolean =>
+  event.key === STORAGE_KEYS[key]
+
+/**
+ * A plain-JavaScript expression for the saved locale's raw value (possibly not a locale), for the script in
+ * app/layout.tsx that runs before React loads. It reads what writeStorage('locale') saves, and the plain
+ * string saved before locales were versioned. It can throw when storage is disabled.
+ */
+export const SAVED_LOCALE_EXPRESSION = `(function(r){try{var v=JSON.parse(r);return v&&typeof v==='object'?v.data:v}catch(e){return r}})(localStorage.getItem(${JSON.stringify(
+  STORAGE_KEYS.locale
+)}))`
@@ -0,0 +1,154 @@
+import { findMenuItemForCartLine, isMenuItemAvailable, isMenuItemScheduledNow } from './availability'
+import { createServerClient } from './supabase'
+import { MenuCategory, MenuItem, OrderItem } from './types'
+
+// "Goes well with" suggestions for the cart. Items often bought together in past orders come first;
+// curated pairings fill the strip until there's enough order history.
+
+// Picked from items often bought together, or a fixed pairing
+export type SuggestionSource = 'orders' | 'curated'
+
+export interface Suggestion {
+  menu_item_id: string
+  source: SuggestionSource
+}
+
+export interface CoPurchaseStats {
+  // Orders containing each menu item
+  orderCounts: Record<string, number>
+  // pairCounts[a][b]: orders containing both a and b
+  pairCounts: Record<string, Record<string, number>>
+}
+
+const MAX_SUGGESTIONS = 4
+// A pair has to show up in this many orders before it counts; fewer is noise
+const MIN_PAIR_ORDERS = 3
+const STATS_LOOKBACK_DAYS = 90
+const STATS_MAX_ORDERS = 2000
+// Supabase returns at most 1000 rows per request (PostgREST max-rows), so orders are read in pages
+const STATS_PAGE_SIZE = 1000
+const STATS_CACHE_TTL_MS = 60 * 60 * 1000
+
+// Sides and starters to offer with each kind of dish when order history doesn't say otherwise
+const CURATED_PAIRINGS: Partial<Record<MenuCategory, string[]>> = {
+  'Rice Dishes': ['potato-or-beef-sambosa', 'chicken-wings', 'falafel'],
+  Kabobs: ['potato-or-beef-sambosa', 'chicken-wings', 'falafel'],
+  'Combo Plates': ['potato-or-beef-sambosa', 'chicken-wings'],
+  Sandwiches: ['falafel', 'potato-or-beef-sambosa', 'chicken-wings'],
+  Appetizers: ['chicken-kabob-rice', 'gyro-sandwich'],
+}
+
+/**
+ * Count how often menu items are ordered together. Add-on rows are skipped, and each item counts
+ * once per order however many lines it had.
+ */
+export const countCoPurchases = (
+  orders: Array<{ order_items?: OrderItem[] | null }>,
+  menuItems: MenuItem[]
+): CoPurchaseStats => {
+  const stats: CoPurchaseStats = { orderCounts: {}, pairCounts: {} }
+
+  orders.forEach((order) => {
+    const ids = new Set<string>()
+    for (const row of order.order_items || []) {
+      if (row.is_addon || row.menu_item_id.includes('-addon-')) continue
+      const menuItem = findMenuItemForCartLine({ id: row.menu_item_id.split(':')[0] }, menuItems)
+      if (menuItem) ids.add(menuItem.id)
+    }
+
+    const list = Array.from(ids)
+    list.forEach((a) => {
+      stats.orderCounts[a] = (stats.orderCounts[a] || 0) + 1
+      list.forEach((b) => {
+        if (a === b) return
+        stats.pairCounts[a] = stats.pairCounts[a] || {}
+        stats.pairCounts[a][b] = (stats.pairCounts[a][b] || 0) + 1
+      })
+    })
+  })
+
+  return stats
+}
+
+/**
+ * Up to four items to suggest for a cart holding `cartItemIds`. Items are ranked by how often they're
+ * bought with something already in the cart (as a share of that item's orders), then topped up from
+ * the curated pairings. Items already in the cart or that can't be ordered right now are left out.
+ */
+export const getSuggestions = (
+  cartItemIds: string[],
+  menuItems: MenuItem[],
+  stats: CoPurchaseStats,
+  now: Date = new Date()
+): Suggestion[] => {
+  const inCart = new Set(cartItemIds)
+  const isCandidate = (id: string) => {
+    if (inCart.has(id)) return false
+    const item = menuItems.find((menuItem) => menuItem.id === id)
+    return Boolean(item && isMenuItemAvailable(item, now) && isMenuItemScheduledNow(item, now))
+  }
+
+  const scores: Record<string, number> = {}
+  cartItemIds.forEach((cartItemId) => {
+    const total = stats.orderCounts[cartItemId] || 0
+    Object.entries(stats.pairCounts[cartItemId] || {}).forEach(([id, count]) => {
+      if (count < MIN_PAIR_ORDERS || !isCandidate(id)) return
+      scores[id] = Math.max(scores[id] || 0, count / total)
+    })
+  })
+
+  const suggestions: Suggestion[] = Object.keys(scores)
+    .sort((a, b) => scores[b] - scores[a] || (stats.orderCounts[b] || 0) - (stats.orderCounts[a] || 0))
+    .slice(0, MAX_SUGGESTIONS)
+    .map((id) => ({ menu_item_id: id, source: 'orders' }))
+
+  cartItemIds.forEach((cartItemId) => {
+    const category = menuItems.find((item) => item.id === cartItemId)?.category
+    const pairings = category ? CURATED_PAIRINGS[category] || [] : []
+    pairings.forEach((id) => {
+      if (suggestions.length >= MAX_SUGGESTIONS || !isCandidate(id)) return
+      if (suggestions.some((suggestion) => suggestion.menu_item_id === id)) return
+      suggestions.push({ menu_item_id: id, source: 'curated' })
+    })
+  })
+
+  return suggestions
+}
+
+let cachedStats: { stats: CoPurchaseStats; fetchedAt: number } | null = null
+
+/**
+ * Co-purchase counts over recent orders, cached in memory for an hour (they change slowly).
+ * Empty if orders can't be read, so suggestions fall back to the curated pairings.
+ */
+export const getCoPurchaseStats = async (menuItems: MenuItem[]): Promise<CoPurchaseStats> => {
+  if (cachedStats && Date.now() - cachedStats.fetchedAt < STATS_CACHE_TTL_MS) {
+    return cachedStats.stats
+  }
+
+  try {
+    const since = new Date(Date.now() - STATS_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    const supabase = createServerClient()
+    const orders: Array<{ order_items?: OrderItem[] | null }> = []
+    for (let from = 0; from < STATS_MAX_ORDERS; from += STATS_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('id, order_items (*)')
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: true })
+        .range(from, Math.min(from + STATS_PAGE_SIZE, STATS_MAX_ORDERS) - 1)
+
+      if (error) throw error
+      orders.push(...(data || []))
+      if (!data || data.length < STATS_PAGE_SIZE) break
+    }
+
+    const stats = countCoPurchases(orders, menuItems)
+    cachedStats = { stats, fetchedAt: Date.now() }
+    return stats
+  } catch (error) {
+    console.error('Error loading co-purchase stats:', error)
+    return cachedStats?.stats ?? { orderCounts: {}, pairCounts: {} }
+  }
+}
@@ -23,3 +23,14 @@ export const createServerClient = () => {
     serviceRoleKey
   )
 }
+
+// PostgREST errors raised when a migration hasn't been run yet (column/table missing from schema cache).
+export const isMissingColumnError = (message?: string) => {
+  if (!message) return false
+  const normalized = message.toLowerCase()
+  return (
+    (normalized.includes('column') && normalized.includes('does not exist')) ||
+    normalized.includes('could not find') ||
+    normalized.includes('schema cache')
+  )
+}
@@ -0,0 +1,187 @@
+import { isMenuCategory } from './menu-validation'
+import { centsToAmount, fromCents, parseCents, percentOfCents } from './money'
+import { MenuItem, OrderTaxLine, TaxRate } from './types'
+
+// Sales tax from the `tax_rates` table. Each row is one component of the tax (the state's share, the
+// city's, a special district's), grouped by jurisdiction. An item pays, in every jurisdiction, the rows
+// for its category if there are any and the jurisdiction's general rows otherwise. The cart, checkout
+// and Stripe session all work out tax with calculateTax, and each order keeps the rates it was charged.
+
+const MAX_NAME_LENGTH = 80
+const MAX_RATE = 20
+const TAX_METADATA_PREFIX = 'tax_line_'
+
+// Charged until supabase-migration-tax-rates.sql is run (the rate the site used before it)
+export const DEFAULT_TAX_RATES: TaxRate[] = [
+  { id: 'default', name: 'Sales tax', jurisdiction: 'Default', rate: 8, category: null, is_active: true },
+]
+
+export const toTaxRate = (row: any): TaxRate => ({
+  id: String(row.id),
+  name: row.name || '',
+  jurisdiction: row.jurisdiction || '',
+  rate: Number(row.rate),
+  category: isMenuCategory(row.category) ? row.category : null,
+  is_active: row.is_active !== false,
+})
+
+/**
+ * The enabled rates charged on an item: per jurisdiction, the rows for its category, else the general rows.
+ */
+export const getItemTaxRates = (item: Pick<MenuItem, 'category'>, rates: TaxRate[]): TaxRate[] => {
+  const enabled = rates.filter((rate) => rate.is_active)
+  const jurisdictions = Array.from(new Set(enabled.map((rate) => rate.jurisdiction)))
+  return jurisdictions.flatMap((jurisdiction) => {
+    const local = enabled.filter((rate) => rate.jurisdiction === jurisdiction)
+    const forCategory = local.filter((rate) => rate.category === item.category)
+    return forCategory.length > 0 ? forCategory : local.filter((rate) => rate.category === null)
+  })
+}
+
+/**
+ * The combined percentage charged on an item, e.g. 8.81.
+ */
+export const getCombinedTaxRate = (rates: TaxRate[]): number =>
+  Math.round(rates.reduce((sum, rate) => sum + rate.rate, 0) * 1000) / 1000
+
+export interface TaxableLine {
+  // What the line costs in cents
+  cents: number
+  tax_rates: TaxRate[]
+}
+
+export interface TaxBreakdownLine {
+  name: string
+  jurisdiction: string
+  rate: number
+  // Cents
+  taxable: number
+  tax: number
+}
+
+/**
+ * Tax in cents for lines that may be taxed at different rates. Each rate is applied once, to the total of
+ * the lines it covers, and rounded to the cent (see lib/money.ts).
+ */
+export const calculateTax = (lines: TaxableLine[]): { tax: number; breakdown: TaxBreakdownLine[] } => {
+  const byRate = new Map<string, { rate: TaxRate; taxable: number }>()
+  lines.forEach((line) => {
+    line.tax_rates.forEach((rate) => {
+      const entry = byRate.get(rate.id) || { rate, taxable: 0 }
+      entry.taxable += line.cents
+      byRate.set(rate.id, entry)
+    })
+  })
+
+  const breakdown = Array.from(byRate.values()).map(({ rate, taxable }) => ({
+    name: rate.name,
+    jurisdiction: rate.jurisdiction,
+    rate: rate.rate,
+    taxable,
+    tax: percentOfCents(taxable, rate.rate),
+  }))
+  return { tax: breakdown.reduce((sum, line) => sum + line.tax, 0), breakdown }
+}
+
+export const toOrderTaxLines = (breakdown: TaxBreakdownLine[]): OrderTaxLine[] =>
+  breakdown.map((line) => ({
+    name: line.name,
+    jurisdiction: line.jurisdiction,
+    rate: line.rate,
+    taxable_amount: fromCents(line.taxable),
+    tax_amount: fromCents(line.tax),
+  }))
+
+/**
+ * Stripe session metadata for the tax breakdown, one key per rate (values are limited to 500 characters).
+ */
+export const toTaxMetadata = (breakdown: TaxBreakdownLine[]): Record<string, string> =>
+  Object.fromEntries(
+    breakdown.map((line, index) => [
+      `${TAX_METADATA_PREFIX}${index + 1}`,
+      JSON.stringify({
+        name: line.name,
+        jurisdiction: line.jurisdiction,
+        rate: line.rate,
+        taxable: centsToAmount(line.taxable),
+        tax: centsToAmount(line.tax),
+      }),
+    ])
+  )
+
+/**
+ * The tax breakdown saved on a Stripe session by toTaxMetadata; empty for sessions created before it.
+ */
+export const parseTaxMetadata = (metadata: Record<string, string> | null | undefined): OrderTaxLine[] => {
+  const values = metadata || {}
+  return Object.keys(values)
+    .filter((key) => key.startsWith(TAX_METADATA_PREFIX))
+    .sort((a, b) => Number(a.slice(TAX_METADATA_PREFIX.length)) - Number(b.slice(TAX_METADATA_PREFIX.length)))
+    .flatMap((key) => {
+      try {
+        const line = JSON.parse(values[key])
+        const taxable = parseCents(line?.taxable)
+        const tax = parseCents(line?.tax)
+        if (typeof line?.name !== 'string' || !Number.isFinite(line?.rate) || taxable === null || tax === null) {
+          return []
+        }
+        return [
+          {
+            name: line.name,
+            jurisdiction: typeof line.jurisdiction === 'string' ? line.jurisdiction : '',
+            rate: line.rate,
+            taxable_amount: fromCents(taxable),
+            tax_amount: fromCents(tax),
+          },
+        ]
+      } catch {
+        return []
+      }
+    })
+}
+
+/**
+ * Validate an admin create/replace payload for `tax_rates`.
+ */
+export const parseTaxRateWrite = (
+  body: any
+): { value: Omit<TaxRate, 'id'>; error?: undefined } | { value?: undefined; error: string } => {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid tax rate data' }
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name) return { error: 'Name is required' }
+  if (name.length > MAX_NAME_LENGTH) return { error: `Name must be ${MAX_NAME_LENGTH} characters or less` }
+
+  const jurisdiction = typeof body.jurisdiction === 'string' ? body.jurisdiction.trim() : ''
+  if (!jurisdiction) return { error: 'Jurisdiction is required' }
+  if (jurisdiction.length > MAX_NAME_LENGTH) {
+    return { error: `Jurisdiction must be ${MAX_NAME_LENGTH} characters or less` }
+  }
+
+  const rate = typeof body.rate === 'string' ? Number(body.rate) : body.rate
+  if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0 || rate > MAX_RATE) {
+    return { error: `Rate must be a percentage between 0 and ${MAX_RATE}` }
+  }
+
+  const category = body.category === null || body.category === undefined || body.category === '' ? null : body.category
+  if (category !== null && !isMenuCategory(category)) {
+    return { error: 'Invalid category' }
+  }
+
+  if (body.is_active !== undefined && typeof body.is_active !== 'boolean') {
+    return { error: 'Active must be true or false' }
+  }
+
+  return {
+    value: {
+      name,
+      jurisdiction,
+      // The column keeps three decimals (e.g. 4.81 or 0.1)
+      rate: Math.round(rate * 1000) / 1000,
+      category,
+      is_active: body.is_active !== false,
+    },
+  }
+}
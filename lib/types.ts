@@ -1,24 +1,247 @@
+export const MENU_CATEGORIES = [
+  'Appetizers',
+  'Rice Dishes',
+  'Sandwiches',
+  'Kabobs',
+  'Combo Plates',
+  'Drinks',
+  'Desserts',
+] as const
+
+export type MenuCategory = (typeof MENU_CATEGORIES)[number]
+
+// 'combo' items are built by the customer from their modifier groups (e.g. pick 2 proteins + a side)
+export const MENU_ITEM_TYPES = ['standard', 'combo'] as const
+
+export type MenuItemType = (typeof MENU_ITEM_TYPES)[number]
+
+export const DIETARY_TAGS = ['vegetarian', 'vegan', 'halal', 'gluten-free', 'spicy'] as const
+
+export type DietaryTag = (typeof DIETARY_TAGS)[number]
+
+// The major food allergens customers ask about
+export const ALLERGENS = ['milk', 'eggs', 'wheat', 'soy', 'sesame', 'peanuts', 'tree-nuts', 'fish', 'shellfish'] as const
+
+export type Allergen = (typeof ALLERGENS)[number]
+
+// Languages the menu and ordering flow can be shown in. Dari is tagged fa-AF (Afghan Persian) so
+// browsers pick suitable fonts; Dari and Pashto are written right to left.
+export const LOCALES = ['en', 'fa-AF', 'ps', 'es'] as const
+
+export type Locale = (typeof LOCALES)[number]
+
+export type TranslatedLocale = Exclude<Locale, 'en'>
+
+// English text lives on the row itself; translations override it per locale (missing = English).
+export type MenuItemTranslations = Partial<Record<TranslatedLocale, { name?: string; description?: string }>>
+
+export type LabelTranslations = Partial<Record<TranslatedLocale, string>>
+
+export interface ModifierOption {
+  id: string
+  label: string
+  price: number
+  // Inventory count (null = not tracked); 0 means sold out
+  stock_quantity?: number | null
+  daily_stock?: number | null
+  translations?: LabelTranslations
+}
+
+export interface ModifierGroup {
+  id: string
+  name: string
+  // 0 = optional; 1+ = required
+  min_selections: number
+  // null = no limit; 1 = pick one
+  max_selections: number | null
+  options: ModifierOption[]
+  translations?: LabelTranslations
+}
+
+// Which groups an item offers; option_ids limits the group to a subset of its options (null = all).
+export interface MenuItemModifierAssignment {
+  menu_item_id: string
+  group_id: string
+  option_ids: string[] | null
+  sort_order: number
+}
+
+// A window when an item can be ordered, in restaurant-local time (America/Denver).
+// days: 0 = Sunday … 6 = Saturday. start/end are "HH:MM"; an end before the start runs past midnight.
+export interface AvailabilityWindow {
+  days: number[]
+  start: string
+  end: string
+}
+
+// A scheduled price override ("$6.99 sandwiches on Tuesday"). While active, `price` replaces the regular
+// price of the listed items and/or every item in `category`. Times are restaurant-local like AvailabilityWindow;
+// empty days = every day, no start/end time = all day, starts_on/ends_on are inclusive YYYY-MM-DD dates.
+export interface PriceRule {
+  id: string
+  name: string
+  price: number
+  menu_item_ids: string[]
+  category: MenuCategory | null
+  days: number[]
+  start_time: string | null
+  end_time: string | null
+  starts_on: string | null
+  ends_on: string | null
+  is_active: boolean
+}
+
+// One component of the sales tax, e.g. the state's or the city's share (see lib/tax.ts)
+export interface TaxRate {
+  id: string
+  name: string
+  jurisdiction: string
+  // Percent, e.g. 4.81
+  rate: number
+  // Only items in this category; null = every item with no category rate in the same jurisdiction
+  category: MenuCategory | null
+  is_active: boolean
+}
+
+// The tax an order was charged for one rate, kept with the order so later rate changes don't alter it
+export interface OrderTaxLine {
+  name: string
+  jurisdiction: string
+  rate: number
+  taxable_amount: number
+  tax_amount: number
+}
+
+export type PromoDiscountType = 'percent' | 'amount'
+
+// A code entered at checkout for money off (see lib/promo-codes.ts)
+export interface PromoCode {
+  id: string
+  // Stored uppercase; customers can type it in any case
+  code: string
+  description: string | null
+  discount_type: PromoDiscountType
+  // Percent off (e.g. 15) or dollars off (e.g. 5)
+  discount_value: number
+  // Dollars the order subtotal must reach
+  min_subtotal: number | null
+  // Last day the code works (Denver time)
+  expires_on: string | null
+  max_uses: number | null
+  max_uses_per_phone: number | null
+  // Only these items count toward the discount; no category and no items = the whole order
+  category: MenuCategory | null
+  menu_item_ids: string[]
+  is_active: boolean
+}
+
+// How often a code has been used, from the orders that recorded it
+export interface PromoCodeRedemptions {
+  orders: number
+  // Dollars
+  discount: number
+}
+
+// A reward customers can redeem loyalty points for at checkout (see lib/loyalty.ts)
+export interface LoyaltyReward {
+  id: string
+  name: string
+  points: number
+  // One item from this category is free
+  category: MenuCategory
+}
+
+export type LoyaltyEntryKind = 'earned' | 'redeemed' | 'adjusted'
+
+// A row of `loyalty_ledger`: points added (positive) or taken (negative) for a customer's phone
+export interface LoyaltyEntry {
+  id: string
+  // Digits only, as on orders.customer_phone
+  customer_phone: string
+  points: number
+  kind: LoyaltyEntryKind
+  // Why an admin adjusted the balance
+  reason: string | null
+  order_id: string | null
+  created_at: string
+}
+
 export interface MenuItem {
   id: string
   name: string
   description: string
   price: number
-  category: 'Kabobs' | 'Rice Dishes' | 'Appetizers' | 'Drinks' | 'Desserts' | 'Sandwiches' | 'Combo Plates'
+  category: MenuCategory
+  item_type?: MenuItemType
+  dietary_tags?: DietaryTag[]
+  allergens?: Allergen[]
+  translations?: MenuItemTranslations
   image_url?: string
+  sort_order?: number
+  archived_at?: string | null
+  // Sold out ("86'd") when false; if unavailable_until is set the item comes back on its own at that time.
+  is_available?: boolean
+  unavailable_until?: string | null
+  // Inventory count decremented by paid orders (null = not tracked); daily_stock is what the daily reset restores
+  stock_quantity?: number | null
+  daily_stock?: number | null
+  // Orderable only inside one of these windows (null/empty = all day, every day)
+  availability_schedule?: AvailabilityWindow[] | null
+  modifier_groups?: ModifierGroup[]
+  // Enabled price rules that cover this item; `price` stays the regular price (see lib/price-rules.ts)
+  price_rules?: PriceRule[]
+  // The tax rates charged on this item, one per jurisdiction
+  tax_rates?: TaxRate[]
   created_at?: string
+  updated_at?: string
+}
+
+export interface CartModifierSelection {
+  group_id: string
+  group_name: string
+  option_id: string
+  label: string
+  price: number
 }
 
 export interface CartItem {
   id: string
   base_item_id?: string
+  item_type?: MenuItemType
   name: string
   price: number
   quantity: number
   image_url?: string
+  modifiers?: CartModifierSelection[]
+  // Derived from `modifiers` (free choices / paid add-ons); kept for display, totals and order items.
   selectedOptions?: string[]
   selectedAddons?: Array<{ name: string; price: number }>
+  // Group orders: who in the group this line is for
+  participant_name?: string
+  // Note for the kitchen about this line only, e.g. "well done"
+  special_instructions?: string
 }
 
+// A cart saved through /api/carts (share links, group orders). host_token is only returned to the
+// group's host when the group is created.
+export interface SharedCart {
+  id: string
+  items: CartItem[]
+  updated_at: string
+  is_group?: boolean
+  host_name?: string | null
+  locked_at?: string | null
+  host_token?: string
+}
+
+// What changed when a saved cart was checked against the current menu (see /api/carts/validate)
+export type CartChange =
+  | { type: 'removed'; name: string }
+  | { type: 'price'; name: string; base_item_id: string; from: number; to: number }
+  | { type: 'options_removed'; name: string; base_item_id: string; options: string[] }
+  // The remaining choices no longer satisfy the item's option groups, so the line was removed
+  | { type: 'needs_options'; name: string; base_item_id: string }
+
 export interface Order {
   id: string
   order_number?: number
@@ -34,8 +257,18 @@ export interface Order {
   tip_percent?: number | null
   tip_amount?: number | null
   comments?: string | null
+  // Null on orders placed before subtotals were stored
+  subtotal_amount?: number | null
   total_amount: number
   tax_amount: number
+  // Null on orders placed before tax rates were configurable
+  tax_breakdown?: OrderTaxLine[] | null
+  // Promo code used, as entered, and the dollars it took off (0 or null without one)
+  promo_code?: string | null
+  promo_code_id?: string | null
+  discount_amount?: number | null
+  // Loyalty reward redeemed instead of a promo code (its discount is in discount_amount)
+  loyalty_reward?: string | null
   status: 'pending' | 'preparing' | 'ready' | 'completed'
   created_at: string
   order_items: OrderItem[]
@@ -48,6 +281,14 @@ export interface OrderItem {
   menu_item_name: string
   quantity: number
   price: number
+  // Group orders: whose bag this item goes in
+  participant_name?: string | null
+  // Options chosen for the item (null on add-on rows and older orders), used to reorder it
+  modifier_option_ids?: string[] | null
+  // A "+ Add-on" row listed under its item for the kitchen
+  is_addon?: boolean
+  // The customer's note for this item
+  special_instructions?: string | null
 }
 
 export interface OrderFormData {
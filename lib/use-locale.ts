@@ -0,0 +1,62 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  DEFAULT_LOCALE,
+  getLocaleDirection,
+  getMessages,
+  isLocale,
+  matchBrowserLocale,
+} from './i18n'
+import { isStorageEventFor, readStorage, writeStorage } from './storage'
+import { Locale } from './types'
+
+const getInitialLocale = (): Locale => {
+  if (typeof window === 'undefined') return DEFAULT_LOCALE
+  const saved = readStorage('locale')
+  if (isLocale(saved)) return saved
+  return matchBrowserLocale(navigator.languages || [navigator.language])
+}
+
+const applyDocumentLocale = (locale: Locale) => {
+  document.documentElement.lang = locale
+  document.documentElement.dir = getLocaleDirection(locale)
+}
+
+/**
+ * Switch the site language and remember it for later visits.
+ */
+export const setLocale = (locale: Locale) => {
+  writeStorage('locale', locale)
+  applyDocumentLocale(locale)
+  window.dispatchEvent(new Event('localeChanged'))
+}
+
+// Current locale and its UI strings; re-renders when the language is switched anywhere on the page.
+export const useLocale = () => {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE)
+
+  useEffect(() => {
+    const update = () => {
+      const next = getInitialLocale()
+      setLocaleState(next)
+      applyDocumentLocale(next)
+    }
+
+    update()
+
+    const handleStorageChange = (e: StorageEvent) => {
+      if (isStorageEventFor(e, 'locale')) update()
+    }
+
+    window.addEventListener('localeChanged', update)
+    window.addEventListener('storage', handleStorageChange)
+
+    return () => {
+      window.removeEventListener('localeChanged', update)
+      window.removeEventListener('storage', handleStorageChange)
+    }
+  }, [])
+
+  return { locale, t: getMessages(locale), dir: getLocaleDirection(locale), setLocale }
+}
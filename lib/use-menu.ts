@@ -0,0 +1,67 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { MENU_CATEGORIES, MenuCategory, MenuItem } from './types'
+
+export interface ClientMenu {
+  items: MenuItem[]
+  categories: MenuCategory[]
+}
+
+// Shared across components so the menu page, cart and modal only fetch /api/menu once per page load.
+let menuRequest: Promise<ClientMenu> | null = null
+
+export const fetchMenu = (): Promise<ClientMenu> => {
+  if (!menuRequest) {
+    menuRequest = fetch('/api/menu')
+      .then(async (response) => {
+        const data = await response.json().catch(() => ({}))
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load menu')
+        }
+        return {
+          items: Array.isArray(data.items) ? (data.items as MenuItem[]) : [],
+          categories: Array.isArray(data.categories)
+            ? (data.categories as MenuCategory[])
+            : [...MENU_CATEGORIES],
+        }
+      })
+      .catch((error) => {
+        // Allow a retry on the next call
+        menuRequest = null
+        throw error
+      })
+  }
+  return menuRequest
+}
+
+export const useMenu = () => {
+  const [menu, setMenu] = useState<ClientMenu>({ items: [], categories: [] })
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetchMenu()
+      .then((nextMenu) => {
+        if (cancelled) return
+        setMenu(nextMenu)
+        setError(null)
+      })
+      .catch((err: any) => {
+        if (cancelled) return
+        console.error('Error loading menu:', err)
+        setError(err?.message || 'Failed to load menu')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return { items: menu.items, categories: menu.categories, loading, error }
+}
@@ -0,0 +1,19 @@
+-- Migration: Server-side carts (continue a cart on another device, share cart links)
+-- Run this in your Supabase SQL editor
+
+-- The browser keeps its cart in localStorage and mirrors it here under an opaque random id.
+-- Anyone holding the id (the share link) can read and update the cart through /api/carts, so
+-- there is no public policy: only the service role used by the API routes can reach the table.
+CREATE TABLE IF NOT EXISTS carts (
+  id TEXT PRIMARY KEY,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_carts_updated_at ON carts(updated_at);
+
+ALTER TABLE carts ENABLE ROW LEVEL SECURITY;
+
+-- Optional cleanup of abandoned carts, e.g. from a scheduled job:
+-- DELETE FROM carts WHERE updated_at < NOW() - INTERVAL '30 days';
@@ -0,0 +1,33 @@
+-- Migration: Combo plates (customer picks proteins + a side)
+-- Run this in your Supabase SQL editor (after supabase-migration-modifier-groups.sql)
+
+-- 'combo' items are built from their modifier groups and sent to the kitchen as one line with components
+ALTER TABLE menu_items
+  ADD COLUMN IF NOT EXISTS item_type TEXT NOT NULL DEFAULT 'standard' CHECK (item_type IN ('standard', 'combo'));
+
+INSERT INTO menu_items (id, name, description, price, category, item_type, sort_order) VALUES
+  ('combo-plate', 'Combo Plate', 'Pick any two of our grilled meats or falafel, served with salad and your choice of side.', 17.99, 'Combo Plates', 'combo', 12)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO modifier_groups (id, name, min_selections, max_selections, sort_order) VALUES
+  ('combo-proteins', 'Proteins', 2, 2, 2),
+  ('combo-side', 'Side', 1, 1, 3)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO modifier_options (id, group_id, label, price, sort_order) VALUES
+  ('combo-chicken-kabob', 'combo-proteins', 'Chicken Kabob', 0.00, 0),
+  ('combo-kobideh', 'combo-proteins', 'Kobideh Kabob (Beef)', 0.00, 1),
+  ('combo-gyro', 'combo-proteins', 'Gyro', 0.00, 2),
+  ('combo-chicken-shawarma', 'combo-proteins', 'Chicken Shawarma', 0.00, 3),
+  ('combo-falafel', 'combo-proteins', 'Falafel', 0.00, 4),
+  ('combo-lamb-kabob', 'combo-proteins', 'Lamb Kabob', 2.00, 5),
+  ('combo-side-rice', 'combo-side', 'Seasoned Rice', 0.00, 0),
+  ('combo-side-fries', 'combo-side', 'Fries', 0.00, 1),
+  ('combo-side-salad', 'combo-side', 'Extra Salad', 0.00, 2)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO menu_item_modifier_groups (menu_item_id, group_id, option_ids, sort_order) VALUES
+  ('combo-plate', 'combo-proteins', NULL, 0),
+  ('combo-plate', 'combo-side', NULL, 1),
+  ('combo-plate', 'requests', ARRAY['no-salad', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 2)
+ON CONFLICT (menu_item_id, group_id) DO NOTHING;
@@ -0,0 +1,23 @@
+-- Migration: Dietary tags and allergens for menu items
+-- Run this in your Supabase SQL editor
+
+-- Values must match DIETARY_TAGS / ALLERGENS in lib/types.ts
+ALTER TABLE menu_items
+  ADD COLUMN IF NOT EXISTS dietary_tags TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (dietary_tags <@ ARRAY['vegetarian', 'vegan', 'halal', 'gluten-free', 'spicy']::TEXT[]),
+  ADD COLUMN IF NOT EXISTS allergens TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (allergens <@ ARRAY['milk', 'eggs', 'wheat', 'soy', 'sesame', 'peanuts', 'tree-nuts', 'fish', 'shellfish']::TEXT[]);
+
+-- Starting values from lib/menu-data.ts (only for items that haven't been tagged yet); confirm them with the kitchen
+UPDATE menu_items SET allergens = ARRAY['milk']::TEXT[] WHERE id = 'lamb-kabob-rice' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['milk']::TEXT[] WHERE id = 'kobidah-kabob-rice' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['milk']::TEXT[] WHERE id = 'chicken-kabob-rice' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['milk']::TEXT[] WHERE id = 'gyro-rice' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['milk']::TEXT[] WHERE id = 'lamb-shank-rice' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['milk']::TEXT[] WHERE id = 'shawarma-rice' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['milk', 'wheat']::TEXT[] WHERE id = 'gyro-sandwich' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['milk', 'wheat']::TEXT[] WHERE id = 'chicken-sandwich' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET dietary_tags = ARRAY['vegetarian']::TEXT[], allergens = ARRAY['milk', 'wheat']::TEXT[] WHERE id = 'falafel-sandwich' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['wheat']::TEXT[] WHERE id = 'potato-or-beef-sambosa' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET dietary_tags = ARRAY['vegetarian', 'vegan']::TEXT[] WHERE id = 'falafel' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['milk']::TEXT[] WHERE id = 'combo-plate' AND dietary_tags = '{}' AND allergens = '{}';
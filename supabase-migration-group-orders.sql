@@ -0,0 +1,12 @@
+-- Migration: Group orders (several people add to one cart, the host checks out for everyone)
+-- Run this in your Supabase SQL editor (after supabase-migration-carts.sql)
+
+-- A group cart records its host and is locked by the host before checkout. host_token is a random
+-- secret only the host's browser knows; the API never returns it to participants.
+ALTER TABLE carts ADD COLUMN IF NOT EXISTS is_group BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE carts ADD COLUMN IF NOT EXISTS host_name TEXT;
+ALTER TABLE carts ADD COLUMN IF NOT EXISTS host_token TEXT;
+ALTER TABLE carts ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP WITH TIME ZONE;
+
+-- Whose bag each item goes in (NULL for ordinary orders)
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS participant_name TEXT;
@@ -0,0 +1,51 @@
+-- Migration: Inventory counts for menu items and paid add-ons
+-- Run this in your Supabase SQL editor
+
+-- stock_quantity: what's left (NULL = not tracked). daily_stock: what the daily reset restores.
+ALTER TABLE menu_items
+  ADD COLUMN IF NOT EXISTS stock_quantity INTEGER CHECK (stock_quantity IS NULL OR stock_quantity >= 0),
+  ADD COLUMN IF NOT EXISTS daily_stock INTEGER CHECK (daily_stock IS NULL OR daily_stock >= 0);
+
+ALTER TABLE modifier_options
+  ADD COLUMN IF NOT EXISTS stock_quantity INTEGER CHECK (stock_quantity IS NULL OR stock_quantity >= 0),
+  ADD COLUMN IF NOT EXISTS daily_stock INTEGER CHECK (daily_stock IS NULL OR daily_stock >= 0);
+
+-- Called by the Stripe webhook when a paid order is created.
+-- p_menu_items / p_modifier_options: [{ "id": "lamb-shank-rice", "quantity": 2 }, ...]
+-- Each UPDATE locks its row, so concurrent orders can't both take the last unit; items that reach 0 are marked sold out.
+CREATE OR REPLACE FUNCTION decrement_inventory(p_menu_items JSONB, p_modifier_options JSONB)
+RETURNS VOID AS $$
+DECLARE
+  entry JSONB;
+BEGIN
+  FOR entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_menu_items, '[]'::JSONB)) LOOP
+    UPDATE menu_items
+    SET
+      stock_quantity = GREATEST(stock_quantity - (entry->>'quantity')::INTEGER, 0),
+      is_available = CASE WHEN stock_quantity - (entry->>'quantity')::INTEGER <= 0 THEN false ELSE is_available END,
+      unavailable_until = CASE WHEN stock_quantity - (entry->>'quantity')::INTEGER <= 0 THEN NULL ELSE unavailable_until END,
+      updated_at = NOW()
+    WHERE id = entry->>'id' AND stock_quantity IS NOT NULL;
+  END LOOP;
+
+  FOR entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_modifier_options, '[]'::JSONB)) LOOP
+    UPDATE modifier_options
+    SET stock_quantity = GREATEST(stock_quantity - (entry->>'quantity')::INTEGER, 0)
+    WHERE id = entry->>'id' AND stock_quantity IS NOT NULL;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Start-of-day reset from the admin Inventory tab: restore daily counts and un-86 tracked items.
+CREATE OR REPLACE FUNCTION reset_daily_inventory()
+RETURNS VOID AS $$
+BEGIN
+  UPDATE menu_items
+  SET stock_quantity = daily_stock, is_available = true, unavailable_until = NULL, updated_at = NOW()
+  WHERE daily_stock IS NOT NULL;
+
+  UPDATE modifier_options
+  SET stock_quantity = daily_stock
+  WHERE daily_stock IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql;
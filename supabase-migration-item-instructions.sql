@@ -0,0 +1,6 @@
+-- Migration: Per-item special instructions ("well done", "no onions")
+-- Run this in your Supabase SQL editor
+
+-- The customer's note for one item, shown under that item in the admin order card
+-- (NULL when there is none; add-on rows never have one)
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS special_instructions TEXT;
@@ -0,0 +1,41 @@
+-- Migration: Record a paid order's loyalty points atomically
+-- Run this in your Supabase SQL editor (after supabase-migration-loyalty.sql)
+
+-- The balance is checked when the Stripe session is created, but two sessions can be open at once. This
+-- records an order's points one customer at a time and re-checks the balance first: a redemption that
+-- would take it below zero is skipped (returns false). Each order is recorded at most once, so the
+-- webhook, its retries and /api/orders/ensure can all call it.
+CREATE OR REPLACE FUNCTION record_order_points(
+  p_order_id UUID,
+  p_customer_phone TEXT,
+  p_earned INTEGER,
+  p_redeemed INTEGER
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  redeemed BOOLEAN := true;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('loyalty:' || p_customer_phone));
+
+  -- Redeem before earning, so the order's own points can't pay for its reward
+  IF p_redeemed > 0 AND NOT EXISTS (
+    SELECT 1 FROM loyalty_ledger WHERE order_id = p_order_id AND kind = 'redeemed'
+  ) THEN
+    IF (SELECT COALESCE(SUM(points), 0) FROM loyalty_ledger WHERE customer_phone = p_customer_phone) < p_redeemed THEN
+      redeemed := false;
+    ELSE
+      INSERT INTO loyalty_ledger (customer_phone, points, kind, order_id)
+      VALUES (p_customer_phone, -p_redeemed, 'redeemed', p_order_id)
+      ON CONFLICT (order_id, kind) DO NOTHING;
+    END IF;
+  END IF;
+
+  IF p_earned > 0 THEN
+    INSERT INTO loyalty_ledger (customer_phone, points, kind, order_id)
+    VALUES (p_customer_phone, p_earned, 'earned', p_order_id)
+    ON CONFLICT (order_id, kind) DO NOTHING;
+  END IF;
+
+  RETURN redeemed;
+END;
+$$ LANGUAGE plpgsql;
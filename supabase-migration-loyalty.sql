@@ -0,0 +1,25 @@
+-- Migration: Loyalty points keyed by customer phone
+-- Run this in your Supabase SQL editor
+
+-- One row per change to a customer's points; the balance is the sum for their phone (digits only, as on
+-- orders.customer_phone). 'earned' and 'redeemed' rows are written when a paid order is recorded, at most
+-- one of each per order, so the webhook and /api/orders/ensure can both record it safely. 'adjusted' rows
+-- are added by hand from the admin dashboard and always have a reason.
+-- Written with the service role; no public policy.
+CREATE TABLE IF NOT EXISTS loyalty_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_phone TEXT NOT NULL,
+  points INTEGER NOT NULL CHECK (points <> 0),
+  kind TEXT NOT NULL CHECK (kind IN ('earned', 'redeemed', 'adjusted')),
+  reason TEXT CHECK (kind <> 'adjusted' OR reason IS NOT NULL),
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (order_id, kind)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_customer_phone ON loyalty_ledger(customer_phone, created_at DESC);
+
+ALTER TABLE loyalty_ledger ENABLE ROW LEVEL SECURITY;
+
+-- The reward redeemed on an order (its name; the discount is in discount_amount)
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS loyalty_reward TEXT;
@@ -0,0 +1,34 @@
+-- Migration: Admin menu editor (archiving items and category order)
+-- Run this in your Supabase SQL editor
+
+ALTER TABLE menu_items
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_menu_items_archived_at ON menu_items(archived_at);
+
+-- Display order of menu categories (names must match MenuCategory in lib/types.ts)
+CREATE TABLE IF NOT EXISTS menu_categories (
+  name TEXT PRIMARY KEY CHECK (name IN ('Appetizers', 'Rice Dishes', 'Sandwiches', 'Kabobs', 'Combo Plates', 'Drinks', 'Desserts')),
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE menu_categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "menu_categories are publicly readable" ON menu_categories;
+CREATE POLICY "menu_categories are publicly readable" ON menu_categories
+  FOR SELECT USING (true);
+
+INSERT INTO menu_categories (name, sort_order) VALUES
+  ('Appetizers', 0),
+  ('Rice Dishes', 1),
+  ('Sandwiches', 2),
+  ('Kabobs', 3),
+  ('Combo Plates', 4),
+  ('Drinks', 5),
+  ('Desserts', 6)
+ON CONFLICT (name) DO NOTHING;
+
+-- Only allow categories the app knows about
+ALTER TABLE menu_items DROP CONSTRAINT IF EXISTS menu_items_category_check;
+ALTER TABLE menu_items ADD CONSTRAINT menu_items_category_check
+  CHECK (category IN ('Appetizers', 'Rice Dishes', 'Sandwiches', 'Kabobs', 'Combo Plates', 'Drinks', 'Desserts'));
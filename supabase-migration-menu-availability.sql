@@ -0,0 +1,7 @@
+-- Migration: Sold-out ("86") flag for menu items
+-- Run this in your Supabase SQL editor
+
+-- is_available = false marks an item sold out; with unavailable_until set it comes back on its own at that time
+ALTER TABLE menu_items
+  ADD COLUMN IF NOT EXISTS is_available BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS unavailable_until TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,55 @@
+-- Migration: Apply menu imports in one transaction
+-- Run this in your Supabase SQL editor (after supabase-migration-inventory.sql and -menu-schedules.sql)
+
+-- Called by POST /api/admin/menu/import with the planned changes; either all of them are saved or none.
+-- p_items: menu_items rows to insert or update (as JSON, with archived_at set)
+-- p_stock_item_ids: items whose stock_quantity the file set; every other item keeps its live count, so
+--   re-importing an old export can't undo the orders taken since
+-- p_removed_ids: items to archive
+-- p_modifier_item_ids / p_assignments: items whose modifier groups are replaced, and their new rows
+CREATE OR REPLACE FUNCTION apply_menu_import(
+  p_items JSONB,
+  p_stock_item_ids TEXT[],
+  p_removed_ids TEXT[],
+  p_modifier_item_ids TEXT[],
+  p_assignments JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO menu_items (
+    id, name, description, price, category, item_type, dietary_tags, allergens, image_url, sort_order,
+    archived_at, is_available, unavailable_until, stock_quantity, daily_stock, availability_schedule, updated_at
+  )
+  SELECT
+    id, name, description, price, category, item_type, dietary_tags, allergens, image_url, sort_order,
+    archived_at, is_available, unavailable_until, stock_quantity, daily_stock, availability_schedule, NOW()
+  FROM jsonb_populate_recordset(NULL::menu_items, p_items)
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    price = EXCLUDED.price,
+    category = EXCLUDED.category,
+    item_type = EXCLUDED.item_type,
+    dietary_tags = EXCLUDED.dietary_tags,
+    allergens = EXCLUDED.allergens,
+    image_url = EXCLUDED.image_url,
+    sort_order = EXCLUDED.sort_order,
+    archived_at = EXCLUDED.archived_at,
+    is_available = EXCLUDED.is_available,
+    unavailable_until = EXCLUDED.unavailable_until,
+    stock_quantity = CASE
+      WHEN menu_items.id = ANY(p_stock_item_ids) THEN EXCLUDED.stock_quantity
+      ELSE menu_items.stock_quantity
+    END,
+    daily_stock = EXCLUDED.daily_stock,
+    availability_schedule = EXCLUDED.availability_schedule,
+    updated_at = NOW();
+
+  UPDATE menu_items SET archived_at = NOW(), updated_at = NOW() WHERE id = ANY(p_removed_ids);
+
+  DELETE FROM menu_item_modifier_groups WHERE menu_item_id = ANY(p_modifier_item_ids);
+  INSERT INTO menu_item_modifier_groups (menu_item_id, group_id, option_ids, sort_order)
+  SELECT menu_item_id, group_id, option_ids, sort_order
+  FROM jsonb_populate_recordset(NULL::menu_item_modifier_groups, p_assignments);
+END;
+$$ LANGUAGE plpgsql;
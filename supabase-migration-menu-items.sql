@@ -0,0 +1,35 @@
+-- Migration: Make menu_items the source of truth for the menu served by /api/menu
+-- Run this in your Supabase SQL editor
+
+ALTER TABLE menu_items
+  ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_menu_items_sort_order ON menu_items(sort_order);
+
+-- Remove the stale demo rows from the original schema seed
+DELETE FROM menu_items
+WHERE id IN ('1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12', '13', '14', '15', '16');
+
+-- Sync the current menu (mirrors lib/menu-data.ts)
+INSERT INTO menu_items (id, name, description, price, category, image_url, sort_order) VALUES
+  ('lamb-kabob-rice', 'Lamb Kabob with Rice', 'Char-grilled lamb kabob served over warm, seasoned rice for a hearty and satisfying meal.', 16.99, 'Rice Dishes', '/images/menu/lamb-kabob-rice.webp', 0),
+  ('kobidah-kabob-rice', 'Kobidah Kabob with Rice', 'Juicy, well-seasoned ground beef kobidah kabob grilled and served over rice.', 14.99, 'Rice Dishes', '/images/menu/kobidah-kabob-rice.webp', 1),
+  ('chicken-kabob-rice', 'Chicken Kabob with Rice', 'Tender, well-cooked chicken kabob grilled and served over rice.', 14.99, 'Rice Dishes', '/images/menu/chicken-kabob-rice.webp', 2),
+  ('gyro-rice', 'Gyro with Rice', 'Savory gyro meat served over rice—simple, flavorful, and filling.', 14.99, 'Rice Dishes', '/images/menu/gyro-rice.webp', 3),
+  ('lamb-shank-rice', 'Lamb Shank with Rice', 'Slow-cooked lamb shank served over rice for rich, comforting flavor in every bite.', 14.99, 'Rice Dishes', '/images/menu/lamb-shank-rice.webp', 4),
+  ('shawarma-rice', 'Shawarma with Rice', 'Well-seasoned chicken shawarma served over rice—classic, bold, and delicious.', 14.99, 'Rice Dishes', '/images/menu/shawarma-rice.webp', 5),
+  ('gyro-sandwich', 'Gyro Sandwich', 'A warm pita filled with savory gyro meat—quick, classic, and satisfying.', 7.99, 'Sandwiches', '/images/menu/gyro-sandwich.webp', 6),
+  ('chicken-sandwich', 'Chicken Sandwich', 'A flavorful chicken sandwich made fresh to order in warm pita.', 7.99, 'Sandwiches', '/images/menu/chicken-sandwich.webp', 7),
+  ('falafel-sandwich', 'Falafel Sandwich', 'Crispy falafel tucked into warm pita—packed with flavor and great for any time.', 7.99, 'Sandwiches', '/images/menu/flafel-sandwich.webp', 8),
+  ('potato-or-beef-sambosa', 'Potato or Beef Sambosa', 'Golden, crispy sambosa—perfectly seasoned and fried until crunchy.', 0.50, 'Appetizers', '/images/menu/potato-or-beef-sambosa.webp', 9),
+  ('chicken-wings', 'Chicken Wings', 'Crispy chicken wings cooked until golden—perfect for sharing (or not).', 7.99, 'Appetizers', '/images/menu/chicken-wings.webp', 10),
+  ('falafel', 'Falafel', 'Crispy, well-seasoned falafel—crunchy outside, tender inside.', 7.99, 'Appetizers', '/images/menu/flafel.webp', 11)
+ON CONFLICT (id) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  price = EXCLUDED.price,
+  category = EXCLUDED.category,
+  image_url = EXCLUDED.image_url,
+  sort_order = EXCLUDED.sort_order,
+  updated_at = NOW();
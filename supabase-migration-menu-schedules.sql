@@ -0,0 +1,7 @@
+-- Migration: Daypart / time-restricted menu items
+-- Run this in your Supabase SQL editor
+
+-- NULL = orderable any time. Otherwise a list of windows in restaurant-local time (America/Denver), e.g.
+-- [{ "days": [1, 2, 3, 4, 5], "start": "11:00", "end": "14:00" }]  (days: 0 = Sunday … 6 = Saturday)
+ALTER TABLE menu_items
+  ADD COLUMN IF NOT EXISTS availability_schedule JSONB;
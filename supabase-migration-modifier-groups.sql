@@ -0,0 +1,92 @@
+-- Migration: Data-driven modifier groups (options and add-ons shown in the item modal)
+-- Run this in your Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS modifier_groups (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  min_selections INTEGER NOT NULL DEFAULT 0 CHECK (min_selections >= 0),
+  max_selections INTEGER CHECK (max_selections IS NULL OR max_selections >= 1),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS modifier_options (
+  id TEXT PRIMARY KEY,
+  group_id TEXT NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  price DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Which groups an item shows; option_ids limits the group to a subset (NULL = all options)
+CREATE TABLE IF NOT EXISTS menu_item_modifier_groups (
+  menu_item_id TEXT NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  group_id TEXT NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  option_ids TEXT[],
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (menu_item_id, group_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_modifier_options_group_id ON modifier_options(group_id);
+
+ALTER TABLE modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE modifier_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_item_modifier_groups ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "modifier_groups are publicly readable" ON modifier_groups;
+CREATE POLICY "modifier_groups are publicly readable" ON modifier_groups
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "modifier_options are publicly readable" ON modifier_options;
+CREATE POLICY "modifier_options are publicly readable" ON modifier_options
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "menu_item_modifier_groups are publicly readable" ON menu_item_modifier_groups;
+CREATE POLICY "menu_item_modifier_groups are publicly readable" ON menu_item_modifier_groups
+  FOR SELECT USING (true);
+
+-- Seed (mirrors lib/menu-data.ts)
+INSERT INTO modifier_groups (id, name, min_selections, max_selections, sort_order) VALUES
+  ('add-ons', 'OPTIONS', 0, NULL, 0),
+  ('requests', 'Special requests', 0, NULL, 1),
+  ('sambosa-filling', 'Sambosa filling', 1, 1, 2)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO modifier_options (id, group_id, label, price, sort_order) VALUES
+  ('extra-rice', 'add-ons', 'XTRA RICE', 1.00, 0),
+  ('extra-gyros', 'add-ons', 'XTRA GYROS', 1.00, 1),
+  ('extra-chicken-shawarma', 'add-ons', 'XTRA CHICKEN SHAWARMA', 1.00, 2),
+  ('extra-chicken-kabob', 'add-ons', 'XTRA CHICKEN KABOB', 1.00, 3),
+  ('extra-kobideh', 'add-ons', 'XTRA KOBIDEH KABOB (BEEF)', 1.00, 4),
+  ('extra-falafel', 'add-ons', 'XTRA 3 PCS FALAFEL', 1.00, 5),
+  ('extra-lamb-kabob', 'add-ons', 'XTRA LAMB KABOB', 1.00, 6),
+  ('no-salad', 'requests', 'NO SALAD', 0.00, 0),
+  ('no-lettuce', 'requests', 'NO LETTUCE', 0.00, 1),
+  ('no-sauce', 'requests', 'NO SAUCE', 0.00, 2),
+  ('add-hot-sauce', 'requests', 'ADD HOT SAUCE', 0.00, 3),
+  ('extra-white-sauce', 'requests', 'XTRA WHITE SAUCE', 0.00, 4),
+  ('no-fries', 'requests', 'No fries', 0.00, 5),
+  ('sambosa-potato', 'sambosa-filling', 'Potato', 0.00, 0),
+  ('sambosa-beef', 'sambosa-filling', 'Beef', 0.00, 1)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO menu_item_modifier_groups (menu_item_id, group_id, option_ids, sort_order) VALUES
+  ('lamb-kabob-rice', 'add-ons', ARRAY['extra-rice', 'extra-lamb-kabob'], 0),
+  ('lamb-kabob-rice', 'requests', ARRAY['no-salad', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 1),
+  ('kobidah-kabob-rice', 'add-ons', ARRAY['extra-rice', 'extra-kobideh'], 0),
+  ('kobidah-kabob-rice', 'requests', ARRAY['no-salad', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 1),
+  ('chicken-kabob-rice', 'add-ons', ARRAY['extra-rice', 'extra-chicken-kabob'], 0),
+  ('chicken-kabob-rice', 'requests', ARRAY['no-salad', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 1),
+  ('gyro-rice', 'add-ons', ARRAY['extra-rice', 'extra-gyros'], 0),
+  ('gyro-rice', 'requests', ARRAY['no-salad', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 1),
+  ('lamb-shank-rice', 'add-ons', ARRAY['extra-rice'], 0),
+  ('lamb-shank-rice', 'requests', ARRAY['no-salad', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 1),
+  ('shawarma-rice', 'add-ons', ARRAY['extra-rice', 'extra-chicken-shawarma'], 0),
+  ('shawarma-rice', 'requests', ARRAY['no-salad', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 1),
+  ('gyro-sandwich', 'requests', ARRAY['no-lettuce', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 0),
+  ('chicken-sandwich', 'requests', ARRAY['no-lettuce', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 0),
+  ('falafel-sandwich', 'requests', ARRAY['no-lettuce', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 0),
+  ('potato-or-beef-sambosa', 'sambosa-filling', NULL, 0),
+  ('falafel', 'add-ons', ARRAY['extra-falafel'], 0)
+ON CONFLICT (menu_item_id, group_id) DO NOTHING;
@@ -0,0 +1,23 @@
+-- Migration: Take each paid order out of inventory exactly once
+-- Run this in your Supabase SQL editor (after supabase-migration-inventory.sql)
+
+-- Set when an order's items have been taken out of stock. The Stripe webhook (and its retries) and
+-- /api/orders/ensure can both try, and the webhook also tries for orders another route created.
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS inventory_applied_at TIMESTAMP WITH TIME ZONE;
+
+-- Orders placed before this migration were already handled by the webhook
+UPDATE orders SET inventory_applied_at = COALESCE(created_at, NOW()) WHERE inventory_applied_at IS NULL;
+
+-- Claims the order and decrements its stock in one transaction: returns false (and changes nothing) when
+-- the order was already applied.
+CREATE OR REPLACE FUNCTION apply_order_inventory(p_order_id UUID, p_menu_items JSONB, p_modifier_options JSONB)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE orders SET inventory_applied_at = NOW() WHERE id = p_order_id AND inventory_applied_at IS NULL;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+  PERFORM decrement_inventory(p_menu_items, p_modifier_options);
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,10 @@
+-- Migration: Structured order items (so customers can reorder a past order)
+-- Run this in your Supabase SQL editor
+
+-- The modifier options chosen for the item, e.g. '{side-rice,extra-feta}' (NULL on add-on rows and
+-- on orders placed before this migration)
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS modifier_option_ids TEXT[];
+
+-- Paid add-ons are also listed as their own "+ Feta" rows for the kitchen ticket. They are already
+-- covered by the item's modifier_option_ids, so reordering skips them.
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS is_addon BOOLEAN NOT NULL DEFAULT false;
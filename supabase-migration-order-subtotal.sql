@@ -0,0 +1,6 @@
+-- Migration: Store each order's subtotal
+-- Run this in your Supabase SQL editor
+
+-- Items and add-ons before tax and tip, as charged. Orders placed before this migration have NULL and
+-- are shown as total_amount - tax_amount - tip_amount.
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS subtotal_amount DECIMAL(10, 2);
@@ -0,0 +1,29 @@
+-- Migration: Scheduled price rules (happy hour, daily specials)
+-- Run this in your Supabase SQL editor
+
+-- While a rule is active its price replaces the regular price of every item it applies to
+-- (listed in menu_item_ids and/or everything in category). Times are restaurant-local (America/Denver):
+-- days 0 = Sunday … 6 = Saturday (empty = every day), start_time/end_time "HH:MM" (NULL = all day),
+-- starts_on/ends_on inclusive (NULL = open-ended). E.g. "$6.99 sandwiches on Tuesday":
+-- INSERT INTO price_rules (name, price, category, days) VALUES ('Sandwich Tuesday', 6.99, 'Sandwiches', ARRAY[2]);
+CREATE TABLE IF NOT EXISTS price_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  price DECIMAL(10, 2) NOT NULL CHECK (price >= 0),
+  menu_item_ids TEXT[] NOT NULL DEFAULT '{}',
+  category TEXT CHECK (category IN ('Appetizers', 'Rice Dishes', 'Sandwiches', 'Kabobs', 'Combo Plates', 'Drinks', 'Desserts')),
+  days INTEGER[] NOT NULL DEFAULT '{}' CHECK (days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]),
+  start_time TEXT CHECK (start_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  end_time TEXT CHECK (end_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  starts_on DATE,
+  ends_on DATE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE price_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "price_rules are publicly readable" ON price_rules;
+CREATE POLICY "price_rules are publicly readable" ON price_rules
+  FOR SELECT USING (true);
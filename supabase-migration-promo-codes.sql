@@ -0,0 +1,37 @@
+-- Migration: Promo codes at checkout
+-- Run this in your Supabase SQL editor
+
+-- A code takes discount_value percent (discount_type 'percent') or dollars ('amount') off the items it
+-- covers: those in menu_item_ids and/or category, or the whole order when both are empty. Codes are
+-- stored uppercase. expires_on is the last day the code works (Denver time); NULL limits are unlimited.
+-- E.g. 10% off a customer's first order:
+-- INSERT INTO promo_codes (code, description, discount_type, discount_value, max_uses_per_phone)
+-- VALUES ('WELCOME10', '10% off your first order', 'percent', 10, 1);
+-- Written by the admin dashboard with the service role; no public policy.
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code) AND code ~ '^[A-Z0-9_-]{1,32}$'),
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'amount')),
+  discount_value DECIMAL(10, 2) NOT NULL CHECK (discount_value > 0 AND (discount_type = 'amount' OR discount_value <= 100)),
+  min_subtotal DECIMAL(10, 2) CHECK (min_subtotal >= 0),
+  expires_on DATE,
+  max_uses INTEGER CHECK (max_uses > 0),
+  max_uses_per_phone INTEGER CHECK (max_uses_per_phone > 0),
+  menu_item_ids TEXT[] NOT NULL DEFAULT '{}',
+  category TEXT CHECK (category IN ('Appetizers', 'Rice Dishes', 'Sandwiches', 'Kabobs', 'Combo Plates', 'Drinks', 'Desserts')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+
+-- The code each order used (as entered, kept if the code is deleted) and the dollars it took off before tax
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS promo_code_id UUID REFERENCES promo_codes(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS promo_code TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- Usage limits count a code's orders, overall and per phone number
+CREATE INDEX IF NOT EXISTS idx_orders_promo_code_id ON orders(promo_code_id, customer_phone)
+  WHERE promo_code_id IS NOT NULL;
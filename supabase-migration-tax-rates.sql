@@ -0,0 +1,44 @@
+-- Migration: Configurable sales tax rates
+-- Run this in your Supabase SQL editor
+
+-- Each row is one component of the sales tax, grouped by jurisdiction. In every jurisdiction an item
+-- pays the rows for its category if there are any, and the rows with no category otherwise. rate is a
+-- percentage. E.g. Denver's combined rate as separate components (check the current rates first):
+-- INSERT INTO tax_rates (name, jurisdiction, rate) VALUES
+--   ('State sales tax', 'Colorado', 2.9), ('RTD', 'Colorado', 1.0),
+--   ('Cultural Facilities District', 'Colorado', 0.1), ('City sales tax', 'Denver', 4.81);
+CREATE TABLE IF NOT EXISTS tax_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  jurisdiction TEXT NOT NULL,
+  rate DECIMAL(6, 3) NOT NULL CHECK (rate >= 0 AND rate <= 20),
+  category TEXT CHECK (category IN ('Appetizers', 'Rice Dishes', 'Sandwiches', 'Kabobs', 'Combo Plates', 'Drinks', 'Desserts')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "tax_rates are publicly readable" ON tax_rates;
+CREATE POLICY "tax_rates are publicly readable" ON tax_rates
+  FOR SELECT USING (true);
+
+-- Start from the 8% the site charged before; change it in the admin Taxes tab
+INSERT INTO tax_rates (name, jurisdiction, rate)
+SELECT 'Sales tax', 'Default', 8
+WHERE NOT EXISTS (SELECT 1 FROM tax_rates);
+
+-- The rates each order was charged: [{ name, jurisdiction, rate, taxable_amount, tax_amount }]
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_breakdown JSONB;
+
+-- Orders placed before this migration were all taxed at 8%
+UPDATE orders
+SET tax_breakdown = jsonb_build_array(jsonb_build_object(
+  'name', 'Sales tax',
+  'jurisdiction', 'Default',
+  'rate', 8,
+  'taxable_amount', total_amount - tax_amount - COALESCE(tip_amount, 0),
+  'tax_amount', tax_amount
+))
+WHERE tax_breakdown IS NULL;
@@ -0,0 +1,57 @@
+-- Migration: Translations for menu items and modifiers (Dari, Pashto, Spanish)
+-- Run this in your Supabase SQL editor
+
+-- Keyed by locale (see LOCALES in lib/types.ts); English stays in name/description/label.
+-- Items: {"fa-AF": {"name": "...", "description": "..."}, ...}; groups and options: {"fa-AF": "...", ...}
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS translations JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE modifier_groups ADD COLUMN IF NOT EXISTS translations JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE modifier_options ADD COLUMN IF NOT EXISTS translations JSONB NOT NULL DEFAULT '{}';
+
+-- Starting translations from lib/menu-data.ts (only where none were entered yet); review them in the admin menu editor
+-- Menu items
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"کباب گوسفند با برنج","description":"کباب گوسفند کبابی روی ذغال، با برنج گرم و خوش‌طعم؛ یک غذای سیر و دلچسب."},"ps":{"name":"د پسه کباب له وريجو سره","description":"د سکرو پر سر پوخ شوی د پسه کباب، له تودو او مزه‌دارو وريجو سره؛ ماړه او خوندوره ډوډۍ."},"es":{"name":"Kebab de cordero con arroz","description":"Kebab de cordero asado a la parrilla sobre arroz caliente y sazonado, una comida abundante y satisfactoria."}}'::JSONB WHERE id = 'lamb-kabob-rice' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"کباب کوبیده با برنج","description":"کباب کوبیده آبدار از گوشت گاو چرخ‌کرده و خوش‌ادویه، کباب‌شده و با برنج."},"ps":{"name":"کوبیده کباب له وريجو سره","description":"د غوا د قیمه شوې غوښې اوبلن او مساله‌دار کوبیده کباب، په سکرو پوخ او له وريجو سره."},"es":{"name":"Kebab kobidah con arroz","description":"Jugoso kebab kobidah de carne de res molida bien sazonada, asado y servido sobre arroz."}}'::JSONB WHERE id = 'kobidah-kabob-rice' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"کباب مرغ با برنج","description":"کباب مرغ نرم و خوب پخته، کباب‌شده و با برنج."},"ps":{"name":"د چرګ کباب له وريجو سره","description":"نرم او ښه پوخ شوی د چرګ کباب، له وريجو سره."},"es":{"name":"Kebab de pollo con arroz","description":"Kebab de pollo tierno y bien cocido, asado y servido sobre arroz."}}'::JSONB WHERE id = 'chicken-kabob-rice' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"گیرو با برنج","description":"گوشت گیروی خوش‌طعم روی برنج؛ ساده، لذیذ و سیرکننده."},"ps":{"name":"ګایرو له وريجو سره","description":"مزه‌داره ګایرو غوښه له وريجو سره؛ ساده، خوندوره او ماړونکې."},"es":{"name":"Gyro con arroz","description":"Sabrosa carne de gyro sobre arroz: sencillo, delicioso y llenador."}}'::JSONB WHERE id = 'gyro-rice' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"ماهیچه گوسفند با برنج","description":"ماهیچه گوسفند آرام‌پز روی برنج، با طعمی غنی و دلنشین در هر لقمه."},"ps":{"name":"د پسه پنډۍ له وريجو سره","description":"ورو ورو پخه شوې د پسه پنډۍ له وريجو سره، په هره ګوله کې بډای او خوندور خوند."},"es":{"name":"Chamorro de cordero con arroz","description":"Chamorro de cordero cocido a fuego lento sobre arroz, con un sabor intenso y reconfortante en cada bocado."}}'::JSONB WHERE id = 'lamb-shank-rice' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"شاورمه با برنج","description":"شاورمه مرغ خوش‌ادویه روی برنج؛ کلاسیک، پرطعم و لذیذ."},"ps":{"name":"شاورما له وريجو سره","description":"مساله‌داره د چرګ شاورما له وريجو سره؛ کلاسیکه، تېز خوند لرونکې او خوندوره."},"es":{"name":"Shawarma con arroz","description":"Shawarma de pollo bien sazonado sobre arroz: clásico, intenso y delicioso."}}'::JSONB WHERE id = 'shawarma-rice' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"ساندویچ گیرو","description":"نان پیتای گرم پر از گوشت گیروی خوش‌طعم؛ سریع، کلاسیک و سیرکننده."},"ps":{"name":"ګایرو سانډویچ","description":"توده پیټا ډوډۍ له مزه‌دارې ګایرو غوښې ډکه؛ چټکه، کلاسیکه او ماړونکې."},"es":{"name":"Sándwich de gyro","description":"Pan pita caliente relleno de sabrosa carne de gyro: rápido, clásico y satisfactorio."}}'::JSONB WHERE id = 'gyro-sandwich' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"ساندویچ مرغ","description":"ساندویچ مرغ پرطعم که تازه در نان پیتای گرم آماده می‌شود."},"ps":{"name":"د چرګ سانډویچ","description":"خوندور د چرګ سانډویچ چې په توده پیټا ډوډۍ کې تازه جوړېږي."},"es":{"name":"Sándwich de pollo","description":"Un sabroso sándwich de pollo preparado al momento en pan pita caliente."}}'::JSONB WHERE id = 'chicken-sandwich' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"ساندویچ فلافل","description":"فلافل ترد در نان پیتای گرم؛ پرطعم و مناسب برای هر وقت."},"ps":{"name":"د فلافلو سانډویچ","description":"کړپ فلافل په توده پیټا ډوډۍ کې؛ له خوند ډک او د هر وخت لپاره ښه."},"es":{"name":"Sándwich de falafel","description":"Falafel crujiente en pan pita caliente: lleno de sabor e ideal a cualquier hora."}}'::JSONB WHERE id = 'falafel-sandwich' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"سمبوسه کچالو یا گوشت","description":"سمبوسه طلایی و ترد، با ادویه کامل و سرخ‌شده تا کاملاً ترد شود."},"ps":{"name":"د کچالو یا غوښې سمبوسه","description":"طلايي او کړپ سمبوسه، په سمه توګه مساله شوې او تر کړپېدو پورې سره شوې."},"es":{"name":"Sambosa de papa o de res","description":"Sambosa dorada y crujiente, perfectamente sazonada y frita hasta quedar crocante."}}'::JSONB WHERE id = 'potato-or-beef-sambosa' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"بال مرغ","description":"بال مرغ ترد که تا طلایی شدن پخته می‌شود؛ عالی برای شریک شدن (یا نه)."},"ps":{"name":"د چرګ وزرونه","description":"کړپ د چرګ وزرونه چې تر طلايي کېدو پورې پاخه شوي؛ د شریکولو لپاره ښه (یا نه)."},"es":{"name":"Alitas de pollo","description":"Alitas de pollo crujientes y doradas, perfectas para compartir (o no)."}}'::JSONB WHERE id = 'chicken-wings' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"فلافل","description":"فلافل خوش‌ادویه؛ بیرون ترد و داخل نرم."},"ps":{"name":"فلافل","description":"ښه مساله شوي فلافل؛ بهر کړپ او دننه نرم."},"es":{"name":"Falafel","description":"Falafel bien sazonado: crujiente por fuera y suave por dentro."}}'::JSONB WHERE id = 'falafel' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"بشقاب ترکیبی","description":"دو مورد از گوشت‌های کبابی یا فلافل ما را انتخاب کنید، با سالاد و غذای جانبی دلخواه شما."},"ps":{"name":"ګډ پلیټ","description":"زموږ له کباب شویو غوښو یا فلافلو څخه دوه وټاکئ، له سلاتې او ستاسو د خوښې د څنګ خوړو سره."},"es":{"name":"Plato combinado","description":"Elige dos de nuestras carnes a la parrilla o falafel, servidos con ensalada y el acompañamiento que prefieras."}}'::JSONB WHERE id = 'combo-plate' AND translations = '{}'::JSONB;
+
+-- Modifier groups
+UPDATE modifier_groups SET translations = '{"fa-AF":"گزینه‌ها","ps":"انتخابونه","es":"Opciones"}'::JSONB WHERE id = 'add-ons' AND translations = '{}'::JSONB;
+UPDATE modifier_groups SET translations = '{"fa-AF":"درخواست‌های خاص","ps":"ځانګړې غوښتنې","es":"Peticiones especiales"}'::JSONB WHERE id = 'requests' AND translations = '{}'::JSONB;
+UPDATE modifier_groups SET translations = '{"fa-AF":"پروتئین‌ها","ps":"پروټین","es":"Proteínas"}'::JSONB WHERE id = 'combo-proteins' AND translations = '{}'::JSONB;
+UPDATE modifier_groups SET translations = '{"fa-AF":"غذای جانبی","ps":"د څنګ خواړه","es":"Acompañamiento"}'::JSONB WHERE id = 'combo-side' AND translations = '{}'::JSONB;
+UPDATE modifier_groups SET translations = '{"fa-AF":"مواد داخل سمبوسه","ps":"د سمبوسې ډکول","es":"Relleno de sambosa"}'::JSONB WHERE id = 'sambosa-filling' AND translations = '{}'::JSONB;
+
+-- Modifier options
+UPDATE modifier_options SET translations = '{"fa-AF":"برنج اضافه","ps":"اضافي وريجې","es":"Arroz extra"}'::JSONB WHERE id = 'extra-rice' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"گیروی اضافه","ps":"اضافي ګایرو","es":"Gyro extra"}'::JSONB WHERE id = 'extra-gyros' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"شاورمه مرغ اضافه","ps":"اضافي د چرګ شاورما","es":"Shawarma de pollo extra"}'::JSONB WHERE id = 'extra-chicken-shawarma' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"کباب مرغ اضافه","ps":"اضافي د چرګ کباب","es":"Kebab de pollo extra"}'::JSONB WHERE id = 'extra-chicken-kabob' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"کباب کوبیده اضافه (گوشت گاو)","ps":"اضافي کوبیده کباب (د غوا غوښه)","es":"Kebab kobideh extra (res)"}'::JSONB WHERE id = 'extra-kobideh' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"۳ دانه فلافل اضافه","ps":"۳ دانې اضافي فلافل","es":"3 piezas de falafel extra"}'::JSONB WHERE id = 'extra-falafel' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"کباب گوسفند اضافه","ps":"اضافي د پسه کباب","es":"Kebab de cordero extra"}'::JSONB WHERE id = 'extra-lamb-kabob' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"بدون سالاد","ps":"بې سلاتې","es":"Sin ensalada"}'::JSONB WHERE id = 'no-salad' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"بدون کاهو","ps":"بې کاهو","es":"Sin lechuga"}'::JSONB WHERE id = 'no-lettuce' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"بدون سس","ps":"بې ساس","es":"Sin salsa"}'::JSONB WHERE id = 'no-sauce' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"با سس تند","ps":"تریخ ساس ور اضافه کړئ","es":"Con salsa picante"}'::JSONB WHERE id = 'add-hot-sauce' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"سس سفید اضافه","ps":"اضافي سپین ساس","es":"Salsa blanca extra"}'::JSONB WHERE id = 'extra-white-sauce' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"بدون کچالوی سرخ‌کرده","ps":"بې سره شوو کچالو","es":"Sin papas fritas"}'::JSONB WHERE id = 'no-fries' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"کباب مرغ","ps":"د چرګ کباب","es":"Kebab de pollo"}'::JSONB WHERE id = 'combo-chicken-kabob' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"کباب کوبیده (گوشت گاو)","ps":"کوبیده کباب (د غوا غوښه)","es":"Kebab kobideh (res)"}'::JSONB WHERE id = 'combo-kobideh' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"گیرو","ps":"ګایرو","es":"Gyro"}'::JSONB WHERE id = 'combo-gyro' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"شاورمه مرغ","ps":"د چرګ شاورما","es":"Shawarma de pollo"}'::JSONB WHERE id = 'combo-chicken-shawarma' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"فلافل","ps":"فلافل","es":"Falafel"}'::JSONB WHERE id = 'combo-falafel' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"کباب گوسفند","ps":"د پسه کباب","es":"Kebab de cordero"}'::JSONB WHERE id = 'combo-lamb-kabob' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"برنج مصاله‌دار","ps":"مساله‌دارې وريجې","es":"Arroz sazonado"}'::JSONB WHERE id = 'combo-side-rice' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"کچالوی سرخ‌کرده","ps":"سره شوي کچالو","es":"Papas fritas"}'::JSONB WHERE id = 'combo-side-fries' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"سالاد اضافه","ps":"اضافي سلاته","es":"Ensalada extra"}'::JSONB WHERE id = 'combo-side-salad' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"کچالو","ps":"کچالو","es":"Papa"}'::JSONB WHERE id = 'sambosa-potato' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"گوشت گاو","ps":"د غوا غوښه","es":"Res"}'::JSONB WHERE id = 'sambosa-beef' AND translations = '{}'::JSONB;
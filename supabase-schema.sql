@@ -4,11 +4,125 @@ CREATE TABLE IF NOT EXISTS menu_items (
   name TEXT NOT NULL,
   description TEXT,
   price DECIMAL(10, 2) NOT NULL,
-  category TEXT NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('Appetizers', 'Rice Dishes', 'Sandwiches', 'Kabobs', 'Combo Plates', 'Drinks', 'Desserts')),
+  item_type TEXT NOT NULL DEFAULT 'standard' CHECK (item_type IN ('standard', 'combo')),
+  dietary_tags TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (dietary_tags <@ ARRAY['vegetarian', 'vegan', 'halal', 'gluten-free', 'spicy']::TEXT[]),
+  allergens TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (allergens <@ ARRAY['milk', 'eggs', 'wheat', 'soy', 'sesame', 'peanuts', 'tree-nuts', 'fish', 'shellfish']::TEXT[]),
+  translations JSONB NOT NULL DEFAULT '{}',
   image_url TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  is_available BOOLEAN NOT NULL DEFAULT true,
+  unavailable_until TIMESTAMP WITH TIME ZONE,
+  stock_quantity INTEGER CHECK (stock_quantity IS NULL OR stock_quantity >= 0),
+  daily_stock INTEGER CHECK (daily_stock IS NULL OR daily_stock >= 0),
+  availability_schedule JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create menu_categories table (display order of categories; names match MenuCategory in lib/types.ts)
+CREATE TABLE IF NOT EXISTS menu_categories (
+  name TEXT PRIMARY KEY CHECK (name IN ('Appetizers', 'Rice Dishes', 'Sandwiches', 'Kabobs', 'Combo Plates', 'Drinks', 'Desserts')),
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+-- Create modifier tables (options and add-ons shown in the item modal)
+CREATE TABLE IF NOT EXISTS modifier_groups (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  min_selections INTEGER NOT NULL DEFAULT 0 CHECK (min_selections >= 0),
+  max_selections INTEGER CHECK (max_selections IS NULL OR max_selections >= 1),
+  translations JSONB NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS modifier_options (
+  id TEXT PRIMARY KEY,
+  group_id TEXT NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  price DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  stock_quantity INTEGER CHECK (stock_quantity IS NULL OR stock_quantity >= 0),
+  daily_stock INTEGER CHECK (daily_stock IS NULL OR daily_stock >= 0),
+  translations JSONB NOT NULL DEFAULT '{}',
+  sort_order INTEGER NOT NULL DEFAULT 0,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Which groups an item shows; option_ids limits the group to a subset (NULL = all options)
+CREATE TABLE IF NOT EXISTS menu_item_modifier_groups (
+  menu_item_id TEXT NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  group_id TEXT NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  option_ids TEXT[],
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (menu_item_id, group_id)
+);
+
+-- Scheduled price rules (happy hour, daily specials); see supabase-migration-price-rules.sql
+CREATE TABLE IF NOT EXISTS price_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  price DECIMAL(10, 2) NOT NULL CHECK (price >= 0),
+  menu_item_ids TEXT[] NOT NULL DEFAULT '{}',
+  category TEXT CHECK (category IN ('Appetizers', 'Rice Dishes', 'Sandwiches', 'Kabobs', 'Combo Plates', 'Drinks', 'Desserts')),
+  days INTEGER[] NOT NULL DEFAULT '{}' CHECK (days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]),
+  start_time TEXT CHECK (start_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  end_time TEXT CHECK (end_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  starts_on DATE,
+  ends_on DATE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Sales tax components by jurisdiction, optionally per category (see supabase-migration-tax-rates.sql)
+CREATE TABLE IF NOT EXISTS tax_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  jurisdiction TEXT NOT NULL,
+  rate DECIMAL(6, 3) NOT NULL CHECK (rate >= 0 AND rate <= 20),
+  category TEXT CHECK (category IN ('Appetizers', 'Rice Dishes', 'Sandwiches', 'Kabobs', 'Combo Plates', 'Drinks', 'Desserts')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Server-side carts, keyed by an opaque random id (see supabase-migration-carts.sql).
+-- Only reachable through the service role used by /api/carts; no public policy.
+CREATE TABLE IF NOT EXISTS carts (
+  id TEXT PRIMARY KEY,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Group orders (see supabase-migration-group-orders.sql)
+  is_group BOOLEAN NOT NULL DEFAULT false,
+  host_name TEXT,
+  host_token TEXT,
+  locked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Promo codes entered at checkout (see supabase-migration-promo-codes.sql).
+-- Written by the admin dashboard with the service role; no public policy.
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code) AND code ~ '^[A-Z0-9_-]{1,32}$'),
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'amount')),
+  discount_value DECIMAL(10, 2) NOT NULL CHECK (discount_value > 0 AND (discount_type = 'amount' OR discount_value <= 100)),
+  min_subtotal DECIMAL(10, 2) CHECK (min_subtotal >= 0),
+  expires_on DATE,
+  max_uses INTEGER CHECK (max_uses > 0),
+  max_uses_per_phone INTEGER CHECK (max_uses_per_phone > 0),
+  menu_item_ids TEXT[] NOT NULL DEFAULT '{}',
+  category TEXT CHECK (category IN ('Appetizers', 'Rice Dishes', 'Sandwiches', 'Kabobs', 'Combo Plates', 'Drinks', 'Desserts')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create orders table
 CREATE TABLE IF NOT EXISTS orders (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -24,8 +138,20 @@ CREATE TABLE IF NOT EXISTS orders (
   tip_percent DECIMAL(5, 2),
   tip_amount DECIMAL(10, 2),
   comments TEXT,
+  -- Items and add-ons before tax and tip (see supabase-migration-order-subtotal.sql)
+  subtotal_amount DECIMAL(10, 2),
   total_amount DECIMAL(10, 2) NOT NULL,
   tax_amount DECIMAL(10, 2) NOT NULL,
+  -- The rates charged: [{ name, jurisdiction, rate, taxable_amount, tax_amount }] (see supabase-migration-tax-rates.sql)
+  tax_breakdown JSONB,
+  -- The promo code used (as entered, kept if the code is deleted) and the dollars it took off before tax
+  promo_code_id UUID REFERENCES promo_codes(id) ON DELETE SET NULL,
+  promo_code TEXT,
+  discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  -- The loyalty reward redeemed instead of a promo code (see supabase-migration-loyalty.sql)
+  loyalty_reward TEXT,
+  -- When the order was taken out of inventory (see supabase-migration-order-inventory.sql)
+  inventory_applied_at TIMESTAMP WITH TIME ZONE,
   status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'preparing', 'ready', 'completed')),
   stripe_session_id TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -40,23 +166,215 @@ CREATE TABLE IF NOT EXISTS order_items (
   menu_item_name TEXT NOT NULL,
   quantity INTEGER NOT NULL,
   price DECIMAL(10, 2) NOT NULL,
+  participant_name TEXT,
+  modifier_option_ids TEXT[],
+  is_addon BOOLEAN NOT NULL DEFAULT false,
+  special_instructions TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Loyalty points per customer phone (see supabase-migration-loyalty.sql).
+-- Written with the service role; no public policy.
+CREATE TABLE IF NOT EXISTS loyalty_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_phone TEXT NOT NULL,
+  points INTEGER NOT NULL CHECK (points <> 0),
+  kind TEXT NOT NULL CHECK (kind IN ('earned', 'redeemed', 'adjusted')),
+  reason TEXT CHECK (kind <> 'adjusted' OR reason IS NOT NULL),
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (order_id, kind)
+);
+
+-- Applies an admin menu import in one transaction, keeping live stock counts the file didn't change
+-- (see supabase-migration-menu-import.sql)
+CREATE OR REPLACE FUNCTION apply_menu_import(
+  p_items JSONB,
+  p_stock_item_ids TEXT[],
+  p_removed_ids TEXT[],
+  p_modifier_item_ids TEXT[],
+  p_assignments JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO menu_items (
+    id, name, description, price, category, item_type, dietary_tags, allergens, image_url, sort_order,
+    archived_at, is_available, unavailable_until, stock_quantity, daily_stock, availability_schedule, updated_at
+  )
+  SELECT
+    id, name, description, price, category, item_type, dietary_tags, allergens, image_url, sort_order,
+    archived_at, is_available, unavailable_until, stock_quantity, daily_stock, availability_schedule, NOW()
+  FROM jsonb_populate_recordset(NULL::menu_items, p_items)
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    price = EXCLUDED.price,
+    category = EXCLUDED.category,
+    item_type = EXCLUDED.item_type,
+    dietary_tags = EXCLUDED.dietary_tags,
+    allergens = EXCLUDED.allergens,
+    image_url = EXCLUDED.image_url,
+    sort_order = EXCLUDED.sort_order,
+    archived_at = EXCLUDED.archived_at,
+    is_available = EXCLUDED.is_available,
+    unavailable_until = EXCLUDED.unavailable_until,
+    stock_quantity = CASE
+      WHEN menu_items.id = ANY(p_stock_item_ids) THEN EXCLUDED.stock_quantity
+      ELSE menu_items.stock_quantity
+    END,
+    daily_stock = EXCLUDED.daily_stock,
+    availability_schedule = EXCLUDED.availability_schedule,
+    updated_at = NOW();
+
+  UPDATE menu_items SET archived_at = NOW(), updated_at = NOW() WHERE id = ANY(p_removed_ids);
+
+  DELETE FROM menu_item_modifier_groups WHERE menu_item_id = ANY(p_modifier_item_ids);
+  INSERT INTO menu_item_modifier_groups (menu_item_id, group_id, option_ids, sort_order)
+  SELECT menu_item_id, group_id, option_ids, sort_order
+  FROM jsonb_populate_recordset(NULL::menu_item_modifier_groups, p_assignments);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Records a paid order's loyalty points one customer at a time, skipping a redemption the balance no longer
+-- covers (see supabase-migration-loyalty-redemptions.sql)
+CREATE OR REPLACE FUNCTION record_order_points(
+  p_order_id UUID,
+  p_customer_phone TEXT,
+  p_earned INTEGER,
+  p_redeemed INTEGER
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  redeemed BOOLEAN := true;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('loyalty:' || p_customer_phone));
+
+  -- Redeem before earning, so the order's own points can't pay for its reward
+  IF p_redeemed > 0 AND NOT EXISTS (
+    SELECT 1 FROM loyalty_ledger WHERE order_id = p_order_id AND kind = 'redeemed'
+  ) THEN
+    IF (SELECT COALESCE(SUM(points), 0) FROM loyalty_ledger WHERE customer_phone = p_customer_phone) < p_redeemed THEN
+      redeemed := false;
+    ELSE
+      INSERT INTO loyalty_ledger (customer_phone, points, kind, order_id)
+      VALUES (p_customer_phone, -p_redeemed, 'redeemed', p_order_id)
+      ON CONFLICT (order_id, kind) DO NOTHING;
+    END IF;
+  END IF;
+
+  IF p_earned > 0 THEN
+    INSERT INTO loyalty_ledger (customer_phone, points, kind, order_id)
+    VALUES (p_customer_phone, p_earned, 'earned', p_order_id)
+    ON CONFLICT (order_id, kind) DO NOTHING;
+  END IF;
+
+  RETURN redeemed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Inventory functions (see supabase-migration-inventory.sql)
+-- Called through apply_order_inventory when a paid order is recorded.
+-- p_menu_items / p_modifier_options: [{ "id": "lamb-shank-rice", "quantity": 2 }, ...]
+-- Each UPDATE locks its row, so concurrent orders can't both take the last unit; items that reach 0 are marked sold out.
+CREATE OR REPLACE FUNCTION decrement_inventory(p_menu_items JSONB, p_modifier_options JSONB)
+RETURNS VOID AS $$
+DECLARE
+  entry JSONB;
+BEGIN
+  FOR entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_menu_items, '[]'::JSONB)) LOOP
+    UPDATE menu_items
+    SET
+      stock_quantity = GREATEST(stock_quantity - (entry->>'quantity')::INTEGER, 0),
+      is_available = CASE WHEN stock_quantity - (entry->>'quantity')::INTEGER <= 0 THEN false ELSE is_available END,
+      unavailable_until = CASE WHEN stock_quantity - (entry->>'quantity')::INTEGER <= 0 THEN NULL ELSE unavailable_until END,
+      updated_at = NOW()
+    WHERE id = entry->>'id' AND stock_quantity IS NOT NULL;
+  END LOOP;
+
+  FOR entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_modifier_options, '[]'::JSONB)) LOOP
+    UPDATE modifier_options
+    SET stock_quantity = GREATEST(stock_quantity - (entry->>'quantity')::INTEGER, 0)
+    WHERE id = entry->>'id' AND stock_quantity IS NOT NULL;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Takes a paid order out of stock once, whichever route records it first (see supabase-migration-order-inventory.sql).
+-- Returns false, changing nothing, when the order was already applied.
+CREATE OR REPLACE FUNCTION apply_order_inventory(p_order_id UUID, p_menu_items JSONB, p_modifier_options JSONB)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE orders SET inventory_applied_at = NOW() WHERE id = p_order_id AND inventory_applied_at IS NULL;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+  PERFORM decrement_inventory(p_menu_items, p_modifier_options);
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Start-of-day reset from the admin Inventory tab: restore daily counts and un-86 tracked items.
+CREATE OR REPLACE FUNCTION reset_daily_inventory()
+RETURNS VOID AS $$
+BEGIN
+  UPDATE menu_items
+  SET stock_quantity = daily_stock, is_available = true, unavailable_until = NULL, updated_at = NOW()
+  WHERE daily_stock IS NOT NULL;
+
+  UPDATE modifier_options
+  SET stock_quantity = daily_stock
+  WHERE daily_stock IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql;
+
 -- Create indexes for better query performance
 CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
 CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON order_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_menu_items_sort_order ON menu_items(sort_order);
+CREATE INDEX IF NOT EXISTS idx_menu_items_archived_at ON menu_items(archived_at);
+CREATE INDEX IF NOT EXISTS idx_modifier_options_group_id ON modifier_options(group_id);
+CREATE INDEX IF NOT EXISTS idx_carts_updated_at ON carts(updated_at);
+CREATE INDEX IF NOT EXISTS idx_orders_promo_code_id ON orders(promo_code_id, customer_phone)
+  WHERE promo_code_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_customer_phone ON loyalty_ledger(customer_phone, created_at DESC);
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE menu_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE modifier_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_item_modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE carts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
 ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE loyalty_ledger ENABLE ROW LEVEL SECURITY;
 
 -- Policy: menu_items are publicly readable
 CREATE POLICY "menu_items are publicly readable" ON menu_items
   FOR SELECT USING (true);
 
+CREATE POLICY "menu_categories are publicly readable" ON menu_categories
+  FOR SELECT USING (true);
+
+CREATE POLICY "modifier_groups are publicly readable" ON modifier_groups
+  FOR SELECT USING (true);
+
+CREATE POLICY "modifier_options are publicly readable" ON modifier_options
+  FOR SELECT USING (true);
+
+CREATE POLICY "menu_item_modifier_groups are publicly readable" ON menu_item_modifier_groups
+  FOR SELECT USING (true);
+
+CREATE POLICY "price_rules are publicly readable" ON price_rules
+  FOR SELECT USING (true);
+
+CREATE POLICY "tax_rates are publicly readable" ON tax_rates
+  FOR SELECT USING (true);
+
 -- Policy: orders can be read by authenticated users (adjust as needed)
 -- For admin dashboard, you may want to use service role key instead
 CREATE POLICY "orders are readable by service role" ON orders
@@ -75,22 +393,155 @@ CREATE POLICY "order_items are readable by service role" ON order_items
 CREATE POLICY "order_items are insertable by service role" ON order_items
   FOR INSERT WITH CHECK (true);
 
--- Insert menu items (you can modify these or insert via Supabase dashboard)
-INSERT INTO menu_items (id, name, description, price, category, image_url) VALUES
-  ('1', '#1 Gyro Sandwich', 'Tender gyro meat wrapped in warm pita bread with fresh vegetables and tzatziki sauce', 8.99, 'Sandwiches', 'https://images.unsplash.com/photo-1621996346565-e3dbc646d9a9?w=800&h=600&fit=crop'),
-  ('2', '#2 Chicken Shawarma', 'Marinated chicken shawarma with garlic sauce, pickles, and fresh vegetables in pita', 8.99, 'Sandwiches', 'https://images.unsplash.com/photo-1572442388796-11668a67e53d?w=800&h=600&fit=crop'),
-  ('3', '#3 Falafel Sandwich', 'Crispy falafel balls with tahini sauce, fresh vegetables, and pickles in pita bread', 8.99, 'Sandwiches', 'https://images.unsplash.com/photo-1596797038530-2c107229654b?w=800&h=600&fit=crop'),
-  ('4', '#4 Burger & Fries', 'Classic beef burger with lettuce, tomato, onion, and special sauce, served with crispy fries', 11.75, 'Sandwiches', 'https://images.unsplash.com/photo-1568901346375-23c9450c58cd?w=800&h=600&fit=crop'),
-  ('5', '#5 Combo Plate (Chicken Shawarma & Gyros)', 'A combination of our delicious chicken shawarma and gyro meat served with rice and salad', 11.75, 'Combo Plates', 'https://images.unsplash.com/photo-1546069901-ba9599a7e63c?w=800&h=600&fit=crop'),
-  ('6', '#6 Chicken Shawarma Over Rice', 'Tender marinated chicken shawarma served over fragrant basmati rice with garlic sauce', 11.75, 'Rice Dishes', 'https://images.unsplash.com/photo-1603133872878-684f208fb84b?w=800&h=600&fit=crop'),
-  ('7', '#7 Gyros Over Rice', 'Seasoned gyro meat served over basmati rice with tzatziki sauce and fresh vegetables', 11.75, 'Rice Dishes', 'https://images.unsplash.com/photo-1546069901-ba9599a7e63c?w=800&h=600&fit=crop'),
-  ('8', '#8 Chicken Biryani', 'Fragrant basmati rice cooked with tender chicken, aromatic spices, and herbs', 11.75, 'Rice Dishes', 'https://images.unsplash.com/photo-1631452180519-c014fe4bc3c5?w=800&h=600&fit=crop'),
-  ('9', '#9 Kobideh Kabob', 'Traditional Afghan ground beef kabob, marinated and grilled to perfection', 8.99, 'Kabobs', 'https://images.unsplash.com/photo-1529692236671-f1f6cf9683ba?w=800&h=600&fit=crop'),
-  ('10', '#10 8 PC Chicken Nugget & Fries', 'Eight crispy chicken nuggets served with golden french fries and your choice of dipping sauce', 11.75, 'Appetizers', 'https://images.unsplash.com/photo-1527477396000-e27137b9250d?w=800&h=600&fit=crop'),
-  ('11', '#11 Chicken Tikka', 'Tender chicken pieces marinated in yogurt and spices, grilled to perfection', 13.75, 'Kabobs', 'https://images.unsplash.com/photo-1603133872878-684f208fb84b?w=800&h=600&fit=crop'),
-  ('12', '#12 Lamb Shank Over Rice', 'Slow-cooked tender lamb shank served over basmati rice with aromatic spices', 11.75, 'Rice Dishes', 'https://images.unsplash.com/photo-1546069901-ba9599a7e63c?w=800&h=600&fit=crop'),
-  ('13', '#13 Sultani Kabob', 'A combination of tender filet mignon and juicy chicken breast, grilled to perfection', 11.75, 'Kabobs', 'https://images.unsplash.com/photo-1529692236671-f1f6cf9683ba?w=800&h=600&fit=crop'),
-  ('14', '#14 Falafel Over Rice', 'Crispy falafel served over basmati rice with tahini sauce and fresh vegetables', 11.75, 'Rice Dishes', 'https://images.unsplash.com/photo-1596797038530-2c107229654b?w=800&h=600&fit=crop'),
-  ('15', '#15 Fish Over Rice', 'Grilled fish fillet served over basmati rice with lemon and herbs', 8.99, 'Rice Dishes', 'https://images.unsplash.com/photo-1546069901-ba9599a7e63c?w=800&h=600&fit=crop'),
-  ('16', '#16 Chicken Wings & Fries', 'Crispy chicken wings tossed in your choice of sauce, served with golden french fries', 11.75, 'Appetizers', 'https://images.unsplash.com/photo-1527477396000-e27137b9250d?w=800&h=600&fit=crop')
+-- Insert menu categories (display order)
+INSERT INTO menu_categories (name, sort_order) VALUES
+  ('Appetizers', 0),
+  ('Rice Dishes', 1),
+  ('Sandwiches', 2),
+  ('Kabobs', 3),
+  ('Combo Plates', 4),
+  ('Drinks', 5),
+  ('Desserts', 6)
+ON CONFLICT (name) DO NOTHING;
+
+-- Default sales tax (edit in the admin Taxes tab)
+INSERT INTO tax_rates (name, jurisdiction, rate)
+SELECT 'Sales tax', 'Default', 8
+WHERE NOT EXISTS (SELECT 1 FROM tax_rates);
+
+-- Insert menu items (mirrors lib/menu-data.ts; the app serves the menu from this table via /api/menu)
+INSERT INTO menu_items (id, name, description, price, category, image_url, sort_order) VALUES
+  ('lamb-kabob-rice', 'Lamb Kabob with Rice', 'Char-grilled lamb kabob served over warm, seasoned rice for a hearty and satisfying meal.', 16.99, 'Rice Dishes', '/images/menu/lamb-kabob-rice.webp', 0),
+  ('kobidah-kabob-rice', 'Kobidah Kabob with Rice', 'Juicy, well-seasoned ground beef kobidah kabob grilled and served over rice.', 14.99, 'Rice Dishes', '/images/menu/kobidah-kabob-rice.webp', 1),
+  ('chicken-kabob-rice', 'Chicken Kabob with Rice', 'Tender, well-cooked chicken kabob grilled and served over rice.', 14.99, 'Rice Dishes', '/images/menu/chicken-kabob-rice.webp', 2),
+  ('gyro-rice', 'Gyro with Rice', 'Savory gyro meat served over rice—simple, flavorful, and filling.', 14.99, 'Rice Dishes', '/images/menu/gyro-rice.webp', 3),
+  ('lamb-shank-rice', 'Lamb Shank with Rice', 'Slow-cooked lamb shank served over rice for rich, comforting flavor in every bite.', 14.99, 'Rice Dishes', '/images/menu/lamb-shank-rice.webp', 4),
+  ('shawarma-rice', 'Shawarma with Rice', 'Well-seasoned chicken shawarma served over rice—classic, bold, and delicious.', 14.99, 'Rice Dishes', '/images/menu/shawarma-rice.webp', 5),
+  ('gyro-sandwich', 'Gyro Sandwich', 'A warm pita filled with savory gyro meat—quick, classic, and satisfying.', 7.99, 'Sandwiches', '/images/menu/gyro-sandwich.webp', 6),
+  ('chicken-sandwich', 'Chicken Sandwich', 'A flavorful chicken sandwich made fresh to order in warm pita.', 7.99, 'Sandwiches', '/images/menu/chicken-sandwich.webp', 7),
+  ('falafel-sandwich', 'Falafel Sandwich', 'Crispy falafel tucked into warm pita—packed with flavor and great for any time.', 7.99, 'Sandwiches', '/images/menu/flafel-sandwich.webp', 8),
+  ('potato-or-beef-sambosa', 'Potato or Beef Sambosa', 'Golden, crispy sambosa—perfectly seasoned and fried until crunchy.', 0.50, 'Appetizers', '/images/menu/potato-or-beef-sambosa.webp', 9),
+  ('chicken-wings', 'Chicken Wings', 'Crispy chicken wings cooked until golden—perfect for sharing (or not).', 7.99, 'Appetizers', '/images/menu/chicken-wings.webp', 10),
+  ('falafel', 'Falafel', 'Crispy, well-seasoned falafel—crunchy outside, tender inside.', 7.99, 'Appetizers', '/images/menu/flafel.webp', 11)
 ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO menu_items (id, name, description, price, category, item_type, sort_order) VALUES
+  ('combo-plate', 'Combo Plate', 'Pick any two of our grilled meats or falafel, served with salad and your choice of side.', 17.99, 'Combo Plates', 'combo', 12)
+ON CONFLICT (id) DO NOTHING;
+
+-- Dietary tags and allergens (mirrors lib/menu-data.ts)
+UPDATE menu_items SET allergens = ARRAY['milk']::TEXT[] WHERE id = 'lamb-kabob-rice' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['milk']::TEXT[] WHERE id = 'kobidah-kabob-rice' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['milk']::TEXT[] WHERE id = 'chicken-kabob-rice' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['milk']::TEXT[] WHERE id = 'gyro-rice' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['milk']::TEXT[] WHERE id = 'lamb-shank-rice' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['milk']::TEXT[] WHERE id = 'shawarma-rice' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['milk', 'wheat']::TEXT[] WHERE id = 'gyro-sandwich' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['milk', 'wheat']::TEXT[] WHERE id = 'chicken-sandwich' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET dietary_tags = ARRAY['vegetarian']::TEXT[], allergens = ARRAY['milk', 'wheat']::TEXT[] WHERE id = 'falafel-sandwich' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['wheat']::TEXT[] WHERE id = 'potato-or-beef-sambosa' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET dietary_tags = ARRAY['vegetarian', 'vegan']::TEXT[] WHERE id = 'falafel' AND dietary_tags = '{}' AND allergens = '{}';
+UPDATE menu_items SET allergens = ARRAY['milk']::TEXT[] WHERE id = 'combo-plate' AND dietary_tags = '{}' AND allergens = '{}';
+
+-- Insert modifier groups, options and item assignments (mirrors lib/menu-data.ts)
+INSERT INTO modifier_groups (id, name, min_selections, max_selections, sort_order) VALUES
+  ('add-ons', 'OPTIONS', 0, NULL, 0),
+  ('requests', 'Special requests', 0, NULL, 1),
+  ('combo-proteins', 'Proteins', 2, 2, 2),
+  ('combo-side', 'Side', 1, 1, 3),
+  ('sambosa-filling', 'Sambosa filling', 1, 1, 4)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO modifier_options (id, group_id, label, price, sort_order) VALUES
+  ('extra-rice', 'add-ons', 'XTRA RICE', 1.00, 0),
+  ('extra-gyros', 'add-ons', 'XTRA GYROS', 1.00, 1),
+  ('extra-chicken-shawarma', 'add-ons', 'XTRA CHICKEN SHAWARMA', 1.00, 2),
+  ('extra-chicken-kabob', 'add-ons', 'XTRA CHICKEN KABOB', 1.00, 3),
+  ('extra-kobideh', 'add-ons', 'XTRA KOBIDEH KABOB (BEEF)', 1.00, 4),
+  ('extra-falafel', 'add-ons', 'XTRA 3 PCS FALAFEL', 1.00, 5),
+  ('extra-lamb-kabob', 'add-ons', 'XTRA LAMB KABOB', 1.00, 6),
+  ('no-salad', 'requests', 'NO SALAD', 0.00, 0),
+  ('no-lettuce', 'requests', 'NO LETTUCE', 0.00, 1),
+  ('no-sauce', 'requests', 'NO SAUCE', 0.00, 2),
+  ('add-hot-sauce', 'requests', 'ADD HOT SAUCE', 0.00, 3),
+  ('extra-white-sauce', 'requests', 'XTRA WHITE SAUCE', 0.00, 4),
+  ('no-fries', 'requests', 'No fries', 0.00, 5),
+  ('combo-chicken-kabob', 'combo-proteins', 'Chicken Kabob', 0.00, 0),
+  ('combo-kobideh', 'combo-proteins', 'Kobideh Kabob (Beef)', 0.00, 1),
+  ('combo-gyro', 'combo-proteins', 'Gyro', 0.00, 2),
+  ('combo-chicken-shawarma', 'combo-proteins', 'Chicken Shawarma', 0.00, 3),
+  ('combo-falafel', 'combo-proteins', 'Falafel', 0.00, 4),
+  ('combo-lamb-kabob', 'combo-proteins', 'Lamb Kabob', 2.00, 5),
+  ('combo-side-rice', 'combo-side', 'Seasoned Rice', 0.00, 0),
+  ('combo-side-fries', 'combo-side', 'Fries', 0.00, 1),
+  ('combo-side-salad', 'combo-side', 'Extra Salad', 0.00, 2),
+  ('sambosa-potato', 'sambosa-filling', 'Potato', 0.00, 0),
+  ('sambosa-beef', 'sambosa-filling', 'Beef', 0.00, 1)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO menu_item_modifier_groups (menu_item_id, group_id, option_ids, sort_order) VALUES
+  ('lamb-kabob-rice', 'add-ons', ARRAY['extra-rice', 'extra-lamb-kabob'], 0),
+  ('lamb-kabob-rice', 'requests', ARRAY['no-salad', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 1),
+  ('kobidah-kabob-rice', 'add-ons', ARRAY['extra-rice', 'extra-kobideh'], 0),
+  ('kobidah-kabob-rice', 'requests', ARRAY['no-salad', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 1),
+  ('chicken-kabob-rice', 'add-ons', ARRAY['extra-rice', 'extra-chicken-kabob'], 0),
+  ('chicken-kabob-rice', 'requests', ARRAY['no-salad', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 1),
+  ('gyro-rice', 'add-ons', ARRAY['extra-rice', 'extra-gyros'], 0),
+  ('gyro-rice', 'requests', ARRAY['no-salad', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 1),
+  ('lamb-shank-rice', 'add-ons', ARRAY['extra-rice'], 0),
+  ('lamb-shank-rice', 'requests', ARRAY['no-salad', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 1),
+  ('shawarma-rice', 'add-ons', ARRAY['extra-rice', 'extra-chicken-shawarma'], 0),
+  ('shawarma-rice', 'requests', ARRAY['no-salad', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 1),
+  ('gyro-sandwich', 'requests', ARRAY['no-lettuce', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 0),
+  ('chicken-sandwich', 'requests', ARRAY['no-lettuce', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 0),
+  ('falafel-sandwich', 'requests', ARRAY['no-lettuce', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 0),
+  ('potato-or-beef-sambosa', 'sambosa-filling', NULL, 0),
+  ('falafel', 'add-ons', ARRAY['extra-falafel'], 0),
+  ('combo-plate', 'combo-proteins', NULL, 0),
+  ('combo-plate', 'combo-side', NULL, 1),
+  ('combo-plate', 'requests', ARRAY['no-salad', 'no-sauce', 'add-hot-sauce', 'extra-white-sauce'], 2)
+ON CONFLICT (menu_item_id, group_id) DO NOTHING;
+
+-- Translations (mirrors lib/menu-data.ts)
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"کباب گوسفند با برنج","description":"کباب گوسفند کبابی روی ذغال، با برنج گرم و خوش‌طعم؛ یک غذای سیر و دلچسب."},"ps":{"name":"د پسه کباب له وريجو سره","description":"د سکرو پر سر پوخ شوی د پسه کباب، له تودو او مزه‌دارو وريجو سره؛ ماړه او خوندوره ډوډۍ."},"es":{"name":"Kebab de cordero con arroz","description":"Kebab de cordero asado a la parrilla sobre arroz caliente y sazonado, una comida abundante y satisfactoria."}}'::JSONB WHERE id = 'lamb-kabob-rice' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"کباب کوبیده با برنج","description":"کباب کوبیده آبدار از گوشت گاو چرخ‌کرده و خوش‌ادویه، کباب‌شده و با برنج."},"ps":{"name":"کوبیده کباب له وريجو سره","description":"د غوا د قیمه شوې غوښې اوبلن او مساله‌دار کوبیده کباب، په سکرو پوخ او له وريجو سره."},"es":{"name":"Kebab kobidah con arroz","description":"Jugoso kebab kobidah de carne de res molida bien sazonada, asado y servido sobre arroz."}}'::JSONB WHERE id = 'kobidah-kabob-rice' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"کباب مرغ با برنج","description":"کباب مرغ نرم و خوب پخته، کباب‌شده و با برنج."},"ps":{"name":"د چرګ کباب له وريجو سره","description":"نرم او ښه پوخ شوی د چرګ کباب، له وريجو سره."},"es":{"name":"Kebab de pollo con arroz","description":"Kebab de pollo tierno y bien cocido, asado y servido sobre arroz."}}'::JSONB WHERE id = 'chicken-kabob-rice' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"گیرو با برنج","description":"گوشت گیروی خوش‌طعم روی برنج؛ ساده، لذیذ و سیرکننده."},"ps":{"name":"ګایرو له وريجو سره","description":"مزه‌داره ګایرو غوښه له وريجو سره؛ ساده، خوندوره او ماړونکې."},"es":{"name":"Gyro con arroz","description":"Sabrosa carne de gyro sobre arroz: sencillo, delicioso y llenador."}}'::JSONB WHERE id = 'gyro-rice' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"ماهیچه گوسفند با برنج","description":"ماهیچه گوسفند آرام‌پز روی برنج، با طعمی غنی و دلنشین در هر لقمه."},"ps":{"name":"د پسه پنډۍ له وريجو سره","description":"ورو ورو پخه شوې د پسه پنډۍ له وريجو سره، په هره ګوله کې بډای او خوندور خوند."},"es":{"name":"Chamorro de cordero con arroz","description":"Chamorro de cordero cocido a fuego lento sobre arroz, con un sabor intenso y reconfortante en cada bocado."}}'::JSONB WHERE id = 'lamb-shank-rice' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"شاورمه با برنج","description":"شاورمه مرغ خوش‌ادویه روی برنج؛ کلاسیک، پرطعم و لذیذ."},"ps":{"name":"شاورما له وريجو سره","description":"مساله‌داره د چرګ شاورما له وريجو سره؛ کلاسیکه، تېز خوند لرونکې او خوندوره."},"es":{"name":"Shawarma con arroz","description":"Shawarma de pollo bien sazonado sobre arroz: clásico, intenso y delicioso."}}'::JSONB WHERE id = 'shawarma-rice' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"ساندویچ گیرو","description":"نان پیتای گرم پر از گوشت گیروی خوش‌طعم؛ سریع، کلاسیک و سیرکننده."},"ps":{"name":"ګایرو سانډویچ","description":"توده پیټا ډوډۍ له مزه‌دارې ګایرو غوښې ډکه؛ چټکه، کلاسیکه او ماړونکې."},"es":{"name":"Sándwich de gyro","description":"Pan pita caliente relleno de sabrosa carne de gyro: rápido, clásico y satisfactorio."}}'::JSONB WHERE id = 'gyro-sandwich' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"ساندویچ مرغ","description":"ساندویچ مرغ پرطعم که تازه در نان پیتای گرم آماده می‌شود."},"ps":{"name":"د چرګ سانډویچ","description":"خوندور د چرګ سانډویچ چې په توده پیټا ډوډۍ کې تازه جوړېږي."},"es":{"name":"Sándwich de pollo","description":"Un sabroso sándwich de pollo preparado al momento en pan pita caliente."}}'::JSONB WHERE id = 'chicken-sandwich' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"ساندویچ فلافل","description":"فلافل ترد در نان پیتای گرم؛ پرطعم و مناسب برای هر وقت."},"ps":{"name":"د فلافلو سانډویچ","description":"کړپ فلافل په توده پیټا ډوډۍ کې؛ له خوند ډک او د هر وخت لپاره ښه."},"es":{"name":"Sándwich de falafel","description":"Falafel crujiente en pan pita caliente: lleno de sabor e ideal a cualquier hora."}}'::JSONB WHERE id = 'falafel-sandwich' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"سمبوسه کچالو یا گوشت","description":"سمبوسه طلایی و ترد، با ادویه کامل و سرخ‌شده تا کاملاً ترد شود."},"ps":{"name":"د کچالو یا غوښې سمبوسه","description":"طلايي او کړپ سمبوسه، په سمه توګه مساله شوې او تر کړپېدو پورې سره شوې."},"es":{"name":"Sambosa de papa o de res","description":"Sambosa dorada y crujiente, perfectamente sazonada y frita hasta quedar crocante."}}'::JSONB WHERE id = 'potato-or-beef-sambosa' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"بال مرغ","description":"بال مرغ ترد که تا طلایی شدن پخته می‌شود؛ عالی برای شریک شدن (یا نه)."},"ps":{"name":"د چرګ وزرونه","description":"کړپ د چرګ وزرونه چې تر طلايي کېدو پورې پاخه شوي؛ د شریکولو لپاره ښه (یا نه)."},"es":{"name":"Alitas de pollo","description":"Alitas de pollo crujientes y doradas, perfectas para compartir (o no)."}}'::JSONB WHERE id = 'chicken-wings' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"فلافل","description":"فلافل خوش‌ادویه؛ بیرون ترد و داخل نرم."},"ps":{"name":"فلافل","description":"ښه مساله شوي فلافل؛ بهر کړپ او دننه نرم."},"es":{"name":"Falafel","description":"Falafel bien sazonado: crujiente por fuera y suave por dentro."}}'::JSONB WHERE id = 'falafel' AND translations = '{}'::JSONB;
+UPDATE menu_items SET translations = '{"fa-AF":{"name":"بشقاب ترکیبی","description":"دو مورد از گوشت‌های کبابی یا فلافل ما را انتخاب کنید، با سالاد و غذای جانبی دلخواه شما."},"ps":{"name":"ګډ پلیټ","description":"زموږ له کباب شویو غوښو یا فلافلو څخه دوه وټاکئ، له سلاتې او ستاسو د خوښې د څنګ خوړو سره."},"es":{"name":"Plato combinado","description":"Elige dos de nuestras carnes a la parrilla o falafel, servidos con ensalada y el acompañamiento que prefieras."}}'::JSONB WHERE id = 'combo-plate' AND translations = '{}'::JSONB;
+UPDATE modifier_groups SET translations = '{"fa-AF":"گزینه‌ها","ps":"انتخابونه","es":"Opciones"}'::JSONB WHERE id = 'add-ons' AND translations = '{}'::JSONB;
+UPDATE modifier_groups SET translations = '{"fa-AF":"درخواست‌های خاص","ps":"ځانګړې غوښتنې","es":"Peticiones especiales"}'::JSONB WHERE id = 'requests' AND translations = '{}'::JSONB;
+UPDATE modifier_groups SET translations = '{"fa-AF":"پروتئین‌ها","ps":"پروټین","es":"Proteínas"}'::JSONB WHERE id = 'combo-proteins' AND translations = '{}'::JSONB;
+UPDATE modifier_groups SET translations = '{"fa-AF":"غذای جانبی","ps":"د څنګ خواړه","es":"Acompañamiento"}'::JSONB WHERE id = 'combo-side' AND translations = '{}'::JSONB;
+UPDATE modifier_groups SET translations = '{"fa-AF":"مواد داخل سمبوسه","ps":"د سمبوسې ډکول","es":"Relleno de sambosa"}'::JSONB WHERE id = 'sambosa-filling' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"برنج اضافه","ps":"اضافي وريجې","es":"Arroz extra"}'::JSONB WHERE id = 'extra-rice' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"گیروی اضافه","ps":"اضافي ګایرو","es":"Gyro extra"}'::JSONB WHERE id = 'extra-gyros' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"شاورمه مرغ اضافه","ps":"اضافي د چرګ شاورما","es":"Shawarma de pollo extra"}'::JSONB WHERE id = 'extra-chicken-shawarma' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"کباب مرغ اضافه","ps":"اضافي د چرګ کباب","es":"Kebab de pollo extra"}'::JSONB WHERE id = 'extra-chicken-kabob' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"کباب کوبیده اضافه (گوشت گاو)","ps":"اضافي کوبیده کباب (د غوا غوښه)","es":"Kebab kobideh extra (res)"}'::JSONB WHERE id = 'extra-kobideh' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"۳ دانه فلافل اضافه","ps":"۳ دانې اضافي فلافل","es":"3 piezas de falafel extra"}'::JSONB WHERE id = 'extra-falafel' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"کباب گوسفند اضافه","ps":"اضافي د پسه کباب","es":"Kebab de cordero extra"}'::JSONB WHERE id = 'extra-lamb-kabob' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"بدون سالاد","ps":"بې سلاتې","es":"Sin ensalada"}'::JSONB WHERE id = 'no-salad' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"بدون کاهو","ps":"بې کاهو","es":"Sin lechuga"}'::JSONB WHERE id = 'no-lettuce' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"بدون سس","ps":"بې ساس","es":"Sin salsa"}'::JSONB WHERE id = 'no-sauce' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"با سس تند","ps":"تریخ ساس ور اضافه کړئ","es":"Con salsa picante"}'::JSONB WHERE id = 'add-hot-sauce' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"سس سفید اضافه","ps":"اضافي سپین ساس","es":"Salsa blanca extra"}'::JSONB WHERE id = 'extra-white-sauce' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"بدون کچالوی سرخ‌کرده","ps":"بې سره شوو کچالو","es":"Sin papas fritas"}'::JSONB WHERE id = 'no-fries' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"کباب مرغ","ps":"د چرګ کباب","es":"Kebab de pollo"}'::JSONB WHERE id = 'combo-chicken-kabob' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"کباب کوبیده (گوشت گاو)","ps":"کوبیده کباب (د غوا غوښه)","es":"Kebab kobideh (res)"}'::JSONB WHERE id = 'combo-kobideh' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"گیرو","ps":"ګایرو","es":"Gyro"}'::JSONB WHERE id = 'combo-gyro' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"شاورمه مرغ","ps":"د چرګ شاورما","es":"Shawarma de pollo"}'::JSONB WHERE id = 'combo-chicken-shawarma' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"فلافل","ps":"فلافل","es":"Falafel"}'::JSONB WHERE id = 'combo-falafel' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"کباب گوسفند","ps":"د پسه کباب","es":"Kebab de cordero"}'::JSONB WHERE id = 'combo-lamb-kabob' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"برنج مصاله‌دار","ps":"مساله‌دارې وريجې","es":"Arroz sazonado"}'::JSONB WHERE id = 'combo-side-rice' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"کچالوی سرخ‌کرده","ps":"سره شوي کچالو","es":"Papas fritas"}'::JSONB WHERE id = 'combo-side-fries' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"سالاد اضافه","ps":"اضافي سلاته","es":"Ensalada extra"}'::JSONB WHERE id = 'combo-side-salad' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"کچالو","ps":"کچالو","es":"Papa"}'::JSONB WHERE id = 'sambosa-potato' AND translations = '{}'::JSONB;
+UPDATE modifier_options SET translations = '{"fa-AF":"گوشت گاو","ps":"د غوا غوښه","es":"Res"}'::JSONB WHERE id = 'sambosa-beef' AND translations = '{}'::JSONB;